@@ -0,0 +1,225 @@
+/**
+ * ArtifactVerifier - Checks a node's declared artifacts and success criteria
+ *
+ * Runs after a node executes. Every file in artifacts.files must exist (its
+ * sha256 is recorded as evidence), every entry in artifacts.outputs must be a
+ * non-empty file, and success criteria written in a checkable form must hold:
+ *
+ *   file_contains:src/app.ts:createServer    file contains the text
+ *   file_contains:src/app.ts:/listen\(\d+\)/ file matches the regex
+ *
+ * plus every guard kind understood by GuardChecker (file_exists:dist/index.js,
+ * command_succeeds:npm test when GOTN_GUARD_COMMANDS allows it, ...). Paths
+ * must stay inside the workspace. Free-text criteria are reported as
+ * "unverified" and do not fail the node.
+ */
+
+import { Node, Verification, VerificationCheck } from "./schemas.js";
+import {
+  GuardChecker,
+  parseGuard,
+  resolveWorkspaceFile,
+} from "./guardChecks.js";
+import { readFile, stat } from "fs/promises";
+import { existsSync } from "fs";
+import { createHash } from "crypto";
+
+export class ArtifactVerifier {
+  private workspacePath: string;
+  private guardChecker: GuardChecker;
+
+  constructor(workspacePath: string = ".") {
+    this.workspacePath = workspacePath;
+    this.guardChecker = new GuardChecker(workspacePath);
+  }
+
+  private async hashFile(filePath: string): Promise<string> {
+    const content = await readFile(filePath);
+    return createHash("sha256").update(content).digest("hex");
+  }
+
+  /**
+   * Check a declared file, optionally against the hash recorded last time
+   */
+  async checkFile(
+    file: string,
+    expectedHash?: string
+  ): Promise<VerificationCheck> {
+    const filePath = resolveWorkspaceFile(this.workspacePath, file);
+    if (!filePath || !existsSync(filePath)) {
+      return {
+        kind: "file",
+        target: file,
+        status: "failed",
+        detail: filePath
+          ? `${file} does not exist`
+          : `${file} is outside the workspace`,
+      };
+    }
+
+    const sha256 = await this.hashFile(filePath);
+    if (expectedHash && expectedHash !== sha256) {
+      return {
+        kind: "file",
+        target: file,
+        status: "failed",
+        detail: `${file} changed since it was last verified`,
+        sha256,
+      };
+    }
+
+    return {
+      kind: "file",
+      target: file,
+      status: "passed",
+      detail: `${file} exists`,
+      sha256,
+    };
+  }
+
+  /**
+   * Check that a declared output exists and is not empty
+   */
+  async checkOutput(output: string): Promise<VerificationCheck> {
+    const outputPath = resolveWorkspaceFile(this.workspacePath, output);
+    const check = (passed: boolean, detail: string): VerificationCheck => ({
+      kind: "output",
+      target: output,
+      status: passed ? "passed" : "failed",
+      detail,
+    });
+
+    if (!outputPath) {
+      return check(false, `${output} is outside the workspace`);
+    }
+    if (!existsSync(outputPath)) {
+      return check(false, `${output} does not exist`);
+    }
+    const info = await stat(outputPath);
+    return info.size > 0
+      ? check(true, `${output} has ${info.size} bytes`)
+      : check(false, `${output} is empty`);
+  }
+
+  private async checkFileContains(
+    criterion: string,
+    file: string,
+    pattern: string
+  ): Promise<VerificationCheck> {
+    const check = (passed: boolean, detail: string): VerificationCheck => ({
+      kind: "criterion",
+      target: criterion,
+      status: passed ? "passed" : "failed",
+      detail,
+    });
+
+    const filePath = resolveWorkspaceFile(this.workspacePath, file);
+    if (!filePath) {
+      return check(false, `${file} is outside the workspace`);
+    }
+    if (!existsSync(filePath)) {
+      return check(false, `${file} does not exist`);
+    }
+
+    const content = await readFile(filePath, "utf8");
+    const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+
+    let found: boolean;
+    if (regex) {
+      try {
+        found = new RegExp(regex[1], regex[2]).test(content);
+      } catch (error: any) {
+        return check(false, `Invalid pattern: ${error.message}`);
+      }
+    } else {
+      found = content.includes(pattern);
+    }
+
+    return found
+      ? check(true, `${file} contains ${pattern}`)
+      : check(false, `${file} does not contain ${pattern}`);
+  }
+
+  /**
+   * Check one success criterion
+   */
+  async checkCriterion(criterion: string): Promise<VerificationCheck> {
+    const contains = criterion.trim().match(/^file_contains:([^:]+):(.+)$/);
+    if (contains) {
+      return this.checkFileContains(
+        criterion,
+        contains[1].trim(),
+        contains[2].trim()
+      );
+    }
+
+    const guard = parseGuard(criterion);
+    if (guard) {
+      const result = await this.guardChecker.checkGuard(guard);
+      return {
+        kind: "criterion",
+        target: criterion,
+        status: result.status,
+        detail: result.detail,
+      };
+    }
+
+    return {
+      kind: "criterion",
+      target: criterion,
+      status: "unverified",
+      detail: "Free-text criterion; not machine-checkable",
+    };
+  }
+
+  /**
+   * Check declared files and outputs. With compareHashes, files must also
+   * match the hashes recorded by the node's last verification.
+   */
+  async verifyArtifacts(
+    node: Node,
+    compareHashes: boolean = false
+  ): Promise<VerificationCheck[]> {
+    const recorded = new Map<string, string>();
+    if (compareHashes) {
+      for (const check of node.verification?.checks || []) {
+        if (check.kind === "file" && check.sha256) {
+          recorded.set(check.target, check.sha256);
+        }
+      }
+    }
+
+    const checks: VerificationCheck[] = [];
+    for (const file of node.artifacts?.files || []) {
+      checks.push(await this.checkFile(file, recorded.get(file)));
+    }
+    for (const output of node.artifacts?.outputs || []) {
+      checks.push(await this.checkOutput(output));
+    }
+    return checks;
+  }
+
+  /**
+   * Verify a node after execution; passes only when no check failed
+   */
+  async verify(node: Node): Promise<Verification> {
+    const checks = await this.verifyArtifacts(node);
+    for (const criterion of node.success_criteria || []) {
+      checks.push(await this.checkCriterion(criterion));
+    }
+
+    return {
+      passed: checks.every((check) => check.status !== "failed"),
+      verified_at: new Date().toISOString(),
+      checks,
+    };
+  }
+}
+
+let defaultArtifactVerifier: ArtifactVerifier | null = null;
+
+export function getArtifactVerifier(workspacePath?: string): ArtifactVerifier {
+  if (workspacePath) return new ArtifactVerifier(workspacePath);
+  if (!defaultArtifactVerifier) defaultArtifactVerifier = new ArtifactVerifier(".");
+  return defaultArtifactVerifier;
+}
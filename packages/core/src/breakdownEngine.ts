@@ -8,7 +8,13 @@
 import { Node, NodeSchema, Edge } from "./schemas.js";
 import { getNodeStore } from "./nodeStore.js";
 import { getEdgeEngine } from "./edgeEngine.js";
-import { addEdge } from "./fsStore.js";
+import { addEdge, readGraph } from "./fsStore.js";
+import {
+  BreakdownProvider,
+  getBreakdownProvider,
+} from "./breakdownProvider.js";
+import type { BreakdownNodeReport } from "./breakdownValidation.js";
+import type { GoTNWorkspace } from "./workspace.js";
 
 export interface BreakdownRequest {
   project_id: string;
@@ -22,6 +28,8 @@ export interface BreakdownResult {
   created_edge_count: number;
   root_id: string;
   total_nodes: number;
+  provider: string;
+  validation_report: BreakdownNodeReport[];
 }
 
 export interface LLMBreakdownNode {
@@ -41,387 +49,170 @@ export interface LLMBreakdownNode {
 export interface LLMBreakdownResponse {
   root_id: string;
   nodes: LLMBreakdownNode[];
+  report?: BreakdownNodeReport[];
 }
 
-export class BreakdownEngine {
-  private initialized = false;
+export interface AtomicityHeuristic {
+  max_words: number;
+  max_depth: number;
+}
 
-  constructor() {}
+export interface AtomicityCheck {
+  atomic: boolean;
+  reason: string;
+  estimated_words: number;
+  depth: number;
+}
 
-  private async ensureInitialized() {
-    if (this.initialized) return;
-    // Future: Initialize LLM client here
-    this.initialized = true;
+export interface RefineRequest {
+  project_id: string;
+  node_id: string;
+  max_nodes?: number;
+  recursive?: boolean;
+  force?: boolean;
+  heuristic?: Partial<AtomicityHeuristic>;
+}
+
+export interface RefineResult {
+  node_id: string;
+  refined: boolean;
+  reason: string;
+  depth: number;
+  created_node_ids: string[];
+  created_edge_count: number;
+  provider: string;
+}
+
+export const DEFAULT_ATOMICITY: AtomicityHeuristic = {
+  max_words: Number(process.env.GOTN_REFINE_MAX_WORDS) || 40,
+  max_depth: Number(process.env.GOTN_REFINE_MAX_DEPTH) || 3,
+};
+
+/**
+ * Decide whether a node is small enough to execute as-is
+ */
+export function checkAtomicity(
+  node: Node,
+  depth: number,
+  heuristic: AtomicityHeuristic = DEFAULT_ATOMICITY
+): AtomicityCheck {
+  const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  const estimatedWords =
+    countWords(node.prompt_text) +
+    node.success_criteria.reduce((sum, c) => sum + countWords(c), 0);
+
+  if (depth >= heuristic.max_depth) {
+    return {
+      atomic: true,
+      reason: `Depth ${depth} reached limit of ${heuristic.max_depth}`,
+      estimated_words: estimatedWords,
+      depth,
+    };
+  }
+
+  if (estimatedWords <= heuristic.max_words) {
+    return {
+      atomic: true,
+      reason: `Estimated size ${estimatedWords} words is within ${heuristic.max_words}`,
+      estimated_words: estimatedWords,
+      depth,
+    };
+  }
+
+  return {
+    atomic: false,
+    reason: `Estimated size ${estimatedWords} words exceeds ${heuristic.max_words}`,
+    estimated_words: estimatedWords,
+    depth,
+  };
+}
+
+export class BreakdownEngine {
+  private provider: BreakdownProvider;
+  private workspace?: GoTNWorkspace;
+  private workspacePath: string;
+
+  constructor(
+    provider: BreakdownProvider = getBreakdownProvider(),
+    workspace?: GoTNWorkspace
+  ) {
+    this.provider = provider;
+    this.workspace = workspace;
+    this.workspacePath = workspace?.path ?? ".";
+  }
+
+  /**
+   * Name of the provider backing this engine
+   */
+  get providerName(): string {
+    return this.provider.name;
   }
 
   /**
-   * Generate breakdown using LLM (mock implementation for now)
+   * Generate breakdown using the configured provider
    */
   private async generateBreakdown(
     prompt: string,
     mode: "tree" | "flat",
     maxNodes: number
   ): Promise<LLMBreakdownResponse> {
-    await this.ensureInitialized();
-
-    // For now, return fixture data based on prompt content
-    // In real implementation, this would call an LLM API
-    if (
-      prompt.toLowerCase().includes("iot") ||
-      prompt.toLowerCase().includes("kafka") ||
-      prompt.toLowerCase().includes("streaming")
-    ) {
-      return this.getIoTPipelineFixture();
-    } else if (
-      prompt.toLowerCase().includes("landing") ||
-      prompt.toLowerCase().includes("page") ||
-      prompt.toLowerCase().includes("website")
-    ) {
-      return this.getLandingPageFixture();
-    } else {
-      // Generic breakdown for other prompts
-      return this.getGenericBreakdown(prompt, mode, maxNodes);
-    }
-  }
+    const response = await this.provider.generate({
+      prompt,
+      mode,
+      max_nodes: maxNodes,
+    });
 
-  /**
-   * IoT Pipeline fixture for testing
-   */
-  private getIoTPipelineFixture(): LLMBreakdownResponse {
-    return {
-      root_id: "iot_pipeline_root",
-      nodes: [
-        {
-          id: "iot_pipeline_root",
-          summary: "Complete IoT streaming data pipeline",
-          prompt_text:
-            "Build end-to-end IoT data pipeline from sensors to warehouse",
-          children: [
-            "setup_kafka_broker",
-            "setup_spark_consumer",
-            "data_transformation",
-            "write_to_snowflake",
-          ],
-          requires: [],
-          produces: ["iot_pipeline_complete"],
-          exec_target: "infrastructure/",
-          success_criteria: [
-            "Data flows from sensors to warehouse",
-            "Pipeline handles 10k events/sec",
-          ],
-          guards: ["Check infrastructure capacity"],
-          tags: ["iot", "pipeline", "streaming"],
-        },
-        {
-          id: "setup_kafka_broker",
-          summary: "Set up Kafka message broker for IoT events",
-          prompt_text:
-            "Deploy and configure Apache Kafka broker with proper topics for IoT sensor data ingestion",
-          parent: "iot_pipeline_root",
-          children: [],
-          requires: ["docker_runtime"],
-          produces: ["kafka_cluster_ready", "sensor_topics_created"],
-          exec_target: "infrastructure/kafka/docker-compose.yml",
-          success_criteria: [
-            "Kafka broker accepts connections",
-            "Topics created successfully",
-          ],
-          guards: ["Check port 9092 availability", "Verify Docker is running"],
-          tags: ["kafka", "messaging", "broker", "iot"],
-        },
-        {
-          id: "setup_spark_consumer",
-          summary: "Create Spark streaming consumer for Kafka",
-          prompt_text:
-            "Implement Spark Structured Streaming application to consume IoT events from Kafka topics",
-          parent: "iot_pipeline_root",
-          children: [],
-          requires: ["kafka_cluster_ready", "spark_cluster"],
-          produces: ["spark_stream_ready", "event_processing"],
-          exec_target: "src/streaming/spark_consumer.py",
-          success_criteria: [
-            "Consumer processes messages",
-            "No message loss",
-            "Handles backpressure",
-          ],
-          guards: ["Verify Kafka is running", "Check Spark cluster health"],
-          tags: ["spark", "streaming", "consumer", "iot"],
-        },
-        {
-          id: "data_transformation",
-          summary: "Transform and clean IoT sensor data",
-          prompt_text:
-            "Apply data transformations, filtering, and enrichment to raw IoT sensor events",
-          parent: "iot_pipeline_root",
-          children: [],
-          requires: ["spark_stream_ready"],
-          produces: ["clean_events", "enriched_data"],
-          exec_target: "src/transformations/iot_transforms.py",
-          success_criteria: [
-            "Data quality checks pass",
-            "Schema validation successful",
-          ],
-          guards: ["Verify data format", "Check transformation rules"],
-          tags: ["transformation", "data-quality", "iot"],
-        },
-        {
-          id: "write_to_snowflake",
-          summary: "Write processed IoT data to Snowflake warehouse",
-          prompt_text:
-            "Create data sink that writes cleaned and transformed IoT data to Snowflake tables with proper schema",
-          parent: "iot_pipeline_root",
-          children: [],
-          requires: ["clean_events", "snowflake_credentials"],
-          produces: ["warehouse_loaded", "data_persisted"],
-          exec_target: "src/sinks/snowflake_writer.py",
-          success_criteria: [
-            "Data appears in Snowflake",
-            "Schema matches expectations",
-            "No data loss",
-          ],
-          guards: ["Check Snowflake credentials", "Verify table schema"],
-          tags: ["snowflake", "data-warehouse", "sink", "iot"],
-        },
-        {
-          id: "setup_monitoring",
-          summary: "Set up monitoring and alerting for IoT pipeline",
-          prompt_text:
-            "Deploy monitoring stack with metrics, logs, and alerts for the IoT data pipeline",
-          parent: "iot_pipeline_root",
-          children: [],
-          requires: [],
-          produces: ["monitoring_stack", "alerts_configured"],
-          exec_target: "infrastructure/monitoring/",
-          success_criteria: [
-            "Metrics visible in dashboard",
-            "Alerts fire correctly",
-          ],
-          guards: ["Check monitoring endpoints"],
-          tags: ["monitoring", "observability", "iot"],
-        },
-        {
-          id: "data_validation",
-          summary: "Validate IoT data quality and completeness",
-          prompt_text:
-            "Implement data validation checks and quality monitoring for IoT sensor data",
-          parent: "iot_pipeline_root",
-          children: [],
-          requires: ["warehouse_loaded"],
-          produces: ["data_quality_reports", "validation_metrics"],
-          exec_target: "src/validation/data_quality.py",
-          success_criteria: ["Quality checks pass", "Reports generated"],
-          guards: ["Verify data completeness"],
-          tags: ["data-quality", "validation", "iot"],
-        },
-        {
-          id: "api_endpoints",
-          summary: "Create API endpoints for IoT data access",
-          prompt_text:
-            "Build REST API endpoints to query and retrieve IoT data from the warehouse",
-          parent: "iot_pipeline_root",
-          children: [],
-          requires: ["warehouse_loaded"],
-          produces: ["api_service", "data_access_layer"],
-          exec_target: "src/api/iot_api.py",
-          success_criteria: ["API responds correctly", "Data queries work"],
-          guards: ["Check API authentication"],
-          tags: ["api", "rest", "iot", "access"],
-        },
-        {
-          id: "dashboard_creation",
-          summary: "Create IoT data visualization dashboard",
-          prompt_text:
-            "Build interactive dashboard to visualize IoT sensor data and pipeline metrics",
-          parent: "iot_pipeline_root",
-          children: [],
-          requires: ["api_service", "monitoring_stack"],
-          produces: ["iot_dashboard", "visualizations"],
-          exec_target: "frontend/dashboard/",
-          success_criteria: [
-            "Dashboard loads correctly",
-            "Charts display data",
-          ],
-          guards: ["Check data availability"],
-          tags: ["dashboard", "visualization", "iot", "frontend"],
-        },
-      ],
-    };
-  }
+    if (!response?.nodes?.length) {
+      throw new Error(
+        `Breakdown provider "${this.provider.name}" returned no nodes`
+      );
+    }
 
-  /**
-   * Landing Page fixture for testing
-   */
-  private getLandingPageFixture(): LLMBreakdownResponse {
-    return {
-      root_id: "landing_page_root",
-      nodes: [
-        {
-          id: "landing_page_root",
-          summary: "Complete landing page website",
-          prompt_text: "Build modern responsive landing page with all sections",
-          children: [
-            "setup_project",
-            "create_header",
-            "hero_section",
-            "features_section",
-            "footer_section",
-          ],
-          requires: [],
-          produces: ["landing_page_complete"],
-          exec_target: "src/",
-          success_criteria: [
-            "Page loads correctly",
-            "Mobile responsive",
-            "SEO optimized",
-          ],
-          guards: ["Check browser compatibility"],
-          tags: ["website", "landing", "frontend"],
-        },
-        {
-          id: "setup_project",
-          summary: "Set up project structure and dependencies",
-          prompt_text:
-            "Initialize project with build tools, dependencies, and folder structure",
-          parent: "landing_page_root",
-          children: [],
-          requires: [],
-          produces: ["project_setup", "build_tools"],
-          exec_target: "package.json",
-          success_criteria: ["Dependencies installed", "Build scripts work"],
-          guards: ["Check Node.js version"],
-          tags: ["setup", "dependencies", "project"],
-        },
-        {
-          id: "create_header",
-          summary: "Create navigation header component",
-          prompt_text:
-            "Build responsive navigation header with logo and menu items",
-          parent: "landing_page_root",
-          children: [],
-          requires: ["project_setup"],
-          produces: ["header_component", "navigation"],
-          exec_target: "src/components/Header.jsx",
-          success_criteria: ["Header displays correctly", "Navigation works"],
-          guards: ["Check responsive behavior"],
-          tags: ["header", "navigation", "component"],
-        },
-        {
-          id: "hero_section",
-          summary: "Create hero section with call-to-action",
-          prompt_text:
-            "Build compelling hero section with headline, description, and CTA button",
-          parent: "landing_page_root",
-          children: [],
-          requires: ["project_setup"],
-          produces: ["hero_component", "cta_button"],
-          exec_target: "src/components/Hero.jsx",
-          success_criteria: ["Hero displays correctly", "CTA button works"],
-          guards: ["Check content alignment"],
-          tags: ["hero", "cta", "component"],
-        },
-        {
-          id: "features_section",
-          summary: "Create features showcase section",
-          prompt_text:
-            "Build features section highlighting key product benefits with icons",
-          parent: "landing_page_root",
-          children: [],
-          requires: ["project_setup"],
-          produces: ["features_component", "feature_cards"],
-          exec_target: "src/components/Features.jsx",
-          success_criteria: ["Features display correctly", "Icons load"],
-          guards: ["Check content accuracy"],
-          tags: ["features", "benefits", "component"],
-        },
-        {
-          id: "footer_section",
-          summary: "Create footer with links and contact info",
-          prompt_text:
-            "Build footer section with links, social media, and contact information",
-          parent: "landing_page_root",
-          children: [],
-          requires: ["project_setup"],
-          produces: ["footer_component", "contact_links"],
-          exec_target: "src/components/Footer.jsx",
-          success_criteria: ["Footer displays correctly", "Links work"],
-          guards: ["Check link validity"],
-          tags: ["footer", "links", "component"],
-        },
-      ],
-    };
+    return this.shapeBreakdown(response, mode, maxNodes);
   }
 
   /**
-   * Generic breakdown for other prompts
+   * Enforce mode and max_nodes on a provider response, whatever it returned
    */
-  private getGenericBreakdown(
-    prompt: string,
+  private shapeBreakdown(
+    response: LLMBreakdownResponse,
     mode: "tree" | "flat",
     maxNodes: number
   ): LLMBreakdownResponse {
-    const rootId = "generic_task_root";
+    const limit = Math.max(1, Math.floor(maxNodes));
+
+    // Keep the root first so truncation never drops it
+    const root = response.nodes.find((n) => n.id === response.root_id);
+    const ordered = root
+      ? [root, ...response.nodes.filter((n) => n !== root)]
+      : response.nodes;
+
+    const kept = ordered.slice(0, limit);
+    const keptIds = new Set(kept.map((n) => n.id));
+
+    if (kept.length < response.nodes.length) {
+      console.warn(
+        `Breakdown returned ${response.nodes.length} nodes, truncated to max_nodes=${limit}`
+      );
+    }
+
+    const nodes = kept.map((node) => {
+      if (mode === "flat") {
+        return { ...node, parent: undefined, children: [] };
+      }
+
+      return {
+        ...node,
+        parent:
+          node.parent && keptIds.has(node.parent) ? node.parent : undefined,
+        children: node.children.filter((id) => keptIds.has(id)),
+      };
+    });
 
     return {
-      root_id: rootId,
-      nodes: [
-        {
-          id: rootId,
-          summary: "Complete the requested task",
-          prompt_text: prompt,
-          children: [
-            "analyze_requirements",
-            "implement_solution",
-            "test_solution",
-          ],
-          requires: [],
-          produces: ["task_complete"],
-          exec_target: "src/",
-          success_criteria: ["Task completed successfully"],
-          guards: ["Verify requirements"],
-          tags: ["generic", "task"],
-        },
-        {
-          id: "analyze_requirements",
-          summary: "Analyze task requirements",
-          prompt_text: "Break down and analyze the requirements for the task",
-          parent: rootId,
-          children: [],
-          requires: [],
-          produces: ["requirements_analyzed"],
-          exec_target: "docs/requirements.md",
-          success_criteria: ["Requirements documented"],
-          guards: [],
-          tags: ["analysis", "requirements"],
-        },
-        {
-          id: "implement_solution",
-          summary: "Implement the solution",
-          prompt_text:
-            "Implement the core solution based on analyzed requirements",
-          parent: rootId,
-          children: [],
-          requires: ["requirements_analyzed"],
-          produces: ["solution_implemented"],
-          exec_target: "src/main.js",
-          success_criteria: ["Solution works correctly"],
-          guards: ["Check implementation quality"],
-          tags: ["implementation", "solution"],
-        },
-        {
-          id: "test_solution",
-          summary: "Test the implemented solution",
-          prompt_text:
-            "Create and run tests to verify the solution works correctly",
-          parent: rootId,
-          children: [],
-          requires: ["solution_implemented"],
-          produces: ["tests_passing"],
-          exec_target: "tests/",
-          success_criteria: ["All tests pass"],
-          guards: ["Verify test coverage"],
-          tags: ["testing", "verification"],
-        },
-      ],
+      root_id: root ? root.id : nodes[0].id,
+      nodes,
+      report: response.report,
     };
   }
 
@@ -506,14 +297,13 @@ export class BreakdownEngine {
     const { project_id, prompt, mode, max_nodes } = request;
 
     console.log(
-      `Breaking down prompt for project ${project_id}: "${prompt.substring(
-        0,
-        100
-      )}..."`
+      `Breaking down prompt for project ${project_id} with ${
+        this.provider.name
+      } provider: "${prompt.substring(0, 100)}..."`
     );
 
     try {
-      // 1. Generate breakdown using LLM
+      // 1. Generate breakdown using the provider
       const llmResponse = await this.generateBreakdown(prompt, mode, max_nodes);
 
       // 2. Convert to GoTN nodes and validate with Zod
@@ -533,18 +323,14 @@ export class BreakdownEngine {
       console.log(`Validated ${validatedNodes.length} nodes from breakdown`);
 
       // 3. Store nodes with NodeStore
-      const nodeStore = getNodeStore(project_id);
-      const createdNodeIds: string[] = [];
-
-      for (const node of validatedNodes) {
-        try {
-          await nodeStore.storeNode(node);
-          createdNodeIds.push(node.id);
-          console.log(`Stored node: ${node.id}`);
-        } catch (error: any) {
-          console.warn(`Failed to store node ${node.id}:`, error.message);
-        }
+      const nodeStore = getNodeStore(project_id, this.workspace);
+      // Written one by one, embedded in one batch
+      const { created, failed } = await nodeStore.createNodes(validatedNodes);
+      const createdNodeIds = created.map((node) => node.id);
+      for (const { id, error } of failed) {
+        console.warn(`Failed to store node ${id}:`, error);
       }
+      console.log(`Stored ${createdNodeIds.length} nodes`);
 
       // 4. Create parent-child edges (derived_from type)
       const parentChildEdges = await this.createParentChildEdges(
@@ -554,7 +340,7 @@ export class BreakdownEngine {
       let edgeCount = 0;
       for (const edge of parentChildEdges) {
         try {
-          await addEdge(".", edge);
+          await addEdge(this.workspacePath, edge);
           edgeCount++;
           console.log(`Created parent-child edge: ${edge.src} -> ${edge.dst}`);
         } catch (error: any) {
@@ -564,7 +350,7 @@ export class BreakdownEngine {
 
       // 5. Run EdgeEngine on new nodes for hard/soft edges
       console.log("Running EdgeEngine on breakdown nodes...");
-      const edgeEngine = getEdgeEngine();
+      const edgeEngine = getEdgeEngine(this.workspace);
       const edgeResult = await edgeEngine.inferEdges(createdNodeIds);
 
       edgeCount += edgeResult.totalEdgesCreated;
@@ -578,12 +364,222 @@ export class BreakdownEngine {
         created_edge_count: edgeCount,
         root_id: llmResponse.root_id,
         total_nodes: createdNodeIds.length,
+        provider: this.provider.name,
+        validation_report: llmResponse.report || [],
       };
     } catch (error: any) {
       console.error("Breakdown failed:", error.message);
       throw error;
     }
   }
+  /**
+   * Depth of a node in the parent chain (top-level nodes have depth 0)
+   */
+  private getDepth(nodeId: string, nodes: Node[]): number {
+    const byId = new Map(nodes.map((n) => [n.id, n]));
+    const seen = new Set<string>();
+    let depth = 0;
+    let current = byId.get(nodeId);
+
+    while (current?.parent && !seen.has(current.parent)) {
+      seen.add(current.parent);
+      current = byId.get(current.parent);
+      depth++;
+    }
+
+    return depth;
+  }
+
+  /**
+   * Wire refined children into their parent's boundary:
+   * entry children inherit the parent's requires, exit children inherit
+   * its produces, and the parent then requires what the exit children produce
+   */
+  private inheritBoundary(parent: Node, children: Node[]): Node[] {
+    const siblingProduces = new Set(children.flatMap((c) => c.produces));
+    const siblingRequires = new Set(children.flatMap((c) => c.requires));
+
+    return children.map((child) => {
+      const isEntry = !child.requires.some((tag) => siblingProduces.has(tag));
+      const isExit = !child.produces.some((tag) => siblingRequires.has(tag));
+
+      return {
+        ...child,
+        requires: isEntry
+          ? Array.from(new Set([...parent.requires, ...child.requires]))
+          : child.requires,
+        produces: isExit
+          ? Array.from(new Set([...child.produces, ...parent.produces]))
+          : child.produces,
+      };
+    });
+  }
+
+  /**
+   * Break an existing node down into children
+   */
+  async refine(request: RefineRequest): Promise<RefineResult> {
+    const { project_id, node_id, max_nodes = 8, recursive = false } = request;
+    const heuristic = { ...DEFAULT_ATOMICITY, ...request.heuristic };
+
+    const graph = await readGraph(this.workspacePath);
+    const node = graph.nodes.find((n) => n.id === node_id);
+    if (!node) {
+      throw new Error(`Node ${node_id} not found`);
+    }
+
+    const depth = this.getDepth(node_id, graph.nodes);
+    const result: RefineResult = {
+      node_id,
+      refined: false,
+      reason: "",
+      depth,
+      created_node_ids: [],
+      created_edge_count: 0,
+      provider: this.provider.name,
+    };
+
+    if (node.children.length > 0 && !request.force) {
+      result.reason = `Node already has ${node.children.length} children`;
+      return result;
+    }
+
+    const atomicity = checkAtomicity(node, depth, heuristic);
+    if (atomicity.atomic && !request.force) {
+      result.reason = atomicity.reason;
+      return result;
+    }
+
+    console.log(
+      `Refining node ${node_id} at depth ${depth}: ${atomicity.reason}`
+    );
+
+    // 1. Decompose the node's prompt; the provider's root stands for the node
+    const llmResponse = await this.generateBreakdown(
+      node.prompt_text,
+      "tree",
+      max_nodes + 1
+    );
+    const existingIds = new Set(graph.nodes.map((n) => n.id));
+    const childIdMap = new Map<string, string>();
+    for (const llmNode of llmResponse.nodes) {
+      if (llmNode.id !== llmResponse.root_id) {
+        childIdMap.set(llmNode.id, `${node_id}__${llmNode.id}`);
+      }
+    }
+
+    const llmChildren = llmResponse.nodes
+      .filter((n) => childIdMap.has(n.id))
+      .filter((n) => !existingIds.has(childIdMap.get(n.id)!))
+      .map((n) => ({
+        ...n,
+        id: childIdMap.get(n.id)!,
+        parent: node_id,
+        children: [],
+      }));
+
+    if (llmChildren.length === 0) {
+      result.reason = "Provider returned no new children";
+      return result;
+    }
+
+    // 2. Convert, inherit the boundary and validate
+    const children = this.inheritBoundary(
+      node,
+      this.convertToGoTNNodes(llmChildren, project_id)
+    ).map((child) => ({
+      ...child,
+      provenance: { ...child.provenance, source: "llm_refinement" },
+    }));
+
+    const nodeStore = getNodeStore(project_id, this.workspace);
+    const { created, failed } = await nodeStore.createNodes(children);
+    result.created_node_ids.push(...created.map((c) => c.id));
+    for (const { id, error } of failed) {
+      console.warn(`Failed to store refined node ${id}:`, error);
+    }
+
+    const stored = children.filter((c) =>
+      result.created_node_ids.includes(c.id)
+    );
+    const exitProduces = stored
+      .filter(
+        (c) =>
+          !c.produces.some((t) => stored.some((s) => s.requires.includes(t)))
+      )
+      .flatMap((c) => c.produces.filter((t) => !node.produces.includes(t)));
+
+    // 3. The parent now aggregates its children; edits made to other fields
+    // since it was read are merged, anything else is a version conflict
+    const now = new Date().toISOString();
+    await nodeStore.updateNode(
+      {
+        ...node,
+        children: [...node.children, ...result.created_node_ids],
+        requires: Array.from(new Set([...node.requires, ...exitProduces])),
+        updated_at: now,
+      },
+      { expected_version: node.version, merge: true }
+    );
+
+    // 4. derived_from edges plus hard/soft edges among the new nodes
+    for (const edge of await this.createParentChildEdges(stored)) {
+      try {
+        await addEdge(this.workspacePath, edge);
+        result.created_edge_count++;
+      } catch (error: any) {
+        console.warn(`Failed to create parent-child edge:`, error.message);
+      }
+    }
+
+    const edgeEngine = getEdgeEngine(this.workspace);
+    const edgeResult = await edgeEngine.inferEdges(result.created_node_ids);
+    result.created_edge_count += edgeResult.totalEdgesCreated;
+
+    // 5. Hard edges across the boundary to the rest of the graph
+    const newIds = new Set(result.created_node_ids);
+    const updatedGraph = await readGraph(this.workspacePath);
+    const boundaryEdges = (
+      await edgeEngine.inferHardEdges(updatedGraph.nodes)
+    ).filter(
+      (e) =>
+        (newIds.has(e.src) || newIds.has(e.dst)) &&
+        !(newIds.has(e.src) && newIds.has(e.dst))
+    );
+
+    for (const edge of boundaryEdges) {
+      try {
+        await addEdge(this.workspacePath, edge);
+        result.created_edge_count++;
+      } catch {
+        // Edge already exists
+      }
+    }
+
+    result.refined = true;
+    result.reason = atomicity.atomic
+      ? `Forced refinement: ${atomicity.reason}`
+      : atomicity.reason;
+
+    // 6. Keep going down while children are still too big
+    if (recursive) {
+      for (const child of stored) {
+        const childResult = await this.refine({
+          ...request,
+          node_id: child.id,
+          force: false,
+        });
+        result.created_node_ids.push(...childResult.created_node_ids);
+        result.created_edge_count += childResult.created_edge_count;
+      }
+    }
+
+    console.log(
+      `Refined ${node_id} into ${result.created_node_ids.length} nodes, ${result.created_edge_count} edges`
+    );
+
+    return result;
+  }
 }
 
 /**
@@ -591,9 +587,13 @@ export class BreakdownEngine {
  */
 let defaultBreakdownEngine: BreakdownEngine | null = null;
 
-export function getBreakdownEngine(): BreakdownEngine {
-  if (!defaultBreakdownEngine) {
-    defaultBreakdownEngine = new BreakdownEngine();
+export function getBreakdownEngine(
+  provider?: BreakdownProvider,
+  workspace?: GoTNWorkspace
+): BreakdownEngine {
+  if (workspace) return workspace.getBreakdownEngine(provider);
+  if (!defaultBreakdownEngine || provider) {
+    defaultBreakdownEngine = new BreakdownEngine(provider);
   }
   return defaultBreakdownEngine;
 }
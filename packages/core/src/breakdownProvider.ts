@@ -0,0 +1,548 @@
+/**
+ * BreakdownProvider - Pluggable backends for prompt decomposition
+ *
+ * A provider turns a large prompt into an LLMBreakdownResponse. The
+ * BreakdownEngine is constructed with one, so the same pipeline can run
+ * against OpenAI, a local OpenAI-compatible endpoint, or fixtures in tests.
+ */
+
+import OpenAI from "openai";
+import type { LLMBreakdownResponse } from "./breakdownEngine.js";
+import {
+  generateValidatedBreakdown,
+  type BreakdownChatMessage,
+} from "./breakdownValidation.js";
+
+export interface BreakdownProviderRequest {
+  prompt: string;
+  mode: "tree" | "flat";
+  max_nodes: number;
+}
+
+export interface BreakdownProvider {
+  readonly name: string;
+  generate(request: BreakdownProviderRequest): Promise<LLMBreakdownResponse>;
+}
+
+export interface OpenAIBreakdownProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+  temperature?: number;
+  maxRepairs?: number;
+}
+
+/**
+ * Build the system prompt describing the expected JSON output
+ */
+export function buildBreakdownSystemPrompt(
+  mode: "tree" | "flat",
+  maxNodes: number
+): string {
+  const shape =
+    mode === "tree"
+      ? `Produce a TREE: one root node that summarises the whole task, and child nodes that set "parent" to the root id. List every child id in the root's "children".`
+      : `Produce a FLAT list: one root node that summarises the whole task, and sibling nodes without "parent" or "children". Express ordering only through "requires"/"produces".`;
+
+  return `You are an expert software architect. Break down complex development tasks into ATOMIC micro-prompts.
+
+RULES:
+1. Each task must be ATOMIC (1-3 hours of work max)
+2. Tasks must be ACTIONABLE (specific implementation steps)
+3. Include technical details (libraries, APIs, file names)
+4. Use "requires"/"produces" tags to express dependencies: a task requires a tag that another task produces
+5. Return at most ${maxNodes} nodes in total, including the root
+6. ${shape}
+7. Write guards as checkable preconditions where possible: file_exists:<path relative to the project root>, port_free:<port>, env_set:<VAR>, node_completed:<node id>. Avoid command_succeeds:<command>; commands only run when the user has allowed them
+
+OUTPUT FORMAT (JSON only, no prose):
+{
+  "root_id": "main_project",
+  "nodes": [
+    {
+      "id": "snake_case_id",
+      "summary": "Atomic task description",
+      "prompt_text": "Specific implementation steps with tech stack",
+      "parent": "main_project",
+      "children": [],
+      "requires": ["tag_produced_by_another_task"],
+      "produces": ["tag_this_task_produces"],
+      "exec_target": "specific/file/path",
+      "success_criteria": ["Measurable completion criteria"],
+      "guards": ["file_exists:package.json", "env_set:DATABASE_URL"],
+      "tags": ["frontend", "api"]
+    }
+  ]
+}`;
+}
+
+/**
+ * OpenAI chat-completions provider
+ */
+export class OpenAIBreakdownProvider implements BreakdownProvider {
+  readonly name: string = "openai";
+  protected client: OpenAI;
+  protected model: string;
+  protected temperature: number;
+  protected maxRepairs: number;
+
+  constructor(options: OpenAIBreakdownProviderOptions = {}) {
+    const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+    if (!apiKey) throw new Error("OPENAI_API_KEY missing");
+
+    this.client = new OpenAI({ apiKey, baseURL: options.baseURL });
+    this.model = options.model || process.env.GOTN_BREAKDOWN_MODEL || "gpt-4";
+    this.temperature = options.temperature ?? 0.3;
+    this.maxRepairs = options.maxRepairs ?? 2;
+  }
+
+  async generate(
+    request: BreakdownProviderRequest
+  ): Promise<LLMBreakdownResponse> {
+    const complete = async (messages: BreakdownChatMessage[]) => {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages,
+        temperature: this.temperature,
+        max_tokens: 4000,
+      });
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error(`No response from ${this.name} breakdown provider`);
+      }
+      return content;
+    };
+
+    const { response, report } = await generateValidatedBreakdown(
+      complete,
+      [
+        {
+          role: "system",
+          content: buildBreakdownSystemPrompt(request.mode, request.max_nodes),
+        },
+        {
+          role: "user",
+          content: `Break this into at most ${request.max_nodes} atomic micro-prompts:\n\n"${request.prompt}"`,
+        },
+      ],
+      this.maxRepairs
+    );
+
+    return { ...response, report };
+  }
+}
+
+/**
+ * OpenAI-compatible local endpoint (Ollama, LM Studio, vLLM, ...)
+ */
+export class LocalBreakdownProvider extends OpenAIBreakdownProvider {
+  readonly name: string = "local";
+
+  constructor(options: OpenAIBreakdownProviderOptions = {}) {
+    super({
+      apiKey: options.apiKey ?? process.env.GOTN_LLM_API_KEY ?? "local",
+      baseURL:
+        options.baseURL ??
+        process.env.GOTN_LLM_BASE_URL ??
+        "http://localhost:11434/v1",
+      model: options.model ?? process.env.GOTN_LLM_MODEL ?? "llama3.1",
+      temperature: options.temperature,
+      maxRepairs: options.maxRepairs,
+    });
+  }
+}
+
+/**
+ * Deterministic fixture provider for tests and offline demos
+ */
+export class FixtureBreakdownProvider implements BreakdownProvider {
+  readonly name: string = "fixture";
+
+  async generate(
+    request: BreakdownProviderRequest
+  ): Promise<LLMBreakdownResponse> {
+    const prompt = request.prompt.toLowerCase();
+
+    if (
+      prompt.includes("iot") ||
+      prompt.includes("kafka") ||
+      prompt.includes("streaming")
+    ) {
+      return this.getIoTPipelineFixture();
+    } else if (
+      prompt.includes("landing") ||
+      prompt.includes("page") ||
+      prompt.includes("website")
+    ) {
+      return this.getLandingPageFixture();
+    }
+
+    return this.getGenericBreakdown(request.prompt);
+  }
+
+  /**
+   * IoT Pipeline fixture for testing
+   */
+  private getIoTPipelineFixture(): LLMBreakdownResponse {
+    return {
+      root_id: "iot_pipeline_root",
+      nodes: [
+        {
+          id: "iot_pipeline_root",
+          summary: "Complete IoT streaming data pipeline",
+          prompt_text:
+            "Build end-to-end IoT data pipeline from sensors to warehouse",
+          children: [
+            "setup_kafka_broker",
+            "setup_spark_consumer",
+            "data_transformation",
+            "write_to_snowflake",
+          ],
+          requires: [],
+          produces: ["iot_pipeline_complete"],
+          exec_target: "infrastructure/",
+          success_criteria: [
+            "Data flows from sensors to warehouse",
+            "Pipeline handles 10k events/sec",
+          ],
+          guards: ["Check infrastructure capacity"],
+          tags: ["iot", "pipeline", "streaming"],
+        },
+        {
+          id: "setup_kafka_broker",
+          summary: "Set up Kafka message broker for IoT events",
+          prompt_text:
+            "Deploy and configure Apache Kafka broker with proper topics for IoT sensor data ingestion",
+          parent: "iot_pipeline_root",
+          children: [],
+          requires: ["docker_runtime"],
+          produces: ["kafka_cluster_ready", "sensor_topics_created"],
+          exec_target: "infrastructure/kafka/docker-compose.yml",
+          success_criteria: [
+            "Kafka broker accepts connections",
+            "Topics created successfully",
+          ],
+          guards: ["port_free:9092", "Verify Docker is running"],
+          tags: ["kafka", "messaging", "broker", "iot"],
+        },
+        {
+          id: "setup_spark_consumer",
+          summary: "Create Spark streaming consumer for Kafka",
+          prompt_text:
+            "Implement Spark Structured Streaming application to consume IoT events from Kafka topics",
+          parent: "iot_pipeline_root",
+          children: [],
+          requires: ["kafka_cluster_ready", "spark_cluster"],
+          produces: ["spark_stream_ready", "event_processing"],
+          exec_target: "src/streaming/spark_consumer.py",
+          success_criteria: [
+            "Consumer processes messages",
+            "No message loss",
+            "Handles backpressure",
+          ],
+          guards: ["Verify Kafka is running", "Check Spark cluster health"],
+          tags: ["spark", "streaming", "consumer", "iot"],
+        },
+        {
+          id: "data_transformation",
+          summary: "Transform and clean IoT sensor data",
+          prompt_text:
+            "Apply data transformations, filtering, and enrichment to raw IoT sensor events",
+          parent: "iot_pipeline_root",
+          children: [],
+          requires: ["spark_stream_ready"],
+          produces: ["clean_events", "enriched_data"],
+          exec_target: "src/transformations/iot_transforms.py",
+          success_criteria: [
+            "Data quality checks pass",
+            "Schema validation successful",
+          ],
+          guards: ["Verify data format", "Check transformation rules"],
+          tags: ["transformation", "data-quality", "iot"],
+        },
+        {
+          id: "write_to_snowflake",
+          summary: "Write processed IoT data to Snowflake warehouse",
+          prompt_text:
+            "Create data sink that writes cleaned and transformed IoT data to Snowflake tables with proper schema",
+          parent: "iot_pipeline_root",
+          children: [],
+          requires: ["clean_events", "snowflake_credentials"],
+          produces: ["warehouse_loaded", "data_persisted"],
+          exec_target: "src/sinks/snowflake_writer.py",
+          success_criteria: [
+            "Data appears in Snowflake",
+            "Schema matches expectations",
+            "No data loss",
+          ],
+          guards: ["Check Snowflake credentials", "Verify table schema"],
+          tags: ["snowflake", "data-warehouse", "sink", "iot"],
+        },
+        {
+          id: "setup_monitoring",
+          summary: "Set up monitoring and alerting for IoT pipeline",
+          prompt_text:
+            "Deploy monitoring stack with metrics, logs, and alerts for the IoT data pipeline",
+          parent: "iot_pipeline_root",
+          children: [],
+          requires: [],
+          produces: ["monitoring_stack", "alerts_configured"],
+          exec_target: "infrastructure/monitoring/",
+          success_criteria: [
+            "Metrics visible in dashboard",
+            "Alerts fire correctly",
+          ],
+          guards: ["Check monitoring endpoints"],
+          tags: ["monitoring", "observability", "iot"],
+        },
+        {
+          id: "data_validation",
+          summary: "Validate IoT data quality and completeness",
+          prompt_text:
+            "Implement data validation checks and quality monitoring for IoT sensor data",
+          parent: "iot_pipeline_root",
+          children: [],
+          requires: ["warehouse_loaded"],
+          produces: ["data_quality_reports", "validation_metrics"],
+          exec_target: "src/validation/data_quality.py",
+          success_criteria: ["Quality checks pass", "Reports generated"],
+          guards: ["Verify data completeness"],
+          tags: ["data-quality", "validation", "iot"],
+        },
+        {
+          id: "api_endpoints",
+          summary: "Create API endpoints for IoT data access",
+          prompt_text:
+            "Build REST API endpoints to query and retrieve IoT data from the warehouse",
+          parent: "iot_pipeline_root",
+          children: [],
+          requires: ["warehouse_loaded"],
+          produces: ["api_service", "data_access_layer"],
+          exec_target: "src/api/iot_api.py",
+          success_criteria: ["API responds correctly", "Data queries work"],
+          guards: ["Check API authentication"],
+          tags: ["api", "rest", "iot", "access"],
+        },
+        {
+          id: "dashboard_creation",
+          summary: "Create IoT data visualization dashboard",
+          prompt_text:
+            "Build interactive dashboard to visualize IoT sensor data and pipeline metrics",
+          parent: "iot_pipeline_root",
+          children: [],
+          requires: ["api_service", "monitoring_stack"],
+          produces: ["iot_dashboard", "visualizations"],
+          exec_target: "frontend/dashboard/",
+          success_criteria: [
+            "Dashboard loads correctly",
+            "Charts display data",
+          ],
+          guards: ["Check data availability"],
+          tags: ["dashboard", "visualization", "iot", "frontend"],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Landing Page fixture for testing
+   */
+  private getLandingPageFixture(): LLMBreakdownResponse {
+    return {
+      root_id: "landing_page_root",
+      nodes: [
+        {
+          id: "landing_page_root",
+          summary: "Complete landing page website",
+          prompt_text: "Build modern responsive landing page with all sections",
+          children: [
+            "setup_project",
+            "create_header",
+            "hero_section",
+            "features_section",
+            "footer_section",
+          ],
+          requires: [],
+          produces: ["landing_page_complete"],
+          exec_target: "src/",
+          success_criteria: [
+            "Page loads correctly",
+            "Mobile responsive",
+            "SEO optimized",
+          ],
+          guards: ["Check browser compatibility"],
+          tags: ["website", "landing", "frontend"],
+        },
+        {
+          id: "setup_project",
+          summary: "Set up project structure and dependencies",
+          prompt_text:
+            "Initialize project with build tools, dependencies, and folder structure",
+          parent: "landing_page_root",
+          children: [],
+          requires: [],
+          produces: ["project_setup", "build_tools"],
+          exec_target: "package.json",
+          success_criteria: ["Dependencies installed", "Build scripts work"],
+          guards: ["command_succeeds:node --version"],
+          tags: ["setup", "dependencies", "project"],
+        },
+        {
+          id: "create_header",
+          summary: "Create navigation header component",
+          prompt_text:
+            "Build responsive navigation header with logo and menu items",
+          parent: "landing_page_root",
+          children: [],
+          requires: ["project_setup"],
+          produces: ["header_component", "navigation"],
+          exec_target: "src/components/Header.jsx",
+          success_criteria: ["Header displays correctly", "Navigation works"],
+          guards: ["Check responsive behavior"],
+          tags: ["header", "navigation", "component"],
+        },
+        {
+          id: "hero_section",
+          summary: "Create hero section with call-to-action",
+          prompt_text:
+            "Build compelling hero section with headline, description, and CTA button",
+          parent: "landing_page_root",
+          children: [],
+          requires: ["project_setup"],
+          produces: ["hero_component", "cta_button"],
+          exec_target: "src/components/Hero.jsx",
+          success_criteria: ["Hero displays correctly", "CTA button works"],
+          guards: ["Check content alignment"],
+          tags: ["hero", "cta", "component"],
+        },
+        {
+          id: "features_section",
+          summary: "Create features showcase section",
+          prompt_text:
+            "Build features section highlighting key product benefits with icons",
+          parent: "landing_page_root",
+          children: [],
+          requires: ["project_setup"],
+          produces: ["features_component", "feature_cards"],
+          exec_target: "src/components/Features.jsx",
+          success_criteria: ["Features display correctly", "Icons load"],
+          guards: ["Check content accuracy"],
+          tags: ["features", "benefits", "component"],
+        },
+        {
+          id: "footer_section",
+          summary: "Create footer with links and contact info",
+          prompt_text:
+            "Build footer section with links, social media, and contact information",
+          parent: "landing_page_root",
+          children: [],
+          requires: ["project_setup"],
+          produces: ["footer_component", "contact_links"],
+          exec_target: "src/components/Footer.jsx",
+          success_criteria: ["Footer displays correctly", "Links work"],
+          guards: ["Check link validity"],
+          tags: ["footer", "links", "component"],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Generic breakdown for other prompts
+   */
+  private getGenericBreakdown(prompt: string): LLMBreakdownResponse {
+    const rootId = "generic_task_root";
+
+    return {
+      root_id: rootId,
+      nodes: [
+        {
+          id: rootId,
+          summary: "Complete the requested task",
+          prompt_text: prompt,
+          children: [
+            "analyze_requirements",
+            "implement_solution",
+            "test_solution",
+          ],
+          requires: [],
+          produces: ["task_complete"],
+          exec_target: "src/",
+          success_criteria: ["Task completed successfully"],
+          guards: ["Verify requirements"],
+          tags: ["generic", "task"],
+        },
+        {
+          id: "analyze_requirements",
+          summary: "Analyze task requirements",
+          prompt_text: "Break down and analyze the requirements for the task",
+          parent: rootId,
+          children: [],
+          requires: [],
+          produces: ["requirements_analyzed"],
+          exec_target: "docs/requirements.md",
+          success_criteria: ["Requirements documented"],
+          guards: [],
+          tags: ["analysis", "requirements"],
+        },
+        {
+          id: "implement_solution",
+          summary: "Implement the solution",
+          prompt_text:
+            "Implement the core solution based on analyzed requirements",
+          parent: rootId,
+          children: [],
+          requires: ["requirements_analyzed"],
+          produces: ["solution_implemented"],
+          exec_target: "src/main.js",
+          success_criteria: ["Solution works correctly"],
+          guards: ["Check implementation quality"],
+          tags: ["implementation", "solution"],
+        },
+        {
+          id: "test_solution",
+          summary: "Test the implemented solution",
+          prompt_text:
+            "Create and run tests to verify the solution works correctly",
+          parent: rootId,
+          children: [],
+          requires: ["solution_implemented"],
+          produces: ["tests_passing"],
+          exec_target: "tests/",
+          success_criteria: ["All tests pass"],
+          guards: ["Verify test coverage"],
+          tags: ["testing", "verification"],
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Factory that picks a provider from GOTN_BREAKDOWN_PROVIDER, falling back to
+ * OpenAI when a key is set, a local endpoint when configured, else fixtures
+ */
+export function getBreakdownProvider(): BreakdownProvider {
+  switch (process.env.GOTN_BREAKDOWN_PROVIDER) {
+    case "openai":
+      return new OpenAIBreakdownProvider();
+    case "local":
+      return new LocalBreakdownProvider();
+    case "fixture":
+      return new FixtureBreakdownProvider();
+  }
+
+  if (process.env.OPENAI_API_KEY) {
+    return new OpenAIBreakdownProvider();
+  }
+
+  if (process.env.GOTN_LLM_BASE_URL) {
+    return new LocalBreakdownProvider();
+  }
+
+  console.warn(
+    "No LLM configured for breakdowns, using deterministic fixture provider"
+  );
+  return new FixtureBreakdownProvider();
+}
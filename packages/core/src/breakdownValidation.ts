@@ -0,0 +1,322 @@
+/**
+ * Breakdown validation - Schema checks and repair loop for LLM output
+ *
+ * LLM breakdowns are validated against a schema derived from NodeSchema.
+ * Invalid responses are sent back to the model with the validation errors
+ * for a bounded number of repair attempts; whatever is still invalid after
+ * that is salvaged node by node, with a report of what was coerced or dropped.
+ */
+
+import { z } from "zod";
+import { IdSchema, NodeSchema, formatValidationError } from "./schemas.js";
+import type {
+  LLMBreakdownNode,
+  LLMBreakdownResponse,
+} from "./breakdownEngine.js";
+
+// Node schema for LLM output: the subset of NodeSchema a model is asked for
+export const LLMBreakdownNodeSchema = NodeSchema.pick({
+  id: true,
+  summary: true,
+  prompt_text: true,
+  parent: true,
+  children: true,
+  requires: true,
+  produces: true,
+  success_criteria: true,
+  guards: true,
+  tags: true,
+}).extend({
+  exec_target: z.string().min(1, "Exec target cannot be empty").default("."),
+});
+
+export const LLMBreakdownResponseSchema = z
+  .object({
+    root_id: IdSchema,
+    nodes: z
+      .array(LLMBreakdownNodeSchema)
+      .min(1, "Breakdown must contain at least one node"),
+  })
+  .refine((res) => res.nodes.some((n) => n.id === res.root_id), {
+    message: "root_id must match the id of one of the nodes",
+    path: ["root_id"],
+  })
+  .refine(
+    (res) => new Set(res.nodes.map((n) => n.id)).size === res.nodes.length,
+    { message: "Node ids must be unique", path: ["nodes"] }
+  );
+
+export interface BreakdownNodeReport {
+  node_id: string;
+  coerced: string[];
+  dropped: string[];
+  rejected?: string;
+}
+
+export interface ValidatedBreakdown {
+  response: LLMBreakdownResponse;
+  report: BreakdownNodeReport[];
+  attempts: number;
+}
+
+export interface BreakdownChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export type BreakdownCompletion = (
+  messages: BreakdownChatMessage[]
+) => Promise<string>;
+
+const ARRAY_FIELDS = [
+  "children",
+  "requires",
+  "produces",
+  "success_criteria",
+  "guards",
+  "tags",
+] as const;
+
+const KNOWN_FIELDS = new Set<string>([
+  "id",
+  "summary",
+  "prompt_text",
+  "parent",
+  "exec_target",
+  ...ARRAY_FIELDS,
+]);
+
+/**
+ * Extract the JSON payload from model output, tolerating code fences
+ */
+export function extractBreakdownJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const json = (fenced ? fenced[1] : content).trim();
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error("Response is not valid JSON");
+  }
+}
+
+/**
+ * Coerce a single raw node into an LLMBreakdownNode, recording every change
+ */
+function coerceNode(
+  raw: unknown,
+  index: number
+): { node?: LLMBreakdownNode; report: BreakdownNodeReport } {
+  const report: BreakdownNodeReport = {
+    node_id: `nodes[${index}]`,
+    coerced: [],
+    dropped: [],
+  };
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    report.rejected = "Node is not an object";
+    return { report };
+  }
+
+  const input = raw as Record<string, unknown>;
+
+  for (const key of Object.keys(input)) {
+    if (!KNOWN_FIELDS.has(key)) report.dropped.push(key);
+  }
+
+  const asText = (field: string): string | undefined => {
+    const value = input[field];
+    if (typeof value === "string") return value.trim() || undefined;
+    if (typeof value === "number" || typeof value === "boolean") {
+      report.coerced.push(field);
+      return String(value);
+    }
+    if (value !== undefined && value !== null) report.dropped.push(field);
+    return undefined;
+  };
+
+  const id = asText("id");
+  if (!id) {
+    report.rejected = "Missing id";
+    return { report };
+  }
+  report.node_id = id;
+
+  let summary = asText("summary");
+  let promptText = asText("prompt_text");
+  if (!summary && !promptText) {
+    report.rejected = "Missing both summary and prompt_text";
+    return { report };
+  }
+  if (!summary) {
+    summary = promptText!.substring(0, 120);
+    report.coerced.push("summary");
+  }
+  if (!promptText) {
+    promptText = summary;
+    report.coerced.push("prompt_text");
+  }
+
+  let parent = asText("parent");
+  if (input.parent === null || input.parent === "") {
+    report.coerced.push("parent");
+  }
+  if (parent === id) {
+    parent = undefined;
+    report.dropped.push("parent");
+  }
+
+  let execTarget = asText("exec_target");
+  if (!execTarget) {
+    execTarget = ".";
+    if (input.exec_target !== undefined) report.coerced.push("exec_target");
+  }
+
+  const arrays = {} as Record<(typeof ARRAY_FIELDS)[number], string[]>;
+  for (const field of ARRAY_FIELDS) {
+    const value = input[field];
+    if (value === undefined || value === null) {
+      arrays[field] = [];
+    } else if (typeof value === "string") {
+      arrays[field] = value.trim() ? [value.trim()] : [];
+      report.coerced.push(field);
+    } else if (Array.isArray(value)) {
+      const items = value
+        .filter((item) => ["string", "number", "boolean"].includes(typeof item))
+        .map((item) => String(item).trim())
+        .filter(Boolean);
+      if (items.length !== value.length) report.coerced.push(field);
+      arrays[field] = items;
+    } else {
+      arrays[field] = [];
+      report.dropped.push(field);
+    }
+  }
+
+  const node: LLMBreakdownNode = {
+    id,
+    summary,
+    prompt_text: promptText!,
+    parent,
+    exec_target: execTarget,
+    ...arrays,
+  };
+
+  const parsed = LLMBreakdownNodeSchema.safeParse(node);
+  if (!parsed.success) {
+    report.rejected = formatValidationError(parsed.error);
+    return { report };
+  }
+
+  return { node, report };
+}
+
+/**
+ * Salvage whatever is usable from a raw breakdown, one node at a time
+ */
+export function coerceBreakdown(raw: unknown): {
+  response: LLMBreakdownResponse;
+  report: BreakdownNodeReport[];
+} {
+  const input = (raw && typeof raw === "object" ? raw : {}) as Record<
+    string,
+    unknown
+  >;
+  const rawNodes = Array.isArray(input.nodes) ? input.nodes : [];
+
+  const report: BreakdownNodeReport[] = [];
+  const nodes: LLMBreakdownNode[] = [];
+  const seen = new Set<string>();
+
+  rawNodes.forEach((rawNode, index) => {
+    const result = coerceNode(rawNode, index);
+    if (result.node && seen.has(result.node.id)) {
+      result.report.rejected = "Duplicate node id";
+      result.node = undefined;
+    }
+    if (result.node) {
+      seen.add(result.node.id);
+      nodes.push(result.node);
+    }
+    report.push(result.report);
+  });
+
+  // Drop references to nodes that did not survive
+  for (const node of nodes) {
+    const entry = report.find((r) => r.node_id === node.id && !r.rejected)!;
+    if (node.parent && !seen.has(node.parent)) {
+      node.parent = undefined;
+      entry.dropped.push("parent");
+    }
+    const children = node.children.filter((id) => seen.has(id));
+    if (children.length !== node.children.length) {
+      node.children = children;
+      entry.coerced.push("children");
+    }
+  }
+
+  const rootId =
+    typeof input.root_id === "string" && seen.has(input.root_id)
+      ? input.root_id
+      : nodes[0]?.id ?? "";
+
+  return { response: { root_id: rootId, nodes }, report };
+}
+
+/**
+ * Ask the model for a breakdown, feeding validation errors back to it for up
+ * to maxRepairs extra attempts before salvaging the last response
+ */
+export async function generateValidatedBreakdown(
+  complete: BreakdownCompletion,
+  messages: BreakdownChatMessage[],
+  maxRepairs: number = 2
+): Promise<ValidatedBreakdown> {
+  const conversation = [...messages];
+  let lastRaw: unknown = undefined;
+  let attempts = 0;
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    attempts++;
+    const content = await complete(conversation);
+
+    let errors: string;
+    try {
+      const raw = extractBreakdownJson(content);
+      lastRaw = raw;
+
+      const parsed = LLMBreakdownResponseSchema.safeParse(raw);
+      if (parsed.success) {
+        return { ...coerceBreakdown(raw), attempts };
+      }
+      errors = formatValidationError(parsed.error);
+    } catch (error: any) {
+      errors = error.message;
+    }
+
+    console.warn(`Breakdown attempt ${attempts} invalid: ${errors}`);
+
+    conversation.push(
+      { role: "assistant", content },
+      {
+        role: "user",
+        content: `Your previous response failed validation.\n${errors}\n\nReturn the complete corrected JSON only.`,
+      }
+    );
+  }
+
+  if (lastRaw === undefined) {
+    throw new Error(
+      `Breakdown response was not valid JSON after ${attempts} attempts`
+    );
+  }
+
+  const salvaged = coerceBreakdown(lastRaw);
+  if (salvaged.response.nodes.length === 0) {
+    throw new Error(
+      `No valid nodes in breakdown response after ${attempts} attempts`
+    );
+  }
+
+  return { ...salvaged, attempts };
+}
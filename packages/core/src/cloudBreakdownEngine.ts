@@ -5,6 +5,13 @@
 
 import { Node, Edge } from "./schemas.js";
 import { getCloudStore } from "./cloudStore.js";
+import type { LLMBreakdownResponse } from "./breakdownEngine.js";
+import {
+  generateValidatedBreakdown,
+  type BreakdownNodeReport,
+  type BreakdownChatMessage,
+  type ValidatedBreakdown,
+} from "./breakdownValidation.js";
 import OpenAI from "openai";
 
 export interface CloudBreakdownRequest {
@@ -18,12 +25,18 @@ export interface CloudBreakdownResult {
   nodes: Node[];
   edges: Edge[];
   root_id: string;
+  report: BreakdownNodeReport[];
+  repair_attempts: number;
 }
 
 export class CloudBreakdownEngine {
   private openai: OpenAI;
+  private maxRepairs: number;
 
-  constructor() {
+  constructor(
+    maxRepairs: number = Number(process.env.GOTN_BREAKDOWN_REPAIRS) || 2
+  ) {
+    this.maxRepairs = maxRepairs;
     this.openai = new OpenAI({
       apiKey: process.env.OPENAI_API_KEY,
     });
@@ -45,15 +58,21 @@ export class CloudBreakdownEngine {
     try {
       // Use OpenAI to create REAL atomic breakdown
       const breakdown = await this.createLLMBreakdown(prompt, max_nodes);
-      const nodes = this.convertToNodes(breakdown);
+      const nodes = this.convertToNodes(breakdown.response);
       const edges = this.createEdgesFromNodes(nodes);
 
-      console.log(`🧠 OpenAI created ${nodes.length} atomic tasks`);
+      const rejected = breakdown.report.filter((r) => r.rejected).length;
+      console.log(
+        `🧠 OpenAI created ${nodes.length} atomic tasks in ${breakdown.attempts} attempt(s)` +
+          (rejected > 0 ? `, ${rejected} rejected` : "")
+      );
 
       return {
         nodes,
         edges,
-        root_id: nodes[0]?.id || "root",
+        root_id: breakdown.response.root_id,
+        report: breakdown.report,
+        repair_attempts: breakdown.attempts - 1,
       };
     } catch (error) {
       console.error("❌ OpenAI breakdown failed:", error);
@@ -64,6 +83,8 @@ export class CloudBreakdownEngine {
         nodes,
         edges,
         root_id: nodes[0]?.id || "root",
+        report: [],
+        repair_attempts: 0,
       };
     }
   }
@@ -71,7 +92,7 @@ export class CloudBreakdownEngine {
   private async createLLMBreakdown(
     prompt: string,
     maxNodes: number
-  ): Promise<any> {
+  ): Promise<ValidatedBreakdown> {
     const systemPrompt = `You are an expert software architect. Break down complex development tasks into ATOMIC micro-prompts.
 
 RULES:
@@ -80,75 +101,91 @@ RULES:
 3. Include technical details (libraries, APIs, file names)
 4. Create proper dependencies between tasks
 5. Focus on SCALABILITY (millions of users)
+6. Write guards as checkable preconditions where possible: file_exists:<path>, port_free:<port>, env_set:<VAR>, command_succeeds:<shell command>, node_completed:<node id>
 
 OUTPUT FORMAT (JSON):
 {
-  "root_task": {
-    "id": "main_project",
-    "summary": "Brief description",
-    "prompt_text": "Detailed implementation instructions",
-    "children": ["task1", "task2", ...]
-  },
-  "tasks": [
+  "root_id": "main_project",
+  "nodes": [
+    {
+      "id": "main_project",
+      "summary": "Brief description",
+      "prompt_text": "Detailed implementation instructions",
+      "children": ["task1", "task2", ...]
+    },
     {
       "id": "task1",
       "summary": "Atomic task description",
       "prompt_text": "Specific implementation steps with tech stack",
       "parent": "main_project",
-      "requires": ["dependency_ids"],
+      "requires": ["tags_produced_by_other_tasks"],
       "produces": ["output_artifacts"],
       "exec_target": "specific/file/path",
       "tags": ["frontend", "api", etc],
       "success_criteria": ["Measurable completion criteria"],
-      "tech_stack": ["React", "TypeScript", etc]
+      "guards": ["file_exists:package.json", "env_set:DATABASE_URL"]
     }
   ]
 }`;
 
-    const response = await this.openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
+    const complete = async (messages: BreakdownChatMessage[]) => {
+      const response = await this.openai.chat.completions.create({
+        model: "gpt-4",
+        messages,
+        temperature: 0.3,
+        max_tokens: 4000,
+      });
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error("No response from OpenAI");
+      }
+      return content;
+    };
+
+    return generateValidatedBreakdown(
+      complete,
+      [
         { role: "system", content: systemPrompt },
         {
           role: "user",
           content: `Break this into ${maxNodes} atomic micro-prompts:\n\n"${prompt}"`,
         },
       ],
-      temperature: 0.3,
-      max_tokens: 4000,
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No response from OpenAI");
-    }
-
-    try {
-      return JSON.parse(content);
-    } catch (parseError) {
-      console.error("Failed to parse OpenAI response:", content);
-      throw new Error("Invalid JSON response from OpenAI");
-    }
+      this.maxRepairs
+    );
   }
 
-  private convertToNodes(breakdown: any): Node[] {
+  private convertToNodes(breakdown: LLMBreakdownResponse): Node[] {
     const timestamp = new Date().toISOString();
-    const nodes: Node[] = [];
 
-    // Add root task
-    if (breakdown.root_task) {
-      nodes.push({
-        id: breakdown.root_task.id,
+    return breakdown.nodes.map((task) => {
+      const isRoot = task.id === breakdown.root_id;
+
+      return {
+        id: task.id,
         kind: "micro_prompt",
-        summary: breakdown.root_task.summary,
-        prompt_text: breakdown.root_task.prompt_text,
-        children: breakdown.root_task.children || [],
-        requires: [],
-        produces: ["project_defined"],
-        exec_target: ".",
-        tags: ["root", "main"],
-        success_criteria: ["Project structure defined"],
-        guards: [],
+        summary: task.summary,
+        prompt_text: task.prompt_text,
+        parent: task.parent,
+        children: task.children,
+        requires: task.requires,
+        produces:
+          task.produces.length > 0
+            ? task.produces
+            : [isRoot ? "project_defined" : `${task.id}_done`],
+        exec_target: task.exec_target,
+        tags:
+          task.tags.length > 0
+            ? task.tags
+            : isRoot
+            ? ["root", "main"]
+            : ["task"],
+        success_criteria:
+          task.success_criteria.length > 0
+            ? task.success_criteria
+            : ["Task completed"],
+        guards: task.guards,
         artifacts: {
           files: [],
           outputs: [],
@@ -162,43 +199,8 @@ OUTPUT FORMAT (JSON):
         version: 1,
         created_at: timestamp,
         updated_at: timestamp,
-      });
-    }
-
-    // Add all tasks
-    if (breakdown.tasks && Array.isArray(breakdown.tasks)) {
-      for (const task of breakdown.tasks) {
-        nodes.push({
-          id: task.id,
-          kind: "micro_prompt",
-          summary: task.summary,
-          prompt_text: task.prompt_text,
-          parent: task.parent,
-          children: [],
-          requires: task.requires || [],
-          produces: task.produces || [`${task.id}_done`],
-          exec_target: task.exec_target || ".",
-          tags: task.tags || ["task"],
-          success_criteria: task.success_criteria || ["Task completed"],
-          guards: [],
-          artifacts: {
-            files: [],
-            outputs: [],
-            dependencies: task.tech_stack || [],
-          },
-          status: "ready",
-          provenance: {
-            created_by: "openai_breakdown_engine",
-            source: "llm_generated",
-          },
-          version: 1,
-          created_at: timestamp,
-          updated_at: timestamp,
-        });
-      }
-    }
-
-    return nodes;
+      };
+    });
   }
 
   private createSimpleBreakdown(
@@ -406,7 +408,7 @@ OUTPUT FORMAT (JSON):
       }
     });
 
-    // Create dependency edges based on requires/produces
+    // Create dependency edges based on requires/produces (producer -> consumer)
     nodes.forEach((consumer) => {
       consumer.requires.forEach((requirement) => {
         nodes.forEach((producer) => {
@@ -0,0 +1,269 @@
+/**
+ * CodeGenProvider - Pluggable backends for node code generation
+ *
+ * A provider receives a node, the current contents of its exec_target and the
+ * outputs of the dependencies it builds on, and returns the full new contents
+ * of every file it wants to change. PatchGenerationExecutor turns those into
+ * a unified diff, so providers never have to write diffs themselves.
+ */
+
+import OpenAI from "openai";
+import { z } from "zod";
+import { Node, formatValidationError } from "./schemas.js";
+import { extractBreakdownJson } from "./breakdownValidation.js";
+import path from "path";
+
+export interface CodeGenFileContext {
+  path: string;
+  content: string;
+}
+
+export interface CodeGenDependency {
+  node_id: string;
+  summary: string;
+  produces: string[];
+  files: CodeGenFileContext[];
+}
+
+export interface CodeGenRequest {
+  node: Node;
+  target_path?: string;
+  // null when the target file does not exist yet
+  target_content?: string | null;
+  dependencies: CodeGenDependency[];
+}
+
+export const CodeGenResponseSchema = z.object({
+  files: z
+    .array(
+      z.object({
+        path: z.string().min(1, "File path cannot be empty"),
+        content: z.string(),
+      })
+    )
+    .min(1, "Response must change at least one file"),
+  summary: z.string().optional(),
+});
+
+export type CodeGenResponse = z.infer<typeof CodeGenResponseSchema>;
+
+export interface CodeGenProvider {
+  readonly name: string;
+  generate(request: CodeGenRequest): Promise<CodeGenResponse>;
+}
+
+export interface OpenAICodeGenProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+  temperature?: number;
+}
+
+const CODEGEN_SYSTEM_PROMPT = `You are a senior engineer implementing one small, well-defined task in an existing codebase.
+
+RULES:
+1. Change only what the task needs; keep existing code and style intact
+2. Return the COMPLETE new content of every file you change or create
+3. Use paths relative to the workspace root
+4. Build on the dependency outputs you are given instead of re-implementing them
+
+OUTPUT FORMAT (JSON only, no prose):
+{
+  "files": [{ "path": "src/file.ts", "content": "full new file content" }],
+  "summary": "One line describing the change"
+}`;
+
+/**
+ * Render a code generation request as the user message
+ */
+export function buildCodeGenPrompt(request: CodeGenRequest): string {
+  const { node } = request;
+  let prompt = `TASK: ${node.summary}\n\n${node.prompt_text}\n`;
+
+  if (node.success_criteria.length > 0) {
+    prompt += `\nSUCCESS CRITERIA:\n${node.success_criteria
+      .map((c) => `- ${c}`)
+      .join("\n")}\n`;
+  }
+
+  if (request.target_path) {
+    prompt +=
+      request.target_content === null
+        ? `\nTARGET FILE: ${request.target_path} (does not exist yet)\n`
+        : `\nTARGET FILE: ${request.target_path}\n\`\`\`\n${request.target_content}\n\`\`\`\n`;
+  } else if (node.exec_target) {
+    prompt += `\nTARGET DIRECTORY: ${node.exec_target}\n`;
+  }
+
+  for (const dep of request.dependencies) {
+    prompt += `\nDEPENDENCY ${dep.node_id} (${
+      dep.summary
+    }) produces: ${dep.produces.join(", ")}\n`;
+    for (const file of dep.files) {
+      prompt += `${file.path}:\n\`\`\`\n${file.content}\n\`\`\`\n`;
+    }
+  }
+
+  return prompt;
+}
+
+/**
+ * OpenAI chat-completions provider
+ */
+export class OpenAICodeGenProvider implements CodeGenProvider {
+  readonly name: string = "openai";
+  protected client: OpenAI;
+  protected model: string;
+  protected temperature: number;
+
+  constructor(options: OpenAICodeGenProviderOptions = {}) {
+    const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+    if (!apiKey) throw new Error("OPENAI_API_KEY missing");
+
+    this.client = new OpenAI({ apiKey, baseURL: options.baseURL });
+    this.model = options.model || process.env.GOTN_CODEGEN_MODEL || "gpt-4";
+    this.temperature = options.temperature ?? 0.2;
+  }
+
+  async generate(request: CodeGenRequest): Promise<CodeGenResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: CODEGEN_SYSTEM_PROMPT },
+        { role: "user", content: buildCodeGenPrompt(request) },
+      ],
+      temperature: this.temperature,
+      max_tokens: 4000,
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response from ${this.name} code generation provider`);
+    }
+
+    const parsed = CodeGenResponseSchema.safeParse(
+      extractBreakdownJson(content)
+    );
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid code generation response: ${formatValidationError(
+          parsed.error
+        )}`
+      );
+    }
+    return parsed.data;
+  }
+}
+
+/**
+ * OpenAI-compatible local endpoint (Ollama, LM Studio, vLLM, ...)
+ */
+export class LocalCodeGenProvider extends OpenAICodeGenProvider {
+  readonly name: string = "local";
+
+  constructor(options: OpenAICodeGenProviderOptions = {}) {
+    super({
+      apiKey: options.apiKey ?? process.env.GOTN_LLM_API_KEY ?? "local",
+      baseURL:
+        options.baseURL ??
+        process.env.GOTN_LLM_BASE_URL ??
+        "http://localhost:11434/v1",
+      model: options.model ?? process.env.GOTN_LLM_MODEL ?? "llama3.1",
+      temperature: options.temperature,
+    });
+  }
+}
+
+const LINE_COMMENTS: Record<string, string> = {
+  ".ts": "//",
+  ".tsx": "//",
+  ".js": "//",
+  ".jsx": "//",
+  ".mjs": "//",
+  ".go": "//",
+  ".java": "//",
+  ".rs": "//",
+  ".c": "//",
+  ".cpp": "//",
+  ".py": "#",
+  ".sh": "#",
+  ".rb": "#",
+  ".yml": "#",
+  ".yaml": "#",
+  ".toml": "#",
+};
+
+/**
+ * Deterministic provider for tests and offline demos: appends a comment
+ * naming the node to its target file, or writes a markdown note next to it
+ */
+export class StubCodeGenProvider implements CodeGenProvider {
+  readonly name: string = "stub";
+
+  async generate(request: CodeGenRequest): Promise<CodeGenResponse> {
+    const { node } = request;
+    const comment = request.target_path
+      ? LINE_COMMENTS[path.extname(request.target_path)]
+      : undefined;
+
+    if (request.target_path && comment) {
+      const existing = request.target_content ?? "";
+      const separator = existing && !existing.endsWith("\n") ? "\n" : "";
+      return {
+        files: [
+          {
+            path: request.target_path,
+            content: `${existing}${separator}${comment} GoTN ${node.id}: ${node.summary}\n`,
+          },
+        ],
+        summary: `Annotate ${request.target_path} for ${node.id}`,
+      };
+    }
+
+    const dir = request.target_path
+      ? path.posix.dirname(request.target_path)
+      : node.exec_target || ".";
+    const notePath = path.posix.join(dir, `${node.id}.md`);
+    const deps = request.dependencies.map((dep) => `- ${dep.node_id}`);
+
+    return {
+      files: [
+        {
+          path: notePath,
+          content:
+            `# ${node.summary}\n\n${node.prompt_text}\n` +
+            (deps.length > 0 ? `\nBuilds on:\n${deps.join("\n")}\n` : ""),
+        },
+      ],
+      summary: `Write ${notePath} for ${node.id}`,
+    };
+  }
+}
+
+/**
+ * Factory that picks a provider from GOTN_CODEGEN_PROVIDER, falling back to
+ * OpenAI when a key is set or a local endpoint when configured. The stub is
+ * only used when asked for by name.
+ */
+export function getCodeGenProvider(): CodeGenProvider {
+  switch (process.env.GOTN_CODEGEN_PROVIDER) {
+    case "openai":
+      return new OpenAICodeGenProvider();
+    case "local":
+      return new LocalCodeGenProvider();
+    case "stub":
+      return new StubCodeGenProvider();
+  }
+
+  if (process.env.OPENAI_API_KEY) {
+    return new OpenAICodeGenProvider();
+  }
+
+  if (process.env.GOTN_LLM_BASE_URL) {
+    return new LocalCodeGenProvider();
+  }
+
+  throw new Error(
+    "No code generation provider configured: set GOTN_CODEGEN_PROVIDER (openai, local or stub), OPENAI_API_KEY or GOTN_LLM_BASE_URL"
+  );
+}
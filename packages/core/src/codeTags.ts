@@ -0,0 +1,55 @@
+/**
+ * Code tags - requires/produces tags that tie nodes to indexed code
+ *
+ *   file:src/app.ts          produced by the indexed module for the file
+ *   symbol:src/app.ts#start  produced by the node of the exported symbol
+ *   package:express          produced by the dependency index (package.json)
+ *
+ * Modules require the files and packages they import, symbols the symbols
+ * they use. Any node also implicitly requires the tags of the code it targets
+ * (exec_target, which may be "file#symbol", and artifacts.files), so
+ * EdgeEngine links that code to the micro-prompt.
+ */
+
+import { Node } from "./schemas.js";
+
+/**
+ * Workspace-relative path with forward slashes and no leading "./" (the
+ * workspace root itself is "")
+ */
+export function normalizeWorkspacePath(filePath: string): string {
+  return filePath
+    .replace(/\\/g, "/")
+    .replace(/^(\.\/)+/, "")
+    .replace(/\/+$/, "")
+    .replace(/^\.$/, "");
+}
+
+export function fileTag(filePath: string): string {
+  return `file:${normalizeWorkspacePath(filePath)}`;
+}
+
+export function symbolTag(filePath: string, symbol: string): string {
+  return `symbol:${normalizeWorkspacePath(filePath)}#${symbol}`;
+}
+
+export function packageTag(name: string): string {
+  return `package:${name}`;
+}
+
+/**
+ * Tags for the code a node targets: file: tags for its exec_target and
+ * artifacts.files, plus a symbol: tag when exec_target is "file#symbol"
+ */
+export function touchedCodeTags(node: Node): string[] {
+  const [target, symbol] = node.exec_target?.split("#") ?? [];
+  const files = [target, ...node.artifacts.files].filter(
+    (f): f is string => !!f && !/^[a-z][a-z0-9+.-]*:\/\//i.test(f)
+  );
+  return [
+    ...new Set([
+      ...files.map(fileTag),
+      ...(target && symbol ? [symbolTag(target, symbol)] : []),
+    ]),
+  ];
+}
@@ -8,6 +8,11 @@
 
 import { Node, Edge, EdgeSchema } from "./schemas.js";
 import { readGraph, writeGraph, addEdge } from "./fsStore.js";
+import { touchedCodeTags } from "./codeTags.js";
+import { getNodeStore } from "./nodeStore.js";
+import { getVectorComponents } from "./vectorComponents.js";
+import type { VectorStore } from "@gotn/vec";
+import type { GoTNWorkspace } from "./workspace.js";
 
 export interface EdgeInferenceResult {
   hardEdges: Edge[];
@@ -23,28 +28,28 @@ export interface SoftEdgeCandidate {
 }
 
 export class EdgeEngine {
-  private vectorStore: any = null;
+  private vectorStore: VectorStore | null = null;
   private initialized = false;
+  private workspacePath: string;
+  private workspace?: GoTNWorkspace;
 
-  constructor() {}
+  constructor(workspace?: GoTNWorkspace) {
+    this.workspace = workspace;
+    this.workspacePath = workspace?.path ?? ".";
+  }
 
   private async ensureInitialized() {
     if (this.initialized) return;
 
-    try {
-      // Try to dynamically require vec package at runtime
-      const vecModule = require("@gotn/vec");
-      this.vectorStore = vecModule.getVectorStore();
-    } catch (error) {
-      console.warn("Vector components not available for soft edge inference");
-      this.vectorStore = null;
-    }
+    const { vectorStore } = await getVectorComponents(this.workspace);
+    this.vectorStore = vectorStore;
 
     this.initialized = true;
   }
 
   /**
-   * Infer hard edges based on requires/produces tag matching
+   * Infer hard edges based on requires/produces tag matching. The files a node
+   * targets count as requirements too, met by the indexed code for them.
    */
   async inferHardEdges(nodes: Node[]): Promise<Edge[]> {
     const hardEdges: Edge[] = [];
@@ -64,7 +69,9 @@ export class EdgeEngine {
 
     // For each node, check if its requirements are produced by other nodes
     for (const nodeA of nodes) {
-      for (const requiredTag of nodeA.requires) {
+      const required = new Set([...nodeA.requires, ...touchedCodeTags(nodeA)]);
+
+      for (const requiredTag of required) {
         const producers = producersMap.get(requiredTag);
 
         if (producers) {
@@ -72,12 +79,14 @@ export class EdgeEngine {
             // Don't create self-edges
             if (nodeA.id === nodeB.id) continue;
 
-            // Create hard edge from A to B (A requires what B produces)
+            // Producer B must complete before consumer A (see schemas.ts)
             const edge: Edge = {
-              src: nodeA.id,
-              dst: nodeB.id,
+              src: nodeB.id,
+              dst: nodeA.id,
               type: "hard_requires",
-              evidence: `${nodeA.id} requires "${requiredTag}" which ${nodeB.id} produces`,
+              evidence: nodeA.requires.includes(requiredTag)
+                ? `${nodeA.id} requires "${requiredTag}" which ${nodeB.id} produces`
+                : `${nodeA.id} touches "${requiredTag}" which ${nodeB.id} indexes`,
               provenance: {
                 created_by: "edge_engine",
                 source: "hard_inference",
@@ -98,7 +107,8 @@ export class EdgeEngine {
   }
 
   /**
-   * Infer soft edges based on semantic similarity
+   * Infer soft edges based on semantic similarity, searching with the
+   * vectors the nodes were stored with
    */
   async inferSoftEdges(
     nodes: Node[],
@@ -118,20 +128,23 @@ export class EdgeEngine {
     // Find candidates for each node
     const candidates: SoftEdgeCandidate[] = [];
 
+    // Each node's stored vector (from the embedding cache), not a new one
+    let vectors: Map<string, number[]>;
+    try {
+      vectors = await getNodeStore(undefined, this.workspace).getNodeVectors(
+        nodes
+      );
+    } catch (error: any) {
+      console.warn("Failed to load node vectors:", error.message);
+      return [];
+    }
+
     for (const node of nodes) {
       // Skip nodes without embeddings
-      if (!node.embedding_ref) continue;
+      const nodeEmbedding = vectors.get(node.id);
+      if (!nodeEmbedding) continue;
 
       try {
-        // Search for similar nodes using the vector store
-        // We'll use the node's summary as the search query to find similar nodes
-        const searchText = [node.summary, ...node.tags].join(" ");
-
-        // Get embedding for this node's content
-        const vecModule = require("@gotn/vec");
-        const embedder = vecModule.getEmbedder();
-        const nodeEmbedding = await embedder.embed(searchText);
-
         // Search for k nearest neighbors
         const searchResults = await this.vectorStore.search(
           nodeEmbedding,
@@ -239,7 +252,7 @@ export class EdgeEngine {
    * Infer all edges for the given node IDs
    */
   async inferEdges(nodeIds?: string[]): Promise<EdgeInferenceResult> {
-    const graph = await readGraph(".");
+    const graph = await readGraph(this.workspacePath);
 
     // Filter nodes if specific IDs provided
     const targetNodes = nodeIds
@@ -265,7 +278,7 @@ export class EdgeEngine {
     // Persist all edges
     for (const edge of [...hardEdges, ...softEdges]) {
       try {
-        await addEdge(".", edge);
+        await addEdge(this.workspacePath, edge);
       } catch (error: any) {
         console.warn(
           `Failed to add edge ${edge.src} -> ${edge.dst}:`,
@@ -291,7 +304,8 @@ export class EdgeEngine {
  */
 let defaultEdgeEngine: EdgeEngine | null = null;
 
-export function getEdgeEngine(): EdgeEngine {
+export function getEdgeEngine(workspace?: GoTNWorkspace): EdgeEngine {
+  if (workspace) return workspace.getEdgeEngine();
   if (!defaultEdgeEngine) {
     defaultEdgeEngine = new EdgeEngine();
   }
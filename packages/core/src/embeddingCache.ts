@@ -0,0 +1,94 @@
+/**
+ * EmbeddingCache - Vectors on disk under .gotn/cache/embeddings
+ *
+ * Keyed by the sha256 of the embedded text (the content_hash recorded in a
+ * node's embedding_ref), one JSON file per vector, in a directory per
+ * embedder id so vectors of different models or dimensions never mix.
+ * Re-storing unchanged text, re-indexing and soft-edge inference read vectors
+ * from here instead of calling the embedding provider again.
+ */
+
+import { mkdir, readFile, rename, writeFile, unlink } from "fs/promises";
+import { createHash } from "crypto";
+import path from "path";
+
+export function embeddingContentHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export class EmbeddingCache {
+  private dir: string;
+
+  constructor(workspacePath: string = ".", embedderId: string = "default") {
+    this.dir = path.join(
+      workspacePath,
+      ".gotn",
+      "cache",
+      "embeddings",
+      embedderId.replace(/[^A-Za-z0-9._-]/g, "_")
+    );
+  }
+
+  private file(hash: string): string {
+    return path.join(this.dir, `${hash}.json`);
+  }
+
+  /**
+   * Cached vector for a content hash, or null
+   */
+  async get(hash: string): Promise<number[] | null> {
+    try {
+      const vector = JSON.parse(await readFile(this.file(hash), "utf8"));
+      return Array.isArray(vector) && vector.length > 0 ? vector : null;
+    } catch {
+      return null; // Missing or torn file; it is recomputed
+    }
+  }
+
+  async set(hash: string, vector: number[]): Promise<void> {
+    if (vector.length === 0) return;
+
+    await mkdir(this.dir, { recursive: true });
+    const tempPath = `${this.file(hash)}.tmp.${process.pid}.${Date.now()}`;
+    try {
+      await writeFile(tempPath, JSON.stringify(vector), "utf8");
+      await rename(tempPath, this.file(hash));
+    } catch (error) {
+      await unlink(tempPath).catch(() => {});
+      throw error;
+    }
+  }
+
+  /**
+   * Vectors for texts, in order: cached ones are read back, the rest are
+   * computed with a single embedBatch call and cached
+   */
+  async embedAll(
+    texts: string[],
+    embedBatch: (texts: string[]) => Promise<number[][]>
+  ): Promise<number[][]> {
+    const hashes = texts.map(embeddingContentHash);
+    const found = new Map<string, number[]>();
+    for (const hash of new Set(hashes)) {
+      const vector = await this.get(hash);
+      if (vector) found.set(hash, vector);
+    }
+
+    // Each distinct missing text is embedded once
+    const missing = new Map<string, string>();
+    hashes.forEach((hash, i) => {
+      if (!found.has(hash)) missing.set(hash, texts[i]);
+    });
+    if (missing.size > 0) {
+      const computed = await embedBatch([...missing.values()]);
+      let i = 0;
+      for (const hash of missing.keys()) {
+        const vector = computed[i++];
+        found.set(hash, vector);
+        await this.set(hash, vector);
+      }
+    }
+
+    return hashes.map((hash) => found.get(hash)!);
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Advisory file locks shared between processes
+ *
+ * Locks live in a directory (.gotn/locks for the store). A writer holds
+ * <name>.write.lock, created exclusively; each reader holds its own
+ * <name>.read.<pid>.<token>.lock. Writers wait for readers to drain and
+ * readers back off while a writer holds or is waiting for the lock, so
+ * writers cannot starve.
+ *
+ * Lock files record the owner's pid, hostname and creation time, and their
+ * holders touch them periodically. A lock is stale when its owner is a dead
+ * process on this host; when liveness cannot be checked (another host, or an
+ * unreadable file) it is stale once it has not been touched for the stale
+ * timeout. Stale locks are removed by whoever finds them.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { hostname } from "os";
+
+export type FileLockMode = "read" | "write";
+
+export interface FileLockOptions {
+  // Give up waiting after this long (default GOTN_LOCK_TIMEOUT_MS or 10000)
+  timeoutMs?: number;
+  // Treat locks whose liveness cannot be checked as abandoned once they have
+  // not been refreshed for this long (default GOTN_LOCK_STALE_MS or 60000)
+  staleMs?: number;
+}
+
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  created_at: string;
+  mode: FileLockMode;
+}
+
+const POLL_MS = 15;
+
+function envMs(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isNaN(value) || value <= 0 ? fallback : value;
+}
+
+function sleep(ms: number): Promise<void> {
+  // Jitter so competing processes do not poll in lockstep
+  return new Promise((resolve) =>
+    setTimeout(resolve, ms + Math.floor(Math.random() * ms))
+  );
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM means the process exists but belongs to someone else
+    return error.code === "EPERM";
+  }
+}
+
+interface LockState {
+  // Null when the file is half-written by its creator, or corrupt
+  owner: LockOwner | null;
+  mtimeMs: number;
+}
+
+async function readLock(lockPath: string): Promise<LockState | null> {
+  try {
+    const { mtimeMs } = await fs.stat(lockPath);
+    let owner: LockOwner | null = null;
+    try {
+      owner = JSON.parse(await fs.readFile(lockPath, "utf8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+    }
+    return { owner, mtimeMs };
+  } catch (error: any) {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Why a lock is stale, or null while its owner may still hold it. An owner
+ * on this host is judged by whether its process runs, however old the lock
+ * is; otherwise the lock is stale once its holder stops refreshing it.
+ */
+function staleReason(lock: LockState, staleMs: number): string | null {
+  const { owner } = lock;
+  if (owner && owner.hostname === hostname()) {
+    return owner.pid === process.pid || isProcessAlive(owner.pid)
+      ? null
+      : "process gone";
+  }
+
+  const age = Date.now() - lock.mtimeMs;
+  return age < staleMs ? null : `not refreshed for ${Math.round(age / 1000)}s`;
+}
+
+function ownerOf(lock: LockState): LockOwner {
+  return (
+    lock.owner ?? {
+      pid: 0,
+      hostname: "",
+      created_at: new Date(lock.mtimeMs).toISOString(),
+      mode: "write",
+    }
+  );
+}
+
+/**
+ * Remove a lock found stale. It is first renamed to a name of our own, so a
+ * fresh lock that replaced it meanwhile is judged again before anything is
+ * deleted, and put back if it is live. Returns the owner of a lock put back.
+ */
+async function removeStaleLock(
+  lockPath: string,
+  staleMs: number
+): Promise<LockOwner | null> {
+  const claimedPath = `${lockPath}.${process.pid}.${Math.random()
+    .toString(36)
+    .substr(2, 9)}.stale`;
+  try {
+    await fs.rename(lockPath, claimedPath);
+  } catch (error: any) {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  }
+
+  try {
+    const lock = await readLock(claimedPath);
+    if (!lock) return null;
+
+    const reason = staleReason(lock, staleMs);
+    if (!reason) {
+      // Not ours to remove; restore it unless a new lock took its place
+      await fs.link(claimedPath, lockPath).catch((error: any) => {
+        if (error.code !== "EEXIST") throw error;
+      });
+      return ownerOf(lock);
+    }
+
+    console.error(
+      `[GoTN Lock] Removing stale lock ${path.basename(lockPath)} (pid ${
+        lock.owner?.pid ?? "unknown"
+      }, ${reason})`
+    );
+    return null;
+  } finally {
+    await fs.rm(claimedPath, { force: true });
+  }
+}
+
+/**
+ * Owner of a lock file, or null when it has gone or is stale (and was removed)
+ */
+async function liveOwner(
+  lockPath: string,
+  staleMs: number
+): Promise<LockOwner | null> {
+  const lock = await readLock(lockPath);
+  if (!lock) return null;
+  if (!staleReason(lock, staleMs)) return ownerOf(lock);
+  return removeStaleLock(lockPath, staleMs);
+}
+
+/**
+ * Keep a held lock fresh by touching it, and return its release function
+ */
+function holdLock(lockPath: string, staleMs: number): () => Promise<void> {
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    fs.utimes(lockPath, now, now).catch(() => {});
+  }, Math.max(Math.floor(staleMs / 3), POLL_MS));
+  heartbeat.unref();
+
+  return async () => {
+    clearInterval(heartbeat);
+    await fs.rm(lockPath, { force: true });
+  };
+}
+
+async function createLockFile(
+  lockPath: string,
+  mode: FileLockMode
+): Promise<boolean> {
+  const owner: LockOwner = {
+    pid: process.pid,
+    hostname: hostname(),
+    created_at: new Date().toISOString(),
+    mode,
+  };
+  try {
+    await fs.writeFile(lockPath, JSON.stringify(owner), { flag: "wx" });
+    return true;
+  } catch (error: any) {
+    if (error.code === "EEXIST") return false;
+    throw error;
+  }
+}
+
+async function readerLocks(lockDir: string, name: string): Promise<string[]> {
+  const prefix = `${name}.read.`;
+  return (await fs.readdir(lockDir))
+    .filter((f) => f.startsWith(prefix) && f.endsWith(".lock"))
+    .map((f) => path.join(lockDir, f));
+}
+
+function timeoutError(
+  name: string,
+  mode: FileLockMode,
+  timeoutMs: number,
+  owner: LockOwner | null
+): Error {
+  return new Error(
+    `Timed out after ${timeoutMs}ms waiting for ${mode} lock on ${name}${
+      owner ? ` (held by pid ${owner.pid} since ${owner.created_at})` : ""
+    }`
+  );
+}
+
+/**
+ * Acquire a lock and return the function that releases it
+ */
+export async function acquireFileLock(
+  lockDir: string,
+  name: string,
+  mode: FileLockMode,
+  options: FileLockOptions = {}
+): Promise<() => Promise<void>> {
+  const timeoutMs = options.timeoutMs ?? envMs("GOTN_LOCK_TIMEOUT_MS", 10000);
+  const staleMs = options.staleMs ?? envMs("GOTN_LOCK_STALE_MS", 60000);
+  const deadline = Date.now() + timeoutMs;
+  const writePath = path.join(lockDir, `${name}.write.lock`);
+
+  await fs.mkdir(lockDir, { recursive: true });
+
+  if (mode === "write") {
+    // 1. Become the one writer
+    while (!(await createLockFile(writePath, "write"))) {
+      const owner = await liveOwner(writePath, staleMs);
+      if (owner && Date.now() > deadline) {
+        throw timeoutError(name, mode, timeoutMs, owner);
+      }
+      if (owner) await sleep(POLL_MS);
+    }
+
+    // 2. Wait for readers that got in first
+    try {
+      for (;;) {
+        let active = 0;
+        for (const readPath of await readerLocks(lockDir, name)) {
+          if (await liveOwner(readPath, staleMs)) active++;
+        }
+        if (active === 0) break;
+        if (Date.now() > deadline) {
+          throw timeoutError(name, mode, timeoutMs, null);
+        }
+        await sleep(POLL_MS);
+      }
+    } catch (error) {
+      await fs.rm(writePath, { force: true });
+      throw error;
+    }
+
+    return holdLock(writePath, staleMs);
+  }
+
+  const readPath = path.join(
+    lockDir,
+    `${name}.read.${process.pid}.${Math.random()
+      .toString(36)
+      .substr(2, 9)}.lock`
+  );
+
+  for (;;) {
+    const writer = await liveOwner(writePath, staleMs);
+    if (!writer) {
+      await createLockFile(readPath, "read");
+      // A writer may have claimed the lock between the check and the create
+      if (!(await liveOwner(writePath, staleMs))) {
+        return holdLock(readPath, staleMs);
+      }
+      await fs.rm(readPath, { force: true });
+    }
+
+    if (Date.now() > deadline) {
+      throw timeoutError(name, mode, timeoutMs, writer);
+    }
+    await sleep(POLL_MS);
+  }
+}
+
+/**
+ * Run an operation while holding a lock
+ */
+export async function withFileLock<T>(
+  lockDir: string,
+  name: string,
+  mode: FileLockMode,
+  operation: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const release = await acquireFileLock(lockDir, name, mode, options);
+  try {
+    return await operation();
+  } finally {
+    await release();
+  }
+}
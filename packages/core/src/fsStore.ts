@@ -9,12 +9,14 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import { createWriteStream } from "fs";
 import { promisify } from "util";
+import { withFileLock, type FileLockMode } from "./fileLock.js";
 import {
   validateGraph,
   validateMeta,
   validateJournalEntry,
   validateNode,
   validateEdge,
+  validateSnapshot,
   formatValidationError,
   type Graph,
   type Meta,
@@ -22,6 +24,10 @@ import {
   type Node,
   type Edge,
   type JournalEventType,
+  type Snapshot,
+  type NodeCascade,
+  type RemoveNodeEventData,
+  type RemoveEdgeEventData,
 } from "./schemas.js";
 
 // Re-export types from schemas for compatibility
@@ -34,6 +40,9 @@ export { type JournalEntry } from "./schemas.js";
 // Lock management
 const writeLocks = new Map<string, Promise<void>>();
 
+// Journal appends since the last snapshot, per workspace
+const appendsSinceSnapshot = new Map<string, number>();
+
 /**
  * Ensures atomic write operations using temp file + rename + fsync pattern
  */
@@ -65,33 +74,50 @@ async function atomicWrite(filePath: string, data: string): Promise<void> {
 }
 
 /**
- * Serializes write operations to prevent concurrent modifications
+ * Serializes write operations within this process. Each caller runs after
+ * the previous holder of the key has finished, whether it succeeded or not.
  */
 export async function withWriteLock<T>(
   lockKey: string,
   operation: () => Promise<T>
 ): Promise<T> {
-  // Wait for any existing lock
-  const existingLock = writeLocks.get(lockKey);
-  if (existingLock) {
-    await existingLock;
-  }
+  const previous = writeLocks.get(lockKey) || Promise.resolve();
+  const result = previous.then(() => operation());
 
-  // Create new lock
-  const lockPromise = (async () => {
-    try {
-      return await operation();
-    } finally {
+  const tail = result.then(
+    () => undefined,
+    () => undefined
+  );
+  writeLocks.set(lockKey, tail);
+  tail.then(() => {
+    if (writeLocks.get(lockKey) === tail) {
       writeLocks.delete(lockKey);
     }
-  })();
+  });
 
-  writeLocks.set(
-    lockKey,
-    lockPromise.then(() => undefined)
-  );
+  return result;
+}
+
+type StoreResource = "init" | "graph" | "journal";
 
-  return lockPromise;
+/**
+ * Lock a store resource in this process and, through .gotn/locks, against
+ * other processes sharing the workspace. Read locks only exclude writers.
+ * The file locks are not reentrant: never take a resource you already hold.
+ */
+async function withStoreLock<T>(
+  workspacePath: string,
+  resource: StoreResource,
+  mode: FileLockMode,
+  operation: () => Promise<T>
+): Promise<T> {
+  const lockDir = path.join(workspacePath, ".gotn", "locks");
+  if (mode === "read") {
+    return withFileLock(lockDir, resource, "read", operation);
+  }
+  return withWriteLock(`${resource}:${path.resolve(workspacePath)}`, () =>
+    withFileLock(lockDir, resource, "write", operation)
+  );
 }
 
 /**
@@ -100,10 +126,11 @@ export async function withWriteLock<T>(
 export async function initStore(workspacePath: string): Promise<void> {
   const gotnPath = path.join(workspacePath, ".gotn");
 
-  await withWriteLock(`init:${gotnPath}`, async () => {
+  // The lock directory has to exist before anything can be locked
+  await fs.mkdir(path.join(gotnPath, "locks"), { recursive: true });
+
+  await withStoreLock(workspacePath, "init", "write", async () => {
     // Create directory structure
-    await fs.mkdir(gotnPath, { recursive: true });
-    await fs.mkdir(path.join(gotnPath, "locks"), { recursive: true });
     await fs.mkdir(path.join(gotnPath, "runs"), { recursive: true });
     await fs.mkdir(path.join(gotnPath, "cache"), { recursive: true });
 
@@ -124,6 +151,8 @@ export async function initStore(workspacePath: string): Promise<void> {
         created: now,
         updated: now,
         workspace_path: workspacePath,
+        // New workspaces are written in the current format
+        migrations: [EDGE_DIRECTION_MIGRATION],
       };
       await atomicWrite(metaPath, JSON.stringify(meta, null, 2));
     }
@@ -202,43 +231,176 @@ export async function readGraph(workspacePath: string): Promise<GoTNGraph> {
 export async function writeGraph(
   workspacePath: string,
   graph: GoTNGraph
+): Promise<void> {
+  await withStoreLock(workspacePath, "graph", "write", () =>
+    writeGraphLocked(workspacePath, graph)
+  );
+}
+
+/**
+ * Write graph.json for callers that already hold the graph write lock
+ * (re-acquiring it from inside the lock would wait on itself)
+ */
+async function writeGraphLocked(
+  workspacePath: string,
+  graph: GoTNGraph
 ): Promise<void> {
   const graphPath = path.join(workspacePath, ".gotn", "graph.json");
 
-  await withWriteLock(`graph:${workspacePath}`, async () => {
-    // Update version and timestamp
-    graph.version += 1;
-    graph.updated = new Date().toISOString();
+  // Update version and timestamp
+  graph.version += 1;
+  graph.updated = new Date().toISOString();
 
-    // Validate before writing
+  // Validate before writing
+  try {
+    validateGraph(graph);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      throw new Error(`Invalid graph data: ${formatValidationError(error)}`);
+    }
+    throw error;
+  }
+
+  // Write atomically
+  await atomicWrite(graphPath, JSON.stringify(graph, null, 2));
+}
+
+// Journal events that change graph.json
+const GRAPH_EVENTS = new Set<JournalEventType>([
+  "add_node",
+  "update_node",
+  "add_edge",
+  "update_edge",
+  "remove_node",
+  "remove_edge",
+]);
+
+// Bytes read from the end of the journal to find the last sequence number
+const JOURNAL_TAIL_BYTES = 64 * 1024;
+
+/**
+ * Highest sequence number written so far. Reads only the end of the journal;
+ * an empty (compacted) journal falls back to the snapshot and graph.json.
+ */
+async function readLastSeq(workspacePath: string): Promise<number> {
+  const journalPath = path.join(workspacePath, ".gotn", "journal.ndjson");
+  let lastSeq = 0;
+
+  try {
+    const handle = await fs.open(journalPath, "r");
     try {
-      validateGraph(graph);
-    } catch (error: any) {
-      if (error.name === "ZodError") {
-        throw new Error(`Invalid graph data: ${formatValidationError(error)}`);
+      const { size } = await handle.stat();
+      const length = Math.min(size, JOURNAL_TAIL_BYTES);
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, size - length);
+
+      const lines = buffer.toString("utf8").split("\n");
+      // The first line of a partial read may be cut off
+      if (length < size) lines.shift();
+
+      for (const line of lines.reverse()) {
+        try {
+          const seq = JSON.parse(line).seq;
+          if (typeof seq === "number") {
+            lastSeq = seq;
+            break;
+          }
+        } catch {
+          // Empty or torn line
+        }
       }
-      throw error;
+
+      if (lastSeq === 0 && length < size) {
+        for (const entry of await readJournal(workspacePath)) {
+          lastSeq = Math.max(lastSeq, entry.seq ?? 0);
+        }
+      }
+    } finally {
+      await handle.close();
     }
+  } catch (error: any) {
+    if (error.code !== "ENOENT") throw error;
+  }
 
-    // Write atomically
-    await atomicWrite(graphPath, JSON.stringify(graph, null, 2));
-  });
+  if (lastSeq > 0) return lastSeq;
+
+  const latest = await readLatestSnapshot(workspacePath);
+  lastSeq = Math.max(
+    latest?.snapshot.last_seq ?? 0,
+    latest?.snapshot.graph.last_applied_seq ?? 0
+  );
+  try {
+    lastSeq = Math.max(
+      lastSeq,
+      (await readGraph(workspacePath)).last_applied_seq ?? 0
+    );
+  } catch {
+    // graph.json is missing or corrupt; recovery will rebuild it
+  }
+  return lastSeq;
+}
+
+/**
+ * Cut off a torn last line left by a crash mid-append, so the next entry
+ * starts on its own line
+ */
+async function truncateTornTail(journalPath: string): Promise<void> {
+  let handle;
+  try {
+    handle = await fs.open(journalPath, "r+");
+  } catch (error: any) {
+    if (error.code === "ENOENT") return;
+    throw error;
+  }
+
+  try {
+    const { size } = await handle.stat();
+    const last = Buffer.alloc(1);
+    if (size === 0) return;
+    await handle.read(last, 0, 1, size - 1);
+    if (last[0] === 0x0a) return;
+
+    let end = size;
+    let cut = 0;
+    while (end > 0) {
+      const start = Math.max(0, end - JOURNAL_TAIL_BYTES);
+      const chunk = Buffer.alloc(end - start);
+      await handle.read(chunk, 0, chunk.length, start);
+      const newline = chunk.lastIndexOf(0x0a);
+      if (newline >= 0) {
+        cut = start + newline + 1;
+        break;
+      }
+      end = start;
+    }
+
+    console.error(
+      `[GoTN Journal] Truncating torn last line (${size - cut} bytes)`
+    );
+    await handle.truncate(cut);
+  } finally {
+    await handle.close();
+  }
 }
 
 /**
- * Append entry to journal.ndjson with validation
+ * Append a sequenced entry to journal.ndjson and fsync it before returning,
+ * so the entry is durable before any graph.json change it describes
  */
 export async function appendJournal(
   workspacePath: string,
-  entry: Omit<JournalEntry, "timestamp" | "id">
-): Promise<void> {
+  entry: Omit<JournalEntry, "timestamp" | "id" | "seq">
+): Promise<JournalEntry> {
   const journalPath = path.join(workspacePath, ".gotn", "journal.ndjson");
 
-  await withWriteLock(`journal:${workspacePath}`, async () => {
+  return withStoreLock(workspacePath, "journal", "write", async () => {
+    await truncateTornTail(journalPath);
+
     const fullEntry: JournalEntry = {
       ...entry,
       timestamp: new Date().toISOString(),
       id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      seq: (await readLastSeq(workspacePath)) + 1,
     };
 
     // Validate before writing
@@ -254,7 +416,191 @@ export async function appendJournal(
     }
 
     const line = JSON.stringify(fullEntry) + "\n";
-    await fs.appendFile(journalPath, line, "utf8");
+    const handle = await fs.open(journalPath, "a");
+    try {
+      await handle.writeFile(line, "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    // Periodic snapshot so recovery only replays the tail
+    const interval = snapshotInterval();
+    const appends = (appendsSinceSnapshot.get(workspacePath) || 0) + 1;
+    if (interval > 0 && appends >= interval) {
+      await writeSnapshotLocked(workspacePath);
+    } else {
+      appendsSinceSnapshot.set(workspacePath, appends);
+    }
+
+    return fullEntry;
+  });
+}
+
+function edgeKey(edge: Pick<Edge, "src" | "dst" | "type">): string {
+  return `${edge.src}->${edge.dst}:${edge.type}`;
+}
+
+/**
+ * Apply a graph event to an in-memory graph. Applying the same entry twice
+ * leaves the same result, so replay after a crash is safe. Returns false for
+ * events that do not change the graph.
+ */
+export function applyJournalEntry(graph: Graph, entry: JournalEntry): boolean {
+  const data = entry.data as any;
+
+  switch (entry.event) {
+    case "add_node":
+    case "update_node": {
+      if (!data?.node) return false;
+      const node = validateNode(data.node);
+      const index = graph.nodes.findIndex((n) => n.id === node.id);
+      if (index >= 0) {
+        graph.nodes[index] = node;
+      } else {
+        graph.nodes.push(node);
+      }
+      return true;
+    }
+
+    case "add_edge":
+    case "update_edge": {
+      if (!data?.edge) return false;
+      const edge = validateEdge(data.edge);
+      const index =
+        entry.event === "update_edge"
+          ? graph.edges.findIndex(
+              (e) => e.src === data.edge_src && e.dst === data.edge_dst
+            )
+          : graph.edges.findIndex(
+              (e) =>
+                e.src === edge.src && e.dst === edge.dst && e.type === edge.type
+            );
+      if (index >= 0) {
+        graph.edges[index] = edge;
+      } else {
+        graph.edges.push(edge);
+      }
+      return true;
+    }
+
+    case "remove_node":
+    case "remove_edge": {
+      if (!Array.isArray(data?.removed_edges)) return false;
+      const removed = new Set((data.removed_edges as Edge[]).map(edgeKey));
+      graph.edges = graph.edges.filter((e) => !removed.has(edgeKey(e)));
+      if (entry.event === "remove_edge") return true;
+
+      graph.nodes = graph.nodes.filter((n) => n.id !== data.node_id);
+      for (const raw of data.updated_nodes || []) {
+        const node = validateNode(raw);
+        const index = graph.nodes.findIndex((n) => n.id === node.id);
+        if (index >= 0) graph.nodes[index] = node;
+      }
+      for (const raw of data.added_edges || []) {
+        const edge = validateEdge(raw);
+        if (!graph.edges.some((e) => edgeKey(e) === edgeKey(edge))) {
+          graph.edges.push(edge);
+        }
+      }
+      return true;
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Write-ahead graph change for callers holding the graph lock: journal the
+ * entry first, then apply it to graph.json and record its sequence number
+ */
+async function commitGraphEvent(
+  workspacePath: string,
+  graph: Graph,
+  entry: Omit<JournalEntry, "timestamp" | "id" | "seq">
+): Promise<void> {
+  const written = await appendJournal(workspacePath, entry);
+  applyJournalEntry(graph, written);
+  graph.last_applied_seq = written.seq;
+  await writeGraphLocked(workspacePath, graph);
+}
+
+// Workspaces this process has replayed and migrated
+const openedWorkspaces = new Set<string>();
+
+/**
+ * Read graph.json under the graph lock before changing it. The first time
+ * in this process, entries left unapplied by a crashed writer are replayed
+ * first, so recording a newer sequence number cannot mark them as applied,
+ * and pending migrations are run.
+ */
+async function readGraphForWrite(workspacePath: string): Promise<Graph> {
+  const graph = await readGraph(workspacePath);
+  if (!openedWorkspaces.has(workspacePath)) {
+    await openStoreLocked(workspacePath, graph);
+  }
+  return graph;
+}
+
+/**
+ * Replay unapplied entries, then migrate edge direction, for callers
+ * holding the graph write lock
+ */
+async function openStoreLocked(
+  workspacePath: string,
+  graph: Graph
+): Promise<{ replayed: JournalEntry[]; migration: EdgeMigrationResult }> {
+  const replayed = await replayUnappliedLocked(workspacePath, graph);
+  const migration = await migrateEdgeDirectionLocked(workspacePath, graph);
+  openedWorkspaces.add(workspacePath);
+  return { replayed, migration };
+}
+
+async function replayUnappliedLocked(
+  workspacePath: string,
+  graph: Graph
+): Promise<JournalEntry[]> {
+  const applied = graph.last_applied_seq ?? 0;
+  const { entries } = await readJournalTail(workspacePath);
+  const pending = entries.filter(
+    (e) => GRAPH_EVENTS.has(e.event) && e.seq !== undefined && e.seq > applied
+  );
+  if (pending.length === 0) return [];
+
+  for (const entry of pending) {
+    applyJournalEntry(graph, entry);
+  }
+  graph.last_applied_seq = pending[pending.length - 1].seq;
+  await writeGraphLocked(workspacePath, graph);
+  return pending;
+}
+
+/**
+ * Apply journal entries that were written but never reached graph.json,
+ * e.g. after a crash between the two writes, and run pending migrations.
+ * Run at startup.
+ */
+export async function replayUnappliedEntries(
+  workspacePath: string
+): Promise<JournalEntry[]> {
+  return withStoreLock(workspacePath, "graph", "write", async () => {
+    const graph = await readGraph(workspacePath);
+    const { replayed, migration } = await openStoreLocked(
+      workspacePath,
+      graph
+    );
+    if (replayed.length > 0) {
+      console.error(
+        `[GoTN Recovery] Replayed ${replayed.length} unapplied journal entries`
+      );
+    }
+    if (migration.graph_edges_flipped > 0) {
+      console.error(
+        `[GoTN Migration] Flipped ${migration.graph_edges_flipped} hard edges to producer -> consumer direction`
+      );
+    }
+    return replayed;
   });
 }
 
@@ -268,10 +614,21 @@ export async function readJournal(
 
   try {
     const content = await fs.readFile(journalPath, "utf8");
-    return content
-      .split("\n")
+    const lines = content.split("\n");
+
+    // A crash mid-append can leave a torn last line; it was never committed
+    const last = lines.pop() as string;
+    const entries = lines
       .filter((line) => line.trim())
       .map((line) => JSON.parse(line));
+    if (last.trim()) {
+      try {
+        entries.push(JSON.parse(last));
+      } catch {
+        console.error("[GoTN Journal] Ignoring torn last journal line");
+      }
+    }
+    return entries;
   } catch (error: any) {
     if (error.code === "ENOENT") {
       return [];
@@ -280,6 +637,237 @@ export async function readJournal(
   }
 }
 
+const MAX_SNAPSHOTS = 3;
+
+function snapshotInterval(): number {
+  const value = parseInt(process.env.GOTN_SNAPSHOT_INTERVAL || "", 10);
+  return Number.isNaN(value) ? 500 : value;
+}
+
+function snapshotsDir(workspacePath: string): string {
+  return path.join(workspacePath, ".gotn", "snapshots");
+}
+
+/**
+ * Snapshot files, newest (highest journal offset) first
+ */
+async function listSnapshotFiles(workspacePath: string): Promise<string[]> {
+  try {
+    const files = await fs.readdir(snapshotsDir(workspacePath));
+    return files
+      .filter((f) => /^snapshot-\d+\.json$/.test(f))
+      .sort()
+      .reverse()
+      .map((f) => path.join(snapshotsDir(workspacePath), f));
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the newest snapshot that parses and validates, skipping corrupt ones
+ */
+export async function readLatestSnapshot(
+  workspacePath: string
+): Promise<{ path: string; snapshot: Snapshot } | null> {
+  for (const file of await listSnapshotFiles(workspacePath)) {
+    try {
+      const content = await fs.readFile(file, "utf8");
+      return { path: file, snapshot: validateSnapshot(JSON.parse(content)) };
+    } catch (error: any) {
+      console.error(
+        `[GoTN Snapshot] Ignoring invalid snapshot ${file}: ${error.message}`
+      );
+    }
+  }
+  return null;
+}
+
+/**
+ * The newest valid snapshot and the journal entries written after it.
+ * A snapshot whose last entry is no longer in the journal was the base of
+ * the last compaction, so the whole journal is its tail.
+ */
+export async function readJournalTail(
+  workspacePath: string
+): Promise<{ snapshot: Snapshot | null; entries: JournalEntry[] }> {
+  // Compaction swaps the snapshot and journal; read both under one lock
+  return withStoreLock(workspacePath, "journal", "read", () =>
+    readJournalTailUnlocked(workspacePath)
+  );
+}
+
+async function readJournalTailUnlocked(
+  workspacePath: string
+): Promise<{ snapshot: Snapshot | null; entries: JournalEntry[] }> {
+  const latest = await readLatestSnapshot(workspacePath);
+  const entries = await readJournal(workspacePath);
+  if (!latest || latest.snapshot.last_entry_id === null) {
+    return { snapshot: latest?.snapshot ?? null, entries };
+  }
+
+  const index = entries.findIndex(
+    (e) => e.id === latest.snapshot.last_entry_id
+  );
+  return { snapshot: latest.snapshot, entries: entries.slice(index + 1) };
+}
+
+/**
+ * The earliest graph state still on disk and every journal entry after it:
+ * the whole journal from an empty graph, or, once compacted, the snapshot
+ * the journal was compacted against. If that snapshot has been rotated out,
+ * history starts at the newest snapshot instead.
+ */
+export async function readJournalHistory(
+  workspacePath: string
+): Promise<{ base: Snapshot | null; entries: JournalEntry[] }> {
+  return withStoreLock(workspacePath, "journal", "read", async () => {
+    const entries = await readJournal(workspacePath);
+    const snapshots: Snapshot[] = [];
+    for (const file of await listSnapshotFiles(workspacePath)) {
+      try {
+        snapshots.push(
+          validateSnapshot(JSON.parse(await fs.readFile(file, "utf8")))
+        );
+      } catch {
+        // readLatestSnapshot reports invalid snapshots
+      }
+    }
+
+    const latest = snapshots[0];
+    if (!latest) return { base: null, entries };
+
+    // Entries before the first one in the journal were compacted away
+    const index =
+      latest.last_entry_id === null
+        ? -1
+        : entries.findIndex((e) => e.id === latest.last_entry_id);
+    const compacted =
+      index >= 0 ? latest.journal_offset - (index + 1) : latest.journal_offset;
+    if (compacted === 0) return { base: null, entries };
+
+    const base = snapshots.find((s) => s.journal_offset === compacted);
+    if (base) return { base, entries };
+    return readJournalTailUnlocked(workspacePath).then((tail) => ({
+      base: tail.snapshot,
+      entries: tail.entries,
+    }));
+  });
+}
+
+/**
+ * Write a snapshot of graph.json for callers that hold the journal lock
+ */
+async function writeSnapshotLocked(
+  workspacePath: string
+): Promise<{ path: string; snapshot: Snapshot }> {
+  const { snapshot: previous, entries } = await readJournalTailUnlocked(
+    workspacePath
+  );
+  const graph = await readGraph(workspacePath);
+
+  // Stop before the first graph event graph.json does not reflect yet (the
+  // write-ahead entry of a write in progress); it must stay in the tail
+  const applied = graph.last_applied_seq ?? Infinity;
+  let covered = entries.findIndex(
+    (e) => GRAPH_EVENTS.has(e.event) && e.seq !== undefined && e.seq > applied
+  );
+  if (covered === -1) covered = entries.length;
+  const lastEntry = entries[covered - 1];
+
+  const snapshot: Snapshot = {
+    created_at: new Date().toISOString(),
+    journal_offset: (previous?.journal_offset ?? 0) + covered,
+    last_entry_id: lastEntry ? lastEntry.id : previous?.last_entry_id ?? null,
+    last_seq: lastEntry?.seq ?? previous?.last_seq,
+    graph,
+  };
+
+  await fs.mkdir(snapshotsDir(workspacePath), { recursive: true });
+  const snapshotPath = path.join(
+    snapshotsDir(workspacePath),
+    `snapshot-${String(snapshot.journal_offset).padStart(12, "0")}.json`
+  );
+  await atomicWrite(snapshotPath, JSON.stringify(snapshot, null, 2));
+  appendsSinceSnapshot.set(workspacePath, 0);
+
+  // Older snapshots are only fallbacks; keep a few
+  for (const file of (await listSnapshotFiles(workspacePath)).slice(
+    MAX_SNAPSHOTS
+  )) {
+    await fs.unlink(file);
+  }
+
+  return { path: snapshotPath, snapshot };
+}
+
+/**
+ * Snapshot the current graph state and journal offset
+ */
+export async function createSnapshot(
+  workspacePath: string
+): Promise<{ path: string; snapshot: Snapshot }> {
+  return withStoreLock(workspacePath, "journal", "write", () =>
+    writeSnapshotLocked(workspacePath)
+  );
+}
+
+export interface CompactionResult {
+  snapshot_path: string;
+  journal_offset: number;
+  entries_removed: number;
+  entries_kept: number;
+  snapshots_removed: number;
+}
+
+/**
+ * Drop journal entries covered by a snapshot. By default a fresh snapshot is
+ * taken first, so the journal ends up empty; snapshots older than the one
+ * compacted against are removed because their tail no longer exists.
+ */
+export async function compactJournal(
+  workspacePath: string,
+  options: { snapshot?: boolean } = {}
+): Promise<CompactionResult> {
+  const journalPath = path.join(workspacePath, ".gotn", "journal.ndjson");
+
+  return withStoreLock(workspacePath, "journal", "write", async () => {
+    const latest =
+      options.snapshot === false
+        ? await readLatestSnapshot(workspacePath)
+        : await writeSnapshotLocked(workspacePath);
+    if (!latest) {
+      throw new Error("No snapshot to compact against");
+    }
+
+    const entries = await readJournal(workspacePath);
+    const { entries: tail } = await readJournalTailUnlocked(workspacePath);
+    await atomicWrite(
+      journalPath,
+      tail.map((entry) => JSON.stringify(entry) + "\n").join("")
+    );
+
+    let snapshotsRemoved = 0;
+    for (const file of await listSnapshotFiles(workspacePath)) {
+      if (file !== latest.path) {
+        await fs.unlink(file);
+        snapshotsRemoved++;
+      }
+    }
+
+    return {
+      snapshot_path: latest.path,
+      journal_offset: latest.snapshot.journal_offset,
+      entries_removed: entries.length - tail.length,
+      entries_kept: tail.length,
+      snapshots_removed: snapshotsRemoved,
+    };
+  });
+}
+
 /**
  * Check if .gotn exists and is properly initialized
  */
@@ -304,6 +892,12 @@ export async function isInitialized(workspacePath: string): Promise<boolean> {
  * Rebuilds graph.json from the append-only journal
  */
 export async function recoverFromJournal(workspacePath: string): Promise<void> {
+  await withStoreLock(workspacePath, "graph", "write", () =>
+    recoverFromJournalLocked(workspacePath)
+  );
+}
+
+async function recoverFromJournalLocked(workspacePath: string): Promise<void> {
   const journalPath = path.join(workspacePath, ".gotn", "journal.ndjson");
   const graphPath = path.join(workspacePath, ".gotn", "graph.json");
 
@@ -312,8 +906,15 @@ export async function recoverFromJournal(workspacePath: string): Promise<void> {
   );
 
   try {
-    // Read all journal entries
-    const journalEntries = await readJournal(workspacePath);
+    // Start from the newest snapshot and replay only the entries after it
+    const { snapshot, entries: journalEntries } = await readJournalTail(
+      workspacePath
+    );
+    if (snapshot) {
+      console.error(
+        `[GoTN Recovery] Using snapshot at journal offset ${snapshot.journal_offset}`
+      );
+    }
     console.error(
       `[GoTN Recovery] Found ${journalEntries.length} journal entries`
     );
@@ -326,8 +927,12 @@ export async function recoverFromJournal(workspacePath: string): Promise<void> {
       updated: new Date().toISOString(),
     };
 
-    const nodeMap = new Map<string, Node>();
-    const edgeMap = new Map<string, Edge>();
+    const nodeMap = new Map<string, Node>(
+      (snapshot?.graph.nodes || []).map((n) => [n.id, n])
+    );
+    const edgeMap = new Map<string, Edge>(
+      (snapshot?.graph.edges || []).map((e) => [edgeKey(e), e])
+    );
 
     // Process journal entries in chronological order
     for (const entry of journalEntries) {
@@ -357,9 +962,8 @@ export async function recoverFromJournal(workspacePath: string): Promise<void> {
             const edgeData = entry.data as any;
             if (edgeData.edge) {
               const edge = edgeData.edge as Edge;
-              const edgeKey = `${edge.src}->${edge.dst}`;
-              edgeMap.set(edgeKey, edge);
-              console.error(`[GoTN Recovery] Added edge: ${edgeKey}`);
+              edgeMap.set(edgeKey(edge), edge);
+              console.error(`[GoTN Recovery] Added edge: ${edgeKey(edge)}`);
             }
             break;
           }
@@ -368,16 +972,51 @@ export async function recoverFromJournal(workspacePath: string): Promise<void> {
             const edgeData = entry.data as any;
             if (edgeData.edge) {
               const edge = edgeData.edge as Edge;
-              const edgeKey = `${edge.src}->${edge.dst}`;
-              edgeMap.set(edgeKey, edge);
-              console.error(`[GoTN Recovery] Updated edge: ${edgeKey}`);
+              // Like applyJournalEntry, replace the first edge between the pair
+              const existing = [...edgeMap.entries()].find(
+                ([, e]) => e.src === edge.src && e.dst === edge.dst
+              );
+              if (existing) edgeMap.delete(existing[0]);
+              edgeMap.set(edgeKey(edge), edge);
+              console.error(`[GoTN Recovery] Updated edge: ${edgeKey(edge)}`);
+            }
+            break;
+          }
+
+          case "remove_node": {
+            const removeData = entry.data as RemoveNodeEventData;
+            nodeMap.delete(removeData.node_id);
+            for (const edge of removeData.removed_edges || []) {
+              edgeMap.delete(edgeKey(edge));
+            }
+            for (const node of removeData.updated_nodes || []) {
+              if (nodeMap.has(node.id)) nodeMap.set(node.id, node);
+            }
+            for (const edge of removeData.added_edges || []) {
+              edgeMap.set(edgeKey(edge), edge);
+            }
+            console.error(
+              `[GoTN Recovery] Removed node: ${removeData.node_id}`
+            );
+            break;
+          }
+
+          case "remove_edge": {
+            const removeData = entry.data as RemoveEdgeEventData;
+            for (const edge of removeData.removed_edges || []) {
+              edgeMap.delete(edgeKey(edge));
             }
+            console.error(
+              `[GoTN Recovery] Removed edge: ${removeData.edge_src}->${removeData.edge_dst}`
+            );
             break;
           }
 
           case "workspace_initialized":
           case "start_run":
           case "finish_run":
+          case "apply_patch":
+          case "revert_patch":
             // These events don't affect the graph structure
             break;
 
@@ -396,8 +1035,17 @@ export async function recoverFromJournal(workspacePath: string): Promise<void> {
     recoveredGraph.nodes = Array.from(nodeMap.values());
     recoveredGraph.edges = Array.from(edgeMap.values());
 
+    // Every replayed entry is now reflected in the graph
+    recoveredGraph.last_applied_seq = journalEntries.reduce(
+      (max, entry) => Math.max(max, entry.seq ?? 0),
+      snapshot?.graph.last_applied_seq ?? 0
+    );
+
     // Update version based on journal length
-    recoveredGraph.version = Math.max(1, journalEntries.length);
+    recoveredGraph.version = Math.max(
+      1,
+      (snapshot?.journal_offset ?? 0) + journalEntries.length
+    );
 
     console.error(
       `[GoTN Recovery] Recovered graph with ${recoveredGraph.nodes.length} nodes and ${recoveredGraph.edges.length} edges`
@@ -438,9 +1086,9 @@ export async function addNode(
   // Validate node before adding
   const validatedNode = validateNode(node);
 
-  await withWriteLock(`graph:${workspacePath}`, async () => {
+  await withStoreLock(workspacePath, "graph", "write", async () => {
     // Read current graph
-    const graph = await readGraph(workspacePath);
+    const graph = await readGraphForWrite(workspacePath);
 
     // Check if node already exists
     const existingNodeIndex = graph.nodes.findIndex(
@@ -450,14 +1098,8 @@ export async function addNode(
       throw new Error(`Node with ID ${validatedNode.id} already exists`);
     }
 
-    // Add node to graph
-    graph.nodes.push(validatedNode);
-
-    // Write updated graph
-    await writeGraph(workspacePath, graph);
-
-    // Log to journal
-    await appendJournal(workspacePath, {
+    // Journal first, then apply to graph.json
+    await commitGraphEvent(workspacePath, graph, {
       event: "add_node",
       data: { node: validatedNode },
     });
@@ -465,13 +1107,51 @@ export async function addNode(
 }
 
 /**
- * Update an existing node in the graph with journal logging
+ * Thrown when an update expected a node version that is no longer current
+ */
+export class NodeVersionConflictError extends Error {
+  readonly code = "NODE_VERSION_CONFLICT";
+  readonly nodeId: string;
+  readonly expectedVersion: number;
+  readonly current: Node;
+  // Fields both sides changed, when a merge was attempted
+  readonly conflictingFields: string[];
+
+  constructor(
+    nodeId: string,
+    expectedVersion: number,
+    current: Node,
+    conflictingFields: string[] = []
+  ) {
+    super(
+      `Node ${nodeId} is at version ${current.version}, expected ${expectedVersion}` +
+        (conflictingFields.length > 0
+          ? `; conflicting fields: ${conflictingFields.join(", ")}`
+          : "")
+    );
+    this.name = "NodeVersionConflictError";
+    this.nodeId = nodeId;
+    this.expectedVersion = expectedVersion;
+    this.current = current;
+    this.conflictingFields = conflictingFields;
+  }
+}
+
+export interface UpdateNodeOptions {
+  // Reject the update unless the stored node is still at this version
+  expected_version?: number;
+}
+
+/**
+ * Update an existing node in the graph with journal logging. Returns the
+ * node as written, with its new version.
  */
 export async function updateNode(
   workspacePath: string,
   nodeId: string,
-  node: Node
-): Promise<void> {
+  node: Node,
+  options: UpdateNodeOptions = {}
+): Promise<Node> {
   // Validate node before updating
   const validatedNode = validateNode(node);
 
@@ -479,9 +1159,9 @@ export async function updateNode(
     throw new Error("Node ID cannot be changed during update");
   }
 
-  await withWriteLock(`graph:${workspacePath}`, async () => {
+  return withStoreLock(workspacePath, "graph", "write", async () => {
     // Read current graph
-    const graph = await readGraph(workspacePath);
+    const graph = await readGraphForWrite(workspacePath);
 
     // Find existing node
     const existingNodeIndex = graph.nodes.findIndex((n) => n.id === nodeId);
@@ -489,17 +1169,31 @@ export async function updateNode(
       throw new Error(`Node with ID ${nodeId} not found`);
     }
 
-    // Update node in graph
-    graph.nodes[existingNodeIndex] = validatedNode;
+    const current = graph.nodes[existingNodeIndex];
+    if (
+      options.expected_version !== undefined &&
+      current.version !== options.expected_version
+    ) {
+      throw new NodeVersionConflictError(
+        nodeId,
+        options.expected_version,
+        current
+      );
+    }
 
-    // Write updated graph
-    await writeGraph(workspacePath, graph);
+    // Every update is a new version, whatever the caller passed
+    const nextNode: Node = {
+      ...validatedNode,
+      version: current.version + 1,
+      updated_at: new Date().toISOString(),
+    };
 
-    // Log to journal
-    await appendJournal(workspacePath, {
+    // Journal first, then apply to graph.json
+    await commitGraphEvent(workspacePath, graph, {
       event: "update_node",
-      data: { node_id: nodeId, node: validatedNode },
+      data: { node_id: nodeId, node: nextNode },
     });
+    return nextNode;
   });
 }
 
@@ -513,9 +1207,9 @@ export async function addEdge(
   // Validate edge before adding
   const validatedEdge = validateEdge(edge);
 
-  await withWriteLock(`graph:${workspacePath}`, async () => {
+  await withStoreLock(workspacePath, "graph", "write", async () => {
     // Read current graph
-    const graph = await readGraph(workspacePath);
+    const graph = await readGraphForWrite(workspacePath);
 
     // Check if edge already exists
     const existingEdgeIndex = graph.edges.findIndex(
@@ -530,14 +1224,8 @@ export async function addEdge(
       );
     }
 
-    // Add edge to graph
-    graph.edges.push(validatedEdge);
-
-    // Write updated graph
-    await writeGraph(workspacePath, graph);
-
-    // Log to journal
-    await appendJournal(workspacePath, {
+    // Journal first, then apply to graph.json
+    await commitGraphEvent(workspacePath, graph, {
       event: "add_edge",
       data: { edge: validatedEdge },
     });
@@ -562,9 +1250,9 @@ export async function updateEdge(
     );
   }
 
-  await withWriteLock(`graph:${workspacePath}`, async () => {
+  await withStoreLock(workspacePath, "graph", "write", async () => {
     // Read current graph
-    const graph = await readGraph(workspacePath);
+    const graph = await readGraphForWrite(workspacePath);
 
     // Find existing edge
     const existingEdgeIndex = graph.edges.findIndex(
@@ -574,16 +1262,484 @@ export async function updateEdge(
       throw new Error(`Edge from ${src} to ${dst} not found`);
     }
 
-    // Update edge in graph
-    graph.edges[existingEdgeIndex] = validatedEdge;
-
-    // Write updated graph
-    await writeGraph(workspacePath, graph);
+    const nextEdge: Edge = {
+      ...validatedEdge,
+      version: graph.edges[existingEdgeIndex].version + 1,
+      updated_at: new Date().toISOString(),
+    };
 
-    // Log to journal
-    await appendJournal(workspacePath, {
+    // Journal first, then apply to graph.json
+    await commitGraphEvent(workspacePath, graph, {
       event: "update_edge",
-      data: { edge_src: src, edge_dst: dst, edge: validatedEdge },
+      data: { edge_src: src, edge_dst: dst, edge: nextEdge },
+    });
+  });
+}
+
+export interface RemoveNodeOptions {
+  // refuse (default): fail if hard_requires consumers or children depend on
+  // the node; drop_edges: drop every incident edge and orphan the children;
+  // reparent: hand children to the node's parent and connect its producers
+  // directly to its consumers
+  cascade?: NodeCascade;
+}
+
+/**
+ * Work out everything removing a node changes, without changing the graph
+ */
+function planNodeRemoval(
+  graph: Graph,
+  node: Node,
+  cascade: NodeCascade
+): RemoveNodeEventData {
+  const now = new Date().toISOString();
+  const incident = graph.edges.filter(
+    (e) => e.src === node.id || e.dst === node.id
+  );
+  const children = graph.nodes.filter(
+    (n) => n.parent === node.id || node.children.includes(n.id)
+  );
+
+  if (cascade === "refuse") {
+    const consumers = incident
+      .filter((e) => e.type === "hard_requires" && e.src === node.id)
+      .map((e) => e.dst);
+    const dependents = [
+      ...new Set([...consumers, ...children.map((n) => n.id)]),
+    ];
+    if (dependents.length > 0) {
+      throw new Error(
+        `Node ${node.id} has dependents (${dependents.join(
+          ", "
+        )}); use cascade drop_edges or reparent to remove it`
+      );
+    }
+  }
+
+  const newParent =
+    cascade === "reparent" && node.parent
+      ? graph.nodes.find((n) => n.id === node.parent)
+      : undefined;
+
+  const touch = (n: Node, changes: Partial<Node>): Node => ({
+    ...n,
+    ...changes,
+    version: n.version + 1,
+    updated_at: now,
+  });
+
+  const updatedNodes: Node[] = children.map((child) => {
+    const { parent: _parent, ...rest } = child;
+    return touch(rest as Node, newParent ? { parent: newParent.id } : {});
+  });
+
+  const oldParent = node.parent
+    ? graph.nodes.find((n) => n.id === node.parent)
+    : undefined;
+  if (oldParent) {
+    const siblings = oldParent.children.filter((id) => id !== node.id);
+    const adopted = newParent
+      ? children.map((n) => n.id).filter((id) => !siblings.includes(id))
+      : [];
+    updatedNodes.push(
+      touch(oldParent, { children: [...siblings, ...adopted] })
+    );
+  }
+
+  const addedEdges: Edge[] = [];
+  if (cascade === "reparent") {
+    const exists = (candidate: Edge) =>
+      [...graph.edges, ...addedEdges].some(
+        (e) => edgeKey(e) === edgeKey(candidate)
+      );
+    const provenance = { created_by: "gotn_delete_node", source: "reparent" };
+
+    const bridges: Edge[] = [];
+    if (newParent) {
+      for (const child of children) {
+        bridges.push(
+          validateEdge({
+            src: newParent.id,
+            dst: child.id,
+            type: "derived_from",
+            provenance,
+          })
+        );
+      }
+    }
+
+    // Keep execution order intact across the removed node
+    for (const type of ["hard_requires", "soft_order"] as const) {
+      const producers = incident.filter(
+        (e) => e.type === type && e.dst === node.id
+      );
+      const consumers = incident.filter(
+        (e) => e.type === type && e.src === node.id
+      );
+      for (const before of producers) {
+        for (const after of consumers) {
+          if (before.src === after.dst) continue;
+          bridges.push(
+            validateEdge({
+              src: before.src,
+              dst: after.dst,
+              type,
+              evidence: `Bridged across removed node ${node.id}`,
+              provenance,
+            })
+          );
+        }
+      }
+    }
+
+    for (const edge of bridges) {
+      if (!exists(edge)) addedEdges.push(edge);
+    }
+  }
+
+  return {
+    node_id: node.id,
+    cascade,
+    node,
+    removed_edges: incident,
+    added_edges: addedEdges,
+    updated_nodes: updatedNodes,
+  };
+}
+
+/**
+ * Remove a node and its incident edges with journal logging. The journal
+ * entry records the removed node and every side effect, so it doubles as a
+ * tombstone and replays without re-deciding the cascade.
+ */
+export async function removeNode(
+  workspacePath: string,
+  nodeId: string,
+  options: RemoveNodeOptions = {}
+): Promise<RemoveNodeEventData> {
+  const cascade = options.cascade ?? "refuse";
+
+  return withStoreLock(workspacePath, "graph", "write", async () => {
+    const graph = await readGraphForWrite(workspacePath);
+
+    const node = graph.nodes.find((n) => n.id === nodeId);
+    if (!node) {
+      throw new Error(`Node with ID ${nodeId} not found`);
+    }
+
+    const removal = planNodeRemoval(graph, node, cascade);
+
+    // Journal first, then apply to graph.json
+    await commitGraphEvent(workspacePath, graph, {
+      event: "remove_node",
+      data: removal,
+    });
+    return removal;
+  });
+}
+
+/**
+ * Remove the edges from src to dst (only those of the given type, if set)
+ * with journal logging
+ */
+export async function removeEdge(
+  workspacePath: string,
+  src: string,
+  dst: string,
+  type?: Edge["type"]
+): Promise<Edge[]> {
+  return withStoreLock(workspacePath, "graph", "write", async () => {
+    const graph = await readGraphForWrite(workspacePath);
+
+    const removed = graph.edges.filter(
+      (e) => e.src === src && e.dst === dst && (!type || e.type === type)
+    );
+    if (removed.length === 0) {
+      throw new Error(
+        `Edge from ${src} to ${dst}${type ? ` of type ${type}` : ""} not found`
+      );
+    }
+
+    const data: RemoveEdgeEventData = {
+      edge_src: src,
+      edge_dst: dst,
+      ...(type ? { edge_type: type } : {}),
+      removed_edges: removed,
+    };
+
+    // Journal first, then apply to graph.json
+    await commitGraphEvent(workspacePath, graph, {
+      event: "remove_edge",
+      data,
+    });
+    return removed;
+  });
+}
+
+export interface EdgeMigrationResult {
+  // False when meta.json records that the migration already ran
+  migrated: boolean;
+  graph_edges_flipped: number;
+  graph_duplicates_removed: number;
+  journal_entries_rewritten: number;
+  snapshots_rewritten: number;
+  // Hard edges that look reversed but were not written by EdgeEngine; they
+  // are left as they are for the user to check
+  ambiguous_edges: string[];
+}
+
+// Recorded in meta.json migrations once migrateEdgeDirection has run
+const EDGE_DIRECTION_MIGRATION = "edge_direction";
+
+/**
+ * Classify a hard_requires edge against the producer -> consumer convention.
+ * "legacy" edges were written by EdgeEngine from consumer to producer and
+ * can be flipped safely. "ambiguous" edges point from a consumer to its
+ * producer but were created by someone else, who may have meant it.
+ */
+export function legacyHardEdgeStatus(
+  edge: Edge,
+  nodes: Map<string, Node>
+): "legacy" | "ambiguous" | "current" {
+  if (edge.type !== "hard_requires") return "current";
+
+  // EdgeEngine evidence names the consumer first
+  const match = edge.evidence?.match(
+    /^(\S+) (?:requires|touches) "(.+)" which (\S+) (?:produces|indexes)$/
+  );
+  if (match) {
+    return match[1] === edge.src && match[3] === edge.dst
+      ? "legacy"
+      : "current";
+  }
+
+  const src = nodes.get(edge.src);
+  const dst = nodes.get(edge.dst);
+  if (!src || !dst) return "current";
+
+  const srcConsumesDst = src.requires.some((t) => dst.produces.includes(t));
+  const dstConsumesSrc = dst.requires.some((t) => src.produces.includes(t));
+  if (!srcConsumesDst || dstConsumesSrc) return "current";
+  return edge.provenance.created_by === "edge_engine" ? "legacy" : "ambiguous";
+}
+
+function flipEdge(edge: Edge): Edge {
+  return { ...edge, src: edge.dst, dst: edge.src };
+}
+
+/**
+ * Flip the legacy edges a journal entry carries, in place. The edge_src and
+ * edge_dst of update and remove events follow the edge they name.
+ */
+function migrateEntryEdges(
+  entry: JournalEntry,
+  migrate: (edge: Edge) => Edge
+): boolean {
+  const data = entry.data as any;
+  if (!data) return false;
+  let changed = false;
+
+  const migrateList = (list: unknown): Edge[] | undefined => {
+    if (!Array.isArray(list)) return undefined;
+    return list.map((raw: Edge) => {
+      const edge = migrate(raw);
+      if (edge !== raw) changed = true;
+      return edge;
     });
+  };
+
+  const renamePair = (before: Edge, after: Edge) => {
+    if (
+      after !== before &&
+      data.edge_src === before.src &&
+      data.edge_dst === before.dst
+    ) {
+      data.edge_src = after.src;
+      data.edge_dst = after.dst;
+    }
+  };
+
+  switch (entry.event) {
+    case "add_edge":
+    case "update_edge": {
+      if (!data.edge) return false;
+      const edge = migrate(data.edge);
+      if (edge !== data.edge) {
+        renamePair(data.edge, edge);
+        data.edge = edge;
+        changed = true;
+      }
+      return changed;
+    }
+
+    case "remove_edge":
+    case "remove_node": {
+      const removed = migrateList(data.removed_edges);
+      if (removed) {
+        (data.removed_edges as Edge[]).forEach((before, i) =>
+          renamePair(before, removed[i])
+        );
+        data.removed_edges = removed;
+      }
+      const added = migrateList(data.added_edges);
+      if (added) data.added_edges = added;
+      return changed;
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Flip legacy edges and drop duplicates, keeping the first copy of each edge
+ */
+function migrateEdgeList(
+  edges: Edge[],
+  migrate: (edge: Edge) => Edge
+): { edges: Edge[]; flipped: number; duplicates: number } {
+  const seen = new Set<string>();
+  const migrated: Edge[] = [];
+  let flipped = 0;
+  let duplicates = 0;
+
+  for (const edge of edges) {
+    const next = migrate(edge);
+    if (next !== edge) flipped++;
+    const key = edgeKey(next);
+    if (seen.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(key);
+    migrated.push(next);
+  }
+  return { edges: migrated, flipped, duplicates };
+}
+
+/**
+ * Migrate edge direction for callers holding the graph write lock. The
+ * journal and snapshots are rewritten first, then graph.json, then meta.json:
+ * a crash in between leaves flipped edges that are no longer legacy, so
+ * running again finishes the job.
+ */
+async function migrateEdgeDirectionLocked(
+  workspacePath: string,
+  graph: Graph
+): Promise<EdgeMigrationResult> {
+  const result: EdgeMigrationResult = {
+    migrated: false,
+    graph_edges_flipped: 0,
+    graph_duplicates_removed: 0,
+    journal_entries_rewritten: 0,
+    snapshots_rewritten: 0,
+    ambiguous_edges: [],
+  };
+
+  const meta = await readMeta(workspacePath);
+  if (meta.migrations?.includes(EDGE_DIRECTION_MIGRATION)) return result;
+
+  const journalPath = path.join(workspacePath, ".gotn", "journal.ndjson");
+  const ambiguous = new Set<string>();
+
+  await withStoreLock(workspacePath, "journal", "write", async () => {
+    const entries = await readJournal(workspacePath);
+    const snapshots: { path: string; snapshot: Snapshot }[] = [];
+    for (const file of await listSnapshotFiles(workspacePath)) {
+      try {
+        const content = await fs.readFile(file, "utf8");
+        snapshots.push({
+          path: file,
+          snapshot: validateSnapshot(JSON.parse(content)),
+        });
+      } catch {
+        // readLatestSnapshot reports invalid snapshots
+      }
+    }
+
+    // Nodes the edges were written against; deleted ones only exist in the
+    // journal and snapshots, and graph.json has the newest of the rest
+    const nodes = new Map<string, Node>();
+    for (const { snapshot } of [...snapshots].reverse()) {
+      for (const node of snapshot.graph.nodes) nodes.set(node.id, node);
+    }
+    for (const entry of entries) {
+      const node = (entry.data as any)?.node;
+      if (
+        (entry.event === "add_node" || entry.event === "update_node") &&
+        node?.id
+      ) {
+        nodes.set(node.id, node);
+      }
+    }
+    for (const node of graph.nodes) nodes.set(node.id, node);
+
+    const migrate = (edge: Edge): Edge => {
+      const status = legacyHardEdgeStatus(edge, nodes);
+      if (status === "ambiguous") ambiguous.add(edgeKey(edge));
+      return status === "legacy" ? flipEdge(edge) : edge;
+    };
+
+    for (const entry of entries) {
+      if (migrateEntryEdges(entry, migrate)) result.journal_entries_rewritten++;
+    }
+    if (result.journal_entries_rewritten > 0) {
+      await atomicWrite(
+        journalPath,
+        entries.map((entry) => JSON.stringify(entry) + "\n").join("")
+      );
+    }
+
+    for (const { path: file, snapshot } of snapshots) {
+      const migrated = migrateEdgeList(snapshot.graph.edges, migrate);
+      if (migrated.flipped === 0 && migrated.duplicates === 0) continue;
+      snapshot.graph.edges = migrated.edges;
+      await atomicWrite(file, JSON.stringify(snapshot, null, 2));
+      result.snapshots_rewritten++;
+    }
+
+    const migrated = migrateEdgeList(graph.edges, migrate);
+    result.graph_edges_flipped = migrated.flipped;
+    result.graph_duplicates_removed = migrated.duplicates;
+    if (migrated.flipped > 0 || migrated.duplicates > 0) {
+      graph.edges = migrated.edges;
+      await writeGraphLocked(workspacePath, graph);
+    }
+  });
+
+  result.ambiguous_edges = [...ambiguous].sort();
+  if (result.ambiguous_edges.length > 0) {
+    console.error(
+      `[GoTN Migration] Left ${
+        result.ambiguous_edges.length
+      } hard edges that may point from consumer to producer: ${result.ambiguous_edges.join(
+        ", "
+      )}`
+    );
+  }
+
+  meta.migrations = [...(meta.migrations ?? []), EDGE_DIRECTION_MIGRATION];
+  meta.updated = new Date().toISOString();
+  await atomicWrite(
+    path.join(workspacePath, ".gotn", "meta.json"),
+    JSON.stringify(meta, null, 2)
+  );
+
+  result.migrated = true;
+  return result;
+}
+
+/**
+ * Rewrite legacy consumer -> producer hard edges as producer -> consumer
+ * ones, in graph.json, the journal and the snapshots alike, so history and
+ * recovery see one direction throughout. Duplicate edges are dropped. Runs
+ * once per workspace, when the store is opened: meta.json records it.
+ */
+export async function migrateEdgeDirection(
+  workspacePath: string
+): Promise<EdgeMigrationResult> {
+  return withStoreLock(workspacePath, "graph", "write", async () => {
+    const graph = await readGraph(workspacePath);
+    return (await openStoreLocked(workspacePath, graph)).migration;
   });
 }
@@ -0,0 +1,160 @@
+/**
+ * Gitignore - Decides which workspace paths the indexer leaves alone
+ *
+ * Reads the .gitignore in every directory it is asked about and applies the
+ * rules the way git does: patterns are relative to the directory of their
+ * .gitignore, the last matching rule wins (so "!" re-includes), a trailing
+ * "/" matches directories only, and nothing inside an ignored directory can
+ * be re-included. .git, .gotn and node_modules are always ignored.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+
+const ALWAYS_IGNORED = new Set([".git", ".gotn", "node_modules"]);
+
+export interface IgnoreRule {
+  // Directory of the .gitignore, relative to the workspace ("" for the root)
+  base: string;
+  regex: RegExp;
+  negated: boolean;
+  dirOnly: boolean;
+}
+
+function globToRegex(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, a bare "**" anything
+        if (glob[i + 2] === "/") {
+          out += "(?:.*/)?";
+          i += 2;
+        } else {
+          out += ".*";
+          i += 1;
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (c === "?") {
+      out += "[^/]";
+    } else if (c === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        out += "\\[";
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, "^");
+        out += `[${body.replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else if (c === "\\" && i + 1 < glob.length) {
+      out += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      out += c.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return out;
+}
+
+/**
+ * Parse the lines of a .gitignore found in base
+ */
+export function parseGitignore(
+  content: string,
+  base: string = ""
+): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+
+    let negated = false;
+    if (line.startsWith("!")) {
+      negated = true;
+      line = line.slice(1);
+    } else if (line.startsWith("\\!") || line.startsWith("\\#")) {
+      line = line.slice(1);
+    }
+
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to its directory
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) line = line.slice(1);
+
+    const pattern = globToRegex(line);
+    rules.push({
+      base,
+      regex: new RegExp(anchored ? `^${pattern}$` : `^(?:.*/)?${pattern}$`),
+      negated,
+      dirOnly,
+    });
+  }
+
+  return rules;
+}
+
+export class GitignoreMatcher {
+  private workspacePath: string;
+  private rulesByDir = new Map<string, IgnoreRule[]>();
+
+  constructor(workspacePath: string = ".") {
+    this.workspacePath = workspacePath;
+  }
+
+  private rulesFor(dir: string): IgnoreRule[] {
+    let rules = this.rulesByDir.get(dir);
+    if (!rules) {
+      const file = path.join(this.workspacePath, dir, ".gitignore");
+      rules = existsSync(file)
+        ? parseGitignore(readFileSync(file, "utf8"), dir)
+        : [];
+      this.rulesByDir.set(dir, rules);
+    }
+    return rules;
+  }
+
+  /**
+   * Whether this path is ignored by the rules of its own directory and the
+   * ones above it, without looking at its parent directories
+   */
+  private matches(relPath: string, isDirectory: boolean): boolean {
+    const parts = relPath.split("/");
+    if (ALWAYS_IGNORED.has(parts[parts.length - 1])) return true;
+
+    let ignored = false;
+    for (let depth = 0; depth < parts.length; depth++) {
+      const dir = parts.slice(0, depth).join("/");
+      const rest = parts.slice(depth).join("/");
+      for (const rule of this.rulesFor(dir)) {
+        if (rule.dirOnly && !isDirectory) continue;
+        if (rule.regex.test(rest)) ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  }
+
+  /**
+   * Whether a workspace-relative path (forward slashes) is ignored, either
+   * itself or through one of its parent directories
+   */
+  ignores(relPath: string, isDirectory: boolean = false): boolean {
+    const parts = relPath.split("/").filter((p) => p && p !== ".");
+    for (let i = 1; i < parts.length; i++) {
+      if (this.matches(parts.slice(0, i).join("/"), true)) return true;
+    }
+    return parts.length > 0 && this.matches(parts.join("/"), isDirectory);
+  }
+
+  /**
+   * Drop cached rules, e.g. after a .gitignore changed
+   */
+  reset(): void {
+    this.rulesByDir.clear();
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * GuardChecks - Parses and checks single structured guards
+ *
+ * Shared by GuardEngine (guards before a node runs) and ArtifactVerifier
+ * (success criteria after it ran). Guard text comes from LLM breakdowns, so
+ * file paths must stay inside the workspace, and command_succeeds guards
+ * only run when GOTN_GUARD_COMMANDS allows the command: "*" allows any
+ * command, otherwise it is a list of exact commands separated by newlines
+ * or ";". Commands that are not allowed are reported as "unverified".
+ */
+
+import { readGraph } from "./fsStore.js";
+import { existsSync } from "fs";
+import { exec } from "child_process";
+import { createServer } from "net";
+import path from "path";
+
+export type GuardKind =
+  | "file_exists"
+  | "port_free"
+  | "env_set"
+  | "command_succeeds"
+  | "node_completed";
+
+export interface ParsedGuard {
+  kind: GuardKind;
+  arg: string;
+  raw: string;
+}
+
+export type GuardCheckStatus = "passed" | "failed" | "unverified";
+
+export interface GuardCheckResult {
+  guard: string;
+  kind?: GuardKind;
+  status: GuardCheckStatus;
+  detail: string;
+}
+
+const GUARD_PATTERN =
+  /^(file_exists|port_free|env_set|command_succeeds|node_completed):\s*(.+)$/;
+
+/**
+ * Parse a structured guard, or return null for free text
+ */
+export function parseGuard(raw: string): ParsedGuard | null {
+  const match = raw.trim().match(GUARD_PATTERN);
+  if (!match) return null;
+
+  const kind = match[1] as GuardKind;
+  const arg = match[2].trim();
+
+  if (kind === "port_free") {
+    const port = Number(arg);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) return null;
+  }
+
+  return { kind, arg, raw };
+}
+
+/**
+ * Absolute path of a workspace-relative file, or null when the path is
+ * absolute or has a ".." segment and could point outside the workspace
+ */
+export function resolveWorkspaceFile(
+  workspacePath: string,
+  file: string
+): string | null {
+  const normalized = file.replace(/\\/g, "/");
+  if (
+    path.posix.isAbsolute(normalized) ||
+    path.win32.isAbsolute(file) ||
+    normalized.split("/").includes("..")
+  ) {
+    return null;
+  }
+  return path.resolve(workspacePath, normalized);
+}
+
+/**
+ * Whether GOTN_GUARD_COMMANDS allows running a command
+ */
+export function isCommandAllowed(command: string): boolean {
+  const collapse = (text: string) => text.trim().replace(/\s+/g, " ");
+  const allowed = (process.env.GOTN_GUARD_COMMANDS || "")
+    .split(/[\n;]/)
+    .map(collapse)
+    .filter(Boolean);
+
+  return allowed.includes("*") || allowed.includes(collapse(command));
+}
+
+export class GuardChecker {
+  private workspacePath: string;
+  private commandTimeoutMs: number;
+
+  constructor(workspacePath: string = ".") {
+    this.workspacePath = workspacePath;
+    this.commandTimeoutMs =
+      parseInt(process.env.GOTN_GUARD_TIMEOUT_MS || "10000", 10) || 10000;
+  }
+
+  private isPortFree(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const server = createServer();
+      server.once("error", () => resolve(false));
+      server.once("listening", () => server.close(() => resolve(true)));
+      server.listen(port);
+    });
+  }
+
+  private runCommand(
+    command: string
+  ): Promise<{ ok: boolean; detail: string }> {
+    return new Promise((resolve) => {
+      exec(
+        command,
+        {
+          cwd: path.resolve(this.workspacePath),
+          timeout: this.commandTimeoutMs,
+        },
+        (error) => {
+          if (!error) {
+            resolve({ ok: true, detail: "Command exited with status 0" });
+          } else if (error.killed) {
+            resolve({
+              ok: false,
+              detail: `Command timed out after ${this.commandTimeoutMs}ms`,
+            });
+          } else {
+            resolve({
+              ok: false,
+              detail: `Command exited with status ${error.code ?? "unknown"}`,
+            });
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Check one structured guard
+   */
+  async checkGuard(guard: ParsedGuard): Promise<GuardCheckResult> {
+    const result = (passed: boolean, detail: string): GuardCheckResult => ({
+      guard: guard.raw,
+      kind: guard.kind,
+      status: passed ? "passed" : "failed",
+      detail,
+    });
+    const unverified = (detail: string): GuardCheckResult => ({
+      guard: guard.raw,
+      kind: guard.kind,
+      status: "unverified",
+      detail,
+    });
+
+    switch (guard.kind) {
+      case "file_exists": {
+        const filePath = resolveWorkspaceFile(this.workspacePath, guard.arg);
+        if (!filePath) {
+          return result(false, `${guard.arg} is outside the workspace`);
+        }
+        return existsSync(filePath)
+          ? result(true, `${guard.arg} exists`)
+          : result(false, `${guard.arg} does not exist`);
+      }
+
+      case "port_free": {
+        const free = await this.isPortFree(Number(guard.arg));
+        return free
+          ? result(true, `Port ${guard.arg} is free`)
+          : result(false, `Port ${guard.arg} is in use`);
+      }
+
+      case "env_set":
+        return process.env[guard.arg]
+          ? result(true, `${guard.arg} is set`)
+          : result(false, `${guard.arg} is not set`);
+
+      case "command_succeeds": {
+        if (!isCommandAllowed(guard.arg)) {
+          return unverified(
+            "Command not run; allow it in GOTN_GUARD_COMMANDS to check it"
+          );
+        }
+        const { ok, detail } = await this.runCommand(guard.arg);
+        return result(ok, detail);
+      }
+
+      case "node_completed": {
+        const graph = await readGraph(this.workspacePath);
+        const node = graph.nodes.find((n) => n.id === guard.arg);
+        if (!node) return result(false, `Node ${guard.arg} not found`);
+        return node.status === "completed"
+          ? result(true, `Node ${guard.arg} is completed`)
+          : result(false, `Node ${guard.arg} is ${node.status}`);
+      }
+    }
+  }
+}
@@ -1,10 +1,27 @@
 /**
  * GuardEngine - Evaluates guards and artifacts for safe execution
+ *
+ * Guards written in the structured form `kind:argument` are checked for real
+ * (see GuardChecker):
+ *
+ *   file_exists:src/index.ts     path exists, relative to the workspace
+ *   port_free:9092               nothing is listening on the port
+ *   env_set:OPENAI_API_KEY       environment variable is set and non-empty
+ *   command_succeeds:npm test    shell command exits with status 0, when
+ *                                GOTN_GUARD_COMMANDS allows it
+ *   node_completed:setup_db      graph node has status "completed"
+ *
+ * Any other guard text cannot be checked and is reported as "unverified".
  */
 
 import { Node } from "./schemas.js";
-import { existsSync } from "fs";
-import path from "path";
+import {
+  GuardChecker,
+  GuardCheckResult,
+  ParsedGuard,
+  parseGuard,
+} from "./guardChecks.js";
+import { ArtifactVerifier } from "./artifactVerifier.js";
 
 export type GuardResult = "proceed" | "skip" | "fail";
 
@@ -12,66 +29,65 @@ export interface GuardEvaluation {
   result: GuardResult;
   reason: string;
   node_id: string;
+  guards: GuardCheckResult[];
 }
 
 export class GuardEngine {
-  constructor() {}
+  private checker: GuardChecker;
+  private verifier: ArtifactVerifier;
+
+  constructor(workspacePath: string = ".") {
+    this.checker = new GuardChecker(workspacePath);
+    this.verifier = new ArtifactVerifier(workspacePath);
+  }
 
   /**
-   * Check if all produced artifacts exist
+   * Check whether the declared artifacts are already in place: every file
+   * exists (and still matches the hash from its last verification) and every
+   * output is non-empty
    */
-  private checkArtifacts(node: Node): {
+  private async checkArtifacts(node: Node): Promise<{
     allExist: boolean;
     existingFiles: string[];
-  } {
-    const existingFiles: string[] = [];
-
-    // Check files in artifacts
-    for (const file of node.artifacts?.files || []) {
-      const filePath = path.resolve(file);
-      if (existsSync(filePath)) {
-        existingFiles.push(file);
-      }
-    }
+  }> {
+    const checks = await this.verifier.verifyArtifacts(node, true);
 
-    // For now, we consider "all exist" if any files exist
-    // This is a simple heuristic - in real implementation this would be more sophisticated
+    const existingFiles = checks
+      .filter((check) => check.status === "passed")
+      .map((check) => check.target);
     const allExist =
-      existingFiles.length > 0 &&
-      existingFiles.length >= (node.artifacts?.files?.length || 0);
+      checks.length > 0 && existingFiles.length === checks.length;
 
     return { allExist, existingFiles };
   }
 
   /**
-   * Evaluate guards for a node
+   * Check one structured guard
    */
-  private evaluateGuards(node: Node): {
-    passed: boolean;
-    failedGuard?: string;
-  } {
-    // For now, we simulate guard evaluation
-    // In real implementation, this would execute actual guard logic
-
-    for (const guard of node.guards || []) {
-      // Simple guard simulation - fail if guard mentions "missing" or "unavailable"
-      if (
-        guard.toLowerCase().includes("missing") ||
-        guard.toLowerCase().includes("unavailable")
-      ) {
-        return { passed: false, failedGuard: guard };
-      }
+  checkGuard(guard: ParsedGuard): Promise<GuardCheckResult> {
+    return this.checker.checkGuard(guard);
+  }
 
-      // Port availability check simulation
-      if (guard.includes("port") && guard.includes("9092")) {
-        // Simulate port check - randomly fail 20% of the time for testing
-        if (Math.random() < 0.2) {
-          return { passed: false, failedGuard: guard };
-        }
+  /**
+   * Evaluate guards for a node, one result per guard
+   */
+  async evaluateGuards(node: Node): Promise<GuardCheckResult[]> {
+    const results: GuardCheckResult[] = [];
+
+    for (const raw of node.guards || []) {
+      const parsed = parseGuard(raw);
+      if (!parsed) {
+        results.push({
+          guard: raw,
+          status: "unverified",
+          detail: "Free-text guard; not machine-checkable",
+        });
+        continue;
       }
+      results.push(await this.checkGuard(parsed));
     }
 
-    return { passed: true };
+    return results;
   }
 
   /**
@@ -79,39 +95,52 @@ export class GuardEngine {
    */
   async evaluate(node: Node): Promise<GuardEvaluation> {
     // 1. Check guards first
-    const guardResult = this.evaluateGuards(node);
-    if (!guardResult.passed) {
+    const guards = await this.evaluateGuards(node);
+    const failed = guards.filter((g) => g.status === "failed");
+    if (failed.length > 0) {
       return {
         result: "fail",
-        reason: `Guard failed: ${guardResult.failedGuard}`,
+        reason: `Guard failed: ${failed
+          .map((g) => `${g.guard} (${g.detail})`)
+          .join(", ")}`,
         node_id: node.id,
+        guards,
       };
     }
 
+    const unverified = guards.filter((g) => g.status === "unverified");
+    const unverifiedNote =
+      unverified.length > 0
+        ? ` (${unverified.length} unverified: ${unverified
+            .map((g) => g.guard)
+            .join(", ")})`
+        : "";
+
     // 2. Check if artifacts already exist
-    const { allExist, existingFiles } = this.checkArtifacts(node);
-    if (allExist && existingFiles.length > 0) {
+    const { allExist, existingFiles } = await this.checkArtifacts(node);
+    if (allExist) {
       return {
         result: "skip",
-        reason: `All required artifacts exist: ${existingFiles.join(", ")}`,
+        reason: `All declared artifacts verified: ${existingFiles.join(", ")}`,
         node_id: node.id,
+        guards,
       };
     }
 
     // 3. Proceed with execution
     return {
       result: "proceed",
-      reason: "All guards passed and artifacts need to be created",
+      reason: `All checkable guards passed and artifacts need to be created${unverifiedNote}`,
       node_id: node.id,
+      guards,
     };
   }
 }
 
 let defaultGuardEngine: GuardEngine | null = null;
 
-export function getGuardEngine(): GuardEngine {
-  if (!defaultGuardEngine) {
-    defaultGuardEngine = new GuardEngine();
-  }
+export function getGuardEngine(workspacePath?: string): GuardEngine {
+  if (workspacePath) return new GuardEngine(workspacePath);
+  if (!defaultGuardEngine) defaultGuardEngine = new GuardEngine(".");
   return defaultGuardEngine;
 }
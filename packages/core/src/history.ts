@@ -0,0 +1,269 @@
+/**
+ * History - Node versions and past graph states rebuilt from the journal
+ *
+ * Every add_node, update_node and remove_node entry carries the full node, so
+ * a node's history is the sequence of those entries and the graph at any
+ * point is the journal replayed up to it. Once the journal has been compacted,
+ * history starts at the snapshot it was compacted against. The same field
+ * diffs drive the three-way merge of concurrent node updates.
+ */
+
+import { Graph, JournalEntry, Node } from "./schemas.js";
+import { applyJournalEntry, readJournalHistory } from "./fsStore.js";
+
+export interface FieldChange {
+  // Dotted path for fields inside objects, e.g. "artifacts.files"
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface NodeVersion {
+  // null once the node has been removed
+  version: number | null;
+  event: JournalEntry["event"] | "snapshot";
+  journal_id?: string;
+  seq?: number;
+  timestamp: string;
+  node: Node | null;
+  changes: FieldChange[];
+}
+
+// Change on every write; the version number already says so
+const IGNORED_FIELDS = new Set(["version", "updated_at"]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function diffValues(
+  prefix: string,
+  before: unknown,
+  after: unknown,
+  changes: FieldChange[]
+): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) {
+      if (!prefix && IGNORED_FIELDS.has(key)) continue;
+      diffValues(
+        prefix ? `${prefix}.${key}` : key,
+        before[key],
+        after[key],
+        changes
+      );
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+  changes.push({
+    field: prefix,
+    ...(before !== undefined ? { before } : {}),
+    ...(after !== undefined ? { after } : {}),
+  });
+}
+
+/**
+ * Field-level differences between two versions of a node; null stands for
+ * "does not exist"
+ */
+export function diffNodes(
+  before: Node | null,
+  after: Node | null
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  diffValues("", before ?? {}, after ?? {}, changes);
+  return changes;
+}
+
+export interface NodeMergeResult {
+  node: Node;
+  // Dotted paths both sides changed in different ways
+  conflicts: string[];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isPrimitiveArray(value: unknown): value is unknown[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item !== "object" || item === null)
+  );
+}
+
+function mergeValues(
+  field: string,
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  conflicts: string[]
+): unknown {
+  if (sameValue(ours, base)) return theirs;
+  if (sameValue(theirs, base) || sameValue(ours, theirs)) return ours;
+
+  if (isPlainObject(ours) && isPlainObject(theirs)) {
+    const baseObject = isPlainObject(base) ? base : {};
+    const merged: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(theirs), ...Object.keys(ours)]);
+    for (const key of keys) {
+      const value = mergeValues(
+        field ? `${field}.${key}` : key,
+        baseObject[key],
+        ours[key],
+        theirs[key],
+        conflicts
+      );
+      if (value !== undefined) merged[key] = value;
+    }
+    return merged;
+  }
+
+  // Lists such as tags and artifacts.files merge as sets
+  if (isPrimitiveArray(ours) && isPrimitiveArray(theirs)) {
+    const baseItems = isPrimitiveArray(base) ? base : [];
+    const removed = baseItems.filter((item) => !ours.includes(item));
+    const added = ours.filter((item) => !baseItems.includes(item));
+    return [...new Set([...theirs, ...added])].filter(
+      (item) => !removed.includes(item)
+    );
+  }
+
+  conflicts.push(field);
+  return theirs;
+}
+
+/**
+ * Three-way merge of a node: base is the version both sides started from,
+ * ours the intended update and theirs the version stored since. Changes to
+ * different fields combine, list fields merge as sets, and fields both sides
+ * changed differently are reported as conflicts (keeping theirs).
+ */
+export function mergeNodes(
+  base: Node,
+  ours: Node,
+  theirs: Node
+): NodeMergeResult {
+  const conflicts: string[] = [];
+  const merged = mergeValues(
+    "",
+    { ...base, version: theirs.version, updated_at: theirs.updated_at },
+    { ...ours, version: theirs.version, updated_at: theirs.updated_at },
+    theirs,
+    conflicts
+  ) as Node;
+  return { node: merged, conflicts };
+}
+
+/**
+ * The state of nodeId after an entry, or undefined if the entry leaves it alone
+ */
+function nodeAfter(
+  entry: JournalEntry,
+  nodeId: string
+): Node | null | undefined {
+  const data = entry.data as any;
+  switch (entry.event) {
+    case "add_node":
+    case "update_node":
+      return data?.node?.id === nodeId ? (data.node as Node) : undefined;
+
+    case "remove_node":
+      if (data?.node_id === nodeId) return null;
+      // Cascades re-parent children and update the parent's children list
+      return (data?.updated_nodes as Node[] | undefined)?.find(
+        (n) => n.id === nodeId
+      );
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Every recorded version of a node, oldest first, with what changed in each
+ */
+export async function getNodeHistory(
+  workspacePath: string,
+  nodeId: string
+): Promise<NodeVersion[]> {
+  const { base, entries } = await readJournalHistory(workspacePath);
+  const history: NodeVersion[] = [];
+
+  let previous: Node | null =
+    base?.graph.nodes.find((n) => n.id === nodeId) ?? null;
+  if (base && previous) {
+    history.push({
+      version: previous.version,
+      event: "snapshot",
+      timestamp: base.created_at,
+      node: previous,
+      changes: diffNodes(null, previous),
+    });
+  }
+
+  for (const entry of entries) {
+    const node = nodeAfter(entry, nodeId);
+    if (node === undefined) continue;
+
+    history.push({
+      version: node ? node.version : null,
+      event: entry.event,
+      journal_id: entry.id,
+      ...(entry.seq !== undefined ? { seq: entry.seq } : {}),
+      timestamp: entry.timestamp,
+      node,
+      changes: diffNodes(previous, node),
+    });
+    previous = node;
+  }
+
+  return history;
+}
+
+/**
+ * The graph as it was right after a journal entry (by id) or at a point in
+ * time (ISO timestamp), e.g. the start_run entry of a run
+ */
+export async function readGraphAt(
+  workspacePath: string,
+  at: string
+): Promise<Graph> {
+  const { base, entries } = await readJournalHistory(workspacePath);
+
+  let cut = entries.findIndex((e) => e.id === at) + 1;
+  if (cut === 0 && at !== base?.last_entry_id) {
+    const time = Date.parse(at);
+    if (Number.isNaN(time)) {
+      throw new Error(`No journal entry or timestamp matches: ${at}`);
+    }
+    if (base && time < Date.parse(base.created_at)) {
+      throw new Error(
+        `Journal history before ${base.created_at} was compacted (offset ${base.journal_offset})`
+      );
+    }
+    cut = entries.findIndex((e) => Date.parse(e.timestamp) > time);
+    if (cut === -1) cut = entries.length;
+  }
+
+  const graph: Graph = base
+    ? structuredClone(base.graph)
+    : {
+        nodes: [],
+        edges: [],
+        version: 1,
+        updated: entries[0]?.timestamp ?? at,
+      };
+
+  for (const entry of entries.slice(0, cut)) {
+    if (applyJournalEntry(graph, entry)) {
+      graph.version += 1;
+      graph.updated = entry.timestamp;
+      if (entry.seq !== undefined) graph.last_applied_seq = entry.seq;
+    }
+  }
+
+  return graph;
+}
@@ -14,15 +14,34 @@ export const GOTN_VERSION = "0.1.0";
 export * from "./types.js";
 export * from "./schemas.js";
 export * from "./fsStore.js";
+export * from "./fileLock.js";
+export * from "./history.js";
 export * from "./nodeStore.js";
+export * from "./embeddingCache.js";
 export * from "./edgeEngine.js";
 export * from "./breakdownEngine.js";
+export * from "./breakdownProvider.js";
+export * from "./breakdownValidation.js";
 export * from "./planComposer.js";
+export * from "./guardChecks.js";
 export * from "./guardEngine.js";
+export * from "./artifactVerifier.js";
+export * from "./codeGenProvider.js";
+export * from "./unifiedDiff.js";
+export * from "./nodeExecutor.js";
+export * from "./patchManager.js";
+export * from "./planRunner.js";
 export * from "./logger.js";
 export * from "./metrics.js";
 export * from "./recovery.js";
 export * from "./cloudStore.js";
 export * from "./cloudBreakdownEngine.js";
+export * from "./workspace.js";
+export * from "./vectorComponents.js";
+export * from "./gitignore.js";
+export * from "./codeTags.js";
+export * from "./symbolExtractor.js";
+export * from "./indexer.js";
+export * from "./watcher.js";
 
 console.log(`GoTN Core v${GOTN_VERSION} loaded`);
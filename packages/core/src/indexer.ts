@@ -0,0 +1,704 @@
+/**
+ * WorkspaceIndexer - code_symbol nodes for the code in a workspace
+ *
+ * Walks the indexed roots (skipping what .gitignore excludes) and stores a
+ * node per module and, for TS/JS files, a child node per exported function,
+ * class, interface, type and enum (see symbolExtractor.ts). Modules produce
+ * file: tags and require the file: and package: tags of their imports;
+ * symbols produce symbol: tags and require the symbols they use (see
+ * codeTags.ts). package.json becomes a dependency node producing package:
+ * tags. The sha256 of each file is recorded as the nodes' verification, so a
+ * re-index skips files whose content has not changed. Nodes of files that are
+ * gone are removed, and the edges between code nodes and the nodes that use
+ * them are kept in sync with the tags.
+ */
+
+import { builtinModules } from "module";
+import { existsSync } from "fs";
+import { readFile, readdir, stat } from "fs/promises";
+import { createHash } from "crypto";
+import path from "path";
+import { Edge, Node } from "./schemas.js";
+import { readGraph, addEdge, removeEdge } from "./fsStore.js";
+import { getNodeStore, NodeStore } from "./nodeStore.js";
+import { getEdgeEngine } from "./edgeEngine.js";
+import { GitignoreMatcher } from "./gitignore.js";
+import {
+  CodeSymbol,
+  ModuleSymbols,
+  extractSymbols,
+} from "./symbolExtractor.js";
+import {
+  fileTag,
+  normalizeWorkspacePath,
+  packageTag,
+  symbolTag,
+} from "./codeTags.js";
+import type { GoTNWorkspace } from "./workspace.js";
+
+export interface IndexOptions {
+  // Directories to scan, relative to the workspace (default: all of it)
+  roots?: string[];
+  // Larger files are left out (default 100000)
+  max_file_bytes?: number;
+  // Stop scanning after this many files (default 2000)
+  max_files?: number;
+}
+
+export interface IndexResult {
+  roots: string[];
+  // Files (re)indexed by this run
+  indexed_files: string[];
+  // Files skipped because their content hash is unchanged
+  unchanged_files: string[];
+  // Nodes of files that were deleted or are now ignored
+  removed_node_ids: string[];
+  deps_nodes: number;
+  // Module and symbol nodes written by this run
+  code_nodes: number;
+  symbol_nodes: number;
+  edges_added: number;
+  edges_removed: number;
+  // Edges left out because they would close an import cycle
+  cycle_edges_skipped: number;
+}
+
+export interface IndexFileResult {
+  // "empty": nothing to index (a package.json without dependencies)
+  status: "indexed" | "unchanged" | "empty";
+  // Nodes that now describe the file
+  node_ids: string[];
+  // Symbol nodes of exports that no longer exist
+  removed_node_ids: string[];
+}
+
+const CODE_EXTENSIONS = /\.(ts|tsx|js|jsx|mjs|cjs|py|java|go|rs|cpp|c|h)$/;
+const JS_EXTENSIONS = /\.(ts|tsx|js|jsx|mjs|cjs)$/;
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+
+const DEPS_NODE_ID = "deps_index";
+
+/**
+ * Node ID for the module node of a file
+ */
+export function codeNodeId(relPath: string): string {
+  return `code_${normalizeWorkspacePath(relPath).replace(
+    /[^a-zA-Z0-9]/g,
+    "_"
+  )}`;
+}
+
+/**
+ * Node ID for an exported symbol of a file
+ */
+export function symbolNodeId(relPath: string, symbol: string): string {
+  return `${codeNodeId(relPath)}__${symbol}`;
+}
+
+function sha256(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Package name of a bare import specifier, or null for Node built-ins
+ */
+function packageName(specifier: string): string | null {
+  if (specifier.startsWith("node:")) return null;
+  const parts = specifier.split("/");
+  const name = specifier.startsWith("@")
+    ? parts.slice(0, 2).join("/")
+    : parts[0];
+  return builtinModules.includes(name) ? null : name;
+}
+
+export class WorkspaceIndexer {
+  private workspacePath: string;
+  private workspace?: GoTNWorkspace;
+  private nodeStore: NodeStore;
+
+  constructor(workspace?: GoTNWorkspace) {
+    this.workspace = workspace;
+    this.workspacePath = workspace?.path ?? ".";
+    this.nodeStore = getNodeStore("indexer", workspace);
+  }
+
+  /**
+   * Workspace-relative path of an import, if it points at a file here
+   */
+  private resolveImport(
+    fromFile: string,
+    specifier: string,
+    files: Set<string>
+  ): string | null {
+    const target = path.posix.normalize(
+      path.posix.join(path.posix.dirname(fromFile), specifier)
+    );
+    // ESM-style TypeScript imports name the .js file the .ts compiles to
+    const stem = target.replace(/\.(js|jsx|mjs|cjs)$/, "");
+    const candidates = [
+      target,
+      ...RESOLVE_EXTENSIONS.map((ext) => stem + ext),
+      ...RESOLVE_EXTENSIONS.map((ext) => `${target}/index${ext}`),
+    ];
+
+    for (const candidate of candidates) {
+      if (files.has(candidate)) return candidate;
+    }
+    for (const candidate of candidates) {
+      const fullPath = path.join(this.workspacePath, candidate);
+      if (existsSync(fullPath) && CODE_EXTENSIONS.test(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Code files under the roots that are not ignored, workspace-relative
+   */
+  async listFiles(options: IndexOptions = {}): Promise<string[]> {
+    const roots = (options.roots ?? ["."]).map(normalizeWorkspacePath);
+    const maxFiles = options.max_files ?? 2000;
+    const ignore = new GitignoreMatcher(this.workspacePath);
+    const files: string[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await readdir(path.join(this.workspacePath, dir), {
+          withFileTypes: true,
+        });
+      } catch {
+        return; // Unreadable or missing directory
+      }
+
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        if (files.length >= maxFiles) return;
+
+        const relPath = dir ? `${dir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          if (!ignore.ignores(relPath, true)) await walk(relPath);
+        } else if (
+          entry.isFile() &&
+          CODE_EXTENSIONS.test(entry.name) &&
+          !ignore.ignores(relPath)
+        ) {
+          files.push(relPath);
+        }
+      }
+    };
+
+    for (const root of roots) {
+      if (root && ignore.ignores(root, true)) continue;
+      await walk(root);
+    }
+
+    return [...new Set(files)];
+  }
+
+  /**
+   * Tag required by using an import binding, if it points at indexed code
+   */
+  private importTag(
+    fromFile: string,
+    specifier: string,
+    imported: string,
+    files: Set<string>
+  ): string | null {
+    if (specifier.startsWith(".")) {
+      const target = this.resolveImport(fromFile, specifier, files);
+      if (!target || target === fromFile) return null;
+      return imported === "*" ? fileTag(target) : symbolTag(target, imported);
+    }
+    const name = packageName(specifier);
+    return name ? packageTag(name) : null;
+  }
+
+  /**
+   * Fields shared by every node describing a file
+   */
+  private fileNode(
+    relPath: string,
+    hash: string,
+    source: string
+  ): Pick<
+    Node,
+    | "kind"
+    | "children"
+    | "guards"
+    | "status"
+    | "verification"
+    | "provenance"
+    | "version"
+    | "created_at"
+    | "updated_at"
+  > {
+    const now = new Date().toISOString();
+    return {
+      kind: "code_symbol",
+      children: [],
+      guards: [],
+      // The code already exists; the hash is what re-indexing compares
+      status: "completed",
+      verification: {
+        passed: true,
+        verified_at: now,
+        checks: [
+          {
+            kind: "file",
+            target: relPath,
+            status: "passed",
+            detail: `${relPath} indexed`,
+            sha256: hash,
+          },
+        ],
+      },
+      provenance: { created_by: "indexer", source },
+      version: 1,
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  private buildSymbolNode(
+    relPath: string,
+    symbol: CodeSymbol,
+    module: ModuleSymbols,
+    files: Set<string>,
+    hash: string
+  ): Node {
+    const requires = new Set<string>();
+    const packages = new Set<string>();
+    for (const local of symbol.imports_used) {
+      for (const binding of module.bindings.filter((b) => b.local === local)) {
+        const tag = this.importTag(
+          relPath,
+          binding.specifier,
+          binding.imported,
+          files
+        );
+        if (tag) requires.add(tag);
+        if (tag?.startsWith("package:")) packages.add(tag.slice(8));
+      }
+    }
+    for (const name of symbol.symbols_used) {
+      requires.add(symbolTag(relPath, name));
+    }
+
+    const doc = symbol.doc.replace(/\s+/g, " ");
+    return {
+      ...this.fileNode(relPath, hash, "symbol_scan"),
+      id: symbolNodeId(relPath, symbol.name),
+      summary: doc ? `${symbol.signature} - ${doc}` : symbol.signature,
+      prompt_text: [
+        `${symbol.kind} ${symbol.name} in ${relPath}:${symbol.line}`,
+        symbol.doc,
+        symbol.signature,
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+      parent: codeNodeId(relPath),
+      requires: [...requires].sort(),
+      // exec_target names the symbol by its local name, so produce that too
+      produces: [...new Set([symbol.name, ...symbol.exported_as])].map((name) =>
+        symbolTag(relPath, name)
+      ),
+      exec_target: `${relPath}#${symbol.name}`,
+      tags: ["code", "symbol", symbol.kind],
+      success_criteria: [`file_exists:${relPath}`],
+      artifacts: {
+        files: [relPath],
+        outputs: [],
+        dependencies: [...packages].sort(),
+      },
+    };
+  }
+
+  /**
+   * The module node for a file followed by the nodes of its exported symbols
+   */
+  buildCodeNodes(relPath: string, content: string, files: Set<string>): Node[] {
+    const hash = sha256(content);
+    const module: ModuleSymbols = JS_EXTENSIONS.test(relPath)
+      ? extractSymbols(relPath, content)
+      : { specifiers: [], bindings: [], symbols: [], other_exports: [] };
+
+    const requires = new Set<string>();
+    const packages = new Set<string>();
+    for (const specifier of module.specifiers) {
+      const tag = this.importTag(relPath, specifier, "*", files);
+      if (tag) requires.add(tag);
+      if (tag?.startsWith("package:")) packages.add(tag.slice(8));
+    }
+
+    const symbolNodes = module.symbols.map((symbol) =>
+      this.buildSymbolNode(relPath, symbol, module, files, hash)
+    );
+    const exported = [
+      ...module.symbols.flatMap((s) => s.exported_as),
+      ...module.other_exports,
+    ];
+    const exportList = exported.length ? exported.join(", ") : "nothing";
+
+    const moduleNode: Node = {
+      ...this.fileNode(relPath, hash, "file_scan"),
+      id: codeNodeId(relPath),
+      summary: `Module ${relPath} exporting ${exportList}`,
+      prompt_text: [
+        `File: ${relPath}`,
+        `Exports: ${exportList}`,
+        `Imports: ${
+          module.specifiers.length ? module.specifiers.join(", ") : "none"
+        }`,
+      ].join("\n"),
+      children: symbolNodes.map((n) => n.id),
+      requires: [...requires].sort(),
+      // Exports without a node of their own (values, re-exports)
+      produces: [
+        fileTag(relPath),
+        ...module.other_exports.map((name) => symbolTag(relPath, name)),
+      ],
+      exec_target: relPath,
+      tags: ["code", "module", path.extname(relPath).substring(1)],
+      success_criteria: [`file_exists:${relPath}`],
+      artifacts: {
+        files: [relPath],
+        outputs: [],
+        dependencies: [...packages].sort(),
+      },
+    };
+
+    return [moduleNode, ...symbolNodes];
+  }
+
+  private buildDepsNode(content: string): Node | null {
+    const packageJson = JSON.parse(content);
+    const deps = Object.keys({
+      ...packageJson.dependencies,
+      ...packageJson.devDependencies,
+      ...packageJson.peerDependencies,
+    }).sort();
+    if (deps.length === 0) return null;
+
+    return {
+      ...this.fileNode("package.json", sha256(content), "package_json"),
+      id: DEPS_NODE_ID,
+      summary: `Project dependencies: ${deps.slice(0, 5).join(", ")}${
+        deps.length > 5 ? "..." : ""
+      }`,
+      prompt_text: `Dependencies from package.json: ${deps.join(", ")}`,
+      requires: [],
+      produces: ["project_dependencies", ...deps.map(packageTag)],
+      exec_target: "package.json",
+      tags: ["dependencies", "package", "index"],
+      success_criteria: ["file_exists:package.json"],
+      artifacts: { files: ["package.json"], outputs: [], dependencies: deps },
+    };
+  }
+
+  /**
+   * Index one file: its module and symbol nodes, or the dependency node for
+   * package.json. Nothing is written if the file's hash is unchanged.
+   */
+  async indexFile(
+    relPath: string,
+    files: Set<string> = new Set([relPath])
+  ): Promise<IndexFileResult> {
+    const content = await readFile(
+      path.join(this.workspacePath, relPath),
+      "utf8"
+    );
+    const nodes =
+      relPath === "package.json"
+        ? [this.buildDepsNode(content)].filter((n): n is Node => n !== null)
+        : this.buildCodeNodes(relPath, content, files);
+    if (nodes.length === 0) {
+      return { status: "empty", node_ids: [], removed_node_ids: [] };
+    }
+
+    const graph = await readGraph(this.workspacePath);
+    const current = graph.nodes.find((n) => n.id === nodes[0].id);
+    const recorded = current?.verification?.checks.find(
+      (c) => c.kind === "file" && c.target === relPath
+    )?.sha256;
+    if (current && recorded === nodes[0].verification!.checks[0].sha256) {
+      return {
+        status: "unchanged",
+        node_ids: [current.id, ...current.children],
+        removed_node_ids: [],
+      };
+    }
+
+    for (const node of nodes) {
+      const previous = graph.nodes.find((n) => n.id === node.id);
+      await this.nodeStore.upsertNode(
+        previous ? { ...node, created_at: previous.created_at } : node
+      );
+    }
+
+    // Symbols that are no longer exported
+    const nodeIds = nodes.map((n) => n.id);
+    const removed: string[] = [];
+    for (const childId of current?.children ?? []) {
+      if (
+        !nodeIds.includes(childId) &&
+        graph.nodes.some((n) => n.id === childId)
+      ) {
+        await this.nodeStore.deleteNode(childId, { cascade: "drop_edges" });
+        removed.push(childId);
+      }
+    }
+
+    return { status: "indexed", node_ids: nodeIds, removed_node_ids: removed };
+  }
+
+  /**
+   * Bring the indexer's edges in line with the graph: hard edges from the
+   * requires/produces tags (only those touching an indexed node) and
+   * derived_from edges from each module to its symbols. A hard edge that
+   * would close a cycle (e.g. two modules importing each other) is left out
+   * so plans over the whole graph stay sortable.
+   */
+  async syncEdges(): Promise<{
+    added: number;
+    removed: number;
+    cycles_skipped: number;
+  }> {
+    const graph = await readGraph(this.workspacePath);
+    const nodeIds = new Set(graph.nodes.map((n) => n.id));
+    const indexedNodes = graph.nodes.filter(
+      (n) => n.provenance.created_by === "indexer"
+    );
+    const indexed = new Set(indexedNodes.map((n) => n.id));
+    const key = (e: Edge) => `${e.src}->${e.dst}:${e.type}`;
+
+    const inferred = await getEdgeEngine(this.workspace).inferHardEdges(
+      graph.nodes
+    );
+    const parentOf = new Map(indexedNodes.map((n) => [n.id, n.parent]));
+    const wanted = new Map<string, Edge>();
+    for (const edge of inferred) {
+      if (
+        (indexed.has(edge.src) || indexed.has(edge.dst)) &&
+        // A symbol's own module is linked by derived_from below
+        parentOf.get(edge.dst) !== edge.src &&
+        !wanted.has(key(edge))
+      ) {
+        wanted.set(key(edge), edge);
+      }
+    }
+
+    const now = new Date().toISOString();
+    for (const node of indexedNodes) {
+      if (!node.parent || !nodeIds.has(node.parent)) continue;
+      const edge: Edge = {
+        src: node.parent,
+        dst: node.id,
+        type: "derived_from",
+        evidence: `${node.id} is declared in ${node.parent}`,
+        provenance: { created_by: "indexer", source: "symbol_scan" },
+        version: 1,
+        created_at: now,
+        updated_at: now,
+      };
+      wanted.set(key(edge), edge);
+    }
+
+    // Other edges are fixed; indexer edges are re-decided below
+    const isOwn = (e: Edge) =>
+      (e.type === "hard_requires" || e.type === "derived_from") &&
+      e.provenance.created_by === "indexer";
+    const successors = new Map<string, string[]>();
+    const link = (src: string, dst: string) => {
+      if (!successors.has(src)) successors.set(src, []);
+      successors.get(src)!.push(dst);
+    };
+    for (const edge of graph.edges) {
+      if (edge.type === "hard_requires" && !isOwn(edge)) {
+        link(edge.src, edge.dst);
+      }
+    }
+    const reaches = (from: string, to: string): boolean => {
+      const seen = new Set<string>();
+      const stack = [from];
+      while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (id === to) return true;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        stack.push(...(successors.get(id) || []));
+      }
+      return false;
+    };
+
+    const others = new Set(
+      graph.edges.filter((e) => !isOwn(e)).map((e) => key(e))
+    );
+    const keep = new Map<string, Edge>();
+    let cyclesSkipped = 0;
+    for (const [edgeKey, edge] of [...wanted].sort(([a], [b]) =>
+      a.localeCompare(b)
+    )) {
+      if (others.has(edgeKey)) continue;
+      if (edge.type === "hard_requires") {
+        if (reaches(edge.dst, edge.src)) {
+          cyclesSkipped++;
+          continue;
+        }
+        link(edge.src, edge.dst);
+      }
+      keep.set(edgeKey, edge);
+    }
+
+    let removed = 0;
+    for (const edge of graph.edges.filter(isOwn)) {
+      if (keep.has(key(edge))) {
+        keep.delete(key(edge));
+      } else {
+        await removeEdge(this.workspacePath, edge.src, edge.dst, edge.type);
+        removed++;
+      }
+    }
+
+    for (const edge of keep.values()) {
+      await addEdge(this.workspacePath, {
+        ...edge,
+        provenance: { ...edge.provenance, created_by: "indexer" },
+      });
+    }
+
+    return {
+      added: keep.size,
+      removed,
+      cycles_skipped: cyclesSkipped,
+    };
+  }
+
+  /**
+   * Whether a workspace-relative file is one the indexer reads
+   */
+  isIndexable(relPath: string): boolean {
+    return relPath === "package.json" || CODE_EXTENSIONS.test(relPath);
+  }
+
+  /**
+   * Remove the nodes of a deleted file, or of every file under a deleted
+   * directory; returns the removed node IDs
+   */
+  async removeFile(relPath: string): Promise<string[]> {
+    const target = normalizeWorkspacePath(relPath);
+    const graph = await readGraph(this.workspacePath);
+    const removed: string[] = [];
+
+    for (const node of graph.nodes) {
+      const file = node.exec_target?.split("#")[0];
+      if (
+        node.provenance.created_by === "indexer" &&
+        file &&
+        (file === target || file.startsWith(`${target}/`))
+      ) {
+        await this.nodeStore.deleteNode(node.id, { cascade: "drop_edges" });
+        removed.push(node.id);
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Index the workspace, skipping files whose content is unchanged
+   */
+  async index(options: IndexOptions = {}): Promise<IndexResult> {
+    const roots = (options.roots ?? ["."]).map(
+      (r) => normalizeWorkspacePath(r) || "."
+    );
+    const maxBytes = options.max_file_bytes ?? 100000;
+
+    const files = await this.listFiles(options);
+    const fileSet = new Set(files);
+
+    const result: IndexResult = {
+      roots,
+      indexed_files: [],
+      unchanged_files: [],
+      removed_node_ids: [],
+      deps_nodes: 0,
+      code_nodes: 0,
+      symbol_nodes: 0,
+      edges_added: 0,
+      edges_removed: 0,
+      cycle_edges_skipped: 0,
+    };
+
+    const candidates = [...files];
+    if (existsSync(path.join(this.workspacePath, "package.json"))) {
+      candidates.unshift("package.json");
+    }
+
+    const indexedIds = new Set<string>();
+    for (const relPath of candidates) {
+      try {
+        const { size } = await stat(path.join(this.workspacePath, relPath));
+        if (size > maxBytes) continue;
+
+        const indexed = await this.indexFile(relPath, fileSet);
+        indexed.node_ids.forEach((id) => indexedIds.add(id));
+        result.removed_node_ids.push(...indexed.removed_node_ids);
+        if (indexed.status === "unchanged") {
+          result.unchanged_files.push(relPath);
+        } else if (indexed.status === "indexed") {
+          result.indexed_files.push(relPath);
+          if (relPath === "package.json") {
+            result.deps_nodes++;
+          } else {
+            result.code_nodes += indexed.node_ids.length;
+            result.symbol_nodes += indexed.node_ids.length - 1;
+          }
+        }
+      } catch (error: any) {
+        // Unreadable files and bad package.json are left out of the index
+        console.warn(`Indexer skipped ${relPath}: ${error.message}`);
+      }
+    }
+
+    // Indexed files under the roots that were not seen again are gone, now
+    // ignored or over the size limit
+    const underRoots = (file: string) =>
+      roots.some((r) => r === "." || file === r || file.startsWith(`${r}/`));
+    const graph = await readGraph(this.workspacePath);
+    for (const node of graph.nodes) {
+      const file = node.exec_target?.split("#")[0];
+      if (
+        node.provenance.created_by === "indexer" &&
+        file &&
+        underRoots(file) &&
+        !indexedIds.has(node.id)
+      ) {
+        await this.nodeStore.deleteNode(node.id, { cascade: "drop_edges" });
+        result.removed_node_ids.push(node.id);
+      }
+    }
+
+    const edges = await this.syncEdges();
+    result.edges_added = edges.added;
+    result.edges_removed = edges.removed;
+    result.cycle_edges_skipped = edges.cycles_skipped;
+
+    return result;
+  }
+}
+
+/**
+ * Default WorkspaceIndexer instance
+ */
+let defaultIndexer: WorkspaceIndexer | null = null;
+
+export function getWorkspaceIndexer(
+  workspace?: GoTNWorkspace
+): WorkspaceIndexer {
+  if (workspace) return workspace.getIndexer();
+  if (!defaultIndexer) {
+    defaultIndexer = new WorkspaceIndexer();
+  }
+  return defaultIndexer;
+}
@@ -0,0 +1,227 @@
+/**
+ * NodeExecutor - Performs the work for a single node during a run
+ */
+
+import { Node } from "./schemas.js";
+import { readGraph } from "./fsStore.js";
+import {
+  CodeGenDependency,
+  CodeGenProvider,
+  getCodeGenProvider,
+} from "./codeGenProvider.js";
+import {
+  FilePatch,
+  applyFilePatch,
+  createFilePatch,
+  formatPatch,
+  parsePatch,
+  patchTarget,
+} from "./unifiedDiff.js";
+import { mkdir, readFile, stat, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+
+export interface NodeExecutionContext {
+  workspacePath: string;
+  runFolder: string;
+  runId: string;
+}
+
+export interface NodeExecutionResult {
+  success: boolean;
+  message: string;
+  patch_path?: string;
+  files?: string[];
+}
+
+export interface NodeExecutor {
+  readonly name: string;
+  execute(
+    node: Node,
+    context: NodeExecutionContext
+  ): Promise<NodeExecutionResult>;
+}
+
+// Limits on dependency context sent to the provider
+const MAX_DEPENDENCY_FILES = 5;
+const MAX_DEPENDENCY_FILE_CHARS = 20000;
+
+/**
+ * Generates code through a CodeGenProvider and stores it as a unified diff in
+ * the run folder. The workspace itself is not modified: PatchManager applies
+ * the patch, and verifies and completes the node, as a separate step.
+ */
+export class PatchGenerationExecutor implements NodeExecutor {
+  private provider?: CodeGenProvider;
+
+  // Without a provider one is picked on first use, so a missing
+  // configuration fails the node rather than the executor's construction
+  constructor(provider?: CodeGenProvider) {
+    this.provider = provider;
+  }
+
+  get name(): string {
+    return `patch-generation:${this.provider?.name ?? "unresolved"}`;
+  }
+
+  /**
+   * Normalise a provider path to a workspace-relative one, rejecting anything
+   * outside the workspace or inside .gotn
+   */
+  private safeRelativePath(filePath: string): string {
+    const normalized = path.posix.normalize(filePath.replace(/\\/g, "/"));
+    if (
+      path.posix.isAbsolute(normalized) ||
+      normalized === ".." ||
+      normalized.startsWith("../") ||
+      normalized === ".gotn" ||
+      normalized.startsWith(".gotn/")
+    ) {
+      throw new Error(`Refusing to write outside the workspace: ${filePath}`);
+    }
+    return normalized.replace(/^\.\//, "");
+  }
+
+  private async readIfFile(absPath: string): Promise<string | null> {
+    if (!existsSync(absPath)) return null;
+    if (!(await stat(absPath)).isFile()) return null;
+    return readFile(absPath, "utf8");
+  }
+
+  /**
+   * Completed producers this node depends on through hard_requires edges,
+   * with the contents of the files they produced
+   */
+  private async collectDependencies(
+    node: Node,
+    workspacePath: string
+  ): Promise<CodeGenDependency[]> {
+    const graph = await readGraph(workspacePath);
+    const producerIds = graph.edges
+      .filter((e) => e.type === "hard_requires" && e.dst === node.id)
+      .map((e) => e.src);
+
+    const dependencies: CodeGenDependency[] = [];
+    for (const producer of graph.nodes) {
+      if (!producerIds.includes(producer.id)) continue;
+      if (producer.status !== "completed") continue;
+
+      const files = [];
+      for (const file of producer.artifacts.files.slice(
+        0,
+        MAX_DEPENDENCY_FILES
+      )) {
+        const content = await this.readIfFile(
+          path.resolve(workspacePath, file)
+        );
+        if (content !== null) {
+          files.push({
+            path: file,
+            content: content.slice(0, MAX_DEPENDENCY_FILE_CHARS),
+          });
+        }
+      }
+
+      dependencies.push({
+        node_id: producer.id,
+        summary: producer.summary,
+        produces: producer.produces,
+        files,
+      });
+    }
+
+    return dependencies;
+  }
+
+  async execute(
+    node: Node,
+    context: NodeExecutionContext
+  ): Promise<NodeExecutionResult> {
+    const { workspacePath } = context;
+
+    // exec_target names a file unless it is the workspace or a directory
+    let targetPath: string | undefined;
+    let targetContent: string | null | undefined;
+    if (node.exec_target && node.exec_target !== ".") {
+      const absTarget = path.resolve(workspacePath, node.exec_target);
+      const isDirectory =
+        existsSync(absTarget) && (await stat(absTarget)).isDirectory();
+      if (!isDirectory) {
+        targetPath = this.safeRelativePath(node.exec_target);
+        targetContent = await this.readIfFile(absTarget);
+      }
+    }
+
+    if (!this.provider) this.provider = getCodeGenProvider();
+    const response = await this.provider.generate({
+      node,
+      target_path: targetPath,
+      target_content: targetContent,
+      dependencies: await this.collectDependencies(node, workspacePath),
+    });
+
+    const patches: FilePatch[] = [];
+    const originals = new Map<string, string | null>();
+    for (const file of response.files) {
+      const relPath = this.safeRelativePath(file.path);
+      const current = await this.readIfFile(
+        path.resolve(workspacePath, relPath)
+      );
+      const patch = createFilePatch(relPath, current, file.content);
+      if (patch) {
+        patches.push(patch);
+        originals.set(relPath, current);
+      }
+    }
+
+    if (patches.length === 0) {
+      return {
+        success: false,
+        message: `${this.provider.name} provider produced no changes`,
+      };
+    }
+
+    // The stored diff must apply cleanly to the workspace as it is now
+    const diff = formatPatch(patches);
+    for (const patch of parsePatch(diff)) {
+      const target = patchTarget(patch);
+      const applied = applyFilePatch(originals.get(target) ?? null, patch);
+      const expected = response.files.find(
+        (f) => this.safeRelativePath(f.path) === target
+      )?.content;
+      if (!applied.ok || applied.content !== expected) {
+        return {
+          success: false,
+          message: `Generated patch does not apply cleanly to ${target}`,
+        };
+      }
+    }
+
+    const patchFile = path.join(
+      context.runFolder,
+      "patches",
+      `${node.id}.patch`
+    );
+    await mkdir(path.dirname(patchFile), { recursive: true });
+    await writeFile(patchFile, diff);
+
+    const files = patches.map(patchTarget);
+    return {
+      success: true,
+      message: `Patch for ${files.join(", ")} written to ${patchFile}${
+        response.summary ? `: ${response.summary}` : ""
+      }`,
+      patch_path: patchFile,
+      files,
+    };
+  }
+}
+
+let defaultNodeExecutor: NodeExecutor | null = null;
+
+export function getNodeExecutor(): NodeExecutor {
+  if (!defaultNodeExecutor) {
+    defaultNodeExecutor = new PatchGenerationExecutor();
+  }
+  return defaultNodeExecutor;
+}
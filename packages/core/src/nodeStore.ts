@@ -2,28 +2,41 @@
  * NodeStore - High-level API that combines fsStore and vector operations
  */
 
-import { Node, NodeSchema, JournalEntry } from "./schemas.js";
+import {
+  Node,
+  NodeSchema,
+  JournalEntry,
+  RemoveNodeEventData,
+} from "./schemas.js";
 import {
   readGraph,
   writeGraph,
   appendJournal,
   addNode as fsAddNode,
   updateNode as fsUpdateNode,
+  removeNode as fsRemoveNode,
+  RemoveNodeOptions,
+  NodeVersionConflictError,
 } from "./fsStore.js";
-// Note: Import vec types - will be resolved at runtime
-interface VectorStore {
-  upsert(id: string, vec: number[], projectId?: string): Promise<void>;
-  search(vec: number[], k: number, projectId?: string): Promise<SearchResult[]>;
-}
+import { NodeVersion, getNodeHistory, mergeNodes } from "./history.js";
+import { EmbeddingCache, embeddingContentHash } from "./embeddingCache.js";
+import { getVectorComponents } from "./vectorComponents.js";
+import type { Embeddings, VectorStore } from "@gotn/vec";
+import type { GoTNWorkspace } from "./workspace.js";
 
-interface Embeddings {
-  embed(text: string): Promise<number[]>;
+export interface StoreNodeOptions {
+  // Update an existing node, but only if it is still at this version
+  expected_version?: number;
+  // On a version conflict, merge with the stored node when the changes
+  // touch different fields (list fields such as tags merge as sets)
+  merge?: boolean;
 }
 
-interface SearchResult {
-  id: string;
-  score: number;
-  vector: number[];
+// Text a node's embedding is computed from
+function embeddingText(node: Node): string {
+  return [node.summary, node.prompt_text, ...node.tags]
+    .filter(Boolean)
+    .join(" ");
 }
 
 export interface NodeSearchResult {
@@ -35,101 +48,356 @@ export interface NodeSearchResult {
 export class NodeStore {
   private vectorStore: VectorStore | null = null;
   private embedder: Embeddings | null = null;
+  private embeddingCache: EmbeddingCache | null = null;
   private projectId: string;
+  private workspacePath: string;
+  private workspace?: GoTNWorkspace;
   private initialized = false;
 
-  constructor(projectId: string = "default") {
+  constructor(projectId: string = "default", workspace?: GoTNWorkspace) {
     this.projectId = projectId;
+    this.workspace = workspace;
+    // Without a workspace, paths resolve against the current directory
+    this.workspacePath = workspace?.path ?? ".";
   }
 
   private async ensureInitialized() {
     if (this.initialized) return;
 
-    try {
-      // Try to dynamically require vec package at runtime
-      const vecModule = require("@gotn/vec");
-      this.vectorStore = vecModule.getVectorStore();
-      this.embedder = vecModule.getEmbedder();
-    } catch (error) {
-      console.warn(
-        "Vector components not available, using fallback implementations"
-      );
-      // Fallback to no-op implementations
-      this.vectorStore = {
-        async upsert() {},
-        async search() {
-          return [];
-        },
-      } as VectorStore;
-      this.embedder = {
-        async embed() {
-          return [];
-        },
-      } as Embeddings;
-    }
+    const { vectorStore, embedder } = await getVectorComponents(this.workspace);
+    this.vectorStore = vectorStore;
+    this.embedder = embedder;
 
+    this.embeddingCache = new EmbeddingCache(
+      this.workspacePath,
+      this.embedder?.id
+    );
     this.initialized = true;
   }
 
   /**
-   * Store a node: validate → write → journal → embed → upsert → update embedding_ref
+   * Create a node: validate → embed → write with embedding_ref → journal → upsert
    */
-  async storeNode(node: Node): Promise<void> {
+  async createNode(node: Node): Promise<Node> {
     await this.ensureInitialized();
 
     // 1. Validate the node
     const validatedNode = NodeSchema.parse(node);
 
-    // 2. Write node to graph and append to journal
-    await fsAddNode(".", validatedNode);
+    // 2. Embed, so the reference is written with the node
+    const { nodes, vectors } = await this.embedNodes([validatedNode]);
 
-    // 3. Create embedding text from summary and prompt_text
-    const embeddingText = [
-      validatedNode.summary,
-      validatedNode.prompt_text,
-      ...validatedNode.tags,
-    ]
-      .filter(Boolean)
-      .join(" ");
+    // 3. Write node to graph and append to journal
+    await fsAddNode(this.workspacePath, nodes[0]);
 
-    if (embeddingText.trim() && this.embedder && this.vectorStore) {
-      try {
-        // 4. Generate embedding
-        const embedding = await this.embedder.embed(embeddingText);
-
-        // 5. Upsert vector to vector store
-        await this.vectorStore.upsert(
-          validatedNode.id,
-          embedding,
-          this.projectId
-        );
+    // 4. Upsert its vector
+    return (await this.upsertVectors(nodes, vectors))[0];
+  }
 
-        // 6. Update node with embedding reference
-        const updatedNode: Node = {
+  /**
+   * Update an existing node. Embeddings are only recomputed when summary,
+   * prompt_text or tags changed, so status updates never reach the embedder.
+   * With expected_version the update fails with NodeVersionConflictError if
+   * someone else changed the node first.
+   */
+  async updateNode(node: Node, options: StoreNodeOptions = {}): Promise<Node> {
+    await this.ensureInitialized();
+
+    let validatedNode = NodeSchema.parse(node);
+    if (!validatedNode.embedding_ref) {
+      // Keep the stored reference; its content hash decides on re-embedding
+      const current = await this.getNode(validatedNode.id);
+      if (current?.embedding_ref) {
+        validatedNode = {
           ...validatedNode,
-          embedding_ref: {
-            collection: "gotn_nodes",
-            id: validatedNode.id,
-          },
+          embedding_ref: current.embedding_ref,
         };
+      }
+    }
+
+    const { nodes, vectors } = await this.embedNodes([validatedNode]);
+    const written =
+      options.expected_version === undefined
+        ? await fsUpdateNode(this.workspacePath, nodes[0].id, nodes[0])
+        : await this.updateWithVersion(nodes[0], options, vectors);
+
+    return (await this.upsertVectors([written], vectors))[0];
+  }
 
-        // Write updated node back to storage
-        await fsUpdateNode(".", updatedNode.id, updatedNode);
+  /**
+   * Create the node, or update it if it already exists
+   */
+  async upsertNode(node: Node, options: StoreNodeOptions = {}): Promise<Node> {
+    if (
+      options.expected_version !== undefined ||
+      (await this.getNode(node.id))
+    ) {
+      return this.updateNode(node, options);
+    }
+    return this.createNode(node);
+  }
+
+  /**
+   * Create several nodes, embedding them together in one batch. Nodes that
+   * fail validation or cannot be written are skipped and reported.
+   */
+  async createNodes(nodes: Node[]): Promise<{
+    created: Node[];
+    failed: { id: string; error: string }[];
+  }> {
+    await this.ensureInitialized();
+
+    const valid: Node[] = [];
+    const failed: { id: string; error: string }[] = [];
+    for (const node of nodes) {
+      try {
+        valid.push(NodeSchema.parse(node));
+      } catch (error: any) {
+        failed.push({ id: node.id, error: error.message });
+      }
+    }
+
+    const embedded = await this.embedNodes(valid);
+    const written: Node[] = [];
+    for (const node of embedded.nodes) {
+      try {
+        await fsAddNode(this.workspacePath, node);
+        written.push(node);
+      } catch (error: any) {
+        failed.push({ id: node.id, error: error.message });
+      }
+    }
+
+    return {
+      created: await this.upsertVectors(written, embedded.vectors),
+      failed,
+    };
+  }
+
+  /**
+   * Store a node, creating or updating it (same as upsertNode)
+   */
+  async storeNode(node: Node, options: StoreNodeOptions = {}): Promise<Node> {
+    return this.upsertNode(node, options);
+  }
+
+  /**
+   * Vectors for texts, from the embedding cache where possible and with a
+   * single batch call for the rest
+   */
+  private async embedTexts(texts: string[]): Promise<number[][]> {
+    const embedder = this.embedder!;
+    const embedBatch = (batch: string[]) => embedder.embedBatch(batch);
+
+    return this.embeddingCache
+      ? this.embeddingCache.embedAll(texts, embedBatch)
+      : embedBatch(texts);
+  }
+
+  /**
+   * Embed nodes whose embedding_ref does not match their content and set
+   * their new references, before the nodes are written, so a content change
+   * and its reference are one version. Returns the vectors by node ID.
+   */
+  private async embedNodes(
+    nodes: Node[]
+  ): Promise<{ nodes: Node[]; vectors: Map<string, number[]> }> {
+    const vectors = new Map<string, number[]>();
+    if (!this.embedder || !this.vectorStore) return { nodes, vectors };
+
+    const pending = nodes
+      .map((node) => ({ node, text: embeddingText(node) }))
+      .filter(
+        ({ node, text }) =>
+          text.trim() &&
+          node.embedding_ref?.content_hash !== embeddingContentHash(text)
+      );
+    if (pending.length === 0) return { nodes, vectors };
+
+    // Generate embeddings (cached or in one batch)
+    let computed: number[][];
+    try {
+      computed = await this.embedTexts(pending.map((p) => p.text));
+    } catch (error: any) {
+      console.warn(
+        `Failed to create embeddings for ${pending.length} nodes:`,
+        error.message
+      );
+      // Nodes are still stored, just without embeddings
+      return { nodes, vectors };
+    }
+
+    const embedded = new Map<string, Node>();
+    for (const [i, { node, text }] of pending.entries()) {
+      // No vector (e.g. no embedding provider): leave the node unembedded so
+      // it is embedded on a later store
+      if (!computed[i]?.length) continue;
+
+      vectors.set(node.id, computed[i]);
+      embedded.set(node.id, {
+        ...node,
+        embedding_ref: {
+          collection: "gotn_nodes",
+          id: node.id,
+          content_hash: embeddingContentHash(text),
+        },
+      });
+    }
+
+    return {
+      nodes: nodes.map((node) => embedded.get(node.id) ?? node),
+      vectors,
+    };
+  }
+
+  /**
+   * Upsert the vectors of written nodes. A node whose content no longer
+   * matches its vector (changed by a merge) keeps a stale reference and is
+   * embedded on a later store; one whose vector cannot be stored has its
+   * reference dropped, so it is embedded again too.
+   */
+  private async upsertVectors(
+    nodes: Node[],
+    vectors: Map<string, number[]>
+  ): Promise<Node[]> {
+    const result: Node[] = [];
+    for (const node of nodes) {
+      const vector = vectors.get(node.id);
+      if (
+        !vector ||
+        node.embedding_ref?.content_hash !==
+          embeddingContentHash(embeddingText(node))
+      ) {
+        result.push(node);
+        continue;
+      }
+
+      try {
+        await this.vectorStore!.upsert(node.id, vector, this.projectId);
+        result.push(node);
       } catch (error: any) {
         console.warn(
-          `Failed to create embedding for node ${validatedNode.id}:`,
+          `Failed to create embedding for node ${node.id}:`,
           error.message
         );
-        // Node is still stored, just without embedding
+        const { embedding_ref: _, ...unembedded } = node;
+        result.push(
+          await fsUpdateNode(this.workspacePath, node.id, unembedded, {
+            expected_version: node.version,
+          }).catch(() => node)
+        );
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Stored vectors of embedded nodes, by node ID. Vectors come from the
+   * embedding cache; only nodes missing from it are embedded (in one batch).
+   */
+  async getNodeVectors(nodes: Node[]): Promise<Map<string, number[]>> {
+    await this.ensureInitialized();
+
+    const embedded = nodes.filter(
+      (node) => node.embedding_ref && embeddingText(node).trim()
+    );
+    const vectors = new Map<string, number[]>();
+    if (!this.embedder || embedded.length === 0) return vectors;
+
+    const computed = await this.embedTexts(embedded.map(embeddingText));
+    embedded.forEach((node, i) => {
+      if (computed[i]?.length) vectors.set(node.id, computed[i]);
+    });
+    return vectors;
+  }
+
+  /**
+   * Update with a version check, merging on conflict when asked. The
+   * embedding of a merged node is computed again and added to vectors.
+   */
+  private async updateWithVersion(
+    node: Node,
+    options: StoreNodeOptions,
+    vectors: Map<string, number[]>
+  ): Promise<Node> {
+    const expectedVersion = options.expected_version!;
+    try {
+      return await fsUpdateNode(this.workspacePath, node.id, node, {
+        expected_version: expectedVersion,
+      });
+    } catch (error) {
+      if (!(error instanceof NodeVersionConflictError) || !options.merge) {
+        throw error;
+      }
+
+      // Merge against the version the caller started from
+      const base = (await getNodeHistory(this.workspacePath, node.id))
+        .reverse()
+        .find((v) => v.node?.version === expectedVersion)?.node;
+      if (!base) throw error;
+
+      // embedding_ref follows the content, so it is not merged but
+      // computed again for the merged node
+      const { node: merged, conflicts } = mergeNodes(
+        base,
+        { ...node, embedding_ref: base.embedding_ref },
+        error.current
+      );
+      if (conflicts.length > 0) {
+        throw new NodeVersionConflictError(
+          node.id,
+          expectedVersion,
+          error.current,
+          conflicts
+        );
+      }
+
+      const embedded = await this.embedNodes([merged]);
+      embedded.vectors.forEach((vector, id) => vectors.set(id, vector));
+      return fsUpdateNode(this.workspacePath, node.id, embedded.nodes[0], {
+        expected_version: error.current.version,
+      });
+    }
+  }
+
+  /**
+   * Delete a node: remove from graph → journal → delete its vector
+   */
+  async deleteNode(
+    id: string,
+    options: RemoveNodeOptions = {}
+  ): Promise<RemoveNodeEventData & { vector_removed: boolean }> {
+    await this.ensureInitialized();
+
+    // 1. Remove node (and cascade) from graph and append to journal
+    const removal = await fsRemoveNode(this.workspacePath, id, options);
+
+    // 2. Delete vector; the node is gone even if this fails
+    let vectorRemoved = false;
+    if (this.vectorStore) {
+      try {
+        await this.vectorStore.delete(id, this.projectId);
+        vectorRemoved = true;
+      } catch (error: any) {
+        console.warn(`Failed to delete vector for node ${id}:`, error.message);
       }
     }
+
+    return { ...removal, vector_removed: vectorRemoved };
+  }
+
+  /**
+   * Get every recorded version of a node, oldest first
+   */
+  async getNodeHistory(id: string): Promise<NodeVersion[]> {
+    return getNodeHistory(this.workspacePath, id);
   }
 
   /**
    * Get a node by its ID
    */
   async getNode(id: string): Promise<Node | null> {
-    const graph = await readGraph(".");
+    const graph = await readGraph(this.workspacePath);
     const node = graph.nodes.find((n) => n.id === id);
     return node || null;
   }
@@ -159,11 +427,11 @@ export class NodeStore {
       );
 
       // 3. Get node summaries for results
-      const graph = await readGraph(".");
+      const graph = await readGraph(this.workspacePath);
       const nodeMap = new Map(graph.nodes.map((node) => [node.id, node]));
 
       const results: NodeSearchResult[] = vectorResults
-        .map((result: SearchResult) => {
+        .map((result) => {
           const node = nodeMap.get(result.id);
           if (!node) return null;
 
@@ -186,7 +454,7 @@ export class NodeStore {
    * Get all nodes (for debugging/testing)
    */
   async getAllNodes(): Promise<Node[]> {
-    const graph = await readGraph(".");
+    const graph = await readGraph(this.workspacePath);
     return graph.nodes;
   }
 
@@ -194,7 +462,7 @@ export class NodeStore {
    * Get node count
    */
   async getNodeCount(): Promise<number> {
-    const graph = await readGraph(".");
+    const graph = await readGraph(this.workspacePath);
     return graph.nodes.length;
   }
 }
@@ -204,7 +472,11 @@ export class NodeStore {
  */
 let defaultNodeStore: NodeStore | null = null;
 
-export function getNodeStore(projectId?: string): NodeStore {
+export function getNodeStore(
+  projectId?: string,
+  workspace?: GoTNWorkspace
+): NodeStore {
+  if (workspace) return workspace.getNodeStore(projectId);
   if (!defaultNodeStore || (projectId && projectId !== "default")) {
     defaultNodeStore = new NodeStore(projectId);
   }
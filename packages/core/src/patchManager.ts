@@ -0,0 +1,425 @@
+/**
+ * PatchManager - Applies, reverts and lists the patches produced by runs
+ *
+ * Patches live in <run folder>/patches/<node id>.patch. Whether a patch is
+ * applied is read from the workspace itself: it is "applied" when its reverse
+ * applies cleanly, "applicable" when it applies forward, and a "conflict"
+ * otherwise. Applying or reverting writes an apply_patch/revert_patch journal
+ * event and keeps the node's artifacts.files in step with the workspace.
+ * Applying is the step that puts a node's work in the workspace, so the node
+ * is verified then and marked completed or failed by the result. Run
+ * folders must be inside .gotn/runs, and a patch is refused whole when any
+ * file it names is outside the workspace or inside .gotn.
+ */
+
+import { Node, Verification } from "./schemas.js";
+import {
+  readGraph,
+  updateNode,
+  appendJournal,
+  readJournal,
+  NodeVersionConflictError,
+} from "./fsStore.js";
+import {
+  FilePatch,
+  applyFilePatch,
+  parsePatch,
+  patchTarget,
+  reversePatch,
+} from "./unifiedDiff.js";
+import { getArtifactVerifier } from "./artifactVerifier.js";
+import { resolveWorkspaceFile } from "./guardChecks.js";
+import { getLogger } from "./logger.js";
+import { mkdir, readFile, readdir, unlink, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+
+export type PatchStatus = "applicable" | "applied" | "conflict";
+
+// Node updates after a patch are retried this often on version conflicts
+const MAX_NODE_UPDATE_ATTEMPTS = 5;
+
+export interface PatchInfo {
+  node_id: string;
+  run_id: string;
+  patch_path: string;
+  files: string[];
+  status: PatchStatus;
+  conflicts: string[];
+  last_action?: { event: "apply_patch" | "revert_patch"; timestamp: string };
+}
+
+export interface PatchActionOptions {
+  dry_run?: boolean;
+}
+
+export interface PatchActionResult {
+  node_id: string;
+  run_id: string;
+  patch_path: string;
+  files: string[];
+  dry_run: boolean;
+  applied: boolean;
+  conflicts: string[];
+  // Verification of the node after an apply
+  verification?: Verification;
+  // Why the node was not updated after the patch was applied or reverted
+  node_not_updated?: string;
+}
+
+export class PatchManager {
+  private workspacePath: string;
+  private logger;
+
+  constructor(workspacePath: string = ".") {
+    this.workspacePath = workspacePath;
+    this.logger = getLogger(workspacePath);
+  }
+
+  private resolve(relPath: string): string {
+    return path.isAbsolute(relPath)
+      ? relPath
+      : path.join(this.workspacePath, relPath);
+  }
+
+  /**
+   * Absolute path of a run folder, which must be inside .gotn/runs
+   */
+  resolveRunFolder(runFolder: string): string {
+    const runsDir = path.resolve(this.workspacePath, ".gotn", "runs");
+    const absFolder = path.resolve(this.workspacePath, runFolder);
+    const relFolder = path.relative(runsDir, absFolder);
+    if (
+      !relFolder ||
+      path.isAbsolute(relFolder) ||
+      relFolder.split(path.sep)[0] === ".."
+    ) {
+      throw new Error(`Run folder must be inside .gotn/runs: ${runFolder}`);
+    }
+    return absFolder;
+  }
+
+  private patchPath(runFolder: string, nodeId: string): string {
+    this.resolveRunFolder(runFolder);
+    if (!nodeId || /[\\/]/.test(nodeId)) {
+      throw new Error(`Invalid node id: ${nodeId}`);
+    }
+    return path.join(runFolder, "patches", `${nodeId}.patch`);
+  }
+
+  /**
+   * Absolute path of a file a patch touches. Patch headers are plain text,
+   * so targets that are absolute, have a ".." segment or point into .gotn
+   * are refused
+   */
+  private resolveTarget(file: string): string {
+    const absPath = resolveWorkspaceFile(this.workspacePath, file);
+    const relPath = absPath
+      ? path.relative(path.resolve(this.workspacePath), absPath)
+      : "";
+    if (!absPath || !relPath || relPath.split(path.sep)[0] === ".gotn") {
+      throw new Error(`Refusing to patch outside the workspace: ${file}`);
+    }
+    return absPath;
+  }
+
+  private async readFilePatches(patchPath: string): Promise<FilePatch[]> {
+    const absPath = this.resolve(patchPath);
+    if (!existsSync(absPath)) {
+      throw new Error(`Patch not found: ${patchPath}`);
+    }
+    const filePatches = parsePatch(await readFile(absPath, "utf8"));
+    for (const patch of filePatches) {
+      if (patch.old_path !== null) this.resolveTarget(patch.old_path);
+      if (patch.new_path !== null) this.resolveTarget(patch.new_path);
+    }
+    return filePatches;
+  }
+
+  private async readWorkspaceFile(file: string): Promise<string | null> {
+    const absPath = this.resolveTarget(file);
+    return existsSync(absPath) ? readFile(absPath, "utf8") : null;
+  }
+
+  /**
+   * Apply every file patch in memory; nothing is written unless all succeed
+   */
+  private async tryApply(patches: FilePatch[]): Promise<{
+    results: Map<string, string | null>;
+    conflicts: string[];
+  }> {
+    const results = new Map<string, string | null>();
+    const conflicts: string[] = [];
+
+    for (const patch of patches) {
+      const target = patchTarget(patch);
+      const current = results.has(target)
+        ? results.get(target)!
+        : await this.readWorkspaceFile(target);
+      const applied = applyFilePatch(current, patch);
+      if (applied.ok) {
+        results.set(target, applied.content);
+      } else {
+        conflicts.push(applied.conflict);
+      }
+    }
+
+    return { results, conflicts };
+  }
+
+  private async writeResults(results: Map<string, string | null>) {
+    for (const [file, content] of results) {
+      const absPath = this.resolveTarget(file);
+      if (content === null) {
+        if (existsSync(absPath)) await unlink(absPath);
+      } else {
+        await mkdir(path.dirname(absPath), { recursive: true });
+        await writeFile(absPath, content);
+      }
+    }
+  }
+
+  private async lastAction(
+    runId: string,
+    nodeId: string
+  ): Promise<PatchInfo["last_action"]> {
+    const last = (await readJournal(this.workspacePath))
+      .filter(
+        (entry) =>
+          (entry.event === "apply_patch" || entry.event === "revert_patch") &&
+          entry.data.run_id === runId &&
+          entry.data.node_id === nodeId
+      )
+      .pop();
+    return last
+      ? {
+          event: last.event as "apply_patch" | "revert_patch",
+          timestamp: last.timestamp,
+        }
+      : undefined;
+  }
+
+  /**
+   * A patch that only adds lines still applies after it was applied, so when
+   * both directions apply the journal decides
+   */
+  private async patchStatus(
+    filePatches: FilePatch[],
+    lastAction: PatchInfo["last_action"]
+  ): Promise<{ status: PatchStatus; conflicts: string[] }> {
+    const forward = await this.tryApply(filePatches);
+    const backward = await this.tryApply(filePatches.map(reversePatch));
+
+    if (backward.conflicts.length === 0) {
+      if (forward.conflicts.length > 0 || lastAction?.event === "apply_patch") {
+        return { status: "applied", conflicts: [] };
+      }
+    }
+    if (forward.conflicts.length === 0) {
+      return { status: "applicable", conflicts: [] };
+    }
+    return { status: "conflict", conflicts: forward.conflicts };
+  }
+
+  /**
+   * List the patches in a run folder with their current status
+   */
+  async listPatches(runFolder: string): Promise<PatchInfo[]> {
+    const patchesDir = path.join(this.resolveRunFolder(runFolder), "patches");
+    if (!existsSync(patchesDir)) return [];
+
+    const runId = path.basename(runFolder);
+    const patches: PatchInfo[] = [];
+
+    const names = (await readdir(patchesDir))
+      .filter((name) => name.endsWith(".patch"))
+      .sort();
+
+    for (const name of names) {
+      const nodeId = name.replace(/\.patch$/, "");
+      const patchPath = this.patchPath(runFolder, nodeId);
+      const filePatches = await this.readFilePatches(patchPath);
+      const lastAction = await this.lastAction(runId, nodeId);
+      const { status, conflicts } = await this.patchStatus(
+        filePatches,
+        lastAction
+      );
+
+      patches.push({
+        node_id: nodeId,
+        run_id: runId,
+        patch_path: patchPath,
+        files: filePatches.map(patchTarget),
+        status,
+        conflicts,
+        ...(lastAction ? { last_action: lastAction } : {}),
+      });
+    }
+
+    return patches;
+  }
+
+  /**
+   * Update the node a patch belongs to. The workspace is already patched
+   * when this runs, so a node changed meanwhile (e.g. during verification)
+   * is not an error: the update is computed again from the stored node.
+   */
+  private async updatePatchedNode(
+    nodeId: string,
+    update: (node: Node) => Promise<Node>
+  ): Promise<{ node: Node } | { reason: string }> {
+    for (let attempt = 1; ; attempt++) {
+      const graph = await readGraph(this.workspacePath);
+      const node = graph.nodes.find((n) => n.id === nodeId);
+      if (!node) {
+        await this.logger.warn("Patch node not found in graph", {
+          node_id: nodeId,
+        });
+        return { reason: `Node ${nodeId} not found in graph` };
+      }
+
+      try {
+        const updated = await updateNode(
+          this.workspacePath,
+          nodeId,
+          { ...(await update(node)), updated_at: new Date().toISOString() },
+          { expected_version: node.version }
+        );
+        return { node: updated };
+      } catch (error) {
+        if (!(error instanceof NodeVersionConflictError)) throw error;
+        if (attempt >= MAX_NODE_UPDATE_ATTEMPTS) {
+          await this.logger.warn("Patch node kept changing; not updated", {
+            node_id: nodeId,
+            version: error.current.version,
+          });
+          return {
+            reason: `Node ${nodeId} changed on each of ${MAX_NODE_UPDATE_ATTEMPTS} update attempts (now at version ${error.current.version})`,
+          };
+        }
+      }
+    }
+  }
+
+  private async act(
+    runFolder: string,
+    nodeId: string,
+    reverse: boolean,
+    options: PatchActionOptions
+  ): Promise<PatchActionResult> {
+    const dryRun = options.dry_run ?? false;
+    const runId = path.basename(runFolder);
+    const patchPath = this.patchPath(runFolder, nodeId);
+
+    const original = await this.readFilePatches(patchPath);
+    const filePatches = reverse ? original.map(reversePatch) : original;
+    const files = filePatches.map(patchTarget);
+
+    // Refuse to apply twice or revert what was never applied
+    const { status } = await this.patchStatus(
+      original,
+      await this.lastAction(runId, nodeId)
+    );
+    const { results, conflicts } =
+      status === (reverse ? "applicable" : "applied")
+        ? {
+            results: new Map<string, string | null>(),
+            conflicts: [`Patch for ${nodeId} is ${status}`],
+          }
+        : await this.tryApply(filePatches);
+    const result: PatchActionResult = {
+      node_id: nodeId,
+      run_id: runId,
+      patch_path: patchPath,
+      files,
+      dry_run: dryRun,
+      applied: false,
+      conflicts,
+    };
+
+    if (conflicts.length > 0 || dryRun) return result;
+
+    await this.writeResults(results);
+    result.applied = true;
+
+    await appendJournal(this.workspacePath, {
+      event: reverse ? "revert_patch" : "apply_patch",
+      data: { run_id: runId, node_id: nodeId, patch_path: patchPath, files },
+    });
+
+    const present = files.filter((file) => results.get(file) !== null);
+    const updated = await this.updatePatchedNode(nodeId, async (node) => {
+      const existing = node.artifacts.files;
+      if (!reverse) {
+        // Only verified work counts as completed
+        const patched: Node = {
+          ...node,
+          artifacts: {
+            ...node.artifacts,
+            files: [...new Set([...existing, ...present])],
+          },
+        };
+        const verification = await getArtifactVerifier(
+          this.workspacePath
+        ).verify(patched);
+        return {
+          ...patched,
+          verification,
+          status: verification.passed ? "completed" : "failed",
+        };
+      }
+      // Reverted work is no longer done
+      return {
+        ...node,
+        artifacts: {
+          ...node.artifacts,
+          files: existing.filter((file) => !files.includes(file)),
+        },
+        status: node.status === "completed" ? "ready" : node.status,
+      };
+    });
+
+    if (!("node" in updated)) {
+      result.node_not_updated = updated.reason;
+    } else if (!reverse && updated.node.verification) {
+      result.verification = updated.node.verification;
+    }
+
+    await this.logger.info(reverse ? "Patch reverted" : "Patch applied", {
+      run_id: runId,
+      node_id: nodeId,
+      files,
+      ...(result.verification
+        ? { verification_passed: result.verification.passed }
+        : {}),
+    });
+
+    return result;
+  }
+
+  /**
+   * Apply a node's patch to the workspace, or only check it with dry_run
+   */
+  async applyPatch(
+    runFolder: string,
+    nodeId: string,
+    options: PatchActionOptions = {}
+  ): Promise<PatchActionResult> {
+    return this.act(runFolder, nodeId, false, options);
+  }
+
+  /**
+   * Undo a previously applied patch, or only check it with dry_run
+   */
+  async revertPatch(
+    runFolder: string,
+    nodeId: string,
+    options: PatchActionOptions = {}
+  ): Promise<PatchActionResult> {
+    return this.act(runFolder, nodeId, true, options);
+  }
+}
+
+export function getPatchManager(workspacePath?: string): PatchManager {
+  return new PatchManager(workspacePath || ".");
+}
@@ -4,6 +4,7 @@
 
 import { Node, Edge } from "./schemas.js";
 import { readGraph } from "./fsStore.js";
+import type { GoTNWorkspace } from "./workspace.js";
 import { mkdir, writeFile } from "fs/promises";
 import { existsSync } from "fs";
 import path from "path";
@@ -12,6 +13,7 @@ export interface PlanRequest {
   goal?: string;
   requires?: string[];
   produces?: string[];
+  target_produces?: string[];
 }
 
 export interface PlanResult {
@@ -19,10 +21,22 @@ export interface PlanResult {
   reason: string;
   run_folder: string;
   layers: string[][];
+  unsatisfiable: string[];
+  skipped_completed: string[];
+}
+
+export interface GoalResolution {
+  nodes: Node[];
+  unsatisfiable: string[];
+  skipped_completed: string[];
 }
 
 export class PlanComposer {
-  constructor() {}
+  private workspacePath: string;
+
+  constructor(workspace?: GoTNWorkspace) {
+    this.workspacePath = workspace?.path ?? ".";
+  }
 
   /**
    * Topological sort with cycle detection
@@ -43,7 +57,7 @@ export class PlanComposer {
       softScores.set(node.id, 0);
     }
 
-    // Build adjacency list from hard edges only
+    // Build adjacency list from hard edges only: src (producer) precedes dst
     for (const edge of hardEdges) {
       if (nodeIds.has(edge.src) && nodeIds.has(edge.dst)) {
         adjList.get(edge.src)!.push(edge.dst);
@@ -52,7 +66,7 @@ export class PlanComposer {
     }
 
     // Calculate soft scores (sum of incoming soft edge scores)
-    const graph = await readGraph(".");
+    const graph = await readGraph(this.workspacePath);
     const softEdges = graph.edges.filter((e) => e.type === "soft_semantic");
     for (const edge of softEdges) {
       if (nodeIds.has(edge.dst)) {
@@ -131,22 +145,127 @@ export class PlanComposer {
     return filtered;
   }
 
+  /**
+   * Collect every node needed to produce the target tags: walk requires tags
+   * back to their producers (and hard edges back to their sources), stopping
+   * at completed producers whose outputs already exist
+   */
+  resolveGoal(
+    nodes: Node[],
+    edges: Edge[],
+    targetProduces: string[]
+  ): GoalResolution {
+    const producersByTag = new Map<string, Node[]>();
+    for (const node of nodes) {
+      for (const tag of node.produces) {
+        if (!producersByTag.has(tag)) producersByTag.set(tag, []);
+        producersByTag.get(tag)!.push(node);
+      }
+    }
+
+    const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+    const hardSources = new Map<string, string[]>();
+    for (const edge of edges) {
+      if (edge.type !== "hard_requires") continue;
+      if (!hardSources.has(edge.dst)) hardSources.set(edge.dst, []);
+      hardSources.get(edge.dst)!.push(edge.src);
+    }
+
+    const included = new Map<string, Node>();
+    const skipped = new Set<string>();
+    const unsatisfiable = new Set<string>();
+    const visitedTags = new Set<string>();
+    const tagQueue = [...targetProduces];
+    const nodeQueue: Node[] = [];
+
+    const include = (node: Node) => {
+      if (node.status === "completed") {
+        skipped.add(node.id);
+        return;
+      }
+      if (included.has(node.id)) return;
+      included.set(node.id, node);
+      nodeQueue.push(node);
+    };
+
+    while (tagQueue.length > 0 || nodeQueue.length > 0) {
+      const tag = tagQueue.shift();
+      if (tag !== undefined) {
+        if (visitedTags.has(tag)) continue;
+        visitedTags.add(tag);
+
+        const producers = producersByTag.get(tag) || [];
+        if (producers.length === 0) {
+          unsatisfiable.add(tag);
+          continue;
+        }
+
+        // A completed producer already satisfies the tag
+        if (producers.some((p) => p.status === "completed")) {
+          producers
+            .filter((p) => p.status === "completed")
+            .forEach((p) => skipped.add(p.id));
+          continue;
+        }
+
+        producers.forEach(include);
+        continue;
+      }
+
+      const node = nodeQueue.shift()!;
+      tagQueue.push(...node.requires);
+      for (const srcId of hardSources.get(node.id) || []) {
+        const src = nodeMap.get(srcId);
+        if (src) include(src);
+      }
+    }
+
+    return {
+      nodes: Array.from(included.values()),
+      unsatisfiable: Array.from(unsatisfiable),
+      skipped_completed: Array.from(skipped),
+    };
+  }
+
   /**
    * Create execution plan
    */
   async composePlan(request: PlanRequest): Promise<PlanResult> {
-    const graph = await readGraph(".");
+    const graph = await readGraph(this.workspacePath);
+
+    // Get hard edges only
+    const hardEdges = graph.edges.filter((e) => e.type === "hard_requires");
 
-    // Filter nodes based on goal
-    const targetNodes = this.filterNodes(graph.nodes, request);
+    // Goal mode pulls in transitive producers; otherwise filter by tags
+    let targetNodes: Node[];
+    let unsatisfiable: string[] = [];
+    let skippedCompleted: string[] = [];
+
+    if (request.target_produces && request.target_produces.length > 0) {
+      const resolution = this.resolveGoal(
+        graph.nodes,
+        hardEdges,
+        request.target_produces
+      );
+      targetNodes = resolution.nodes;
+      unsatisfiable = resolution.unsatisfiable;
+      skippedCompleted = resolution.skipped_completed;
+
+      if (targetNodes.length === 0) {
+        throw new Error(
+          unsatisfiable.length > 0
+            ? `No node produces: ${unsatisfiable.join(", ")}`
+            : "All target artifacts are already produced by completed nodes"
+        );
+      }
+    } else {
+      targetNodes = this.filterNodes(graph.nodes, request);
+    }
 
     if (targetNodes.length === 0) {
       throw new Error("No nodes match the specified criteria");
     }
 
-    // Get hard edges only
-    const hardEdges = graph.edges.filter((e) => e.type === "hard_requires");
-
     // Perform topological sort
     const { layers, hasCycle } = await this.topologicalSort(
       targetNodes,
@@ -162,20 +281,30 @@ export class PlanComposer {
     // Flatten layers to get ordered node IDs
     const orderedNodeIds = layers.flat();
 
-    // Create run folder
+    // Create run folder (reported relative to the workspace)
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
     const runFolder = path.join(".gotn", "runs", `run-${timestamp}`);
+    const runPath = path.join(this.workspacePath, runFolder);
 
-    if (!existsSync(runFolder)) {
-      await mkdir(runFolder, { recursive: true });
+    if (!existsSync(runPath)) {
+      await mkdir(runPath, { recursive: true });
     }
 
     // Create reason text
-    const reason =
+    let reason =
       `Topological sort of ${targetNodes.length} nodes across ${layers.length} layers. ` +
       `Dependencies resolved through ${hardEdges.length} hard edges. ` +
       `Nodes ordered by dependency requirements with soft score tie-breaking within layers.`;
 
+    if (request.target_produces && request.target_produces.length > 0) {
+      reason +=
+        ` Goal slice for ${request.target_produces.join(", ")}` +
+        ` skipped ${skippedCompleted.length} completed producers.`;
+      if (unsatisfiable.length > 0) {
+        reason += ` Unsatisfiable requirements: ${unsatisfiable.join(", ")}.`;
+      }
+    }
+
     // Write plan.json
     const planData = {
       goal: request.goal || "Execute filtered nodes",
@@ -192,16 +321,19 @@ export class PlanComposer {
       criteria: {
         requires: request.requires || [],
         produces: request.produces || [],
+        target_produces: request.target_produces || [],
       },
+      unsatisfiable,
+      skipped_completed: skippedCompleted,
     };
 
     await writeFile(
-      path.join(runFolder, "plan.json"),
+      path.join(runPath, "plan.json"),
       JSON.stringify(planData, null, 2)
     );
 
     // Create empty steps.jsonl
-    await writeFile(path.join(runFolder, "steps.jsonl"), "");
+    await writeFile(path.join(runPath, "steps.jsonl"), "");
 
     console.log(
       `Plan created with ${orderedNodeIds.length} nodes in ${layers.length} layers`
@@ -212,13 +344,16 @@ export class PlanComposer {
       reason,
       run_folder: runFolder,
       layers,
+      unsatisfiable,
+      skipped_completed: skippedCompleted,
     };
   }
 }
 
 let defaultPlanComposer: PlanComposer | null = null;
 
-export function getPlanComposer(): PlanComposer {
+export function getPlanComposer(workspace?: GoTNWorkspace): PlanComposer {
+  if (workspace) return workspace.getPlanComposer();
   if (!defaultPlanComposer) {
     defaultPlanComposer = new PlanComposer();
   }
@@ -0,0 +1,778 @@
+/**
+ * PlanRunner - Executes a composed plan from its run folder
+ *
+ * Reads plan.json, walks the layers in order and evaluates guards for each
+ * node before handing it to a NodeExecutor. A patch the executor writes is
+ * left for review: the node is pending_apply, its dependents are blocked and
+ * the run pauses until gotn_apply_patch applies and verifies it. With
+ * auto_apply the runner applies it through PatchManager itself. Work done
+ * without a patch is verified here. Either way a node only counts as
+ * completed once ArtifactVerifier accepts it.
+ * Nodes within a layer are independent and run concurrently. Every step is
+ * appended to the run's steps.jsonl as soon as it finishes, and the run is
+ * bracketed by start_run/finish_run journal events. run.json holds the run
+ * status, which is also how a pause or cancel request reaches an active run.
+ */
+
+import {
+  Node,
+  Run,
+  RunStep,
+  RunStepAction,
+  RunStepSchema,
+  NodeStatus,
+  Verification,
+  validateRun,
+} from "./schemas.js";
+import {
+  readGraph,
+  updateNode,
+  appendJournal,
+  NodeVersionConflictError,
+} from "./fsStore.js";
+import { getGuardEngine } from "./guardEngine.js";
+import { GuardCheckResult } from "./guardChecks.js";
+import { getNodeExecutor, NodeExecutor } from "./nodeExecutor.js";
+import { getArtifactVerifier } from "./artifactVerifier.js";
+import { getPatchManager } from "./patchManager.js";
+import { getLogger } from "./logger.js";
+import { getMetrics } from "./metrics.js";
+import { withFileLock } from "./fileLock.js";
+import { readFile, writeFile, appendFile, rename, unlink } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+
+export type FailurePolicy = "stop" | "continue";
+
+export interface RunPlanOptions {
+  on_failure?: FailurePolicy;
+  max_parallel?: number;
+  // Apply each generated patch and verify its node right away, instead of
+  // leaving the patch for review (default false)
+  auto_apply?: boolean;
+}
+
+export interface RunResult {
+  run_id: string;
+  run_folder: string;
+  status: "completed" | "failed" | "paused" | "cancelled";
+  steps: RunStep[];
+  already_done: string[];
+  completed: string[];
+  skipped: string[];
+  failed: string[];
+  blocked: string[];
+  // Nodes whose patches await gotn_apply_patch
+  pending_apply: string[];
+  not_run: string[];
+}
+
+export interface RunState {
+  run_id: string;
+  status: Run["status"];
+  done: string[];
+  pending: string[];
+  interrupted: string[];
+}
+
+const DONE_STATUSES: NodeStatus[] = ["completed", "skipped"];
+
+interface LayerContext {
+  runId: string;
+  runFolder: string;
+  maxParallel: number;
+  onFailure: FailurePolicy;
+  autoApply: boolean;
+  // Why a node must not run, by node ID
+  blocked: Map<string, string>;
+  state: { stopped: boolean; requested?: "paused" | "cancelled" };
+}
+
+interface PlanFile {
+  goal?: string;
+  reason?: string;
+  ordered_node_ids?: string[];
+  layers_detail?: { layer: number; nodes: string[] }[];
+}
+
+export class PlanRunner {
+  private workspacePath: string;
+  private executor: NodeExecutor;
+  private maxParallel: number;
+  private logger;
+
+  constructor(workspacePath: string = ".", executor?: NodeExecutor) {
+    this.workspacePath = workspacePath;
+    this.executor = executor || getNodeExecutor();
+    this.maxParallel =
+      parseInt(process.env.GOTN_RUN_CONCURRENCY || "4", 10) || 4;
+    this.logger = getLogger(workspacePath);
+  }
+
+  /**
+   * Load the layers of a plan, falling back to one node per layer for
+   * plans written without layers_detail
+   */
+  private async loadPlan(
+    runFolder: string
+  ): Promise<{ plan: PlanFile; layers: string[][] }> {
+    const planPath = path.join(runFolder, "plan.json");
+    if (!existsSync(planPath)) {
+      throw new Error(`No plan.json found in ${runFolder}`);
+    }
+
+    const plan: PlanFile = JSON.parse(await readFile(planPath, "utf8"));
+
+    const layers = plan.layers_detail
+      ? [...plan.layers_detail]
+          .sort((a, b) => a.layer - b.layer)
+          .map((layer) => layer.nodes)
+      : (plan.ordered_node_ids || []).map((id) => [id]);
+
+    if (layers.flat().length === 0) {
+      throw new Error(`Plan in ${runFolder} contains no nodes`);
+    }
+
+    return { plan, layers };
+  }
+
+  /**
+   * Collect every planned node that transitively depends on a failed node
+   * through hard_requires edges (src = producer, dst = consumer)
+   */
+  private async findDependents(
+    failedId: string,
+    planned: Set<string>
+  ): Promise<Set<string>> {
+    const graph = await readGraph(this.workspacePath);
+    const consumers = new Map<string, string[]>();
+    for (const edge of graph.edges) {
+      if (edge.type !== "hard_requires") continue;
+      if (!consumers.has(edge.src)) consumers.set(edge.src, []);
+      consumers.get(edge.src)!.push(edge.dst);
+    }
+
+    const dependents = new Set<string>();
+    const queue = [failedId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const dst of consumers.get(current) || []) {
+        if (planned.has(dst) && !dependents.has(dst)) {
+          dependents.add(dst);
+          queue.push(dst);
+        }
+      }
+    }
+
+    return dependents;
+  }
+
+  /**
+   * Write a node status, refusing to overwrite a concurrent change to the
+   * node; returns the node as stored
+   */
+  private async setStatus(node: Node, status: NodeStatus): Promise<Node> {
+    const updated: Node = {
+      ...node,
+      status,
+      updated_at: new Date().toISOString(),
+    };
+    return updateNode(this.workspacePath, node.id, updated, {
+      expected_version: node.version,
+    });
+  }
+
+  /**
+   * Evaluate guards for one node and execute it when they allow
+   */
+  private async runNode(
+    nodeId: string,
+    layer: number,
+    runId: string,
+    runFolder: string,
+    autoApply: boolean
+  ): Promise<RunStep> {
+    const started = Date.now();
+    const metrics = getMetrics(this.workspacePath);
+    let guards: GuardCheckResult[] = [];
+    let verification: Verification | undefined;
+
+    const step = (
+      action: RunStepAction,
+      status: NodeStatus,
+      reason: string,
+      patchPath?: string
+    ): RunStep => ({
+      timestamp: new Date().toISOString(),
+      run_id: runId,
+      layer,
+      node_id: nodeId,
+      action,
+      status,
+      reason,
+      ...(patchPath ? { patch_path: patchPath } : {}),
+      ...(guards.length > 0 ? { guards } : {}),
+      ...(verification ? { verification } : {}),
+      duration_ms: Date.now() - started,
+    });
+
+    const graph = await readGraph(this.workspacePath);
+    const node = graph.nodes.find((n) => n.id === nodeId);
+    if (!node) {
+      return step("fail", "failed", `Node ${nodeId} not found in graph`);
+    }
+
+    if (node.status === "completed") {
+      metrics.incrementSkips();
+      return step("skip", "completed", "Node already completed");
+    }
+
+    if (node.status === "pending_apply") {
+      return step("proceed", "pending_apply", "Patch awaits gotn_apply_patch");
+    }
+
+    const guardResult = await getGuardEngine(this.workspacePath).evaluate(node);
+    guards = guardResult.guards;
+
+    if (guardResult.result === "skip") {
+      metrics.incrementSkips();
+      await this.setStatus(node, "skipped");
+      return step("skip", "skipped", guardResult.reason);
+    }
+
+    if (guardResult.result === "fail") {
+      metrics.incrementGuardFails();
+      await this.setStatus(node, "failed");
+      return step("fail", "failed", guardResult.reason);
+    }
+
+    const running = await this.setStatus(node, "running");
+
+    try {
+      const result = await this.executor.execute(running, {
+        workspacePath: this.workspacePath,
+        runFolder,
+        runId,
+      });
+
+      if (!result.success) {
+        await this.setStatus(running, "failed");
+        return step("fail", "failed", result.message, result.patch_path);
+      }
+
+      // A patch reaches the workspace only once it is applied, normally by
+      // a person through gotn_apply_patch; applying verifies the node and
+      // records whether it completed
+      if (result.patch_path && !autoApply) {
+        await this.setStatus(running, "pending_apply");
+        return step(
+          "proceed",
+          "pending_apply",
+          `${result.message}; review it and apply it with gotn_apply_patch`,
+          result.patch_path
+        );
+      }
+
+      if (result.patch_path) {
+        const applied = await getPatchManager(this.workspacePath).applyPatch(
+          runFolder,
+          nodeId
+        );
+        if (!applied.applied) {
+          await this.setStatus(running, "failed");
+          return step(
+            "fail",
+            "failed",
+            `Patch does not apply: ${applied.conflicts.join("; ")}`,
+            result.patch_path
+          );
+        }
+        if (applied.node_not_updated) {
+          return step(
+            "fail",
+            "failed",
+            `Patch applied, but the node was not updated: ${applied.node_not_updated}`,
+            result.patch_path
+          );
+        }
+        verification = applied.verification;
+      } else {
+        // Only verified work counts as completed
+        verification = await getArtifactVerifier(this.workspacePath).verify(
+          running
+        );
+        await this.setStatus(
+          { ...running, verification },
+          verification.passed ? "completed" : "failed"
+        );
+      }
+
+      const failedChecks = (verification?.checks ?? []).filter(
+        (check) => check.status === "failed"
+      );
+      if (failedChecks.length > 0) {
+        return step(
+          "fail",
+          "failed",
+          `Verification failed: ${failedChecks
+            .map((check) => `${check.target} (${check.detail})`)
+            .join(", ")}`,
+          result.patch_path
+        );
+      }
+
+      return step("proceed", "completed", result.message, result.patch_path);
+    } catch (error: any) {
+      // A node changed behind the run keeps that change
+      if (error instanceof NodeVersionConflictError) {
+        return step("fail", "failed", error.message);
+      }
+      await this.setStatus(running, "failed");
+      return step("fail", "failed", `Executor error: ${error.message}`);
+    }
+  }
+
+  private async blockNode(
+    nodeId: string,
+    layer: number,
+    runId: string,
+    reason: string
+  ): Promise<RunStep> {
+    const graph = await readGraph(this.workspacePath);
+    const node = graph.nodes.find((n) => n.id === nodeId);
+    if (node) await this.setStatus(node, "blocked");
+
+    return {
+      timestamp: new Date().toISOString(),
+      run_id: runId,
+      layer,
+      node_id: nodeId,
+      action: "blocked",
+      status: "blocked",
+      reason,
+      duration_ms: 0,
+    };
+  }
+
+  /**
+   * A pause or cancel request is recorded by rewriting run.json's status
+   */
+  private async stopRequested(
+    folder: string
+  ): Promise<"paused" | "cancelled" | null> {
+    try {
+      const run = await this.readRun(folder);
+      if (run?.status === "paused" || run?.status === "cancelled") {
+        return run.status;
+      }
+    } catch {
+      // An unreadable run.json is not a stop request
+    }
+    return null;
+  }
+
+  /**
+   * Run the nodes of one layer concurrently, at most maxParallel at a time.
+   * Nodes sharing an exec_target are queued in the same lane so they never
+   * run side by side. Each step is appended to steps.jsonl when it finishes,
+   * so a crash loses none of them. Nodes left unstarted after a stop have
+   * no step.
+   */
+  private async runLayer(
+    nodeIds: string[],
+    layer: number,
+    context: LayerContext
+  ): Promise<Map<string, RunStep>> {
+    const graph = await readGraph(this.workspacePath);
+    const targets = new Map(graph.nodes.map((n) => [n.id, n.exec_target]));
+
+    const lanes = new Map<string, string[]>();
+    for (const nodeId of nodeIds) {
+      const target = targets.get(nodeId);
+      const key = target ? `target:${target}` : `node:${nodeId}`;
+      if (!lanes.has(key)) lanes.set(key, []);
+      lanes.get(key)!.push(nodeId);
+    }
+
+    const queue = Array.from(lanes.values());
+    const steps = new Map<string, RunStep>();
+
+    const worker = async () => {
+      let lane: string[] | undefined;
+      while ((lane = queue.shift())) {
+        for (const nodeId of lane) {
+          if (context.state.stopped) return;
+
+          const requested = await this.stopRequested(context.runFolder);
+          if (requested) {
+            context.state.stopped = true;
+            context.state.requested = requested;
+            return;
+          }
+
+          const blockedReason = context.blocked.get(nodeId);
+          const step = blockedReason
+            ? await this.blockNode(nodeId, layer, context.runId, blockedReason)
+            : await this.runNode(
+                nodeId,
+                layer,
+                context.runId,
+                context.runFolder,
+                context.autoApply
+              );
+          steps.set(nodeId, step);
+          await appendFile(
+            path.join(context.runFolder, "steps.jsonl"),
+            JSON.stringify(step) + "\n"
+          );
+
+          if (step.action === "fail" && context.onFailure === "stop") {
+            context.state.stopped = true;
+          }
+        }
+      }
+    };
+
+    const workers = Math.max(1, Math.min(context.maxParallel, queue.length));
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+
+    return steps;
+  }
+
+  private resolveFolder(runFolder: string): string {
+    return path.isAbsolute(runFolder)
+      ? runFolder
+      : path.join(this.workspacePath, runFolder);
+  }
+
+  private async readRun(folder: string): Promise<Run | null> {
+    const runPath = path.join(folder, "run.json");
+    if (!existsSync(runPath)) return null;
+    return validateRun(JSON.parse(await readFile(runPath, "utf8")));
+  }
+
+  /**
+   * Hold the lock on a run's run.json while reading and rewriting it, so a
+   * stop request and the runner's own status writes cannot overwrite each
+   * other
+   */
+  private withRunLock<T>(folder: string, operation: () => Promise<T>) {
+    return withFileLock(
+      path.join(this.workspacePath, ".gotn", "locks"),
+      `run.${path.basename(folder)}`,
+      "write",
+      operation
+    );
+  }
+
+  /**
+   * Replace run.json atomically, so the runner polling it for stop requests
+   * never reads a half-written file
+   */
+  private async writeRun(folder: string, run: Run): Promise<void> {
+    const runPath = path.join(folder, "run.json");
+    const tempPath = `${runPath}.tmp.${process.pid}.${Date.now()}`;
+    try {
+      await writeFile(tempPath, JSON.stringify(run, null, 2));
+      await rename(tempPath, runPath);
+    } catch (error) {
+      await unlink(tempPath).catch(() => {});
+      throw error;
+    }
+  }
+
+  /**
+   * Read steps.jsonl, ignoring a torn last line left by a crash
+   */
+  private async readSteps(folder: string): Promise<RunStep[]> {
+    const stepsPath = path.join(folder, "steps.jsonl");
+    if (!existsSync(stepsPath)) return [];
+
+    const steps: RunStep[] = [];
+    const content = await readFile(stepsPath, "utf8");
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        steps.push(RunStepSchema.parse(JSON.parse(line)));
+      } catch {
+        await this.logger.warn("Skipped unreadable run step", { line });
+      }
+    }
+    return steps;
+  }
+
+  /**
+   * Reconstruct how far a run got from its steps and the node statuses
+   */
+  async inspectRun(runFolder: string): Promise<RunState> {
+    const folder = this.resolveFolder(runFolder);
+    const { layers } = await this.loadPlan(folder);
+    const run = await this.readRun(folder);
+    const steps = await this.readSteps(folder);
+    const graph = await readGraph(this.workspacePath);
+
+    const lastStep = new Map(steps.map((step) => [step.node_id, step]));
+    const nodeStatus = new Map(graph.nodes.map((n) => [n.id, n.status]));
+    const state: RunState = {
+      run_id: path.basename(folder),
+      status: run?.status || "planned",
+      done: [],
+      pending: [],
+      interrupted: [],
+    };
+
+    for (const nodeId of layers.flat()) {
+      const step = lastStep.get(nodeId);
+      const status = nodeStatus.get(nodeId);
+
+      if (
+        (step && DONE_STATUSES.includes(step.status)) ||
+        (status && DONE_STATUSES.includes(status))
+      ) {
+        state.done.push(nodeId);
+      } else {
+        state.pending.push(nodeId);
+        if (status === "running") state.interrupted.push(nodeId);
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Ask an active run to pause or cancel. The runner finishes the nodes it
+   * has already started and starts no new ones.
+   */
+  async requestStop(
+    runFolder: string,
+    status: "paused" | "cancelled"
+  ): Promise<Run> {
+    const folder = this.resolveFolder(runFolder);
+    const updated = await this.withRunLock(folder, async () => {
+      const run = await this.readRun(folder);
+      if (!run) {
+        throw new Error(`No run.json found in ${runFolder}`);
+      }
+      if (run.status !== "running" && run.status !== "paused") {
+        throw new Error(`Run ${run.id} is ${run.status} and cannot be stopped`);
+      }
+
+      const stopped: Run = { ...run, status };
+      await this.writeRun(folder, stopped);
+      return stopped;
+    });
+    await this.logger.info("Run stop requested", {
+      run_id: updated.id,
+      status,
+    });
+    return updated;
+  }
+
+  /**
+   * Run every layer of the plan in a run folder
+   */
+  async run(
+    runFolder: string,
+    options: RunPlanOptions = {}
+  ): Promise<RunResult> {
+    return this.execute(runFolder, options, new Set());
+  }
+
+  /**
+   * Continue a run that crashed, failed, or was paused. Completed and skipped
+   * nodes are kept; nodes left running by a crash are retried.
+   */
+  async resume(
+    runFolder: string,
+    options: RunPlanOptions = {}
+  ): Promise<RunResult> {
+    const state = await this.inspectRun(runFolder);
+
+    if (state.status === "cancelled") {
+      throw new Error(`Run ${state.run_id} was cancelled and cannot resume`);
+    }
+    if (state.pending.length === 0) {
+      throw new Error(`Run ${state.run_id} has no pending nodes to resume`);
+    }
+
+    await this.logger.info("Resuming run", {
+      run_id: state.run_id,
+      done: state.done.length,
+      pending: state.pending.length,
+      interrupted: state.interrupted,
+    });
+
+    return this.execute(runFolder, options, new Set(state.done));
+  }
+
+  private async execute(
+    runFolder: string,
+    options: RunPlanOptions,
+    done: Set<string>
+  ): Promise<RunResult> {
+    const onFailure = options.on_failure || "stop";
+    const maxParallel = options.max_parallel || this.maxParallel;
+    const autoApply = options.auto_apply ?? false;
+    const folder = this.resolveFolder(runFolder);
+    const runId = path.basename(folder);
+    const stepsPath = path.join(folder, "steps.jsonl");
+
+    const { plan, layers } = await this.loadPlan(folder);
+    const planned = new Set(layers.flat());
+    const previous = await this.readRun(folder);
+
+    // A crash can leave a torn last line; start new steps on a fresh one
+    if (existsSync(stepsPath)) {
+      const existing = await readFile(stepsPath, "utf8");
+      if (existing && !existing.endsWith("\n")) {
+        await appendFile(stepsPath, "\n");
+      }
+    }
+
+    const run: Run = {
+      id: runId,
+      goal: plan.goal || "Execute filtered nodes",
+      nodes: layers.flat(),
+      ordering_reason: plan.reason || "Plan layers in topological order",
+      created_at: previous?.created_at || new Date().toISOString(),
+      status: "running",
+      provenance: { created_by: "plan_runner", source: "plan.json" },
+    };
+
+    await this.writeRun(folder, run);
+    await appendJournal(this.workspacePath, {
+      event: "start_run",
+      data: { run },
+    });
+    await this.logger.info("Run started", {
+      run_id: runId,
+      nodes: run.nodes.length,
+      layers: layers.length,
+      on_failure: onFailure,
+      max_parallel: maxParallel,
+      auto_apply: autoApply,
+      already_done: done.size,
+    });
+
+    const result: RunResult = {
+      run_id: runId,
+      run_folder: runFolder,
+      status: "completed",
+      steps: [],
+      already_done: layers.flat().filter((id) => done.has(id)),
+      completed: [],
+      skipped: [],
+      failed: [],
+      blocked: [],
+      pending_apply: [],
+      not_run: [],
+    };
+    const blocked = new Map<string, string>();
+    const state: LayerContext["state"] = { stopped: false };
+
+    for (let layer = 0; layer < layers.length; layer++) {
+      const nodeIds = layers[layer].filter((id) => !done.has(id));
+      const steps = await this.runLayer(nodeIds, layer, {
+        runId,
+        runFolder: folder,
+        maxParallel,
+        onFailure,
+        autoApply,
+        blocked,
+        state,
+      });
+
+      // Report steps in plan order, whatever order they finished in
+      for (const nodeId of nodeIds) {
+        const step = steps.get(nodeId);
+        if (!step) {
+          result.not_run.push(nodeId);
+          continue;
+        }
+
+        result.steps.push(step);
+
+        switch (step.action) {
+          case "proceed":
+            if (step.status !== "pending_apply") {
+              result.completed.push(nodeId);
+              break;
+            }
+
+            // Dependents wait until the patch is in the workspace
+            result.pending_apply.push(nodeId);
+            for (const id of await this.findDependents(nodeId, planned)) {
+              if (!blocked.has(id)) {
+                blocked.set(
+                  id,
+                  `Depends on node ${nodeId}, whose patch awaits gotn_apply_patch`
+                );
+              }
+            }
+            break;
+          case "skip":
+            result.skipped.push(nodeId);
+            break;
+          case "blocked":
+            result.blocked.push(nodeId);
+            break;
+          case "fail":
+            result.failed.push(nodeId);
+            await this.logger.warn("Run step failed", {
+              run_id: runId,
+              node_id: nodeId,
+              reason: step.reason,
+            });
+
+            if (onFailure === "continue") {
+              for (const id of await this.findDependents(nodeId, planned)) {
+                if (!blocked.has(id)) {
+                  blocked.set(id, `Depends on failed node ${nodeId}`);
+                }
+              }
+            }
+            break;
+        }
+      }
+    }
+
+    // A stop requested after the last poll still wins over the outcome
+    await this.withRunLock(folder, async () => {
+      const requested = state.requested ?? (await this.stopRequested(folder));
+      if (requested) {
+        result.status = requested;
+      } else if (result.failed.length > 0) {
+        result.status = "failed";
+      } else {
+        // Resumed once the pending patches are applied
+        result.status =
+          result.pending_apply.length > 0 ? "paused" : "completed";
+      }
+      await this.writeRun(folder, { ...run, status: result.status });
+    });
+
+    const summary =
+      `${result.completed.length} completed, ${result.skipped.length} skipped, ` +
+      `${result.failed.length} failed, ${result.blocked.length} blocked, ` +
+      `${result.pending_apply.length} pending apply, ${result.not_run.length} not run`;
+
+    await appendJournal(this.workspacePath, {
+      event: "finish_run",
+      data: { run_id: runId, status: result.status, result: summary },
+    });
+    await this.logger.info("Run finished", {
+      run_id: runId,
+      status: result.status,
+      summary,
+    });
+
+    return result;
+  }
+}
+
+export function getPlanRunner(
+  workspacePath?: string,
+  executor?: NodeExecutor
+): PlanRunner {
+  return new PlanRunner(workspacePath || ".", executor);
+}
@@ -2,16 +2,28 @@
  * Recovery utilities for GoTN
  */
 
-import { readJournal, writeGraph, initStore } from "./fsStore.js";
-import { NodeSchema, EdgeSchema, JournalEntry } from "./schemas.js";
+import { readJournalTail, writeGraph, initStore } from "./fsStore.js";
+import {
+  NodeSchema,
+  EdgeSchema,
+  JournalEntry,
+  RemoveNodeEventDataSchema,
+  RemoveEdgeEventDataSchema,
+} from "./schemas.js";
 import { getLogger } from "./logger.js";
 import { existsSync } from "fs";
 
 export interface RecoveryResult {
   nodes_recovered: number;
   edges_recovered: number;
+  // Removed by remove_node/remove_edge events during replay
+  nodes_removed: number;
+  edges_removed: number;
   skipped_entries: number;
   corrupt_entries: string[];
+  // Journal offset of the snapshot recovery started from, if any
+  snapshot_offset?: number;
+  replayed_entries: number;
   success: boolean;
   message: string;
 }
@@ -29,8 +41,11 @@ export class RecoveryEngine {
     const result: RecoveryResult = {
       nodes_recovered: 0,
       edges_recovered: 0,
+      nodes_removed: 0,
+      edges_removed: 0,
       skipped_entries: 0,
       corrupt_entries: [],
+      replayed_entries: 0,
       success: false,
       message: "",
     };
@@ -45,20 +60,34 @@ export class RecoveryEngine {
         await initStore(this.workspacePath);
       }
 
-      // Read journal entries
-      const journalEntries = await readJournal(this.workspacePath);
+      // Read the newest snapshot and the journal entries after it
+      const { snapshot, entries: journalEntries } = await readJournalTail(
+        this.workspacePath
+      );
 
-      if (journalEntries.length === 0) {
+      if (!snapshot && journalEntries.length === 0) {
         result.message = "No journal entries found - nothing to recover";
         result.success = true;
         return result;
       }
 
-      await this.logger.info(`Found ${journalEntries.length} journal entries`);
+      await this.logger.info(`Found ${journalEntries.length} journal entries`, {
+        snapshot_offset: snapshot?.journal_offset,
+      });
 
-      // Rebuild graph from journal
+      // Rebuild graph from the snapshot plus the journal tail
       const nodes = new Map();
       const edges = new Map();
+      if (snapshot) {
+        result.snapshot_offset = snapshot.journal_offset;
+        for (const node of snapshot.graph.nodes) {
+          nodes.set(node.id, node);
+        }
+        for (const edge of snapshot.graph.edges) {
+          edges.set(`${edge.src}-${edge.dst}-${edge.type}`, edge);
+        }
+      }
+      result.replayed_entries = journalEntries.length;
 
       for (const entry of journalEntries) {
         try {
@@ -68,6 +97,14 @@ export class RecoveryEngine {
             result.nodes_recovered++;
           } else if (entry.event === "add_edge") {
             result.edges_recovered++;
+          } else if (
+            entry.event === "remove_node" ||
+            entry.event === "remove_edge"
+          ) {
+            if (entry.event === "remove_node") result.nodes_removed++;
+            result.edges_removed += (
+              entry.data.removed_edges as unknown[]
+            ).length;
           }
         } catch (error: any) {
           result.skipped_entries++;
@@ -84,6 +121,10 @@ export class RecoveryEngine {
         nodes: Array.from(nodes.values()),
         edges: Array.from(edges.values()),
         version: 1,
+        last_applied_seq: journalEntries.reduce(
+          (max, entry) => Math.max(max, entry.seq ?? 0),
+          snapshot?.graph.last_applied_seq ?? 0
+        ),
       };
 
       await writeGraph(this.workspacePath, recoveredGraph as any);
@@ -91,6 +132,14 @@ export class RecoveryEngine {
       result.success = true;
       result.message = `Recovery completed: ${result.nodes_recovered} nodes, ${result.edges_recovered} edges recovered`;
 
+      if (result.nodes_removed > 0 || result.edges_removed > 0) {
+        result.message += `, ${result.nodes_removed} nodes and ${result.edges_removed} edges removed`;
+      }
+
+      if (snapshot) {
+        result.message += ` on top of snapshot at journal offset ${snapshot.journal_offset} (${journalEntries.length} entries replayed)`;
+      }
+
       if (result.skipped_entries > 0) {
         result.message += `. ${result.skipped_entries} corrupt entries skipped`;
       }
@@ -134,6 +183,30 @@ export class RecoveryEngine {
         }
         break;
 
+      case "remove_node": {
+        // The entry records every side effect of the cascade
+        const removal = RemoveNodeEventDataSchema.parse(entry.data);
+        nodes.delete(removal.node_id);
+        for (const edge of removal.removed_edges) {
+          edges.delete(`${edge.src}-${edge.dst}-${edge.type}`);
+        }
+        for (const node of removal.updated_nodes) {
+          if (nodes.has(node.id)) nodes.set(node.id, node);
+        }
+        for (const edge of removal.added_edges) {
+          edges.set(`${edge.src}-${edge.dst}-${edge.type}`, edge);
+        }
+        break;
+      }
+
+      case "remove_edge": {
+        const removal = RemoveEdgeEventDataSchema.parse(entry.data);
+        for (const edge of removal.removed_edges) {
+          edges.delete(`${edge.src}-${edge.dst}-${edge.type}`);
+        }
+        break;
+      }
+
       case "workspace_initialized":
         // Skip workspace events
         break;
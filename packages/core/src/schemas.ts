@@ -21,6 +21,8 @@ export const VersionSchema = z
 export const EmbeddingRefSchema = z.object({
   collection: z.string().min(1, "Collection name cannot be empty"),
   id: z.string().min(1, "Embedding ID cannot be empty"),
+  // sha256 of the text that was embedded, to skip re-embedding unchanged nodes
+  content_hash: z.string().optional(),
 });
 
 // Provenance schema
@@ -46,8 +48,27 @@ export const NodeStatusSchema = z.enum([
   "failed",
   "skipped",
   "blocked",
+  // Completed or skipped, but its files changed since it was verified
+  "stale",
+  // Its generated patch awaits review and gotn_apply_patch
+  "pending_apply",
 ]);
 
+// Verification evidence recorded after a node runs
+export const VerificationCheckSchema = z.object({
+  kind: z.enum(["file", "output", "criterion"]),
+  target: z.string(),
+  status: z.enum(["passed", "failed", "unverified"]),
+  detail: z.string(),
+  sha256: z.string().optional(),
+});
+
+export const VerificationSchema = z.object({
+  passed: z.boolean(),
+  verified_at: TimestampSchema,
+  checks: z.array(VerificationCheckSchema).default([]),
+});
+
 // Node schema with all required fields
 export const NodeSchema = z.object({
   id: IdSchema,
@@ -69,12 +90,23 @@ export const NodeSchema = z.object({
     dependencies: [],
   })),
   status: NodeStatusSchema.default("ready"),
+  verification: VerificationSchema.optional(),
   provenance: ProvenanceSchema,
   version: VersionSchema.default(1),
   created_at: TimestampSchema.default(() => new Date().toISOString()),
   updated_at: TimestampSchema.default(() => new Date().toISOString()),
 });
 
+// Edge direction convention
+//
+// Every edge points from the node that comes first to the node that builds on it:
+// - hard_requires: src = producer, dst = consumer (src must complete before dst)
+// - soft_order:    src should run before dst
+// - derived_from:  src = parent, dst = child (structure only, not execution order)
+// - soft_semantic: symmetric, stored as a pair of edges
+//
+// PlanComposer, EdgeEngine, CloudBreakdownEngine and the viewer all rely on this.
+
 // Edge type enum
 export const EdgeTypeSchema = z.enum([
   "hard_requires",
@@ -108,17 +140,48 @@ export const RunSchema = z.object({
   ordering_reason: z.string().min(1, "Ordering reason cannot be empty"),
   created_at: TimestampSchema.default(() => new Date().toISOString()),
   status: z
-    .enum(["planned", "running", "completed", "failed", "cancelled"])
+    .enum(["planned", "running", "paused", "completed", "failed", "cancelled"])
     .default("planned"),
   provenance: ProvenanceSchema,
 });
 
+// Run step schema (one line of a run's steps.jsonl)
+export const RunStepActionSchema = z.enum([
+  "proceed",
+  "skip",
+  "fail",
+  "blocked",
+]);
+
+export const GuardCheckSchema = z.object({
+  guard: z.string(),
+  kind: z.string().optional(),
+  status: z.enum(["passed", "failed", "unverified"]),
+  detail: z.string(),
+});
+
+export const RunStepSchema = z.object({
+  timestamp: TimestampSchema,
+  run_id: IdSchema,
+  layer: z.number().int().nonnegative(),
+  node_id: IdSchema,
+  action: RunStepActionSchema,
+  status: NodeStatusSchema,
+  reason: z.string(),
+  patch_path: z.string().optional(),
+  guards: z.array(GuardCheckSchema).optional(),
+  verification: VerificationSchema.optional(),
+  duration_ms: z.number().nonnegative(),
+});
+
 // Graph schema (collection of nodes and edges)
 export const GraphSchema = z.object({
   nodes: z.array(NodeSchema).default([]),
   edges: z.array(EdgeSchema).default([]),
   version: VersionSchema.default(1),
   updated: TimestampSchema.default(() => new Date().toISOString()),
+  // Sequence number of the last journal entry applied to this graph
+  last_applied_seq: z.number().int().nonnegative().optional(),
 });
 
 // Meta schema
@@ -127,6 +190,20 @@ export const MetaSchema = z.object({
   created: TimestampSchema,
   updated: TimestampSchema,
   workspace_path: z.string().min(1, "Workspace path cannot be empty"),
+  // One-time store migrations already applied to this workspace
+  migrations: z.array(z.string()).optional(),
+});
+
+// Snapshot schema (graph state covering the journal up to last_entry_id)
+export const SnapshotSchema = z.object({
+  created_at: TimestampSchema,
+  // Journal entries covered since the workspace was created
+  journal_offset: z.number().int().nonnegative(),
+  // null when the journal was empty
+  last_entry_id: z.string().nullable(),
+  // Sequence number of the last covered entry
+  last_seq: z.number().int().nonnegative().optional(),
+  graph: GraphSchema,
 });
 
 // Journal event types
@@ -138,6 +215,10 @@ export const JournalEventTypeSchema = z.enum([
   "update_edge",
   "start_run",
   "finish_run",
+  "apply_patch",
+  "revert_patch",
+  "remove_node",
+  "remove_edge",
 ]);
 
 // Journal event data schemas
@@ -166,16 +247,46 @@ export const StartRunEventDataSchema = z.object({
 
 export const FinishRunEventDataSchema = z.object({
   run_id: IdSchema,
-  status: z.enum(["completed", "failed", "cancelled"]),
+  status: z.enum(["completed", "failed", "paused", "cancelled"]),
   result: z.string().optional(),
 });
 
+export const PatchEventDataSchema = z.object({
+  run_id: IdSchema,
+  node_id: IdSchema,
+  patch_path: z.string().min(1, "Patch path cannot be empty"),
+  files: z.array(z.string()),
+});
+
+// How removing a node treats what depends on it
+export const NodeCascadeSchema = z.enum(["refuse", "drop_edges", "reparent"]);
+
+// Removal events carry their full effect so replay needs no graph logic
+export const RemoveNodeEventDataSchema = z.object({
+  node_id: IdSchema,
+  cascade: NodeCascadeSchema,
+  node: NodeSchema,
+  removed_edges: z.array(EdgeSchema).default([]),
+  added_edges: z.array(EdgeSchema).default([]),
+  updated_nodes: z.array(NodeSchema).default([]),
+});
+
+export const RemoveEdgeEventDataSchema = z.object({
+  edge_src: IdSchema,
+  edge_dst: IdSchema,
+  edge_type: EdgeTypeSchema.optional(),
+  removed_edges: z.array(EdgeSchema).default([]),
+});
+
 // Generic journal entry schema
 export const JournalEntrySchema = z.object({
   timestamp: TimestampSchema,
   event: JournalEventTypeSchema,
   data: z.record(z.string(), z.unknown()).default({}),
   id: IdSchema,
+  // Monotonically increasing per workspace; absent on entries written
+  // before write-ahead journaling
+  seq: z.number().int().positive().optional(),
 });
 
 // Typed journal entry schemas for specific events
@@ -209,18 +320,44 @@ export const FinishRunJournalEntrySchema = JournalEntrySchema.extend({
   data: FinishRunEventDataSchema,
 });
 
+export const ApplyPatchJournalEntrySchema = JournalEntrySchema.extend({
+  event: z.literal("apply_patch"),
+  data: PatchEventDataSchema,
+});
+
+export const RevertPatchJournalEntrySchema = JournalEntrySchema.extend({
+  event: z.literal("revert_patch"),
+  data: PatchEventDataSchema,
+});
+
+export const RemoveNodeJournalEntrySchema = JournalEntrySchema.extend({
+  event: z.literal("remove_node"),
+  data: RemoveNodeEventDataSchema,
+});
+
+export const RemoveEdgeJournalEntrySchema = JournalEntrySchema.extend({
+  event: z.literal("remove_edge"),
+  data: RemoveEdgeEventDataSchema,
+});
+
 // Type exports (inferred from schemas)
 export type Node = z.infer<typeof NodeSchema>;
 export type Edge = z.infer<typeof EdgeSchema>;
 export type Run = z.infer<typeof RunSchema>;
+export type RunStepAction = z.infer<typeof RunStepActionSchema>;
+export type RunStep = z.infer<typeof RunStepSchema>;
 export type Graph = z.infer<typeof GraphSchema>;
 export type Meta = z.infer<typeof MetaSchema>;
+export type Snapshot = z.infer<typeof SnapshotSchema>;
 export type JournalEntry = z.infer<typeof JournalEntrySchema>;
 export type EmbeddingRef = z.infer<typeof EmbeddingRefSchema>;
 export type Provenance = z.infer<typeof ProvenanceSchema>;
 export type Artifacts = z.infer<typeof ArtifactsSchema>;
+export type VerificationCheck = z.infer<typeof VerificationCheckSchema>;
+export type Verification = z.infer<typeof VerificationSchema>;
 export type NodeStatus = z.infer<typeof NodeStatusSchema>;
 export type EdgeType = z.infer<typeof EdgeTypeSchema>;
+export type NodeCascade = z.infer<typeof NodeCascadeSchema>;
 
 // Raw types for API compatibility
 export type RawNode = Node;
@@ -235,6 +372,9 @@ export type UpdateNodeEventData = z.infer<typeof UpdateNodeEventDataSchema>;
 export type UpdateEdgeEventData = z.infer<typeof UpdateEdgeEventDataSchema>;
 export type StartRunEventData = z.infer<typeof StartRunEventDataSchema>;
 export type FinishRunEventData = z.infer<typeof FinishRunEventDataSchema>;
+export type PatchEventData = z.infer<typeof PatchEventDataSchema>;
+export type RemoveNodeEventData = z.infer<typeof RemoveNodeEventDataSchema>;
+export type RemoveEdgeEventData = z.infer<typeof RemoveEdgeEventDataSchema>;
 
 export type AddNodeJournalEntry = z.infer<typeof AddNodeJournalEntrySchema>;
 export type AddEdgeJournalEntry = z.infer<typeof AddEdgeJournalEntrySchema>;
@@ -246,6 +386,18 @@ export type UpdateEdgeJournalEntry = z.infer<
 >;
 export type StartRunJournalEntry = z.infer<typeof StartRunJournalEntrySchema>;
 export type FinishRunJournalEntry = z.infer<typeof FinishRunJournalEntrySchema>;
+export type ApplyPatchJournalEntry = z.infer<
+  typeof ApplyPatchJournalEntrySchema
+>;
+export type RevertPatchJournalEntry = z.infer<
+  typeof RevertPatchJournalEntrySchema
+>;
+export type RemoveNodeJournalEntry = z.infer<
+  typeof RemoveNodeJournalEntrySchema
+>;
+export type RemoveEdgeJournalEntry = z.infer<
+  typeof RemoveEdgeJournalEntrySchema
+>;
 
 // Validation helper functions
 export const validateNode = (data: unknown): Node => {
@@ -264,6 +416,10 @@ export const validateMeta = (data: unknown): Meta => {
   return MetaSchema.parse(data);
 };
 
+export const validateSnapshot = (data: unknown): Snapshot => {
+  return SnapshotSchema.parse(data);
+};
+
 export const validateJournalEntry = (data: unknown): JournalEntry => {
   return JournalEntrySchema.parse(data);
 };
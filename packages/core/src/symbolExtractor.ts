@@ -0,0 +1,362 @@
+/**
+ * SymbolExtractor - Exported symbols and imports of a TS/JS module
+ *
+ * Parses a single file with the TypeScript compiler API (syntax only, no type
+ * checking, so it also handles plain JavaScript and files that do not
+ * compile). For every exported function, class, interface, type alias and
+ * enum (and const bound to a function) it records the signature, the JSDoc
+ * and which imports and other exported symbols of the file it references.
+ */
+
+import ts from "typescript";
+import path from "path";
+
+export type CodeSymbolKind =
+  | "function"
+  | "class"
+  | "interface"
+  | "type"
+  | "enum";
+
+export interface ImportBinding {
+  // Name in this file
+  local: string;
+  // Name in the imported module: "default", "*" for namespace imports, or
+  // the exported name
+  imported: string;
+  specifier: string;
+}
+
+export interface CodeSymbol {
+  // Local name, or "default" for an anonymous default export
+  name: string;
+  kind: CodeSymbolKind;
+  // Names it is exported under, e.g. ["Header", "default"]
+  exported_as: string[];
+  signature: string;
+  doc: string;
+  line: number;
+  // Import bindings (local names) and other exports of the file (exported
+  // names) it uses
+  imports_used: string[];
+  symbols_used: string[];
+}
+
+export interface ModuleSymbols {
+  // Every module specifier imported, re-exported or required
+  specifiers: string[];
+  bindings: ImportBinding[];
+  symbols: CodeSymbol[];
+  // Exported names not covered by a symbol (values, re-exports)
+  other_exports: string[];
+}
+
+const MAX_SIGNATURE_LENGTH = 300;
+
+function scriptKind(fileName: string): ts.ScriptKind {
+  switch (path.extname(fileName)) {
+    case ".tsx":
+      return ts.ScriptKind.TSX;
+    case ".jsx":
+      return ts.ScriptKind.JSX;
+    case ".js":
+    case ".mjs":
+    case ".cjs":
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some((m) => m.kind === kind)
+  );
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Declaration text up to (not including) its body, without export keywords
+ */
+function signatureOf(node: ts.Node, sourceFile: ts.SourceFile): string {
+  const start = node.getStart(sourceFile);
+  let end = node.getEnd();
+
+  if (ts.isFunctionDeclaration(node) && node.body) {
+    end = node.body.getStart(sourceFile);
+  } else if (ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node)) {
+    end = node.members.pos - 1;
+  } else if (ts.isEnumDeclaration(node)) {
+    end = node.members.pos - 1;
+  } else if (ts.isVariableStatement(node)) {
+    const init = node.declarationList.declarations[0]?.initializer;
+    if (init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) {
+      end = init.body.getStart(sourceFile);
+    }
+  }
+
+  const text = oneLine(sourceFile.text.slice(start, end))
+    .replace(/^(export\s+)?(default\s+)?(declare\s+)?/, "")
+    .replace(/\s*(=>)?\s*;?$/, (_m, arrow) => (arrow ? " =>" : ""));
+  return text.length > MAX_SIGNATURE_LENGTH
+    ? `${text.slice(0, MAX_SIGNATURE_LENGTH)}...`
+    : text;
+}
+
+function docOf(node: ts.Node): string {
+  return ts
+    .getJSDocCommentsAndTags(node)
+    .filter(ts.isJSDoc)
+    .map((doc) => ts.getTextOfJSDocComment(doc.comment) ?? "")
+    .filter(Boolean)
+    .join("\n")
+    .trim();
+}
+
+function identifiersIn(node: ts.Node): Set<string> {
+  const names = new Set<string>();
+  const visit = (child: ts.Node) => {
+    if (ts.isIdentifier(child)) names.add(child.text);
+    ts.forEachChild(child, visit);
+  };
+  ts.forEachChild(node, visit);
+  return names;
+}
+
+function requireSpecifier(node: ts.Node): string | undefined {
+  if (
+    ts.isCallExpression(node) &&
+    ((ts.isIdentifier(node.expression) && node.expression.text === "require") ||
+      node.expression.kind === ts.SyntaxKind.ImportKeyword) &&
+    node.arguments.length === 1 &&
+    ts.isStringLiteralLike(node.arguments[0])
+  ) {
+    return node.arguments[0].text;
+  }
+  return undefined;
+}
+
+export function extractSymbols(
+  fileName: string,
+  source: string
+): ModuleSymbols {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind(fileName)
+  );
+
+  const specifiers = new Set<string>();
+  const bindings: ImportBinding[] = [];
+  // Top-level declarations that can become symbols, by local name
+  const declarations = new Map<
+    string,
+    { node: ts.Node; kind: CodeSymbolKind }
+  >();
+  // Local name -> names it is exported under
+  const exportedAs = new Map<string, string[]>();
+  const otherExports = new Set<string>();
+
+  const exportName = (local: string, exported: string) => {
+    if (!exportedAs.has(local)) exportedAs.set(local, []);
+    if (!exportedAs.get(local)!.includes(exported)) {
+      exportedAs.get(local)!.push(exported);
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isImportDeclaration(statement)) {
+      if (!ts.isStringLiteral(statement.moduleSpecifier)) continue;
+      const specifier = statement.moduleSpecifier.text;
+      specifiers.add(specifier);
+
+      const clause = statement.importClause;
+      if (clause?.name) {
+        bindings.push({
+          local: clause.name.text,
+          imported: "default",
+          specifier,
+        });
+      }
+      const named = clause?.namedBindings;
+      if (named && ts.isNamespaceImport(named)) {
+        bindings.push({ local: named.name.text, imported: "*", specifier });
+      } else if (named) {
+        for (const element of named.elements) {
+          bindings.push({
+            local: element.name.text,
+            imported: (element.propertyName ?? element.name).text,
+            specifier,
+          });
+        }
+      }
+    } else if (ts.isExportDeclaration(statement)) {
+      const specifier =
+        statement.moduleSpecifier &&
+        ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : undefined;
+      if (specifier) specifiers.add(specifier);
+
+      const clause = statement.exportClause;
+      if (clause && ts.isNamedExports(clause)) {
+        for (const element of clause.elements) {
+          const local = (element.propertyName ?? element.name).text;
+          if (specifier) otherExports.add(element.name.text);
+          else exportName(local, element.name.text);
+        }
+      } else if (clause && ts.isNamespaceExport(clause)) {
+        otherExports.add(clause.name.text);
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      // export default <expression> / export = <expression>
+      if (ts.isIdentifier(statement.expression)) {
+        exportName(statement.expression.text, "default");
+      } else {
+        otherExports.add("default");
+      }
+    } else if (
+      ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement)
+    ) {
+      const name = statement.name?.text ?? "default";
+      declarations.set(name, {
+        node: statement,
+        kind: ts.isFunctionDeclaration(statement) ? "function" : "class",
+      });
+      if (exported) exportName(name, isDefault ? "default" : name);
+    } else if (
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement)
+    ) {
+      const name = statement.name.text;
+      declarations.set(name, {
+        node: statement,
+        kind: ts.isInterfaceDeclaration(statement)
+          ? "interface"
+          : ts.isTypeAliasDeclaration(statement)
+          ? "type"
+          : "enum",
+      });
+      if (exported) exportName(name, isDefault ? "default" : name);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const init = declaration.initializer;
+
+        // const x = require("./y") / const { a } = require("./y")
+        const required = init && requireSpecifier(init);
+        if (required) {
+          if (ts.isIdentifier(declaration.name)) {
+            bindings.push({
+              local: declaration.name.text,
+              imported: "default",
+              specifier: required,
+            });
+          } else if (ts.isObjectBindingPattern(declaration.name)) {
+            for (const element of declaration.name.elements) {
+              if (!ts.isIdentifier(element.name)) continue;
+              const imported =
+                element.propertyName && ts.isIdentifier(element.propertyName)
+                  ? element.propertyName.text
+                  : element.name.text;
+              bindings.push({
+                local: element.name.text,
+                imported,
+                specifier: required,
+              });
+            }
+          }
+          continue;
+        }
+
+        if (!ts.isIdentifier(declaration.name)) continue;
+        const name = declaration.name.text;
+        if (
+          init &&
+          (ts.isArrowFunction(init) || ts.isFunctionExpression(init)) &&
+          statement.declarationList.declarations.length === 1
+        ) {
+          declarations.set(name, { node: statement, kind: "function" });
+        }
+        if (exported) exportName(name, name);
+      }
+    } else if (
+      ts.isExpressionStatement(statement) &&
+      ts.isBinaryExpression(statement.expression) &&
+      statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+    ) {
+      // CommonJS: module.exports = ... / exports.name = ...
+      const target = statement.expression.left.getText(sourceFile);
+      const match = target.match(/^(?:module\.)?exports\.([A-Za-z_$][\w$]*)$/);
+      if (target === "module.exports") {
+        const value = statement.expression.right;
+        if (ts.isIdentifier(value)) exportName(value.text, "default");
+        else otherExports.add("default");
+      } else if (match) {
+        const value = statement.expression.right;
+        if (ts.isIdentifier(value)) exportName(value.text, match[1]);
+        else otherExports.add(match[1]);
+      }
+    }
+  }
+
+  // require() and import() anywhere in the file
+  const visit = (node: ts.Node) => {
+    const specifier = requireSpecifier(node);
+    if (specifier) specifiers.add(specifier);
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  const importedNames = new Set(bindings.map((b) => b.local));
+  const symbols: CodeSymbol[] = [];
+  for (const [local, exported] of exportedAs) {
+    const declaration = declarations.get(local);
+    if (!declaration) {
+      exported.forEach((name) => otherExports.add(name));
+      continue;
+    }
+
+    const used = identifiersIn(declaration.node);
+    symbols.push({
+      name: local,
+      kind: declaration.kind,
+      exported_as: exported,
+      signature: signatureOf(declaration.node, sourceFile),
+      doc: docOf(
+        ts.isVariableStatement(declaration.node)
+          ? declaration.node.declarationList.declarations[0]
+          : declaration.node
+      ),
+      line:
+        sourceFile.getLineAndCharacterOfPosition(
+          declaration.node.getStart(sourceFile)
+        ).line + 1,
+      imports_used: [...used].filter((name) => importedNames.has(name)),
+      symbols_used: [...used]
+        .filter((name) => name !== local && exportedAs.has(name))
+        .map((name) => exportedAs.get(name)![0]),
+    });
+  }
+
+  for (const symbol of symbols) {
+    symbol.exported_as.forEach((name) => otherExports.delete(name));
+  }
+
+  return {
+    specifiers: [...specifiers],
+    bindings,
+    symbols: symbols.sort((a, b) => a.line - b.line),
+    other_exports: [...otherExports],
+  };
+}
@@ -0,0 +1,376 @@
+/**
+ * Unified diff - Create, parse and apply patches without external tools
+ *
+ * Lines are kept with their "\n" terminators, so a missing newline at the end
+ * of a file is an ordinary change and is written with the standard
+ * "\ No newline at end of file" marker.
+ */
+
+export interface DiffHunk {
+  old_start: number;
+  old_lines: number;
+  new_start: number;
+  new_lines: number;
+  // Each line is prefixed with " ", "-" or "+" and keeps its terminator
+  lines: string[];
+}
+
+export interface FilePatch {
+  // null means the file does not exist on that side (created or deleted)
+  old_path: string | null;
+  new_path: string | null;
+  hunks: DiffHunk[];
+}
+
+export type ApplyResult =
+  | { ok: true; content: string | null }
+  | { ok: false; conflict: string };
+
+const NO_EOL_MARKER = "\\ No newline at end of file";
+
+// Above this many LCS cells the changed region is treated as one replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(content: string | null): string[] {
+  if (!content) return [];
+  return content.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+/**
+ * Line diff: trim the common prefix and suffix, then LCS over the rest
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: DiffOp[] = a
+    .slice(0, prefix)
+    .map((line) => ({ type: " " as const, line }));
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    for (const line of midA) ops.push({ type: "-", line });
+    for (const line of midB) ops.push({ type: "+", line });
+  } else {
+    const n = midA.length;
+    const m = midB.length;
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        ops.push({ type: " ", line: midA[i] });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+        ops.push({ type: "-", line: midA[i++] });
+      } else {
+        ops.push({ type: "+", line: midB[j++] });
+      }
+    }
+    while (i < n) ops.push({ type: "-", line: midA[i++] });
+    while (j < m) ops.push({ type: "+", line: midB[j++] });
+  }
+
+  for (const line of a.slice(a.length - suffix)) {
+    ops.push({ type: " ", line });
+  }
+  return ops;
+}
+
+/**
+ * Diff two versions of a file. Returns null when nothing changed.
+ */
+export function createFilePatch(
+  filePath: string,
+  oldContent: string | null,
+  newContent: string | null,
+  context: number = 3
+): FilePatch | null {
+  if (oldContent === newContent) return null;
+
+  const ops = diffLines(splitLines(oldContent), splitLines(newContent));
+  const hunks: DiffHunk[] = [];
+
+  // Old/new line index before each op
+  const oldIndex: number[] = [];
+  const newIndex: number[] = [];
+  let o = 0;
+  let n = 0;
+  for (const op of ops) {
+    oldIndex.push(o);
+    newIndex.push(n);
+    if (op.type !== "+") o++;
+    if (op.type !== "-") n++;
+  }
+
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].type === " ") {
+      k++;
+      continue;
+    }
+
+    const start = Math.max(0, k - context);
+    let end = k;
+    // Extend while the next change is within 2 * context lines
+    while (end < ops.length) {
+      if (ops[end].type !== " ") {
+        end++;
+        continue;
+      }
+      let next = end;
+      while (next < ops.length && ops[next].type === " ") next++;
+      if (next < ops.length && next - end <= context * 2) {
+        end = next;
+      } else {
+        end = Math.min(ops.length, end + context);
+        break;
+      }
+    }
+
+    const slice = ops.slice(start, end);
+    const oldLines = slice.filter((op) => op.type !== "+").length;
+    const newLines = slice.filter((op) => op.type !== "-").length;
+    hunks.push({
+      old_start: oldLines > 0 ? oldIndex[start] + 1 : oldIndex[start],
+      old_lines: oldLines,
+      new_start: newLines > 0 ? newIndex[start] + 1 : newIndex[start],
+      new_lines: newLines,
+      lines: slice.map((op) => op.type + op.line),
+    });
+    k = end;
+  }
+
+  return {
+    old_path: oldContent === null ? null : filePath,
+    new_path: newContent === null ? null : filePath,
+    hunks,
+  };
+}
+
+/**
+ * The workspace-relative path a patch touches
+ */
+export function patchTarget(patch: FilePatch): string {
+  return (patch.new_path ?? patch.old_path)!;
+}
+
+/**
+ * Render file patches as a unified diff (git-style a/ and b/ prefixes)
+ */
+export function formatPatch(patches: FilePatch[]): string {
+  let out = "";
+  for (const patch of patches) {
+    out += `--- ${
+      patch.old_path === null ? "/dev/null" : `a/${patch.old_path}`
+    }\n`;
+    out += `+++ ${
+      patch.new_path === null ? "/dev/null" : `b/${patch.new_path}`
+    }\n`;
+    for (const hunk of patch.hunks) {
+      out += `@@ -${hunk.old_start},${hunk.old_lines} +${hunk.new_start},${hunk.new_lines} @@\n`;
+      for (const line of hunk.lines) {
+        out += line.endsWith("\n") ? line : `${line}\n${NO_EOL_MARKER}\n`;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Parse a unified diff produced by formatPatch (or git diff)
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const patches: FilePatch[] = [];
+  const lines = splitLines(text);
+  const stripPath = (raw: string): string | null => {
+    const value = raw.replace(/\n$/, "").split("\t")[0].trim();
+    if (value === "/dev/null") return null;
+    return value.replace(/^[ab]\//, "");
+  };
+
+  let current: FilePatch | null = null;
+  let hunk: DiffHunk | null = null;
+  let remainingOld = 0;
+  let remainingNew = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith(NO_EOL_MARKER)) {
+      if (hunk && hunk.lines.length > 0) {
+        const last = hunk.lines.length - 1;
+        hunk.lines[last] = hunk.lines[last].replace(/\n$/, "");
+      }
+      continue;
+    }
+
+    if (hunk && (remainingOld > 0 || remainingNew > 0)) {
+      const type = line[0];
+      if (type !== " " && type !== "-" && type !== "+") {
+        throw new Error(`Malformed hunk line ${i + 1}: ${line.trimEnd()}`);
+      }
+      hunk.lines.push(line);
+      if (type !== "+") remainingOld--;
+      if (type !== "-") remainingNew--;
+      continue;
+    }
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      current = {
+        old_path: stripPath(line.slice(4)),
+        new_path: stripPath(lines[i + 1].slice(4)),
+        hunks: [],
+      };
+      patches.push(current);
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      if (!current) throw new Error(`Hunk before file header at line ${i + 1}`);
+      hunk = {
+        old_start: parseInt(header[1], 10),
+        old_lines: header[2] === undefined ? 1 : parseInt(header[2], 10),
+        new_start: parseInt(header[3], 10),
+        new_lines: header[4] === undefined ? 1 : parseInt(header[4], 10),
+        lines: [],
+      };
+      remainingOld = hunk.old_lines;
+      remainingNew = hunk.new_lines;
+      current.hunks.push(hunk);
+    }
+    // Anything else (diff --git, index, mode lines) is ignored
+  }
+
+  return patches;
+}
+
+/**
+ * Swap the sides of a patch so applying it undoes the original
+ */
+export function reversePatch(patch: FilePatch): FilePatch {
+  return {
+    old_path: patch.new_path,
+    new_path: patch.old_path,
+    hunks: patch.hunks.map((hunk) => ({
+      old_start: hunk.new_start,
+      old_lines: hunk.new_lines,
+      new_start: hunk.old_start,
+      new_lines: hunk.old_lines,
+      lines: hunk.lines.map((line) =>
+        line[0] === "-"
+          ? "+" + line.slice(1)
+          : line[0] === "+"
+          ? "-" + line.slice(1)
+          : line
+      ),
+    })),
+  };
+}
+
+/**
+ * Apply one file patch to the current content (null when the file is absent).
+ * Hunks must match exactly, but may have moved; conflicts are reported rather
+ * than merged.
+ */
+export function applyFilePatch(
+  content: string | null,
+  patch: FilePatch
+): ApplyResult {
+  const target = patchTarget(patch);
+
+  if (patch.old_path === null && content !== null) {
+    return { ok: false, conflict: `${target} already exists` };
+  }
+  if (patch.old_path !== null && content === null) {
+    return { ok: false, conflict: `${target} does not exist` };
+  }
+
+  const lines = splitLines(content);
+  const result: string[] = [];
+  let cursor = 0;
+
+  for (let h = 0; h < patch.hunks.length; h++) {
+    const hunk = patch.hunks[h];
+    const expected = hunk.lines
+      .filter((line) => line[0] !== "+")
+      .map((line) => line.slice(1));
+    const replacement = hunk.lines
+      .filter((line) => line[0] !== "-")
+      .map((line) => line.slice(1));
+
+    const matchesAt = (pos: number) =>
+      pos >= cursor &&
+      pos + expected.length <= lines.length &&
+      expected.every((line, i) => lines[pos + i] === line);
+
+    // Try the recorded position first, then search outwards from it
+    const preferred = Math.max(
+      cursor,
+      hunk.old_lines > 0 ? hunk.old_start - 1 : hunk.old_start
+    );
+    let pos = -1;
+    for (let offset = 0; offset <= lines.length; offset++) {
+      if (matchesAt(preferred + offset)) {
+        pos = preferred + offset;
+        break;
+      }
+      if (offset > 0 && matchesAt(preferred - offset)) {
+        pos = preferred - offset;
+        break;
+      }
+    }
+
+    if (pos === -1) {
+      return {
+        ok: false,
+        conflict: `${target}: hunk ${h + 1} (line ${
+          hunk.old_start
+        }) does not match the current content`,
+      };
+    }
+
+    result.push(...lines.slice(cursor, pos), ...replacement);
+    cursor = pos + expected.length;
+  }
+
+  result.push(...lines.slice(cursor));
+
+  if (patch.new_path === null) {
+    if (result.length > 0) {
+      return {
+        ok: false,
+        conflict: `${target} has content the deletion does not cover`,
+      };
+    }
+    return { ok: true, content: null };
+  }
+
+  return { ok: true, content: result.join("") };
+}
@@ -0,0 +1,44 @@
+/**
+ * Vector components - The embedder and vector store from @gotn/vec
+ *
+ * The package is loaded with a dynamic import on first use. When it cannot be
+ * loaded, both components are null and node embedding, text search and soft
+ * edge inference are skipped. NodeStore and EdgeEngine of one workspace share
+ * the same components, so soft edges search the vectors NodeStore upserted.
+ */
+
+import type { Embeddings, VectorStore } from "@gotn/vec";
+import type { GoTNWorkspace } from "./workspace.js";
+
+export interface VectorComponents {
+  vectorStore: VectorStore | null;
+  embedder: Embeddings | null;
+}
+
+/**
+ * Load the embedder and vector store configured by the environment
+ */
+export async function loadVectorComponents(): Promise<VectorComponents> {
+  try {
+    const vec = await import("@gotn/vec");
+    return { vectorStore: vec.getVectorStore(), embedder: vec.getEmbedder() };
+  } catch (error: any) {
+    console.warn("Vector components not available:", error.message);
+    return { vectorStore: null, embedder: null };
+  }
+}
+
+/**
+ * Default components, for engines created without a workspace
+ */
+let defaultVectorComponents: Promise<VectorComponents> | null = null;
+
+export function getVectorComponents(
+  workspace?: GoTNWorkspace
+): Promise<VectorComponents> {
+  if (workspace) return workspace.getVectorComponents();
+  if (!defaultVectorComponents) {
+    defaultVectorComponents = loadVectorComponents();
+  }
+  return defaultVectorComponents;
+}
@@ -0,0 +1,375 @@
+/**
+ * WorkspaceWatcher - Keeps the code index current while files change
+ *
+ * Watches the indexed roots and, after changes settle (debounced), re-indexes
+ * the changed files through WorkspaceIndexer: their module and symbol nodes
+ * are updated (and re-embedded by the NodeStore), nodes of deleted files are
+ * removed and the indexer's edges are synced. Completed or skipped nodes that
+ * target a changed file (exec_target or artifacts.files) are marked "stale"
+ * unless the file still matches the hash of their last verification; like any
+ * node update this is journaled as update_node. Batches run one at a time.
+ */
+
+import { FSWatcher, watch } from "fs";
+import { readFile, stat } from "fs/promises";
+import { createHash } from "crypto";
+import path from "path";
+import { Node } from "./schemas.js";
+import { NodeVersionConflictError, readGraph, updateNode } from "./fsStore.js";
+import { Logger } from "./logger.js";
+import { GitignoreMatcher } from "./gitignore.js";
+import { IndexOptions, WorkspaceIndexer } from "./indexer.js";
+import { normalizeWorkspacePath, touchedCodeTags } from "./codeTags.js";
+import type { GoTNWorkspace } from "./workspace.js";
+
+export interface WatchOptions extends IndexOptions {
+  // Wait this long after the last change before processing (default 300)
+  debounce_ms?: number;
+  // Called after each processed batch
+  on_batch?: (result: WatchBatchResult) => void;
+}
+
+export interface WatchBatchResult {
+  // Changed paths under the roots that are not ignored
+  changed_files: string[];
+  indexed_files: string[];
+  removed_node_ids: string[];
+  // Nodes marked stale because files they target changed
+  stale_node_ids: string[];
+  edges_added: number;
+  edges_removed: number;
+  timestamp: string;
+}
+
+export interface WatchStatus {
+  running: boolean;
+  roots: string[];
+  started_at?: string;
+  // Changes waiting for the debounce to settle
+  pending_files: number;
+  batches: number;
+  last_batch?: WatchBatchResult;
+}
+
+function sha256(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+export class WorkspaceWatcher {
+  private workspacePath: string;
+  private indexer: WorkspaceIndexer;
+  private logger: Logger;
+  private ignore: GitignoreMatcher;
+  private watchers: FSWatcher[] = [];
+  private options: WatchOptions = {};
+  private roots: string[] = [];
+  private startedAt?: string;
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private batches = 0;
+  private lastBatch?: WatchBatchResult;
+
+  constructor(workspace?: GoTNWorkspace) {
+    this.workspacePath = workspace?.path ?? ".";
+    this.indexer = workspace?.getIndexer() ?? new WorkspaceIndexer();
+    this.logger = workspace?.getLogger() ?? new Logger(this.workspacePath);
+    this.ignore = new GitignoreMatcher(this.workspacePath);
+  }
+
+  /**
+   * Start watching the roots (default: the whole workspace)
+   */
+  start(options: WatchOptions = {}): WatchStatus {
+    if (this.watchers.length > 0) {
+      throw new Error(`Already watching ${this.workspacePath}`);
+    }
+
+    this.options = options;
+    this.roots = (options.roots ?? ["."]).map(
+      (r) => normalizeWorkspacePath(r) || "."
+    );
+    this.ignore.reset();
+
+    for (const root of this.roots) {
+      const watcher = watch(
+        path.join(this.workspacePath, root),
+        { recursive: true },
+        (_event, filename) => {
+          if (filename) {
+            this.enqueue(path.posix.join(root, filename.toString()));
+          }
+        }
+      );
+      watcher.on("error", (error) => {
+        void this.log("error", "Watcher error", {
+          root,
+          error: error.message,
+        });
+      });
+      this.watchers.push(watcher);
+    }
+
+    this.startedAt = new Date().toISOString();
+    void this.log("info", "Watcher started", { roots: this.roots });
+    return this.status();
+  }
+
+  /**
+   * Stop watching; changes already seen are processed first
+   */
+  async stop(): Promise<WatchStatus> {
+    this.watchers.forEach((w) => w.close());
+    this.watchers = [];
+    this.flush();
+    await this.queue;
+
+    if (this.startedAt) {
+      await this.log("info", "Watcher stopped", { batches: this.batches });
+    }
+    this.startedAt = undefined;
+    return this.status();
+  }
+
+  status(): WatchStatus {
+    return {
+      running: this.watchers.length > 0,
+      roots: this.roots,
+      started_at: this.startedAt,
+      pending_files: this.pending.size,
+      batches: this.batches,
+      last_batch: this.lastBatch,
+    };
+  }
+
+  private enqueue(relPath: string): void {
+    this.pending.add(normalizeWorkspacePath(relPath));
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(
+      () => this.flush(),
+      this.options.debounce_ms ?? 300
+    );
+  }
+
+  private flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending.size === 0) return;
+
+    const paths = [...this.pending];
+    this.pending.clear();
+    this.queue = this.queue.then(async () => {
+      try {
+        const result = await this.processChanges(paths);
+        if (result.changed_files.length > 0) this.options.on_batch?.(result);
+      } catch (error: any) {
+        await this.log("error", "Watcher batch failed", {
+          paths,
+          error: error.message,
+        });
+      }
+    });
+  }
+
+  private underRoots(relPath: string): boolean {
+    return this.roots.some(
+      (r) => r === "." || relPath === r || relPath.startsWith(`${r}/`)
+    );
+  }
+
+  /**
+   * Re-index a set of changed workspace-relative paths (files or
+   * directories, existing or deleted) and flag the nodes that target them
+   */
+  async processChanges(paths: string[]): Promise<WatchBatchResult> {
+    const result: WatchBatchResult = {
+      changed_files: [],
+      indexed_files: [],
+      removed_node_ids: [],
+      stale_node_ids: [],
+      edges_added: 0,
+      edges_removed: 0,
+      timestamp: new Date().toISOString(),
+    };
+    const maxBytes = this.options.max_file_bytes ?? 100000;
+
+    // A changed .gitignore can hide or reveal anything in its directory, so
+    // that directory (or the roots inside it) is re-indexed instead
+    const changed = new Set(paths.map(normalizeWorkspacePath));
+    for (const relPath of [...changed]) {
+      if (path.posix.basename(relPath) !== ".gitignore") continue;
+      this.ignore.reset();
+      changed.delete(relPath);
+
+      const dir = path.posix.dirname(relPath);
+      if (this.underRoots(dir)) {
+        changed.add(dir);
+      } else {
+        this.roots
+          .filter((r) => dir === "." || r.startsWith(`${dir}/`))
+          .forEach((r) => changed.add(r));
+      }
+    }
+
+    let indexChanged = false;
+    const directories: string[] = [];
+    for (const relPath of [...changed].sort()) {
+      if (!this.underRoots(relPath)) continue;
+
+      let stats;
+      try {
+        stats = await stat(path.join(this.workspacePath, relPath));
+      } catch {
+        stats = null; // Deleted
+      }
+
+      if (this.ignore.ignores(relPath, stats?.isDirectory() ?? false)) {
+        continue;
+      }
+      result.changed_files.push(relPath);
+
+      if (stats?.isDirectory()) {
+        directories.push(relPath);
+        const indexed = await this.indexer.index({
+          ...this.options,
+          roots: [relPath],
+        });
+        result.indexed_files.push(...indexed.indexed_files);
+        result.removed_node_ids.push(...indexed.removed_node_ids);
+        result.edges_added += indexed.edges_added;
+        result.edges_removed += indexed.edges_removed;
+      } else if (
+        stats?.isFile() &&
+        this.indexer.isIndexable(relPath) &&
+        stats.size <= maxBytes
+      ) {
+        const indexed = await this.indexer.indexFile(relPath);
+        result.removed_node_ids.push(...indexed.removed_node_ids);
+        if (indexed.status === "indexed") {
+          result.indexed_files.push(relPath);
+          indexChanged = true;
+        }
+      } else {
+        // Deleted, over the size limit or no longer indexable
+        const removed = await this.indexer.removeFile(relPath);
+        result.removed_node_ids.push(...removed);
+        if (removed.length > 0) indexChanged = true;
+      }
+    }
+
+    if (indexChanged) {
+      const edges = await this.indexer.syncEdges();
+      result.edges_added += edges.added;
+      result.edges_removed += edges.removed;
+    }
+
+    result.stale_node_ids = await this.markStale(
+      result.changed_files,
+      directories
+    );
+
+    if (result.changed_files.length > 0) {
+      this.batches++;
+      this.lastBatch = result;
+      await this.log("info", "Watcher processed changes", {
+        changed_files: result.changed_files.length,
+        indexed_files: result.indexed_files.length,
+        removed_nodes: result.removed_node_ids.length,
+        stale_nodes: result.stale_node_ids,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Mark completed and skipped nodes stale when a file they target changed
+   * and no longer matches the hash recorded by their verification. Under a
+   * changed directory only files with a recorded hash are compared, since a
+   * directory event does not say which of its files changed.
+   */
+  private async markStale(
+    changedPaths: string[],
+    directories: string[]
+  ): Promise<string[]> {
+    if (changedPaths.length === 0) return [];
+
+    const inDirectory = (file: string) =>
+      directories.some((d) => d === "." || file.startsWith(`${d}/`));
+    const touches = (file: string) =>
+      changedPaths.some(
+        (p) => p === "." || file === p || file.startsWith(`${p}/`)
+      );
+    const hashes = new Map<string, string | null>();
+    const currentHash = async (file: string): Promise<string | null> => {
+      if (!hashes.has(file)) {
+        try {
+          hashes.set(
+            file,
+            sha256(await readFile(path.join(this.workspacePath, file)))
+          );
+        } catch {
+          hashes.set(file, null);
+        }
+      }
+      return hashes.get(file)!;
+    };
+
+    const graph = await readGraph(this.workspacePath);
+    const stale: string[] = [];
+    for (const node of graph.nodes) {
+      if (
+        node.provenance.created_by === "indexer" ||
+        (node.status !== "completed" && node.status !== "skipped")
+      ) {
+        continue;
+      }
+
+      const files = touchedCodeTags(node)
+        .filter((tag) => tag.startsWith("file:"))
+        .map((tag) => tag.slice("file:".length))
+        .filter(touches);
+      if (files.length === 0) continue;
+
+      let changed = false;
+      for (const file of files) {
+        const recorded = node.verification?.checks.find(
+          (c) => c.kind === "file" && normalizeWorkspacePath(c.target) === file
+        )?.sha256;
+        const current = await currentHash(file);
+        if (recorded ? current !== recorded : !inDirectory(file)) {
+          changed = true;
+          break;
+        }
+      }
+      if (!changed) continue;
+
+      const updated: Node = {
+        ...node,
+        status: "stale",
+        updated_at: new Date().toISOString(),
+      };
+      try {
+        await updateNode(this.workspacePath, node.id, updated, {
+          expected_version: node.version,
+        });
+        stale.push(node.id);
+      } catch (error) {
+        // Updated since the graph was read; its new state stands
+        if (!(error instanceof NodeVersionConflictError)) throw error;
+      }
+    }
+
+    return stale;
+  }
+
+  private async log(
+    level: "info" | "error",
+    msg: string,
+    data?: any
+  ): Promise<void> {
+    await this.logger.log(level, msg, data);
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * GoTNWorkspace - One workspace and the engines bound to it
+ *
+ * Engines given a workspace read and write its .gotn store by path instead of
+ * the current directory, so one process can serve several workspaces at once
+ * without changing directory. Engines created without one keep resolving
+ * paths against the current directory.
+ */
+
+import path from "path";
+import { Graph } from "./schemas.js";
+import { isInitialized, readGraph } from "./fsStore.js";
+import { NodeStore } from "./nodeStore.js";
+import { EdgeEngine } from "./edgeEngine.js";
+import { PlanComposer } from "./planComposer.js";
+import { BreakdownEngine } from "./breakdownEngine.js";
+import { BreakdownProvider } from "./breakdownProvider.js";
+import { GuardEngine } from "./guardEngine.js";
+import { ArtifactVerifier } from "./artifactVerifier.js";
+import { PatchManager } from "./patchManager.js";
+import { PlanRunner } from "./planRunner.js";
+import { NodeExecutor } from "./nodeExecutor.js";
+import { RecoveryEngine } from "./recovery.js";
+import { WorkspaceIndexer } from "./indexer.js";
+import { WorkspaceWatcher } from "./watcher.js";
+import { Logger } from "./logger.js";
+import { MetricsCollector } from "./metrics.js";
+import { VectorComponents, loadVectorComponents } from "./vectorComponents.js";
+
+export class GoTNWorkspace {
+  readonly path: string;
+  private nodeStores = new Map<string, NodeStore>();
+  private vectorComponents: Promise<VectorComponents> | null = null;
+  private edgeEngine: EdgeEngine | null = null;
+  private planComposer: PlanComposer | null = null;
+  private breakdownEngine: BreakdownEngine | null = null;
+  private indexer: WorkspaceIndexer | null = null;
+  private watcher: WorkspaceWatcher | null = null;
+  private logger: Logger | null = null;
+  private metrics: MetricsCollector | null = null;
+
+  constructor(workspacePath: string = ".") {
+    this.path = workspacePath;
+  }
+
+  async isInitialized(): Promise<boolean> {
+    return isInitialized(this.path);
+  }
+
+  async readGraph(): Promise<Graph> {
+    return readGraph(this.path);
+  }
+
+  /**
+   * Resolve a workspace-relative path (e.g. a run folder)
+   */
+  resolve(relPath: string): string {
+    return path.isAbsolute(relPath) ? relPath : path.join(this.path, relPath);
+  }
+
+  getNodeStore(projectId: string = "default"): NodeStore {
+    let store = this.nodeStores.get(projectId);
+    if (!store) {
+      store = new NodeStore(projectId, this);
+      this.nodeStores.set(projectId, store);
+    }
+    return store;
+  }
+
+  // Shared by the node stores and the edge engine of this workspace
+  getVectorComponents(): Promise<VectorComponents> {
+    if (!this.vectorComponents) {
+      this.vectorComponents = loadVectorComponents();
+    }
+    return this.vectorComponents;
+  }
+
+  getEdgeEngine(): EdgeEngine {
+    if (!this.edgeEngine) {
+      this.edgeEngine = new EdgeEngine(this);
+    }
+    return this.edgeEngine;
+  }
+
+  getPlanComposer(): PlanComposer {
+    if (!this.planComposer) {
+      this.planComposer = new PlanComposer(this);
+    }
+    return this.planComposer;
+  }
+
+  getBreakdownEngine(provider?: BreakdownProvider): BreakdownEngine {
+    if (provider) return new BreakdownEngine(provider, this);
+    if (!this.breakdownEngine) {
+      this.breakdownEngine = new BreakdownEngine(undefined, this);
+    }
+    return this.breakdownEngine;
+  }
+
+  getIndexer(): WorkspaceIndexer {
+    if (!this.indexer) {
+      this.indexer = new WorkspaceIndexer(this);
+    }
+    return this.indexer;
+  }
+
+  // Kept per workspace so the running watcher can be stopped later
+  getWatcher(): WorkspaceWatcher {
+    if (!this.watcher) {
+      this.watcher = new WorkspaceWatcher(this);
+    }
+    return this.watcher;
+  }
+
+  getGuardEngine(): GuardEngine {
+    return new GuardEngine(this.path);
+  }
+
+  getArtifactVerifier(): ArtifactVerifier {
+    return new ArtifactVerifier(this.path);
+  }
+
+  getPatchManager(): PatchManager {
+    return new PatchManager(this.path);
+  }
+
+  getPlanRunner(executor?: NodeExecutor): PlanRunner {
+    return new PlanRunner(this.path, executor);
+  }
+
+  getRecoveryEngine(): RecoveryEngine {
+    return new RecoveryEngine(this.path);
+  }
+
+  getLogger(): Logger {
+    if (!this.logger) {
+      this.logger = new Logger(this.path);
+    }
+    return this.logger;
+  }
+
+  // Kept per workspace so skip and guard-failure counters accumulate
+  getMetrics(): MetricsCollector {
+    if (!this.metrics) {
+      this.metrics = new MetricsCollector(this.path);
+    }
+    return this.metrics;
+  }
+}
+
+/**
+ * Open workspaces by absolute path
+ */
+const openWorkspaces = new Map<string, GoTNWorkspace>();
+
+/**
+ * Open a workspace, reusing the instance (and its engines) if it is open
+ */
+export function openWorkspace(workspacePath: string = "."): GoTNWorkspace {
+  const absPath = path.resolve(workspacePath);
+  let workspace = openWorkspaces.get(absPath);
+  if (!workspace) {
+    workspace = new GoTNWorkspace(absPath);
+    openWorkspaces.set(absPath, workspace);
+  }
+  return workspace;
+}
+
+/**
+ * Forget an open workspace; returns false if it was not open
+ */
+export function closeWorkspace(workspacePath: string): boolean {
+  return openWorkspaces.delete(path.resolve(workspacePath));
+}
+
+export function listOpenWorkspaces(): string[] {
+  return Array.from(openWorkspaces.keys());
+}
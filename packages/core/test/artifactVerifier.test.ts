@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createHash } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { ArtifactVerifier } from "../src/artifactVerifier.js";
+import { createTestWorkspace, makeNode, TestWorkspace } from "./helpers.js";
+
+describe("ArtifactVerifier", () => {
+  let ws: TestWorkspace;
+  let verifier: ArtifactVerifier;
+  const appSource =
+    "import http from 'http';\nhttp.createServer().listen(8080);\n";
+
+  beforeEach(async () => {
+    ws = await createTestWorkspace();
+    verifier = new ArtifactVerifier(ws.path);
+    await mkdir(path.join(ws.path, "src"));
+    await writeFile(path.join(ws.path, "src/app.ts"), appSource);
+    await writeFile(path.join(ws.path, "empty.log"), "");
+  });
+
+  afterEach(async () => {
+    await ws.cleanup();
+  });
+
+  it("records the hash of every declared file", async () => {
+    const node = makeNode("n", {
+      artifacts: { files: ["src/app.ts"], outputs: [], dependencies: [] },
+    });
+
+    const verification = await verifier.verify(node);
+
+    expect(verification.passed).toBe(true);
+    expect(verification.checks[0]).toMatchObject({
+      kind: "file",
+      target: "src/app.ts",
+      status: "passed",
+      sha256: createHash("sha256").update(appSource).digest("hex"),
+    });
+  });
+
+  it("fails missing files and empty outputs", async () => {
+    const node = makeNode("n", {
+      artifacts: {
+        files: ["src/missing.ts"],
+        outputs: ["empty.log"],
+        dependencies: [],
+      },
+    });
+
+    const verification = await verifier.verify(node);
+
+    expect(verification.passed).toBe(false);
+    expect(verification.checks.map((c) => c.detail)).toEqual([
+      "src/missing.ts does not exist",
+      "empty.log is empty",
+    ]);
+  });
+
+  it("fails declared paths outside the workspace", async () => {
+    const node = makeNode("n", {
+      artifacts: {
+        files: ["../outside.ts"],
+        outputs: ["/etc/hostname"],
+        dependencies: [],
+      },
+    });
+
+    const verification = await verifier.verify(node);
+
+    expect(verification.checks.map((c) => c.status)).toEqual([
+      "failed",
+      "failed",
+    ]);
+    expect(verification.checks.every((c) => c.detail.includes("outside"))).toBe(
+      true
+    );
+  });
+
+  it("checks file_contains criteria as text or regex", async () => {
+    const check = (criterion: string) => verifier.checkCriterion(criterion);
+
+    expect((await check("file_contains:src/app.ts:createServer")).status).toBe(
+      "passed"
+    );
+    expect(
+      (await check("file_contains:src/app.ts:/listen\\(\\d+\\)/")).status
+    ).toBe("passed");
+    expect((await check("file_contains:src/app.ts:express")).status).toBe(
+      "failed"
+    );
+    expect((await check("file_contains:src/app.ts:/(/")).detail).toContain(
+      "Invalid pattern"
+    );
+    expect(
+      (await check("file_contains:../secret.txt:password")).detail
+    ).toContain("outside the workspace");
+  });
+
+  it("reports free-text criteria as unverified without failing", async () => {
+    const node = makeNode("n", {
+      success_criteria: ["Server responds quickly", "file_exists:src/app.ts"],
+    });
+
+    const verification = await verifier.verify(node);
+
+    expect(verification.passed).toBe(true);
+    expect(verification.checks.map((c) => c.status)).toEqual([
+      "unverified",
+      "passed",
+    ]);
+  });
+
+  it("compares hashes from the last verification on request", async () => {
+    const node = makeNode("n", {
+      artifacts: { files: ["src/app.ts"], outputs: [], dependencies: [] },
+    });
+    const verified = { ...node, verification: await verifier.verify(node) };
+    await writeFile(path.join(ws.path, "src/app.ts"), "changed\n");
+
+    const [check] = await verifier.verifyArtifacts(verified, true);
+
+    expect(check.status).toBe("failed");
+    expect(check.detail).toContain("changed since it was last verified");
+  });
+});
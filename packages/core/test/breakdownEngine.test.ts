@@ -0,0 +1,233 @@
+/**
+ * BreakdownEngine tests - refining an existing node into children
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { BreakdownEngine, checkAtomicity } from "../src/breakdownEngine.js";
+import type { BreakdownProvider } from "../src/breakdownProvider.js";
+import type { LLMBreakdownResponse } from "../src/breakdownEngine.js";
+import {
+  createTestWorkspace,
+  makeNode,
+  type TestWorkspace,
+} from "./helpers.js";
+
+const LONG_PROMPT = Array.from({ length: 60 }, (_, i) => `word${i}`).join(" ");
+
+const refinement: LLMBreakdownResponse = {
+  root_id: "root",
+  nodes: [
+    {
+      id: "root",
+      summary: "Build the API",
+      prompt_text: "Build the API",
+      exec_target: ".",
+      children: ["schema", "routes"],
+      requires: [],
+      produces: [],
+      success_criteria: [],
+      guards: [],
+      tags: [],
+    },
+    {
+      id: "schema",
+      summary: "Write the schema",
+      prompt_text: "Write the schema",
+      parent: "root",
+      exec_target: "db/schema.sql",
+      children: [],
+      requires: [],
+      produces: ["schema"],
+      success_criteria: [],
+      guards: [],
+      tags: [],
+    },
+    {
+      id: "routes",
+      summary: "Write the routes",
+      prompt_text: "Write the routes",
+      parent: "root",
+      exec_target: "src/routes.ts",
+      children: [],
+      requires: ["schema"],
+      produces: ["routes"],
+      success_criteria: [],
+      guards: [],
+      tags: [],
+    },
+  ],
+};
+
+function provider(beforeReturn?: () => Promise<void>): BreakdownProvider {
+  return {
+    name: "test",
+    async generate() {
+      await beforeReturn?.();
+      return structuredClone(refinement);
+    },
+  };
+}
+
+describe("checkAtomicity", () => {
+  const heuristic = { max_words: 10, max_depth: 2 };
+
+  it("should treat short prompts as atomic", () => {
+    const check = checkAtomicity(makeNode("a"), 0, heuristic);
+    expect(check.atomic).toBe(true);
+  });
+
+  it("should treat long prompts as not atomic", () => {
+    const node = makeNode("a", { prompt_text: LONG_PROMPT });
+    const check = checkAtomicity(node, 0, heuristic);
+    expect(check.atomic).toBe(false);
+    expect(check.estimated_words).toBe(60);
+  });
+
+  it("should stop at the depth limit", () => {
+    const node = makeNode("a", { prompt_text: LONG_PROMPT });
+    const check = checkAtomicity(node, 2, heuristic);
+    expect(check.atomic).toBe(true);
+    expect(check.reason).toContain("Depth 2");
+  });
+});
+
+describe("BreakdownEngine.refine", () => {
+  let ws: TestWorkspace;
+
+  beforeEach(async () => {
+    ws = await createTestWorkspace();
+    await ws.workspace.getNodeStore("p").createNode(
+      makeNode("api", {
+        prompt_text: LONG_PROMPT,
+        requires: ["config"],
+        produces: ["api"],
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await ws.cleanup();
+  });
+
+  it("should create children that inherit the parent's boundary", async () => {
+    const engine = new BreakdownEngine(provider(), ws.workspace);
+
+    const before = (await ws.workspace.getNodeStore("p").getNode("api"))!;
+    const result = await engine.refine({ project_id: "p", node_id: "api" });
+
+    expect(result.refined).toBe(true);
+    expect(result.created_node_ids).toEqual(["api__schema", "api__routes"]);
+
+    const graph = await ws.workspace.readGraph();
+    const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+    const parent = byId.get("api")!;
+    expect(parent.children).toEqual(["api__schema", "api__routes"]);
+    expect(parent.version).toBe(before.version + 1);
+
+    // Entry child takes the parent's requires, exit child its produces
+    expect(byId.get("api__schema")!.requires).toEqual(["config"]);
+    expect(byId.get("api__routes")!.produces).toEqual(["routes", "api"]);
+    expect(byId.get("api__schema")!.parent).toBe("api");
+
+    const derived = graph.edges.filter((e) => e.type === "derived_from");
+    expect(derived.map((e) => `${e.src}->${e.dst}`).sort()).toEqual([
+      "api->api__routes",
+      "api->api__schema",
+    ]);
+  });
+
+  it("should record the parent update in its history", async () => {
+    const engine = new BreakdownEngine(provider(), ws.workspace);
+    await engine.refine({ project_id: "p", node_id: "api" });
+
+    const history = await ws.workspace.getNodeStore("p").getNodeHistory("api");
+    const last = history[history.length - 1];
+    expect(last.event).toBe("update_node");
+    expect(last.changes.map((c) => c.field)).toContain("children");
+  });
+
+  it("should leave atomic nodes alone unless forced", async () => {
+    await ws.workspace
+      .getNodeStore("p")
+      .createNode(makeNode("small", { prompt_text: "Tiny task" }));
+    const engine = new BreakdownEngine(provider(), ws.workspace);
+
+    const skipped = await engine.refine({ project_id: "p", node_id: "small" });
+    expect(skipped.refined).toBe(false);
+    expect(skipped.created_node_ids).toEqual([]);
+
+    const forced = await engine.refine({
+      project_id: "p",
+      node_id: "small",
+      force: true,
+    });
+    expect(forced.refined).toBe(true);
+    expect(forced.reason).toContain("Forced refinement");
+  });
+
+  it("should not refine a node that already has children", async () => {
+    const engine = new BreakdownEngine(provider(), ws.workspace);
+    await engine.refine({ project_id: "p", node_id: "api" });
+
+    const again = await engine.refine({ project_id: "p", node_id: "api" });
+
+    expect(again.refined).toBe(false);
+    expect(again.reason).toBe("Node already has 2 children");
+  });
+
+  it("should throw for an unknown node", async () => {
+    const engine = new BreakdownEngine(provider(), ws.workspace);
+    await expect(
+      engine.refine({ project_id: "p", node_id: "nope" })
+    ).rejects.toThrow("Node nope not found");
+  });
+
+  it("should name the provider when it returns no nodes", async () => {
+    const empty: BreakdownProvider = {
+      name: "empty",
+      async generate() {
+        return { root_id: "root", nodes: [] };
+      },
+    };
+    const engine = new BreakdownEngine(empty, ws.workspace);
+    await expect(
+      engine.refine({ project_id: "p", node_id: "api" })
+    ).rejects.toThrow('Breakdown provider "empty" returned no nodes');
+  });
+
+  it("should merge concurrent edits to the parent", async () => {
+    const store = ws.workspace.getNodeStore("p");
+    const engine = new BreakdownEngine(
+      provider(async () => {
+        const current = (await store.getNode("api"))!;
+        await store.updateNode({
+          ...current,
+          summary: "Edited meanwhile",
+          requires: [...current.requires, "auth"],
+        });
+      }),
+      ws.workspace
+    );
+
+    await engine.refine({ project_id: "p", node_id: "api" });
+
+    const parent = (await store.getNode("api"))!;
+    expect(parent.summary).toBe("Edited meanwhile");
+    expect(parent.children).toEqual(["api__schema", "api__routes"]);
+    expect(parent.requires.sort()).toEqual(["auth", "config", "routes"]);
+  });
+
+  it("should fail if the parent is deleted meanwhile", async () => {
+    const store = ws.workspace.getNodeStore("p");
+    const engine = new BreakdownEngine(
+      provider(async () => {
+        await store.deleteNode("api");
+      }),
+      ws.workspace
+    );
+
+    await expect(
+      engine.refine({ project_id: "p", node_id: "api" })
+    ).rejects.toThrow("not found");
+  });
+});
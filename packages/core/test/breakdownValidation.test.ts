@@ -0,0 +1,213 @@
+/**
+ * Breakdown validation tests - JSON extraction, salvage and the repair loop
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  extractBreakdownJson,
+  coerceBreakdown,
+  generateValidatedBreakdown,
+  type BreakdownChatMessage,
+} from "../src/breakdownValidation.js";
+
+const validResponse = {
+  root_id: "root",
+  nodes: [
+    {
+      id: "root",
+      summary: "Build the app",
+      prompt_text: "Build the app",
+      children: ["db"],
+      requires: [],
+      produces: ["app"],
+      success_criteria: [],
+      guards: [],
+      tags: [],
+    },
+    {
+      id: "db",
+      summary: "Set up the database",
+      prompt_text: "Create the schema",
+      parent: "root",
+      exec_target: "db/schema.sql",
+      children: [],
+      requires: [],
+      produces: ["database"],
+      success_criteria: ["file_exists:db/schema.sql"],
+      guards: [],
+      tags: ["db"],
+    },
+  ],
+};
+
+describe("extractBreakdownJson", () => {
+  it("should parse plain JSON", () => {
+    expect(extractBreakdownJson('{"a": 1}')).toEqual({ a: 1 });
+  });
+
+  it("should parse JSON inside a code fence", () => {
+    const content = 'Here you go:\n```json\n{"a": [1, 2]}\n```\nDone.';
+    expect(extractBreakdownJson(content)).toEqual({ a: [1, 2] });
+  });
+
+  it("should throw on invalid JSON", () => {
+    expect(() => extractBreakdownJson("not json")).toThrow(
+      "Response is not valid JSON"
+    );
+  });
+});
+
+describe("coerceBreakdown", () => {
+  it("should keep a valid breakdown unchanged", () => {
+    const { response, report } = coerceBreakdown(validResponse);
+
+    expect(response.root_id).toBe("root");
+    expect(response.nodes.map((n) => n.id)).toEqual(["root", "db"]);
+    expect(response.nodes[0].exec_target).toBe(".");
+    expect(report.every((r) => r.coerced.length === 0 && !r.rejected)).toBe(
+      true
+    );
+  });
+
+  it("should coerce scalar fields and report unknown ones", () => {
+    const { response, report } = coerceBreakdown({
+      root_id: "a",
+      nodes: [
+        {
+          id: "a",
+          prompt_text: "Write the README",
+          tags: "docs",
+          requires: ["x", 42, { bad: true }],
+          priority: "high",
+        },
+      ],
+    });
+
+    const node = response.nodes[0];
+    expect(node.summary).toBe("Write the README");
+    expect(node.tags).toEqual(["docs"]);
+    expect(node.requires).toEqual(["x", "42"]);
+    expect(report[0].coerced).toEqual(
+      expect.arrayContaining(["summary", "tags", "requires"])
+    );
+    expect(report[0].dropped).toContain("priority");
+  });
+
+  it("should reject nodes without an id or any text", () => {
+    const { response, report } = coerceBreakdown({
+      root_id: "a",
+      nodes: [
+        { summary: "No id" },
+        { id: "b" },
+        "string",
+        { id: "a", summary: "ok" },
+      ],
+    });
+
+    expect(response.nodes.map((n) => n.id)).toEqual(["a"]);
+    expect(report.map((r) => r.rejected)).toEqual([
+      "Missing id",
+      "Missing both summary and prompt_text",
+      "Node is not an object",
+      undefined,
+    ]);
+  });
+
+  it("should reject duplicate ids and drop dangling references", () => {
+    const { response, report } = coerceBreakdown({
+      root_id: "missing",
+      nodes: [
+        { id: "a", summary: "A", children: ["b", "gone"] },
+        { id: "b", summary: "B", parent: "gone" },
+        { id: "a", summary: "Again" },
+      ],
+    });
+
+    expect(response.root_id).toBe("a");
+    expect(response.nodes.map((n) => n.id)).toEqual(["a", "b"]);
+    expect(response.nodes[0].children).toEqual(["b"]);
+    expect(response.nodes[1].parent).toBeUndefined();
+    expect(report[2].rejected).toBe("Duplicate node id");
+    expect(report[1].dropped).toContain("parent");
+  });
+
+  it("should drop a parent that points at the node itself", () => {
+    const { response } = coerceBreakdown({
+      root_id: "a",
+      nodes: [{ id: "a", summary: "A", parent: "a" }],
+    });
+
+    expect(response.nodes[0].parent).toBeUndefined();
+  });
+});
+
+describe("generateValidatedBreakdown", () => {
+  const messages: BreakdownChatMessage[] = [
+    { role: "system", content: "Break it down" },
+    { role: "user", content: "Build the app" },
+  ];
+
+  it("should return the first valid response without repairs", async () => {
+    const complete = vi.fn(async () => JSON.stringify(validResponse));
+
+    const result = await generateValidatedBreakdown(complete, messages);
+
+    expect(result.attempts).toBe(1);
+    expect(result.response.nodes).toHaveLength(2);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it("should feed validation errors back and accept the repaired response", async () => {
+    const complete = vi
+      .fn<(messages: BreakdownChatMessage[]) => Promise<string>>()
+      .mockResolvedValueOnce("sorry, no JSON here")
+      .mockResolvedValueOnce(JSON.stringify(validResponse));
+
+    const result = await generateValidatedBreakdown(complete, messages);
+
+    expect(result.attempts).toBe(2);
+    const repairConversation = complete.mock.calls[1][0];
+    expect(repairConversation).toHaveLength(4);
+    expect(repairConversation[2]).toEqual({
+      role: "assistant",
+      content: "sorry, no JSON here",
+    });
+    expect(repairConversation[3].content).toContain(
+      "Response is not valid JSON"
+    );
+    // The caller's messages are not modified
+    expect(messages).toHaveLength(2);
+  });
+
+  it("should salvage the last response once repairs are used up", async () => {
+    const invalid = {
+      root_id: "nope",
+      nodes: [{ id: "a", summary: "A" }, { summary: "no id" }],
+    };
+    const complete = vi.fn(async () => JSON.stringify(invalid));
+
+    const result = await generateValidatedBreakdown(complete, messages, 1);
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(result.attempts).toBe(2);
+    expect(result.response.root_id).toBe("a");
+    expect(result.response.nodes.map((n) => n.id)).toEqual(["a"]);
+    expect(result.report[1].rejected).toBe("Missing id");
+  });
+
+  it("should throw when no attempt returned JSON", async () => {
+    const complete = vi.fn(async () => "still not JSON");
+
+    await expect(
+      generateValidatedBreakdown(complete, messages, 1)
+    ).rejects.toThrow("not valid JSON after 2 attempts");
+  });
+
+  it("should throw when nothing can be salvaged", async () => {
+    const complete = vi.fn(async () => JSON.stringify({ nodes: [{}] }));
+
+    await expect(
+      generateValidatedBreakdown(complete, messages, 0)
+    ).rejects.toThrow("No valid nodes in breakdown response after 1 attempts");
+  });
+});
@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import {
+  addEdge,
+  addNode,
+  createSnapshot,
+  migrateEdgeDirection,
+  readGraph,
+  readJournal,
+  readLatestSnapshot,
+  readMeta,
+  recoverFromJournal,
+  removeNode,
+  replayUnappliedEntries,
+  writeGraph,
+} from "../src/fsStore.js";
+import { readGraphAt } from "../src/history.js";
+import { Edge } from "../src/schemas.js";
+import {
+  createTestWorkspace,
+  makeEdge,
+  makeNode,
+  TestWorkspace,
+} from "./helpers.js";
+
+describe("migrateEdgeDirection", () => {
+  let ws: TestWorkspace;
+
+  // A workspace from before the migration: no migrations in meta.json
+  async function markLegacy(): Promise<void> {
+    const metaPath = path.join(ws.path, ".gotn", "meta.json");
+    const meta = JSON.parse(await readFile(metaPath, "utf8"));
+    delete meta.migrations;
+    await writeFile(metaPath, JSON.stringify(meta, null, 2));
+  }
+
+  // A hard edge as EdgeEngine wrote it before the migration
+  const legacyEdge = (consumer: string, producer: string): Edge =>
+    makeEdge(consumer, producer, "hard_requires", {
+      evidence: `${consumer} requires "db" which ${producer} produces`,
+      provenance: { created_by: "edge_engine", source: "hard_inference" },
+    });
+
+  const edgeKeys = (edges: Edge[]) =>
+    edges.map((e) => `${e.src}->${e.dst}:${e.type}`).sort();
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    ws = await createTestWorkspace();
+    await addNode(ws.path, makeNode("db", { produces: ["db"] }));
+    await addNode(ws.path, makeNode("api", { requires: ["db"] }));
+    await addNode(ws.path, makeNode("docs"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await ws.cleanup();
+  });
+
+  it("is recorded as done for new workspaces", async () => {
+    await addEdge(ws.path, makeEdge("api", "db"));
+
+    const result = await migrateEdgeDirection(ws.path);
+
+    expect(result.migrated).toBe(false);
+    const graph = await readGraph(ws.path);
+    expect(graph.edges.map((e) => [e.src, e.dst])).toEqual([["api", "db"]]);
+  });
+
+  it("rewrites legacy hard edges in graph.json and the journal", async () => {
+    await addEdge(ws.path, legacyEdge("api", "db"));
+    await addEdge(ws.path, makeEdge("docs", "api", "soft_semantic"));
+    await markLegacy();
+    const journalLength = (await readJournal(ws.path)).length;
+
+    const result = await migrateEdgeDirection(ws.path);
+
+    expect(result).toEqual({
+      migrated: true,
+      graph_edges_flipped: 1,
+      graph_duplicates_removed: 0,
+      journal_entries_rewritten: 1,
+      snapshots_rewritten: 0,
+      ambiguous_edges: [],
+    });
+    const graph = await readGraph(ws.path);
+    expect(edgeKeys(graph.edges)).toEqual([
+      "db->api:hard_requires",
+      "docs->api:soft_semantic",
+    ]);
+
+    // No new entries: the original add_edge now carries the flipped edge
+    const journal = await readJournal(ws.path);
+    expect(journal).toHaveLength(journalLength);
+    const added = journal.find((e) => e.event === "add_edge")!;
+    expect((added.data as any).edge).toMatchObject({ src: "db", dst: "api" });
+    expect((await readMeta(ws.path)).migrations).toContain("edge_direction");
+  });
+
+  it("rewrites snapshots and removals, so history keeps one direction", async () => {
+    await addEdge(ws.path, legacyEdge("api", "db"));
+    await createSnapshot(ws.path);
+    const before = (await readJournal(ws.path)).at(-1)!;
+    await removeNode(ws.path, "api", { cascade: "drop_edges" });
+    await markLegacy();
+
+    const result = await migrateEdgeDirection(ws.path);
+
+    expect(result.snapshots_rewritten).toBe(1);
+    expect(result.journal_entries_rewritten).toBe(2);
+    const snapshot = (await readLatestSnapshot(ws.path))!.snapshot;
+    expect(edgeKeys(snapshot.graph.edges)).toEqual(["db->api:hard_requires"]);
+    const removal = (await readJournal(ws.path)).at(-1)!;
+    expect((removal.data as any).removed_edges[0]).toMatchObject({
+      src: "db",
+      dst: "api",
+    });
+
+    const past = await readGraphAt(ws.path, before.id);
+    expect(edgeKeys(past.edges)).toEqual(["db->api:hard_requires"]);
+  });
+
+  it("reports reversed-looking edges it did not create instead of flipping them", async () => {
+    await addEdge(ws.path, makeEdge("api", "db"));
+    await markLegacy();
+
+    const result = await migrateEdgeDirection(ws.path);
+
+    expect(result.graph_edges_flipped).toBe(0);
+    expect(result.ambiguous_edges).toEqual(["api->db:hard_requires"]);
+    const graph = await readGraph(ws.path);
+    expect(edgeKeys(graph.edges)).toEqual(["api->db:hard_requires"]);
+  });
+
+  it("flips EdgeEngine edges without evidence by their tags", async () => {
+    await addEdge(
+      ws.path,
+      makeEdge("api", "db", "hard_requires", {
+        provenance: { created_by: "edge_engine", source: "hard_inference" },
+      })
+    );
+    await markLegacy();
+
+    const result = await migrateEdgeDirection(ws.path);
+
+    expect(result.graph_edges_flipped).toBe(1);
+    const graph = await readGraph(ws.path);
+    expect(edgeKeys(graph.edges)).toEqual(["db->api:hard_requires"]);
+  });
+
+  it("runs when the store is opened", async () => {
+    await addEdge(ws.path, legacyEdge("api", "db"));
+    await markLegacy();
+
+    await replayUnappliedEntries(ws.path);
+
+    const graph = await readGraph(ws.path);
+    expect(edgeKeys(graph.edges)).toEqual(["db->api:hard_requires"]);
+    expect((await migrateEdgeDirection(ws.path)).migrated).toBe(false);
+  });
+
+  it("drops an edge whose flipped form already exists", async () => {
+    await addEdge(ws.path, makeEdge("db", "api"));
+    await addEdge(ws.path, legacyEdge("api", "db"));
+    await markLegacy();
+
+    const result = await migrateEdgeDirection(ws.path);
+
+    expect(result.graph_edges_flipped).toBe(1);
+    expect(result.graph_duplicates_removed).toBe(1);
+    const graph = await readGraph(ws.path);
+    expect(graph.edges.map((e) => [e.src, e.dst])).toEqual([["db", "api"]]);
+  });
+
+  it("collapses exact duplicates to one edge", async () => {
+    const graph = await readGraph(ws.path);
+    graph.edges.push(
+      makeEdge("docs", "api", "soft_semantic"),
+      makeEdge("docs", "api", "soft_semantic")
+    );
+    await writeGraph(ws.path, graph);
+    await markLegacy();
+
+    const result = await migrateEdgeDirection(ws.path);
+
+    expect(result.graph_duplicates_removed).toBe(1);
+    expect((await readGraph(ws.path)).edges).toHaveLength(1);
+  });
+
+  it("runs only once", async () => {
+    await addEdge(ws.path, legacyEdge("api", "db"));
+    await markLegacy();
+    await migrateEdgeDirection(ws.path);
+    const journalLength = (await readJournal(ws.path)).length;
+
+    // A later edge matching the legacy pattern is left alone
+    await addEdge(ws.path, legacyEdge("api", "db"));
+    const result = await migrateEdgeDirection(ws.path);
+
+    expect(result.migrated).toBe(false);
+    expect(await readJournal(ws.path)).toHaveLength(journalLength + 1);
+    const graph = await readGraph(ws.path);
+    expect(graph.edges.map((e) => `${e.src}->${e.dst}`).sort()).toEqual([
+      "api->db",
+      "db->api",
+    ]);
+  });
+
+  it("survives recovery from the journal", async () => {
+    await addEdge(ws.path, legacyEdge("api", "db"));
+    await markLegacy();
+    await migrateEdgeDirection(ws.path);
+
+    await recoverFromJournal(ws.path);
+
+    const graph = await readGraph(ws.path);
+    expect(graph.edges.map((e) => [e.src, e.dst])).toEqual([["db", "api"]]);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readdir, rm, stat, utimes, writeFile } from "fs/promises";
+import { hostname, tmpdir } from "os";
+import path from "path";
+import { acquireFileLock } from "../src/fileLock.js";
+
+describe("file locks", () => {
+  let lockDir: string;
+
+  async function writeLock(name: string, pid: number, host: string) {
+    await writeFile(
+      path.join(lockDir, name),
+      JSON.stringify({
+        pid,
+        hostname: host,
+        created_at: new Date().toISOString(),
+        mode: "write",
+      })
+    );
+  }
+
+  async function age(name: string, ms: number) {
+    const then = new Date(Date.now() - ms);
+    await utimes(path.join(lockDir, name), then, then);
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    lockDir = await mkdtemp(path.join(tmpdir(), "gotn-lock-"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(lockDir, { recursive: true, force: true });
+  });
+
+  it("keeps an old lock whose owner on this host is still running", async () => {
+    // The parent of this process outlives any lock age
+    await writeLock("graph.write.lock", process.ppid, hostname());
+    await age("graph.write.lock", 10 * 60 * 1000);
+
+    await expect(
+      acquireFileLock(lockDir, "graph", "write", {
+        timeoutMs: 200,
+        staleMs: 1000,
+      })
+    ).rejects.toThrow(/held by pid/);
+    expect(await readdir(lockDir)).toEqual(["graph.write.lock"]);
+  });
+
+  it("removes a lock from another host once it stops being refreshed", async () => {
+    await writeLock("graph.write.lock", 1, "elsewhere");
+    await expect(
+      acquireFileLock(lockDir, "graph", "write", {
+        timeoutMs: 200,
+        staleMs: 1000,
+      })
+    ).rejects.toThrow(/Timed out/);
+
+    await age("graph.write.lock", 5000);
+    const release = await acquireFileLock(lockDir, "graph", "write", {
+      timeoutMs: 200,
+      staleMs: 1000,
+    });
+    await release();
+    expect(await readdir(lockDir)).toEqual([]);
+  });
+
+  it("removes an unreadable lock only once it is older than the stale timeout", async () => {
+    await writeFile(path.join(lockDir, "graph.write.lock"), "{ torn");
+    await expect(
+      acquireFileLock(lockDir, "graph", "read", { timeoutMs: 200 })
+    ).rejects.toThrow(/Timed out/);
+
+    await age("graph.write.lock", 2 * 60 * 1000);
+    const release = await acquireFileLock(lockDir, "graph", "read", {
+      timeoutMs: 200,
+    });
+    await release();
+    expect(await readdir(lockDir)).toEqual([]);
+  });
+
+  it("refreshes a held lock so others do not take it for stale", async () => {
+    const release = await acquireFileLock(lockDir, "graph", "write", {
+      staleMs: 300,
+    });
+    const lockPath = path.join(lockDir, "graph.write.lock");
+    await age("graph.write.lock", 60 * 1000);
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    expect(Date.now() - (await stat(lockPath)).mtimeMs).toBeLessThan(300);
+
+    await release();
+    expect(await readdir(lockDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { existsSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { addNode } from "../src/fsStore.js";
+import {
+  GuardChecker,
+  isCommandAllowed,
+  parseGuard,
+  resolveWorkspaceFile,
+} from "../src/guardChecks.js";
+import { GuardEngine } from "../src/guardEngine.js";
+import { createTestWorkspace, makeNode, TestWorkspace } from "./helpers.js";
+
+describe("parseGuard", () => {
+  it("parses the structured forms", () => {
+    expect(parseGuard("file_exists: src/index.ts")).toEqual({
+      kind: "file_exists",
+      arg: "src/index.ts",
+      raw: "file_exists: src/index.ts",
+    });
+    expect(parseGuard("command_succeeds:npm test")?.arg).toBe("npm test");
+    expect(parseGuard("node_completed:setup_db")?.kind).toBe("node_completed");
+  });
+
+  it("treats free text and invalid ports as unstructured", () => {
+    expect(parseGuard("Verify Docker is running")).toBeNull();
+    expect(parseGuard("port_free:http")).toBeNull();
+    expect(parseGuard("port_free:70000")).toBeNull();
+  });
+});
+
+describe("resolveWorkspaceFile", () => {
+  it("keeps paths inside the workspace", () => {
+    expect(resolveWorkspaceFile("/ws", "src/app.ts")).toBe(
+      path.resolve("/ws", "src/app.ts")
+    );
+    expect(resolveWorkspaceFile("/ws", "/etc/passwd")).toBeNull();
+    expect(resolveWorkspaceFile("/ws", "../secret")).toBeNull();
+    expect(resolveWorkspaceFile("/ws", "src/../../secret")).toBeNull();
+    expect(resolveWorkspaceFile("/ws", "src\\..\\..\\secret")).toBeNull();
+  });
+});
+
+describe("isCommandAllowed", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("allows nothing by default", () => {
+    vi.stubEnv("GOTN_GUARD_COMMANDS", "");
+    expect(isCommandAllowed("npm test")).toBe(false);
+  });
+
+  it("allows exact commands from the list", () => {
+    vi.stubEnv("GOTN_GUARD_COMMANDS", "npm test; node  --version");
+    expect(isCommandAllowed("npm test")).toBe(true);
+    expect(isCommandAllowed("node --version")).toBe(true);
+    expect(isCommandAllowed("npm test && rm -rf .")).toBe(false);
+  });
+
+  it("allows any command with *", () => {
+    vi.stubEnv("GOTN_GUARD_COMMANDS", "*");
+    expect(isCommandAllowed("anything")).toBe(true);
+  });
+});
+
+describe("GuardChecker", () => {
+  let ws: TestWorkspace;
+  let checker: GuardChecker;
+  const check = (raw: string) => checker.checkGuard(parseGuard(raw)!);
+
+  beforeEach(async () => {
+    ws = await createTestWorkspace();
+    checker = new GuardChecker(ws.path);
+    await writeFile(path.join(ws.path, "package.json"), "{}");
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await ws.cleanup();
+  });
+
+  it("checks files relative to the workspace", async () => {
+    expect((await check("file_exists:package.json")).status).toBe("passed");
+    expect((await check("file_exists:missing.txt")).status).toBe("failed");
+  });
+
+  it("fails file guards that leave the workspace", async () => {
+    const outside = path.basename(ws.path);
+    const result = await check(`file_exists:../${outside}/package.json`);
+
+    expect(result.status).toBe("failed");
+    expect(result.detail).toContain("outside the workspace");
+  });
+
+  it("checks environment variables", async () => {
+    vi.stubEnv("GOTN_TEST_VAR", "1");
+    expect((await check("env_set:GOTN_TEST_VAR")).status).toBe("passed");
+    vi.stubEnv("GOTN_TEST_VAR", "");
+    expect((await check("env_set:GOTN_TEST_VAR")).status).toBe("failed");
+  });
+
+  it("checks node status", async () => {
+    await addNode(ws.path, makeNode("done", { status: "completed" }));
+    await addNode(ws.path, makeNode("todo"));
+
+    expect((await check("node_completed:done")).status).toBe("passed");
+    expect((await check("node_completed:todo")).status).toBe("failed");
+    expect((await check("node_completed:nope")).detail).toContain("not found");
+  });
+
+  it("does not run commands that are not allowed", async () => {
+    vi.stubEnv("GOTN_GUARD_COMMANDS", "");
+    const marker = path.join(ws.path, "ran.txt");
+
+    const result = await check(`command_succeeds:touch ${marker}`);
+
+    expect(result.status).toBe("unverified");
+    expect(result.detail).toContain("GOTN_GUARD_COMMANDS");
+    expect(existsSync(marker)).toBe(false);
+  });
+
+  it("runs allowed commands in the workspace", async () => {
+    vi.stubEnv("GOTN_GUARD_COMMANDS", "test -f package.json;exit 3");
+
+    expect((await check("command_succeeds:test -f package.json")).status).toBe(
+      "passed"
+    );
+    const failed = await check("command_succeeds:exit 3");
+    expect(failed.status).toBe("failed");
+    expect(failed.detail).toContain("status 3");
+  });
+});
+
+describe("GuardEngine.evaluate", () => {
+  let ws: TestWorkspace;
+
+  beforeEach(async () => {
+    ws = await createTestWorkspace();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await ws.cleanup();
+  });
+
+  it("fails when a checkable guard fails", async () => {
+    const node = makeNode("n", { guards: ["file_exists:missing.txt"] });
+
+    const result = await new GuardEngine(ws.path).evaluate(node);
+
+    expect(result.result).toBe("fail");
+    expect(result.reason).toContain("file_exists:missing.txt");
+  });
+
+  it("proceeds past unverified guards and notes them", async () => {
+    vi.stubEnv("GOTN_GUARD_COMMANDS", "");
+    const node = makeNode("n", {
+      guards: ["Verify Docker is running", "command_succeeds:npm test"],
+    });
+
+    const result = await new GuardEngine(ws.path).evaluate(node);
+
+    expect(result.result).toBe("proceed");
+    expect(result.guards.map((g) => g.status)).toEqual([
+      "unverified",
+      "unverified",
+    ]);
+    expect(result.reason).toContain("2 unverified");
+  });
+
+  it("skips a node whose artifacts are already in place", async () => {
+    await mkdir(path.join(ws.path, "src"));
+    await writeFile(path.join(ws.path, "src/app.ts"), "export {};\n");
+    const node = makeNode("n", {
+      artifacts: { files: ["src/app.ts"], outputs: [], dependencies: [] },
+    });
+
+    const result = await new GuardEngine(ws.path).evaluate(node);
+
+    expect(result.result).toBe("skip");
+  });
+});
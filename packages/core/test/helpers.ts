@@ -0,0 +1,55 @@
+/**
+ * Test helpers - temporary workspaces and node factories
+ */
+
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { initStore } from "../src/fsStore.js";
+import { GoTNWorkspace } from "../src/workspace.js";
+import { Node, NodeSchema, Edge, EdgeSchema } from "../src/schemas.js";
+
+export interface TestWorkspace {
+  path: string;
+  workspace: GoTNWorkspace;
+  cleanup(): Promise<void>;
+}
+
+/**
+ * An initialized workspace in a fresh temporary directory
+ */
+export async function createTestWorkspace(): Promise<TestWorkspace> {
+  const dir = await mkdtemp(path.join(tmpdir(), "gotn-test-"));
+  await initStore(dir);
+  return {
+    path: dir,
+    workspace: new GoTNWorkspace(dir),
+    cleanup: () => rm(dir, { recursive: true, force: true }),
+  };
+}
+
+export function makeNode(id: string, fields: Partial<Node> = {}): Node {
+  return NodeSchema.parse({
+    id,
+    kind: "micro_prompt",
+    summary: `Summary of ${id}`,
+    prompt_text: `Prompt for ${id}`,
+    provenance: { created_by: "test", source: "test" },
+    ...fields,
+  });
+}
+
+export function makeEdge(
+  src: string,
+  dst: string,
+  type: Edge["type"] = "hard_requires",
+  fields: Partial<Edge> = {}
+): Edge {
+  return EdgeSchema.parse({
+    src,
+    dst,
+    type,
+    provenance: { created_by: "test", source: "test" },
+    ...fields,
+  });
+}
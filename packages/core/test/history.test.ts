@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  addEdge,
+  addNode,
+  compactJournal,
+  NodeVersionConflictError,
+  readGraph,
+  readJournal,
+  removeNode,
+  updateEdge,
+  updateNode,
+} from "../src/fsStore.js";
+import { getNodeHistory, mergeNodes, readGraphAt } from "../src/history.js";
+import { Node } from "../src/schemas.js";
+import {
+  createTestWorkspace,
+  makeEdge,
+  makeNode,
+  TestWorkspace,
+} from "./helpers.js";
+
+describe("node history", () => {
+  let ws: TestWorkspace;
+
+  async function nodeOf(id: string): Promise<Node> {
+    return (await readGraph(ws.path)).nodes.find((n) => n.id === id)!;
+  }
+
+  // Journal timestamps have millisecond resolution
+  const tick = () => new Promise((r) => setTimeout(r, 5));
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    ws = await createTestWorkspace();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await ws.cleanup();
+  });
+
+  it("bumps node and edge versions on every update", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await addNode(ws.path, makeNode("b"));
+    await addEdge(ws.path, makeEdge("a", "b"));
+    const a = await nodeOf("a");
+
+    // The caller's version is ignored
+    const first = await updateNode(ws.path, "a", { ...a, version: 42 });
+    const second = await updateNode(ws.path, "a", first);
+    await updateEdge(ws.path, "a", "b", makeEdge("a", "b", "hard_requires"));
+
+    expect(first.version).toBe(a.version + 1);
+    expect(second.version).toBe(a.version + 2);
+    expect((await nodeOf("a")).version).toBe(a.version + 2);
+    expect((await readGraph(ws.path)).edges[0].version).toBe(2);
+  });
+
+  it("lists every version with its field changes", async () => {
+    await addNode(ws.path, makeNode("a", { tags: ["x"] }));
+    const a = await nodeOf("a");
+    await updateNode(ws.path, "a", { ...a, summary: "new", tags: ["x", "y"] });
+    await removeNode(ws.path, "a");
+
+    const history = await getNodeHistory(ws.path, "a");
+
+    expect(history.map((v) => v.event)).toEqual([
+      "add_node",
+      "update_node",
+      "remove_node",
+    ]);
+    expect(history[1].version).toBe(a.version + 1);
+    expect(history[1].changes).toEqual([
+      { field: "summary", before: "Summary of a", after: "new" },
+      { field: "tags", before: ["x"], after: ["x", "y"] },
+    ]);
+    expect(history[2]).toMatchObject({ version: null, node: null });
+  });
+
+  it("reads the graph as it was after a journal entry", async () => {
+    await addNode(ws.path, makeNode("a"));
+    const [added] = await readJournal(ws.path);
+    await addNode(ws.path, makeNode("b"));
+    await updateNode(ws.path, "a", { ...(await nodeOf("a")), summary: "new" });
+
+    const graph = await readGraphAt(ws.path, added.id);
+
+    expect(graph.nodes.map((n) => n.id)).toEqual(["a"]);
+    expect(graph.nodes[0].summary).toBe("Summary of a");
+    expect(graph.last_applied_seq).toBe(added.seq);
+  });
+
+  it("reads the graph as it was at a point in time", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await tick();
+    const between = new Date().toISOString();
+    await tick();
+    await addNode(ws.path, makeNode("b"));
+
+    const graph = await readGraphAt(ws.path, between);
+
+    expect(graph.nodes.map((n) => n.id)).toEqual(["a"]);
+    await expect(readGraphAt(ws.path, "nope")).rejects.toThrow(
+      "No journal entry or timestamp matches"
+    );
+  });
+
+  it("starts history at the snapshot a compaction kept", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await tick();
+    const beforeCompaction = new Date().toISOString();
+    await tick();
+    await compactJournal(ws.path);
+    await updateNode(ws.path, "a", { ...(await nodeOf("a")), summary: "new" });
+
+    const history = await getNodeHistory(ws.path, "a");
+
+    expect(history.map((v) => v.event)).toEqual(["snapshot", "update_node"]);
+    await expect(readGraphAt(ws.path, beforeCompaction)).rejects.toThrow(
+      "was compacted"
+    );
+    const now = await readGraphAt(ws.path, new Date().toISOString());
+    expect(now.nodes[0].summary).toBe("new");
+  });
+});
+
+describe("mergeNodes", () => {
+  const base = makeNode("a", { tags: ["x"] });
+
+  it("combines changes to different fields", () => {
+    const ours = { ...base, summary: "ours", tags: ["x", "y"] };
+    const theirs = {
+      ...base,
+      version: base.version + 1,
+      status: "running" as const,
+      tags: ["z"],
+    };
+
+    const { node, conflicts } = mergeNodes(base, ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(node.summary).toBe("ours");
+    expect(node.status).toBe("running");
+    // x was removed by theirs, y added by ours
+    expect(node.tags).toEqual(["z", "y"]);
+    expect(node.version).toBe(theirs.version);
+  });
+
+  it("reports fields both sides changed differently", () => {
+    const { node, conflicts } = mergeNodes(
+      base,
+      { ...base, summary: "ours" },
+      { ...base, summary: "theirs" }
+    );
+
+    expect(conflicts).toEqual(["summary"]);
+    expect(node.summary).toBe("theirs");
+  });
+});
+
+describe("optimistic node updates", () => {
+  let ws: TestWorkspace;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    ws = await createTestWorkspace();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await ws.cleanup();
+  });
+
+  it("rejects an update from a stale version with the current node", async () => {
+    await addNode(ws.path, makeNode("a"));
+    const stale = (await readGraph(ws.path)).nodes[0];
+    const current = await updateNode(ws.path, "a", {
+      ...stale,
+      summary: "first",
+    });
+
+    const error = await updateNode(
+      ws.path,
+      "a",
+      { ...stale, summary: "second" },
+      { expected_version: stale.version }
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NodeVersionConflictError);
+    expect(error.code).toBe("NODE_VERSION_CONFLICT");
+    expect(error.expectedVersion).toBe(stale.version);
+    expect(error.current).toEqual(current);
+    expect((await readGraph(ws.path)).nodes[0].summary).toBe("first");
+  });
+
+  it("merges non-overlapping changes through NodeStore", async () => {
+    const store = ws.workspace.getNodeStore();
+    const created = await store.createNode(makeNode("a", { tags: ["x"] }));
+    await store.updateNode(
+      { ...created, status: "running", tags: ["x", "theirs"] },
+      { expected_version: created.version }
+    );
+
+    const merged = await store.updateNode(
+      { ...created, tags: ["x", "ours"] },
+      { expected_version: created.version, merge: true }
+    );
+
+    expect(merged.status).toBe("running");
+    expect(merged.tags).toEqual(["x", "theirs", "ours"]);
+  });
+
+  it("refuses to merge fields both sides changed", async () => {
+    const store = ws.workspace.getNodeStore();
+    const created = await store.createNode(makeNode("a"));
+    await store.updateNode(
+      { ...created, summary: "theirs" },
+      { expected_version: created.version }
+    );
+
+    const error = await store
+      .updateNode(
+        { ...created, summary: "ours" },
+        { expected_version: created.version, merge: true }
+      )
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(NodeVersionConflictError);
+    expect(error.conflictingFields).toEqual(["summary"]);
+    expect((await store.getNode("a"))?.summary).toBe("theirs");
+  });
+});
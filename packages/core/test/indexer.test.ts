@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import { readGraph } from "../src/fsStore.js";
+import { GitignoreMatcher } from "../src/gitignore.js";
+import { WorkspaceIndexer, codeNodeId, symbolNodeId } from "../src/indexer.js";
+import { createTestWorkspace, TestWorkspace } from "./helpers.js";
+
+describe("GitignoreMatcher", () => {
+  let ws: TestWorkspace;
+
+  beforeEach(async () => {
+    ws = await createTestWorkspace();
+  });
+
+  afterEach(async () => {
+    await ws.cleanup();
+  });
+
+  it("applies rules the way git does", async () => {
+    await writeFile(
+      path.join(ws.path, ".gitignore"),
+      "# build output\ndist/\n*.log\n!keep.log\n/root-only.ts\n"
+    );
+    await mkdir(path.join(ws.path, "src"));
+    await writeFile(path.join(ws.path, "src/.gitignore"), "generated.ts\n");
+    const ignore = new GitignoreMatcher(ws.path);
+
+    expect(ignore.ignores("dist", true)).toBe(true);
+    // A directory-only rule leaves files of that name alone
+    expect(ignore.ignores("dist")).toBe(false);
+    expect(ignore.ignores("logs/debug.log")).toBe(true);
+    expect(ignore.ignores("logs/keep.log")).toBe(false);
+    expect(ignore.ignores("root-only.ts")).toBe(true);
+    expect(ignore.ignores("src/root-only.ts")).toBe(false);
+    expect(ignore.ignores("src/generated.ts")).toBe(true);
+    expect(ignore.ignores("generated.ts")).toBe(false);
+    expect(ignore.ignores("node_modules", true)).toBe(true);
+    expect(ignore.ignores(".gotn", true)).toBe(true);
+  });
+});
+
+describe("WorkspaceIndexer", () => {
+  let ws: TestWorkspace;
+  let indexer: WorkspaceIndexer;
+
+  const write = async (file: string, content: string) => {
+    await mkdir(path.dirname(path.join(ws.path, file)), { recursive: true });
+    await writeFile(path.join(ws.path, file), content);
+  };
+
+  async function nodeIds(): Promise<string[]> {
+    return (await readGraph(ws.path)).nodes.map((n) => n.id).sort();
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    ws = await createTestWorkspace();
+    indexer = new WorkspaceIndexer(ws.workspace);
+    await write(
+      "package.json",
+      JSON.stringify({ dependencies: { express: "^4.0.0" } })
+    );
+    await write("src/a.ts", "export const a = 1;\n");
+    await write(
+      "src/b.ts",
+      "import { a } from './a.js';\nimport express from 'express';\nexport const b = a + 1;\n"
+    );
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await ws.cleanup();
+  });
+
+  it("skips ignored files and directories", async () => {
+    await write(".gitignore", "build/\n*.gen.ts\n");
+    await write("build/out.js", "");
+    await write("src/types.gen.ts", "");
+    await write("node_modules/x/index.js", "");
+
+    expect(await indexer.listFiles()).toEqual(["src/a.ts", "src/b.ts"]);
+  });
+
+  it("tags modules with their imports and links them", async () => {
+    const result = await indexer.index();
+
+    expect(result.indexed_files).toEqual([
+      "package.json",
+      "src/a.ts",
+      "src/b.ts",
+    ]);
+    const graph = await readGraph(ws.path);
+    const b = graph.nodes.find((n) => n.id === codeNodeId("src/b.ts"))!;
+    expect(b.requires).toEqual(["file:src/a.ts", "package:express"]);
+    expect(b.produces).toContain("file:src/b.ts");
+    expect(b.artifacts.dependencies).toEqual(["express"]);
+
+    const hard = graph.edges
+      .filter((e) => e.type === "hard_requires")
+      .map((e) => `${e.src}->${e.dst}`)
+      .sort();
+    expect(hard).toEqual([
+      `${codeNodeId("src/a.ts")}->${codeNodeId("src/b.ts")}`,
+      `deps_index->${codeNodeId("src/b.ts")}`,
+    ]);
+  });
+
+  it("re-indexes only files whose content changed", async () => {
+    await indexer.index();
+    await write("src/a.ts", "export const a = 2;\n");
+
+    const result = await indexer.index();
+
+    expect(result.indexed_files).toEqual(["src/a.ts"]);
+    expect(result.unchanged_files).toEqual(["package.json", "src/b.ts"]);
+    expect(result.edges_added).toBe(0);
+    expect(result.edges_removed).toBe(0);
+  });
+
+  it("stores exported symbols as children of their module", async () => {
+    await write(
+      "src/api.ts",
+      "import { a } from './a.js';\n/** Sum two numbers */\nexport function add(x: number): number { return x + a; }\nexport function twice(x: number) { return add(add(x)); }\n"
+    );
+
+    const result = await indexer.index();
+
+    expect(result.symbol_nodes).toBe(2);
+    const graph = await readGraph(ws.path);
+    const moduleId = codeNodeId("src/api.ts");
+    const add = graph.nodes.find(
+      (n) => n.id === symbolNodeId("src/api.ts", "add")
+    )!;
+    expect(add).toMatchObject({
+      kind: "code_symbol",
+      parent: moduleId,
+      summary: "function add(x: number): number - Sum two numbers",
+      exec_target: "src/api.ts#add",
+      produces: ["symbol:src/api.ts#add"],
+      requires: ["symbol:src/a.ts#a"],
+    });
+    const twice = graph.nodes.find(
+      (n) => n.id === symbolNodeId("src/api.ts", "twice")
+    )!;
+    expect(twice.requires).toEqual(["symbol:src/api.ts#add"]);
+    expect(graph.nodes.find((n) => n.id === moduleId)?.children.sort()).toEqual(
+      [add.id, twice.id]
+    );
+
+    const edges = graph.edges.map((e) => `${e.src}->${e.dst}:${e.type}`);
+    expect(edges).toContain(`${moduleId}->${add.id}:derived_from`);
+    expect(edges).toContain(`${add.id}->${twice.id}:hard_requires`);
+  });
+
+  it("removes symbols that are no longer exported", async () => {
+    await write(
+      "src/api.ts",
+      "export function add() {}\nexport function sub() {}\n"
+    );
+    await indexer.index();
+    await write("src/api.ts", "export function add() {}\n");
+
+    const result = await indexer.index();
+
+    expect(result.removed_node_ids).toEqual([
+      symbolNodeId("src/api.ts", "sub"),
+    ]);
+    expect(await nodeIds()).toContain(symbolNodeId("src/api.ts", "add"));
+  });
+
+  it("removes the nodes of deleted and newly ignored files", async () => {
+    await write("src/c.ts", "export const c = 3;\n");
+    await indexer.index();
+    await rm(path.join(ws.path, "src/a.ts"));
+    await write(".gitignore", "src/c.ts\n");
+
+    const result = await indexer.index();
+
+    expect(result.removed_node_ids).toContain(codeNodeId("src/a.ts"));
+    expect(result.removed_node_ids).toContain(codeNodeId("src/c.ts"));
+    expect(await nodeIds()).not.toContain(codeNodeId("src/a.ts"));
+    const graph = await readGraph(ws.path);
+    const b = graph.nodes.find((n) => n.id === codeNodeId("src/b.ts"))!;
+    expect(
+      graph.edges.some((e) => e.dst === b.id && e.src.includes("a_ts"))
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { appendFile, readdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import {
+  addEdge,
+  addNode,
+  appendJournal,
+  compactJournal,
+  createSnapshot,
+  readGraph,
+  readJournal,
+  readJournalTail,
+  recoverFromJournal,
+  replayUnappliedEntries,
+  updateNode,
+} from "../src/fsStore.js";
+import { Graph } from "../src/schemas.js";
+import {
+  createTestWorkspace,
+  makeEdge,
+  makeNode,
+  TestWorkspace,
+} from "./helpers.js";
+
+const edgeKeys = (graph: Graph) =>
+  graph.edges.map((e) => `${e.src}->${e.dst}:${e.type}`).sort();
+
+describe("journal snapshots and recovery", () => {
+  let ws: TestWorkspace;
+
+  async function recoverFromScratch(): Promise<Graph> {
+    await writeFile(path.join(ws.path, ".gotn", "graph.json"), "{ torn");
+    await recoverFromJournal(ws.path);
+    return readGraph(ws.path);
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    ws = await createTestWorkspace();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await ws.cleanup();
+  });
+
+  it("replays the journal after the newest snapshot", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await addNode(ws.path, makeNode("b"));
+    const { snapshot } = await createSnapshot(ws.path);
+    await addNode(ws.path, makeNode("c"));
+    await addEdge(ws.path, makeEdge("a", "c"));
+
+    const tail = await readJournalTail(ws.path);
+    expect(tail.snapshot?.journal_offset).toBe(snapshot.journal_offset);
+    expect(tail.entries.map((e) => e.event)).toEqual(["add_node", "add_edge"]);
+
+    const graph = await recoverFromScratch();
+    expect(graph.nodes.map((n) => n.id).sort()).toEqual(["a", "b", "c"]);
+    expect(edgeKeys(graph)).toEqual(["a->c:hard_requires"]);
+  });
+
+  it("keeps edges of different types between the same nodes", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await addNode(ws.path, makeNode("b"));
+    await addEdge(ws.path, makeEdge("a", "b", "hard_requires"));
+    await createSnapshot(ws.path);
+    await addEdge(ws.path, makeEdge("a", "b", "soft_semantic"));
+
+    const graph = await recoverFromScratch();
+
+    expect(edgeKeys(graph)).toEqual([
+      "a->b:hard_requires",
+      "a->b:soft_semantic",
+    ]);
+  });
+
+  it("compacts the journal and still recovers the same graph", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await addNode(ws.path, makeNode("b"));
+    await addEdge(ws.path, makeEdge("a", "b"));
+    const a = (await readGraph(ws.path)).nodes.find((n) => n.id === "a")!;
+    await updateNode(ws.path, "a", { ...a, summary: "changed" });
+    await createSnapshot(ws.path);
+    await addNode(ws.path, makeNode("c"));
+
+    const result = await compactJournal(ws.path);
+
+    expect(result.entries_kept).toBe(0);
+    expect(result.entries_removed).toBeGreaterThan(0);
+    expect(result.snapshots_removed).toBe(1);
+    expect(await readJournal(ws.path)).toEqual([]);
+    expect(await readdir(path.join(ws.path, ".gotn", "snapshots"))).toEqual([
+      path.basename(result.snapshot_path),
+    ]);
+
+    await addNode(ws.path, makeNode("d"));
+    const graph = await recoverFromScratch();
+    expect(graph.nodes.find((n) => n.id === "a")?.summary).toBe("changed");
+    expect(graph.nodes.map((n) => n.id).sort()).toEqual(["a", "b", "c", "d"]);
+    expect(edgeKeys(graph)).toEqual(["a->b:hard_requires"]);
+  });
+
+  it("falls back to an older snapshot when the newest is corrupt", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await createSnapshot(ws.path);
+    await addNode(ws.path, makeNode("b"));
+    const { path: newest } = await createSnapshot(ws.path);
+    await writeFile(newest, "not json");
+
+    const tail = await readJournalTail(ws.path);
+    expect(tail.snapshot?.graph.nodes.map((n) => n.id)).toEqual(["a"]);
+
+    const graph = await recoverFromScratch();
+    expect(graph.nodes.map((n) => n.id).sort()).toEqual(["a", "b"]);
+  });
+
+  it("snapshots automatically every GOTN_SNAPSHOT_INTERVAL appends", async () => {
+    vi.stubEnv("GOTN_SNAPSHOT_INTERVAL", "2");
+
+    for (const id of ["a", "b", "c", "d"]) {
+      await addNode(ws.path, makeNode(id));
+    }
+
+    const tail = await readJournalTail(ws.path);
+    expect(tail.snapshot?.graph.nodes.length).toBeGreaterThan(0);
+    expect(tail.entries.length).toBeLessThan(2);
+  });
+});
+
+describe("write-ahead journal", () => {
+  let ws: TestWorkspace;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    ws = await createTestWorkspace();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await ws.cleanup();
+  });
+
+  it("numbers entries in order and records the last applied one", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await addNode(ws.path, makeNode("b"));
+    await addEdge(ws.path, makeEdge("a", "b"));
+
+    const seqs = (await readJournal(ws.path)).map((e) => e.seq!);
+
+    expect(seqs).toEqual([...seqs].sort((x, y) => x - y));
+    expect(new Set(seqs).size).toBe(seqs.length);
+    expect((await readGraph(ws.path)).last_applied_seq).toBe(
+      seqs[seqs.length - 1]
+    );
+  });
+
+  it("replays an entry that never reached graph.json", async () => {
+    await addNode(ws.path, makeNode("a"));
+    // A crash after the journal append, before graph.json was written
+    const lost = await appendJournal(ws.path, {
+      event: "add_node",
+      data: { node: makeNode("b") },
+    });
+    expect((await readGraph(ws.path)).nodes.map((n) => n.id)).toEqual(["a"]);
+
+    const replayed = await replayUnappliedEntries(ws.path);
+
+    expect(replayed.map((e) => e.id)).toEqual([lost.id]);
+    const graph = await readGraph(ws.path);
+    expect(graph.nodes.map((n) => n.id)).toEqual(["a", "b"]);
+    expect(graph.last_applied_seq).toBe(lost.seq);
+    expect(await replayUnappliedEntries(ws.path)).toEqual([]);
+  });
+
+  it("replays unapplied entries before the next write", async () => {
+    await appendJournal(ws.path, {
+      event: "add_node",
+      data: { node: makeNode("a") },
+    });
+
+    await addNode(ws.path, makeNode("b"));
+
+    const graph = await readGraph(ws.path);
+    expect(graph.nodes.map((n) => n.id)).toEqual(["a", "b"]);
+  });
+
+  it("drops a torn last line before appending", async () => {
+    await addNode(ws.path, makeNode("a"));
+    const journalPath = path.join(ws.path, ".gotn", "journal.ndjson");
+    await appendFile(journalPath, '{"event":"add_no');
+
+    expect((await readJournal(ws.path)).map((e) => e.event)).toEqual([
+      "add_node",
+    ]);
+
+    await addNode(ws.path, makeNode("b"));
+
+    const lines = (await readFile(journalPath, "utf8")).trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).event)).toEqual([
+      "add_node",
+      "add_node",
+    ]);
+  });
+});
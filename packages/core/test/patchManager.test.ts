@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { existsSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { addNode, readGraph, updateNode } from "../src/fsStore.js";
+import { ArtifactVerifier } from "../src/artifactVerifier.js";
+import { StubCodeGenProvider } from "../src/codeGenProvider.js";
+import { PatchGenerationExecutor } from "../src/nodeExecutor.js";
+import { PatchManager } from "../src/patchManager.js";
+import { Node } from "../src/schemas.js";
+import { createTestWorkspace, makeNode, TestWorkspace } from "./helpers.js";
+
+describe("PatchManager", () => {
+  let ws: TestWorkspace;
+  let runFolder: string;
+  let manager: PatchManager;
+
+  async function nodeOf(id: string): Promise<Node> {
+    return (await readGraph(ws.path)).nodes.find((n) => n.id === id)!;
+  }
+
+  /**
+   * Add a node and write its patch with the stub provider
+   */
+  async function generate(node: Node): Promise<void> {
+    await addNode(ws.path, node);
+    const result = await new PatchGenerationExecutor(
+      new StubCodeGenProvider()
+    ).execute(node, { workspacePath: ws.path, runFolder, runId: "run-test" });
+    expect(result.success).toBe(true);
+  }
+
+  beforeEach(async () => {
+    ws = await createTestWorkspace();
+    runFolder = path.join(ws.path, ".gotn", "runs", "run-test");
+    manager = new PatchManager(ws.path);
+    await mkdir(path.join(ws.path, "src"));
+    await writeFile(path.join(ws.path, "src/app.ts"), "export {};\n");
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await ws.cleanup();
+  });
+
+  it("leaves the workspace alone until the patch is applied", async () => {
+    await generate(makeNode("a", { exec_target: "src/app.ts" }));
+
+    expect(await readFile(path.join(ws.path, "src/app.ts"), "utf8")).toBe(
+      "export {};\n"
+    );
+    expect((await nodeOf("a")).verification).toBeUndefined();
+    expect((await manager.listPatches(runFolder))[0].status).toBe("applicable");
+  });
+
+  it("verifies and completes the node when its patch is applied", async () => {
+    await generate(
+      makeNode("a", {
+        exec_target: "src/app.ts",
+        success_criteria: ["file_contains:src/app.ts:GoTN a"],
+      })
+    );
+
+    const result = await manager.applyPatch(runFolder, "a");
+
+    expect(result.applied).toBe(true);
+    expect(result.verification?.passed).toBe(true);
+    const node = await nodeOf("a");
+    expect(node.status).toBe("completed");
+    expect(node.artifacts.files).toEqual(["src/app.ts"]);
+    expect(node.verification?.checks.map((c) => c.status)).toEqual([
+      "passed",
+      "passed",
+    ]);
+  });
+
+  it("fails the node when the applied work does not verify", async () => {
+    await generate(
+      makeNode("a", {
+        exec_target: "src/app.ts",
+        success_criteria: ["file_exists:dist/app.js"],
+      })
+    );
+
+    const result = await manager.applyPatch(runFolder, "a");
+
+    expect(result.applied).toBe(true);
+    expect(result.verification?.passed).toBe(false);
+    expect((await nodeOf("a")).status).toBe("failed");
+  });
+
+  it("completes the node when it changes while being verified", async () => {
+    await generate(makeNode("a", { exec_target: "src/app.ts" }));
+    const verify = ArtifactVerifier.prototype.verify;
+    let changed = false;
+    vi.spyOn(ArtifactVerifier.prototype, "verify").mockImplementation(
+      async function (this: ArtifactVerifier, node: Node) {
+        if (!changed) {
+          changed = true;
+          const current = await nodeOf("a");
+          await updateNode(ws.path, "a", { ...current, tags: ["edited"] });
+        }
+        return verify.call(this, node);
+      }
+    );
+
+    const result = await manager.applyPatch(runFolder, "a");
+
+    expect(result.applied).toBe(true);
+    expect(result.verification?.passed).toBe(true);
+    const node = await nodeOf("a");
+    expect(node.status).toBe("completed");
+    expect(node.tags).toEqual(["edited"]);
+    expect(node.artifacts.files).toEqual(["src/app.ts"]);
+  });
+
+  it("only checks the patch on a dry run", async () => {
+    await generate(makeNode("a", { exec_target: "src" }));
+
+    const result = await manager.applyPatch(runFolder, "a", { dry_run: true });
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.applied).toBe(false);
+    expect(result.verification).toBeUndefined();
+    expect(existsSync(path.join(ws.path, "src/a.md"))).toBe(false);
+    expect((await nodeOf("a")).status).toBe("ready");
+  });
+
+  it("reverts an applied patch and returns the node to ready", async () => {
+    await generate(makeNode("a", { exec_target: "src" }));
+    await manager.applyPatch(runFolder, "a");
+    expect(existsSync(path.join(ws.path, "src/a.md"))).toBe(true);
+
+    const result = await manager.revertPatch(runFolder, "a");
+
+    expect(result.applied).toBe(true);
+    expect(existsSync(path.join(ws.path, "src/a.md"))).toBe(false);
+    const node = await nodeOf("a");
+    expect(node.status).toBe("ready");
+    expect(node.artifacts.files).toEqual([]);
+    expect((await manager.listPatches(runFolder))[0].status).toBe("applicable");
+  });
+
+  it("refuses to apply a patch twice", async () => {
+    await generate(makeNode("a", { exec_target: "src" }));
+    await manager.applyPatch(runFolder, "a");
+
+    const again = await manager.applyPatch(runFolder, "a");
+
+    expect(again.applied).toBe(false);
+    expect(again.conflicts).toEqual(["Patch for a is applied"]);
+  });
+
+  it.each([
+    ["../escaped.txt"],
+    ["/tmp/escaped.txt"],
+    ["src/../../escaped.txt"],
+    [".gotn/graph.json"],
+  ])("refuses a patch that targets %s", async (target) => {
+    await addNode(ws.path, makeNode("a"));
+    const patchesDir = path.join(runFolder, "patches");
+    await mkdir(patchesDir, { recursive: true });
+    await writeFile(
+      path.join(patchesDir, "a.patch"),
+      `--- /dev/null\n+++ b/${target}\n@@ -0,0 +1 @@\n+escaped\n`
+    );
+
+    await expect(manager.applyPatch(runFolder, "a")).rejects.toThrow(
+      "Refusing to patch outside the workspace"
+    );
+    await expect(manager.listPatches(runFolder)).rejects.toThrow(
+      "Refusing to patch outside the workspace"
+    );
+    expect(existsSync(path.join(path.dirname(ws.path), "escaped.txt"))).toBe(
+      false
+    );
+  });
+
+  it("rejects node ids and run folders that leave the run", async () => {
+    await expect(manager.applyPatch(runFolder, "../a")).rejects.toThrow(
+      "Invalid node id"
+    );
+    await expect(manager.applyPatch(runFolder, "a\\b")).rejects.toThrow(
+      "Invalid node id"
+    );
+    await expect(manager.applyPatch(ws.path, "a")).rejects.toThrow(
+      "Run folder must be inside .gotn/runs"
+    );
+    await expect(
+      manager.listPatches(path.join(".gotn", "runs", "..", ".."))
+    ).rejects.toThrow("Run folder must be inside .gotn/runs");
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { readFile } from "fs/promises";
+import path from "path";
+import { addEdge, addNode } from "../src/fsStore.js";
+import { PlanComposer } from "../src/planComposer.js";
+import {
+  createTestWorkspace,
+  makeEdge,
+  makeNode,
+  TestWorkspace,
+} from "./helpers.js";
+
+// extract -> transform -> load, plus an unrelated report node
+const pipeline = () => [
+  makeNode("extract", { produces: ["raw_data"] }),
+  makeNode("transform", { requires: ["raw_data"], produces: ["clean_data"] }),
+  makeNode("load", {
+    requires: ["clean_data"],
+    produces: ["warehouse_loaded"],
+  }),
+  makeNode("report", { requires: ["warehouse_loaded"], produces: ["report"] }),
+];
+
+describe("PlanComposer.resolveGoal", () => {
+  const composer = new PlanComposer();
+
+  it("pulls in every transitive producer of the target", () => {
+    const result = composer.resolveGoal(pipeline(), [], ["warehouse_loaded"]);
+
+    expect(result.nodes.map((n) => n.id).sort()).toEqual([
+      "extract",
+      "load",
+      "transform",
+    ]);
+    expect(result.unsatisfiable).toEqual([]);
+    expect(result.skipped_completed).toEqual([]);
+  });
+
+  it("reports tags nobody produces", () => {
+    const nodes = [
+      makeNode("load", {
+        requires: ["clean_data", "credentials"],
+        produces: ["warehouse_loaded"],
+      }),
+      makeNode("transform", { produces: ["clean_data"] }),
+    ];
+
+    const result = composer.resolveGoal(nodes, [], ["warehouse_loaded", "x"]);
+
+    expect(result.nodes.map((n) => n.id).sort()).toEqual(["load", "transform"]);
+    expect(result.unsatisfiable.sort()).toEqual(["credentials", "x"]);
+  });
+
+  it("stops at completed producers", () => {
+    const nodes = pipeline();
+    nodes[1] = { ...nodes[1], status: "completed" };
+
+    const result = composer.resolveGoal(nodes, [], ["warehouse_loaded"]);
+
+    expect(result.nodes.map((n) => n.id)).toEqual(["load"]);
+    expect(result.skipped_completed).toEqual(["transform"]);
+  });
+
+  it("follows hard edges back to their sources", () => {
+    const nodes = [
+      makeNode("schema"),
+      makeNode("load", { produces: ["warehouse_loaded"] }),
+    ];
+
+    const result = composer.resolveGoal(
+      nodes,
+      [makeEdge("schema", "load")],
+      ["warehouse_loaded"]
+    );
+
+    expect(result.nodes.map((n) => n.id).sort()).toEqual(["load", "schema"]);
+  });
+
+  it("terminates on requirement cycles", () => {
+    const nodes = [
+      makeNode("a", { requires: ["b_out"], produces: ["a_out"] }),
+      makeNode("b", { requires: ["a_out"], produces: ["b_out"] }),
+    ];
+
+    const result = composer.resolveGoal(nodes, [], ["a_out"]);
+
+    expect(result.nodes.map((n) => n.id).sort()).toEqual(["a", "b"]);
+  });
+});
+
+describe("PlanComposer.composePlan with target_produces", () => {
+  let ws: TestWorkspace;
+
+  beforeEach(async () => {
+    ws = await createTestWorkspace();
+    for (const node of pipeline()) {
+      await addNode(ws.path, node);
+    }
+    await addEdge(ws.path, makeEdge("extract", "transform"));
+    await addEdge(ws.path, makeEdge("transform", "load"));
+    await addEdge(ws.path, makeEdge("load", "report"));
+  });
+
+  afterEach(async () => {
+    await ws.cleanup();
+  });
+
+  it("orders the slice producer first and writes plan.json", async () => {
+    const result = await new PlanComposer(ws.workspace).composePlan({
+      target_produces: ["warehouse_loaded"],
+    });
+
+    expect(result.ordered_node_ids).toEqual(["extract", "transform", "load"]);
+    expect(result.layers).toEqual([["extract"], ["transform"], ["load"]]);
+
+    const plan = JSON.parse(
+      await readFile(path.join(ws.path, result.run_folder, "plan.json"), "utf8")
+    );
+    expect(plan.criteria.target_produces).toEqual(["warehouse_loaded"]);
+    expect(plan.ordered_node_ids).toEqual(result.ordered_node_ids);
+  });
+
+  it("fails when no node produces the target", async () => {
+    await expect(
+      new PlanComposer(ws.workspace).composePlan({
+        target_produces: ["nothing"],
+      })
+    ).rejects.toThrow("No node produces: nothing");
+  });
+});
@@ -0,0 +1,454 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { existsSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import {
+  addEdge,
+  addNode,
+  readGraph,
+  readJournal,
+  removeNode,
+  updateNode,
+} from "../src/fsStore.js";
+import { PatchManager } from "../src/patchManager.js";
+import { PlanRunner } from "../src/planRunner.js";
+import {
+  NodeExecutionResult,
+  NodeExecutor,
+  PatchGenerationExecutor,
+} from "../src/nodeExecutor.js";
+import { createFilePatch, formatPatch } from "../src/unifiedDiff.js";
+import { Node, RunStep } from "../src/schemas.js";
+import {
+  createTestWorkspace,
+  makeEdge,
+  makeNode,
+  TestWorkspace,
+} from "./helpers.js";
+
+interface FakeExecutor extends NodeExecutor {
+  calls: string[];
+  peak: number;
+}
+
+/**
+ * Records calls and peak concurrency; nodes succeed unless impl says otherwise
+ */
+function fakeExecutor(
+  impl?: (node: Node) => Promise<Partial<NodeExecutionResult> | void>
+): FakeExecutor {
+  let active = 0;
+  const executor: FakeExecutor = {
+    name: "fake",
+    calls: [],
+    peak: 0,
+    async execute(node) {
+      executor.calls.push(node.id);
+      active++;
+      executor.peak = Math.max(executor.peak, active);
+      try {
+        await new Promise((r) => setTimeout(r, 10));
+        const result = (await impl?.(node)) || {};
+        return { success: true, message: `ran ${node.id}`, ...result };
+      } finally {
+        active--;
+      }
+    },
+  };
+  return executor;
+}
+
+/**
+ * Writes a patch turning `from` into `to` for src/<node id>.ts, like
+ * PatchGenerationExecutor, without touching the workspace
+ */
+function patchExecutor(from: string | null, to: string): NodeExecutor {
+  return {
+    name: "patch",
+    async execute(node, context) {
+      const file = `src/${node.id}.ts`;
+      const patchPath = path.join(
+        context.runFolder,
+        "patches",
+        `${node.id}.patch`
+      );
+      await mkdir(path.dirname(patchPath), { recursive: true });
+      await writeFile(
+        patchPath,
+        formatPatch([createFilePatch(file, from, to)!])
+      );
+      return {
+        success: true,
+        message: `Patch for ${file} written`,
+        patch_path: patchPath,
+        files: [file],
+      };
+    },
+  };
+}
+
+describe("PlanRunner", () => {
+  let ws: TestWorkspace;
+  const runFolder = path.join(".gotn", "runs", "run-test");
+
+  async function writePlan(layers: string[][]): Promise<void> {
+    const folder = path.join(ws.path, runFolder);
+    await mkdir(folder, { recursive: true });
+    await writeFile(
+      path.join(folder, "plan.json"),
+      JSON.stringify({
+        goal: "test plan",
+        layers_detail: layers.map((nodes, layer) => ({ layer, nodes })),
+      })
+    );
+    await writeFile(path.join(folder, "steps.jsonl"), "");
+  }
+
+  async function readSteps(): Promise<RunStep[]> {
+    const content = await readFile(
+      path.join(ws.path, runFolder, "steps.jsonl"),
+      "utf8"
+    );
+    return content
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+  }
+
+  async function readRunStatus(): Promise<string> {
+    const run = JSON.parse(
+      await readFile(path.join(ws.path, runFolder, "run.json"), "utf8")
+    );
+    return run.status;
+  }
+
+  async function statusOf(id: string): Promise<string | undefined> {
+    const graph = await readGraph(ws.path);
+    return graph.nodes.find((n) => n.id === id)?.status;
+  }
+
+  beforeEach(async () => {
+    ws = await createTestWorkspace();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await ws.cleanup();
+  });
+
+  it("runs the layers in order and records every step", async () => {
+    for (const id of ["a", "b", "c"]) await addNode(ws.path, makeNode(id));
+    await writePlan([["a"], ["b", "c"]]);
+    const executor = fakeExecutor();
+
+    const result = await new PlanRunner(ws.path, executor).run(runFolder);
+
+    expect(result.status).toBe("completed");
+    expect(result.completed).toEqual(["a", "b", "c"]);
+    expect(executor.calls[0]).toBe("a");
+    expect((await readSteps()).map((s) => s.node_id).sort()).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(await statusOf("b")).toBe("completed");
+    expect(await readRunStatus()).toBe("completed");
+
+    const events = (await readJournal(ws.path)).map((e) => e.event);
+    expect(events).toContain("start_run");
+    expect(events[events.length - 1]).toBe("finish_run");
+  });
+
+  it("appends each step as soon as it finishes", async () => {
+    for (const id of ["a", "b"]) await addNode(ws.path, makeNode(id));
+    await writePlan([["a", "b"]]);
+    let seenBeforeB: string[] = [];
+    const executor = fakeExecutor(async (node) => {
+      if (node.id === "b") {
+        seenBeforeB = (await readSteps()).map((s) => s.node_id);
+      }
+    });
+
+    await new PlanRunner(ws.path, executor).run(runFolder, {
+      max_parallel: 1,
+    });
+
+    expect(seenBeforeB).toEqual(["a"]);
+  });
+
+  it("runs a layer concurrently up to max_parallel", async () => {
+    const ids = ["a", "b", "c", "d", "e"];
+    for (const id of ids) await addNode(ws.path, makeNode(id));
+    await writePlan([ids]);
+    const executor = fakeExecutor();
+
+    const result = await new PlanRunner(ws.path, executor).run(runFolder, {
+      max_parallel: 2,
+    });
+
+    expect(executor.peak).toBe(2);
+    // The result lists steps in plan order, not finishing order
+    expect(result.steps.map((s) => s.node_id)).toEqual(ids);
+  });
+
+  it("serialises nodes that share an exec_target", async () => {
+    await addNode(ws.path, makeNode("a", { exec_target: "src/app.ts" }));
+    await addNode(ws.path, makeNode("b", { exec_target: "src/app.ts" }));
+    await writePlan([["a", "b"]]);
+    const executor = fakeExecutor();
+
+    await new PlanRunner(ws.path, executor).run(runFolder, {
+      max_parallel: 4,
+    });
+
+    expect(executor.peak).toBe(1);
+    expect(executor.calls).toEqual(["a", "b"]);
+  });
+
+  it("stops after a failure by default", async () => {
+    for (const id of ["a", "b"]) await addNode(ws.path, makeNode(id));
+    await writePlan([["a"], ["b"]]);
+    const executor = fakeExecutor(async (node) =>
+      node.id === "a" ? { success: false, message: "boom" } : undefined
+    );
+
+    const result = await new PlanRunner(ws.path, executor).run(runFolder);
+
+    expect(result.status).toBe("failed");
+    expect(result.failed).toEqual(["a"]);
+    expect(result.not_run).toEqual(["b"]);
+    expect(await statusOf("a")).toBe("failed");
+  });
+
+  it("blocks dependents of a failed node under on_failure continue", async () => {
+    for (const id of ["a", "b", "c"]) await addNode(ws.path, makeNode(id));
+    await addEdge(ws.path, makeEdge("a", "b"));
+    await writePlan([["a", "c"], ["b"]]);
+    const executor = fakeExecutor(async (node) =>
+      node.id === "a" ? { success: false, message: "boom" } : undefined
+    );
+
+    const result = await new PlanRunner(ws.path, executor).run(runFolder, {
+      on_failure: "continue",
+    });
+
+    expect(result.failed).toEqual(["a"]);
+    expect(result.completed).toEqual(["c"]);
+    expect(result.blocked).toEqual(["b"]);
+    expect(await statusOf("b")).toBe("blocked");
+  });
+
+  it("pauses on request and resumes the remaining nodes", async () => {
+    for (const id of ["a", "b", "c"]) await addNode(ws.path, makeNode(id));
+    await writePlan([["a"], ["b"], ["c"]]);
+    const runner = new PlanRunner(
+      ws.path,
+      fakeExecutor(async (node) => {
+        if (node.id === "a") await runner.requestStop(runFolder, "paused");
+      })
+    );
+
+    const paused = await runner.run(runFolder);
+
+    expect(paused.status).toBe("paused");
+    expect(paused.completed).toEqual(["a"]);
+    expect(paused.not_run).toEqual(["b", "c"]);
+    expect(await readRunStatus()).toBe("paused");
+
+    const resumed = await new PlanRunner(ws.path, fakeExecutor()).resume(
+      runFolder
+    );
+
+    expect(resumed.status).toBe("completed");
+    expect(resumed.already_done).toEqual(["a"]);
+    expect(resumed.completed).toEqual(["b", "c"]);
+  });
+
+  it("keeps a pause requested while the last node runs", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await writePlan([["a"]]);
+    const runner = new PlanRunner(
+      ws.path,
+      fakeExecutor(async () => {
+        await runner.requestStop(runFolder, "paused");
+      })
+    );
+
+    const result = await runner.run(runFolder);
+
+    expect(result.status).toBe("paused");
+    expect(result.completed).toEqual(["a"]);
+    expect(await readRunStatus()).toBe("paused");
+  });
+
+  it("refuses to resume a cancelled run", async () => {
+    for (const id of ["a", "b"]) await addNode(ws.path, makeNode(id));
+    await writePlan([["a"], ["b"]]);
+    const runner = new PlanRunner(
+      ws.path,
+      fakeExecutor(async () => {
+        await runner.requestStop(runFolder, "cancelled");
+      })
+    );
+
+    expect((await runner.run(runFolder)).status).toBe("cancelled");
+    await expect(runner.resume(runFolder)).rejects.toThrow("was cancelled");
+  });
+
+  it("retries a node left running by a crash", async () => {
+    for (const id of ["a", "b"]) await addNode(ws.path, makeNode(id));
+    await writePlan([["a"], ["b"]]);
+    await new PlanRunner(ws.path, fakeExecutor()).run(runFolder);
+
+    // Simulate a crash while b was running, with a torn steps.jsonl tail
+    const graph = await readGraph(ws.path);
+    const b = graph.nodes.find((n) => n.id === "b")!;
+    await updateNode(ws.path, "b", { ...b, status: "running" });
+    const stepsPath = path.join(ws.path, runFolder, "steps.jsonl");
+    const steps = await readSteps();
+    await writeFile(
+      stepsPath,
+      JSON.stringify(steps[0]) + "\n" + JSON.stringify(steps[1]).slice(0, 20)
+    );
+
+    const runner = new PlanRunner(ws.path, fakeExecutor());
+    const state = await runner.inspectRun(runFolder);
+    expect(state.done).toEqual(["a"]);
+    expect(state.interrupted).toEqual(["b"]);
+
+    const executor = fakeExecutor();
+    const resumed = await new PlanRunner(ws.path, executor).resume(runFolder);
+
+    expect(executor.calls).toEqual(["b"]);
+    expect(resumed.completed).toEqual(["b"]);
+    expect(await statusOf("b")).toBe("completed");
+  });
+
+  it("does not overwrite a node changed while it ran", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await writePlan([["a"]]);
+    const executor = fakeExecutor(async (node) => {
+      await updateNode(ws.path, node.id, { ...node, summary: "edited" });
+    });
+
+    const result = await new PlanRunner(ws.path, executor).run(runFolder);
+
+    expect(result.failed).toEqual(["a"]);
+    expect(result.steps[0].reason).toMatch(/expected \d+/);
+    const graph = await readGraph(ws.path);
+    const node = graph.nodes.find((n) => n.id === "a")!;
+    expect(node.summary).toBe("edited");
+    expect(node.status).toBe("running");
+  });
+
+  it("leaves a patch for review and blocks its dependents", async () => {
+    await addNode(ws.path, makeNode("a", { produces: ["a"] }));
+    await addNode(ws.path, makeNode("b", { requires: ["a"] }));
+    await addEdge(ws.path, makeEdge("a", "b"));
+    await writePlan([["a"], ["b"]]);
+    const runner = new PlanRunner(ws.path, patchExecutor(null, "hello\n"));
+
+    const result = await runner.run(runFolder);
+
+    expect(result.status).toBe("paused");
+    expect(result.pending_apply).toEqual(["a"]);
+    expect(result.blocked).toEqual(["b"]);
+    expect(result.steps[0].status).toBe("pending_apply");
+    expect(existsSync(path.join(ws.path, "src/a.ts"))).toBe(false);
+    expect(await statusOf("a")).toBe("pending_apply");
+
+    // Once the patch is applied, the run picks up the dependent
+    const applied = await new PatchManager(ws.path).applyPatch(runFolder, "a");
+    expect(applied.applied).toBe(true);
+    expect(await statusOf("a")).toBe("completed");
+
+    const resumed = await runner.resume(runFolder);
+
+    expect(resumed.status).toBe("paused");
+    expect(resumed.already_done).toEqual(["a"]);
+    expect(resumed.pending_apply).toEqual(["b"]);
+  });
+
+  it("applies a node's patch before verifying it with auto_apply", async () => {
+    await addNode(
+      ws.path,
+      makeNode("a", { success_criteria: ["file_contains:src/a.ts:hello"] })
+    );
+    await writePlan([["a"]]);
+
+    const result = await new PlanRunner(
+      ws.path,
+      patchExecutor(null, "hello\n")
+    ).run(runFolder, { auto_apply: true });
+
+    expect(result.completed).toEqual(["a"]);
+    expect(await readFile(path.join(ws.path, "src/a.ts"), "utf8")).toBe(
+      "hello\n"
+    );
+    const node = (await readGraph(ws.path)).nodes.find((n) => n.id === "a")!;
+    expect(node.status).toBe("completed");
+    expect(node.artifacts.files).toEqual(["src/a.ts"]);
+    expect(node.verification?.passed).toBe(true);
+  });
+
+  it("fails a node whose patch does not apply", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await writePlan([["a"]]);
+    await mkdir(path.join(ws.path, "src"));
+    await writeFile(path.join(ws.path, "src/a.ts"), "edited meanwhile\n");
+
+    const result = await new PlanRunner(
+      ws.path,
+      patchExecutor("original\n", "generated\n")
+    ).run(runFolder, { auto_apply: true });
+
+    expect(result.failed).toEqual(["a"]);
+    expect(result.steps[0].reason).toContain("Patch does not apply");
+    expect(await readFile(path.join(ws.path, "src/a.ts"), "utf8")).toBe(
+      "edited meanwhile\n"
+    );
+    expect(await statusOf("a")).toBe("failed");
+  });
+
+  it("reports why an applied patch left its node unchanged", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await writePlan([["a"]]);
+    const generate = patchExecutor(null, "generated\n");
+
+    const result = await new PlanRunner(ws.path, {
+      name: "patch-then-remove",
+      async execute(node, context) {
+        const generated = await generate.execute(node, context);
+        await removeNode(ws.path, node.id);
+        return generated;
+      },
+    }).run(runFolder, { auto_apply: true });
+
+    expect(result.failed).toEqual(["a"]);
+    expect(result.steps[0].reason).toBe(
+      "Patch applied, but the node was not updated: Node a not found in graph"
+    );
+    expect(await readFile(path.join(ws.path, "src/a.ts"), "utf8")).toBe(
+      "generated\n"
+    );
+  });
+
+  it("fails a node when no code generation provider is configured", async () => {
+    vi.stubEnv("GOTN_CODEGEN_PROVIDER", undefined);
+    vi.stubEnv("OPENAI_API_KEY", undefined);
+    vi.stubEnv("GOTN_LLM_BASE_URL", undefined);
+    await addNode(ws.path, makeNode("a"));
+    await writePlan([["a"]]);
+
+    const result = await new PlanRunner(
+      ws.path,
+      new PatchGenerationExecutor()
+    ).run(runFolder);
+
+    expect(result.failed).toEqual(["a"]);
+    expect(result.steps[0].reason).toContain(
+      "No code generation provider configured"
+    );
+    expect(await statusOf("a")).toBe("failed");
+  });
+});
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { writeFile } from "fs/promises";
+import path from "path";
+import {
+  addEdge,
+  addNode,
+  readGraph,
+  readJournal,
+  recoverFromJournal,
+  removeEdge,
+  removeNode,
+} from "../src/fsStore.js";
+import { Graph } from "../src/schemas.js";
+import {
+  createTestWorkspace,
+  makeEdge,
+  makeNode,
+  TestWorkspace,
+} from "./helpers.js";
+
+const edgeKeys = (graph: Graph) =>
+  graph.edges.map((e) => `${e.src}->${e.dst}:${e.type}`).sort();
+
+describe("node and edge removal", () => {
+  let ws: TestWorkspace;
+
+  async function recoverFromScratch(): Promise<Graph> {
+    await writeFile(path.join(ws.path, ".gotn", "graph.json"), "{ torn");
+    await recoverFromJournal(ws.path);
+    return readGraph(ws.path);
+  }
+
+  /**
+   * root -> mid -> leaf in the hierarchy; up -> mid -> down as hard edges
+   */
+  async function addChain(): Promise<void> {
+    await addNode(ws.path, makeNode("root", { children: ["mid"] }));
+    await addNode(
+      ws.path,
+      makeNode("mid", { parent: "root", children: ["leaf"] })
+    );
+    await addNode(ws.path, makeNode("leaf", { parent: "mid" }));
+    await addNode(ws.path, makeNode("up"));
+    await addNode(ws.path, makeNode("down"));
+    await addEdge(ws.path, makeEdge("up", "mid"));
+    await addEdge(ws.path, makeEdge("mid", "down"));
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    ws = await createTestWorkspace();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await ws.cleanup();
+  });
+
+  it("refuses to remove a node with dependents by default", async () => {
+    await addChain();
+
+    await expect(removeNode(ws.path, "mid")).rejects.toThrow(
+      "has dependents (down, leaf)"
+    );
+    expect((await readGraph(ws.path)).nodes).toHaveLength(5);
+  });
+
+  it("drops incident edges and orphans children", async () => {
+    await addChain();
+
+    await removeNode(ws.path, "mid", { cascade: "drop_edges" });
+
+    const graph = await readGraph(ws.path);
+    expect(graph.nodes.map((n) => n.id).sort()).toEqual([
+      "down",
+      "leaf",
+      "root",
+      "up",
+    ]);
+    expect(graph.edges).toEqual([]);
+    expect(graph.nodes.find((n) => n.id === "leaf")?.parent).toBeUndefined();
+    expect(graph.nodes.find((n) => n.id === "root")?.children).toEqual([]);
+  });
+
+  it("reparents children and bridges dependencies", async () => {
+    await addChain();
+
+    const removal = await removeNode(ws.path, "mid", { cascade: "reparent" });
+
+    const graph = await readGraph(ws.path);
+    expect(graph.nodes.find((n) => n.id === "leaf")?.parent).toBe("root");
+    expect(graph.nodes.find((n) => n.id === "root")?.children).toEqual([
+      "leaf",
+    ]);
+    expect(edgeKeys(graph)).toEqual([
+      "root->leaf:derived_from",
+      "up->down:hard_requires",
+    ]);
+    expect(removal.removed_edges).toHaveLength(2);
+  });
+
+  it("removes only edges of the given type", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await addNode(ws.path, makeNode("b"));
+    await addEdge(ws.path, makeEdge("a", "b", "hard_requires"));
+    await addEdge(ws.path, makeEdge("a", "b", "soft_semantic"));
+
+    const removed = await removeEdge(ws.path, "a", "b", "soft_semantic");
+
+    expect(removed.map((e) => e.type)).toEqual(["soft_semantic"]);
+    expect(edgeKeys(await readGraph(ws.path))).toEqual(["a->b:hard_requires"]);
+    await expect(
+      removeEdge(ws.path, "a", "b", "soft_semantic")
+    ).rejects.toThrow("of type soft_semantic not found");
+  });
+
+  it("replays removals by type during recovery", async () => {
+    await addNode(ws.path, makeNode("a"));
+    await addNode(ws.path, makeNode("b"));
+    await addEdge(ws.path, makeEdge("a", "b", "hard_requires"));
+    await addEdge(ws.path, makeEdge("a", "b", "soft_semantic"));
+    await removeEdge(ws.path, "a", "b", "soft_semantic");
+
+    const graph = await recoverFromScratch();
+
+    expect(edgeKeys(graph)).toEqual(["a->b:hard_requires"]);
+  });
+
+  it("keeps a removed node removed after recovery", async () => {
+    await addChain();
+    await removeNode(ws.path, "mid", { cascade: "reparent" });
+    const before = await readGraph(ws.path);
+
+    const graph = await recoverFromScratch();
+
+    const tombstone = (await readJournal(ws.path)).pop()!;
+    expect(tombstone.event).toBe("remove_node");
+    expect((tombstone.data as any).node.id).toBe("mid");
+    expect(graph.nodes.map((n) => n.id).sort()).toEqual(
+      before.nodes.map((n) => n.id).sort()
+    );
+    expect(edgeKeys(graph)).toEqual(edgeKeys(before));
+    expect(graph.nodes.find((n) => n.id === "leaf")?.parent).toBe("root");
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { extractSymbols } from "../src/symbolExtractor.js";
+
+const source = `
+import express, { Router } from "express";
+import * as db from "./db.js";
+import { log } from "./log.js";
+
+/** Options for the server */
+export interface ServerOptions {
+  port: number;
+}
+
+export type Handler = (req: unknown) => void;
+
+export enum Mode { Dev, Prod }
+
+/**
+ * Start the HTTP server
+ */
+export function start(options: ServerOptions): Router {
+  log("starting");
+  return express().listen(options.port);
+}
+
+export const stop = async (): Promise<void> => {
+  await db.close();
+};
+
+export class Server {
+  constructor(private options: ServerOptions) {}
+}
+
+export const VERSION = "1.0";
+export { helper as assist } from "./helpers.js";
+
+function internal() {}
+`;
+
+describe("extractSymbols", () => {
+  const module = extractSymbols("src/server.ts", source);
+  const symbol = (name: string) => module.symbols.find((s) => s.name === name)!;
+
+  it("finds exported declarations with their kinds", () => {
+    expect(module.symbols.map((s) => [s.name, s.kind])).toEqual([
+      ["ServerOptions", "interface"],
+      ["Handler", "type"],
+      ["Mode", "enum"],
+      ["start", "function"],
+      ["stop", "function"],
+      ["Server", "class"],
+    ]);
+    expect(module.symbols.some((s) => s.name === "internal")).toBe(false);
+  });
+
+  it("records signatures, docs and lines", () => {
+    expect(symbol("start")).toMatchObject({
+      signature: "function start(options: ServerOptions): Router",
+      doc: "Start the HTTP server",
+      line: 18,
+    });
+    expect(symbol("stop").signature).toBe(
+      "const stop = async (): Promise<void> =>"
+    );
+    expect(symbol("ServerOptions").doc).toBe("Options for the server");
+  });
+
+  it("records the imports and exports each symbol uses", () => {
+    expect(symbol("start").imports_used.sort()).toEqual([
+      "Router",
+      "express",
+      "log",
+    ]);
+    expect(symbol("start").symbols_used).toEqual(["ServerOptions"]);
+    expect(symbol("stop").imports_used).toEqual(["db"]);
+    expect(symbol("Server").symbols_used).toEqual(["ServerOptions"]);
+  });
+
+  it("collects import specifiers, bindings and other exports", () => {
+    expect(module.specifiers).toEqual([
+      "express",
+      "./db.js",
+      "./log.js",
+      "./helpers.js",
+    ]);
+    expect(module.bindings).toContainEqual({
+      local: "db",
+      imported: "*",
+      specifier: "./db.js",
+    });
+    expect(module.bindings).toContainEqual({
+      local: "express",
+      imported: "default",
+      specifier: "express",
+    });
+    expect(module.other_exports.sort()).toEqual(["VERSION", "assist"]);
+  });
+
+  it("handles default exports and CommonJS requires in JavaScript", () => {
+    const js = extractSymbols(
+      "src/app.js",
+      "const path = require('path');\nexport default function () { return path.sep; }\n"
+    );
+
+    expect(js.specifiers).toEqual(["path"]);
+    expect(js.symbols).toHaveLength(1);
+    expect(js.symbols[0]).toMatchObject({
+      name: "default",
+      kind: "function",
+      exported_as: ["default"],
+    });
+  });
+});
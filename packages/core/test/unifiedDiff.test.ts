@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  FilePatch,
+  applyFilePatch,
+  createFilePatch,
+  formatPatch,
+  parsePatch,
+  reversePatch,
+} from "../src/unifiedDiff.js";
+
+const lines = (n: number, prefix = "line") =>
+  Array.from({ length: n }, (_, i) => `${prefix} ${i + 1}\n`).join("");
+
+/**
+ * Create, format and parse a patch, then apply it to the old content
+ */
+function roundTrip(
+  oldContent: string | null,
+  newContent: string | null
+): { patch: FilePatch; applied: ReturnType<typeof applyFilePatch> } {
+  const created = createFilePatch("src/file.ts", oldContent, newContent);
+  expect(created).not.toBeNull();
+  const [patch] = parsePatch(formatPatch([created!]));
+  return { patch, applied: applyFilePatch(oldContent, patch) };
+}
+
+describe("unified diff round trip", () => {
+  it("modifies lines in several hunks", () => {
+    const before = lines(30);
+    const after = before
+      .replace("line 2\n", "line two\n")
+      .replace("line 25\n", "line 25\ninserted\n");
+
+    const { patch, applied } = roundTrip(before, after);
+
+    expect(patch.hunks).toHaveLength(2);
+    expect(applied).toEqual({ ok: true, content: after });
+  });
+
+  it("creates and deletes files", () => {
+    const created = roundTrip(null, "new file\n");
+    expect(created.patch.old_path).toBeNull();
+    expect(created.applied).toEqual({ ok: true, content: "new file\n" });
+
+    const deleted = roundTrip("old file\n", null);
+    expect(deleted.patch.new_path).toBeNull();
+    expect(deleted.applied).toEqual({ ok: true, content: null });
+  });
+
+  it("keeps a missing newline at the end of the file", () => {
+    const { applied } = roundTrip("a\nb", "a\nc");
+    expect(applied).toEqual({ ok: true, content: "a\nc" });
+
+    const added = roundTrip("a\nb", "a\nb\n");
+    expect(added.applied).toEqual({ ok: true, content: "a\nb\n" });
+  });
+
+  it("undoes a patch with its reverse", () => {
+    const before = lines(10);
+    const after = before.replace("line 5\n", "");
+    const { patch } = roundTrip(before, after);
+
+    expect(applyFilePatch(after, reversePatch(patch))).toEqual({
+      ok: true,
+      content: before,
+    });
+  });
+
+  it("returns null for identical content", () => {
+    expect(createFilePatch("src/file.ts", "same\n", "same\n")).toBeNull();
+  });
+});
+
+describe("parsePatch", () => {
+  it("reads git-style headers and strips a/ b/ prefixes", () => {
+    const [patch] = parsePatch(
+      [
+        "diff --git a/src/x.ts b/src/x.ts",
+        "index 123..456 100644",
+        "--- a/src/x.ts",
+        "+++ b/src/x.ts",
+        "@@ -1 +1 @@",
+        "-old",
+        "+new",
+        "",
+      ].join("\n")
+    );
+
+    expect(patch.old_path).toBe("src/x.ts");
+    expect(patch.new_path).toBe("src/x.ts");
+    expect(patch.hunks[0]).toMatchObject({ old_lines: 1, new_lines: 1 });
+  });
+
+  it("rejects malformed hunk lines", () => {
+    const text = [
+      "--- a/src/x.ts",
+      "+++ b/src/x.ts",
+      "@@ -1,2 +1,2 @@",
+      " keep",
+      "?broken",
+      "",
+    ].join("\n");
+
+    expect(() => parsePatch(text)).toThrow("Malformed hunk line 5");
+  });
+
+  it("rejects hunks before a file header", () => {
+    expect(() => parsePatch("@@ -1 +1 @@\n-a\n+b\n")).toThrow(
+      "Hunk before file header"
+    );
+  });
+});
+
+describe("applyFilePatch", () => {
+  const patchFor = (before: string | null, after: string | null) =>
+    createFilePatch("src/file.ts", before, after)!;
+
+  it("applies a hunk that moved", () => {
+    const before = lines(10);
+    const patch = patchFor(before, before.replace("line 8\n", "line eight\n"));
+    const shifted = "header 1\nheader 2\n" + before;
+
+    expect(applyFilePatch(shifted, patch)).toEqual({
+      ok: true,
+      content: shifted.replace("line 8\n", "line eight\n"),
+    });
+  });
+
+  it("reports a context mismatch as a conflict", () => {
+    const before = lines(10);
+    const patch = patchFor(before, before.replace("line 5\n", "line five\n"));
+    const edited = before.replace("line 4\n", "line four\n");
+
+    const result = applyFilePatch(edited, patch);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.conflict).toContain(
+      "hunk 1 (line 2) does not match"
+    );
+  });
+
+  it("refuses to create a file that exists or change one that does not", () => {
+    expect(applyFilePatch("there\n", patchFor(null, "new\n"))).toEqual({
+      ok: false,
+      conflict: "src/file.ts already exists",
+    });
+    expect(applyFilePatch(null, patchFor("a\n", "b\n"))).toEqual({
+      ok: false,
+      conflict: "src/file.ts does not exist",
+    });
+  });
+
+  it("refuses to delete a file with content the patch does not cover", () => {
+    const result = applyFilePatch("a\nextra\n", patchFor("a\n", null));
+
+    expect(result.ok).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readdir } from "fs/promises";
+import path from "path";
+import { readGraph, readJournal } from "../src/fsStore.js";
+import { createTestWorkspace, makeNode, TestWorkspace } from "./helpers.js";
+
+describe("vector search with local embeddings", () => {
+  let ws: TestWorkspace;
+
+  const similar = [
+    makeNode("parse_json", {
+      summary: "Parse the JSON config file",
+      prompt_text: "Read the config file and parse it as JSON",
+    }),
+    makeNode("parse_yaml", {
+      summary: "Parse the YAML config file",
+      prompt_text: "Read the config file and parse it as YAML",
+    }),
+  ];
+  const unrelated = makeNode("chart", {
+    summary: "Render a bar chart of monthly sales",
+    prompt_text: "Draw the dashboard widget with sales totals",
+  });
+
+  async function cachedVectors(): Promise<string[]> {
+    const dir = path.join(ws.path, ".gotn/cache/embeddings/local_ngram_256");
+    return readdir(dir).catch(() => []);
+  }
+
+  async function spyOnEmbedder() {
+    const { embedder } = await ws.workspace.getVectorComponents();
+    return {
+      embed: vi.spyOn(embedder!, "embed"),
+      embedBatch: vi.spyOn(embedder!, "embedBatch"),
+    };
+  }
+
+  beforeEach(async () => {
+    vi.stubEnv("GOTN_EMBED_PROVIDER", "local");
+    vi.stubEnv("GOTN_EMBED_DIM", "256");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    ws = await createTestWorkspace();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await ws.cleanup();
+  });
+
+  it("writes embedding_ref in the same version as the content", async () => {
+    const store = ws.workspace.getNodeStore();
+
+    const created = await store.createNode(similar[0]);
+    const updated = await store.updateNode({
+      ...created,
+      summary: "Parse the TOML config file",
+    });
+
+    expect(created.embedding_ref?.id).toBe(created.id);
+    expect(updated.version).toBe(created.version + 1);
+    expect(updated.embedding_ref?.content_hash).not.toBe(
+      created.embedding_ref?.content_hash
+    );
+    const writes = (await readJournal(ws.path)).filter(
+      (e) => e.event === "add_node" || e.event === "update_node"
+    );
+    expect(writes.map((e) => e.event)).toEqual(["add_node", "update_node"]);
+    const history = await store.getNodeHistory(created.id);
+    expect(history).toHaveLength(2);
+  });
+
+  it("embeds created nodes and finds them by text", async () => {
+    const store = ws.workspace.getNodeStore();
+    const { created } = await store.createNodes([...similar, unrelated]);
+
+    expect(created.every((n) => n.embedding_ref?.id === n.id)).toBe(true);
+    const results = await store.searchNodesByText("monthly sales chart", 2);
+    expect(results[0]).toMatchObject({
+      id: "chart",
+      summary: unrelated.summary,
+    });
+  });
+
+  it("infers soft edges between similar nodes from the stored vectors", async () => {
+    await ws.workspace.getNodeStore().createNodes([...similar, unrelated]);
+    const nodes = (await readGraph(ws.path)).nodes;
+
+    const edges = await ws.workspace
+      .getEdgeEngine()
+      .inferSoftEdges(nodes, 1, 0.5);
+
+    expect(edges.map((e) => `${e.src}->${e.dst}`).sort()).toEqual([
+      "parse_json->parse_yaml",
+      "parse_yaml->parse_json",
+    ]);
+    expect(edges.every((e) => e.type === "soft_semantic")).toBe(true);
+  });
+
+  it("caches vectors and reuses them instead of embedding again", async () => {
+    const store = ws.workspace.getNodeStore();
+    await store.createNodes([...similar, unrelated]);
+    expect(await cachedVectors()).toHaveLength(3);
+    const nodes = (await readGraph(ws.path)).nodes;
+    const spies = await spyOnEmbedder();
+
+    const vectors = await store.getNodeVectors(nodes);
+    await store.updateNode({ ...nodes[0], status: "running" });
+    await ws.workspace.getEdgeEngine().inferSoftEdges(nodes, 1, 0.5);
+
+    expect(vectors.size).toBe(3);
+    expect(spies.embed).not.toHaveBeenCalled();
+    expect(spies.embedBatch).not.toHaveBeenCalled();
+  });
+
+  it("leaves a node unembedded when the embedder returns no vector", async () => {
+    const store = ws.workspace.getNodeStore();
+    const spies = await spyOnEmbedder();
+    spies.embedBatch.mockResolvedValueOnce([[]]);
+    // A store that would accept the empty vector, unlike the memory store
+    const { vectorStore } = await ws.workspace.getVectorComponents();
+    const upsert = vi.spyOn(vectorStore!, "upsert");
+    upsert.mockResolvedValueOnce();
+
+    const created = await store.createNode(similar[0]);
+
+    expect(upsert).not.toHaveBeenCalled();
+    expect(created.embedding_ref).toBeUndefined();
+    expect(created.version).toBe(similar[0].version);
+    expect(await cachedVectors()).toEqual([]);
+
+    // The next store embeds it
+    const updated = await store.updateNode(created);
+    expect(updated.embedding_ref?.id).toBe(created.id);
+    expect(await cachedVectors()).toHaveLength(1);
+  });
+});
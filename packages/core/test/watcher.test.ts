@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import { addNode, readGraph } from "../src/fsStore.js";
+import { ArtifactVerifier } from "../src/artifactVerifier.js";
+import { codeNodeId } from "../src/indexer.js";
+import { WatchBatchResult, WorkspaceWatcher } from "../src/watcher.js";
+import { createTestWorkspace, makeNode, TestWorkspace } from "./helpers.js";
+
+describe("WorkspaceWatcher", () => {
+  let ws: TestWorkspace;
+  let watcher: WorkspaceWatcher;
+
+  const write = async (file: string, content: string) => {
+    await mkdir(path.dirname(path.join(ws.path, file)), { recursive: true });
+    await writeFile(path.join(ws.path, file), content);
+  };
+
+  async function statusOf(id: string): Promise<string | undefined> {
+    return (await readGraph(ws.path)).nodes.find((n) => n.id === id)?.status;
+  }
+
+  /**
+   * A completed node whose verification recorded the current hash of file
+   */
+  async function addVerifiedNode(id: string, file: string): Promise<void> {
+    const node = makeNode(id, {
+      status: "completed",
+      artifacts: { files: [file], outputs: [], dependencies: [] },
+    });
+    const verification = await new ArtifactVerifier(ws.path).verify(node);
+    await addNode(ws.path, { ...node, verification });
+  }
+
+  /**
+   * Watch the workspace without processing events, so each test drives
+   * processChanges itself
+   */
+  const watchIdle = () => watcher.start({ debounce_ms: 60_000 });
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    ws = await createTestWorkspace();
+    watcher = new WorkspaceWatcher(ws.workspace);
+    await write("src/a.ts", "export function a() {}\n");
+    await write("src/b.ts", "export function b() {}\n");
+    await ws.workspace.getIndexer().index();
+  });
+
+  afterEach(async () => {
+    await watcher.stop();
+    vi.restoreAllMocks();
+    await ws.cleanup();
+  });
+
+  it("re-indexes a changed file and marks nodes built on it stale", async () => {
+    watchIdle();
+    await addVerifiedNode("uses_a", "src/a.ts");
+    await addVerifiedNode("uses_b", "src/b.ts");
+    await write("src/a.ts", "export function a(x: number) {}\n");
+
+    const result = await watcher.processChanges(["src/a.ts"]);
+
+    expect(result.indexed_files).toEqual(["src/a.ts"]);
+    expect(result.stale_node_ids).toEqual(["uses_a"]);
+    expect(await statusOf("uses_a")).toBe("stale");
+    expect(await statusOf("uses_b")).toBe("completed");
+  });
+
+  it("leaves nodes alone when the file content is unchanged", async () => {
+    watchIdle();
+    await addVerifiedNode("uses_a", "src/a.ts");
+
+    const result = await watcher.processChanges(["src/a.ts"]);
+
+    expect(result.changed_files).toEqual(["src/a.ts"]);
+    expect(result.indexed_files).toEqual([]);
+    expect(result.stale_node_ids).toEqual([]);
+    expect(await statusOf("uses_a")).toBe("completed");
+  });
+
+  it("removes the nodes of a deleted file", async () => {
+    watchIdle();
+    await addVerifiedNode("uses_b", "src/b.ts");
+    await rm(path.join(ws.path, "src/b.ts"));
+
+    const result = await watcher.processChanges(["src/b.ts"]);
+
+    expect(result.removed_node_ids).toContain(codeNodeId("src/b.ts"));
+    expect(await statusOf(codeNodeId("src/b.ts"))).toBeUndefined();
+    expect(result.stale_node_ids).toEqual(["uses_b"]);
+  });
+
+  it("skips ignored paths and re-indexes when .gitignore changes", async () => {
+    watchIdle();
+    await write(".gitignore", "src/b.ts\n");
+    await write("src/b.ts", "export function b2() {}\n");
+
+    const ignored = await watcher.processChanges(["src/b.ts"]);
+    expect(ignored.changed_files).toEqual([]);
+
+    const result = await watcher.processChanges([".gitignore"]);
+
+    expect(result.changed_files).toEqual(["."]);
+    expect(result.removed_node_ids).toContain(codeNodeId("src/b.ts"));
+    expect(await statusOf(codeNodeId("src/a.ts"))).toBe("completed");
+  });
+
+  it("processes file system changes after they settle", async () => {
+    const batch = new Promise<WatchBatchResult>((resolve) => {
+      watcher.start({ roots: ["src"], debounce_ms: 50, on_batch: resolve });
+    });
+    expect(watcher.status().running).toBe(true);
+
+    await write("src/c.ts", "export function c() {}\n");
+
+    const result = await batch;
+    expect(result.indexed_files).toEqual(["src/c.ts"]);
+    expect(await statusOf(codeNodeId("src/c.ts"))).toBe("completed");
+    expect((await watcher.stop()).running).toBe(false);
+  });
+});
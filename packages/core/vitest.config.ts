@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "url";
+
+export default defineConfig({
+  resolve: {
+    // Test against the vec sources, so they need no build first
+    alias: {
+      "@gotn/vec": fileURLToPath(
+        new URL("../vec/src/index.ts", import.meta.url)
+      ),
+    },
+  },
+  test: {
+    environment: "node",
+    testTimeout: 30000,
+    hookTimeout: 10000,
+    // Never call a remote embedding API from the tests
+    env: { GOTN_EMBED_PROVIDER: "local" },
+  },
+});
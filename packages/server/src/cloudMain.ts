@@ -303,6 +303,10 @@ async function handleBreakdownPrompt(args: {
               nodes_created: result.nodes.length,
               edges_created: result.edges.length,
               root_id: result.root_id,
+              repair_attempts: result.repair_attempts,
+              validation_report: result.report.filter(
+                (r) => r.rejected || r.coerced.length || r.dropped.length
+              ),
               storage: "cloud",
               timestamp: new Date().toISOString(),
             },
@@ -42,16 +42,24 @@ import {
 import {
   getCloudStore,
   CloudStore,
-  getEdgeEngine,
   EdgeEngine,
-  getBreakdownEngine,
   BreakdownEngine,
-  getPlanComposer,
   PlanComposer,
-  getGuardEngine,
+  getNodeExecutor,
   GuardEngine,
-  getLogger,
-  getMetrics,
+  Verification,
+  openWorkspace,
+  initStore,
+  isInitialized,
+  readGraph,
+  appendJournal,
+  recoverFromJournal,
+  compactJournal,
+  replayUnappliedEntries,
+  migrateEdgeDirection,
+  NodeCascade,
+  getNodeHistory,
+  NodeVersionConflictError,
 } from "@gotn/core";
 
 const server = new Server(
@@ -105,6 +113,16 @@ const GOTN_TOOLS = [
           type: "string",
           description: "Project identifier",
         },
+        expected_version: {
+          type: "number",
+          description:
+            "Update the stored node only if it is still at this version; otherwise a conflict is returned with the current node",
+        },
+        merge: {
+          type: "boolean",
+          description:
+            "On a version conflict, merge changes to different fields (tags and other lists merge as sets) instead of failing (default: false)",
+        },
       },
       required: ["node", "project_id"],
     },
@@ -171,6 +189,54 @@ const GOTN_TOOLS = [
       required: ["project_id", "prompt"],
     },
   },
+  {
+    name: "gotn_refine_node",
+    description:
+      "Breaks an existing node down further into children until nodes are atomic",
+    inputSchema: {
+      type: "object",
+      properties: {
+        node_id: {
+          type: "string",
+          description: "ID of the node to refine",
+        },
+        project_id: {
+          type: "string",
+          description: "Project identifier (optional, defaults to 'default')",
+        },
+        max_nodes: {
+          type: "number",
+          description: "Maximum number of children to create per node",
+          default: 8,
+        },
+        recursive: {
+          type: "boolean",
+          description: "Keep refining children that are still not atomic",
+          default: false,
+        },
+        force: {
+          type: "boolean",
+          description: "Refine even if the node already looks atomic",
+          default: false,
+        },
+        max_words: {
+          type: "number",
+          description:
+            "Atomicity threshold: estimated prompt size in words (optional)",
+        },
+        max_depth: {
+          type: "number",
+          description: "Atomicity threshold: maximum tree depth (optional)",
+        },
+        workspace_path: {
+          type: "string",
+          description:
+            "Path to the workspace (optional, defaults to current directory)",
+        },
+      },
+      required: ["node_id"],
+    },
+  },
   {
     name: "gotn_compose_plan",
     description: "Produces a safe ordered plan and writes a run folder",
@@ -191,6 +257,12 @@ const GOTN_TOOLS = [
           items: { type: "string" },
           description: "Produced tags to filter nodes (optional)",
         },
+        target_produces: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Goal mode: plan every transitive producer needed to reach these artifacts, skipping completed ones (optional, overrides requires/produces)",
+        },
         workspace_path: {
           type: "string",
           description:
@@ -202,7 +274,8 @@ const GOTN_TOOLS = [
   },
   {
     name: "gotn_execute_node",
-    description: "Evaluates guards then writes a patch stub when proceeding",
+    description:
+      "Evaluates guards, then generates a unified diff for the node into a run folder of its own; gotn_apply_patch applies it and completes the node",
     inputSchema: {
       type: "object",
       properties: {
@@ -210,6 +283,193 @@ const GOTN_TOOLS = [
           type: "string",
           description: "ID of node to execute",
         },
+        run_folder: {
+          type: "string",
+          description:
+            "Existing run folder inside .gotn/runs to write the patch to (optional, defaults to a new exec-<timestamp> folder)",
+        },
+        workspace_path: {
+          type: "string",
+          description:
+            "Path to the workspace (optional, defaults to current directory)",
+        },
+      },
+      required: ["node_id"],
+    },
+  },
+  {
+    name: "gotn_run_plan",
+    description:
+      "Executes a composed plan layer by layer, generating each node's patch and leaving it for review with gotn_apply_patch (or applying and verifying it with auto_apply), and records every step in the run folder",
+    inputSchema: {
+      type: "object",
+      properties: {
+        run_folder: {
+          type: "string",
+          description:
+            "Run folder returned by gotn_compose_plan (optional, defaults to the latest run)",
+        },
+        on_failure: {
+          type: "string",
+          enum: ["stop", "continue"],
+          description:
+            "Stop at the first failure, or continue and block only dependents of failed nodes (default: stop)",
+        },
+        max_parallel: {
+          type: "number",
+          description:
+            "Max nodes executed at once within a layer; nodes sharing an exec_target always run one at a time (optional, default: GOTN_RUN_CONCURRENCY or 4)",
+        },
+        auto_apply: {
+          type: "boolean",
+          description:
+            "Apply and verify each generated patch instead of leaving it pending gotn_apply_patch (optional, default: false)",
+        },
+        workspace_path: {
+          type: "string",
+          description:
+            "Path to the workspace (optional, defaults to current directory)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "gotn_resume_run",
+    description:
+      "Resumes a crashed, failed or paused run, keeping completed and skipped nodes and retrying interrupted ones",
+    inputSchema: {
+      type: "object",
+      properties: {
+        run_folder: {
+          type: "string",
+          description:
+            "Run folder to resume (optional, defaults to the latest run)",
+        },
+        on_failure: {
+          type: "string",
+          enum: ["stop", "continue"],
+          description:
+            "Stop at the first failure, or continue and block only dependents of failed nodes (default: stop)",
+        },
+        max_parallel: {
+          type: "number",
+          description:
+            "Max nodes executed at once within a layer (optional, default: GOTN_RUN_CONCURRENCY or 4)",
+        },
+        auto_apply: {
+          type: "boolean",
+          description:
+            "Apply and verify each generated patch instead of leaving it pending gotn_apply_patch (optional, default: false)",
+        },
+        workspace_path: {
+          type: "string",
+          description:
+            "Path to the workspace (optional, defaults to current directory)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "gotn_stop_run",
+    description:
+      "Pauses or cancels an active run; nodes already started finish, no new ones start",
+    inputSchema: {
+      type: "object",
+      properties: {
+        run_folder: {
+          type: "string",
+          description:
+            "Run folder to stop (optional, defaults to the latest run)",
+        },
+        mode: {
+          type: "string",
+          enum: ["pause", "cancel"],
+          description:
+            "pause keeps the run resumable, cancel ends it for good (default: pause)",
+        },
+        workspace_path: {
+          type: "string",
+          description:
+            "Path to the workspace (optional, defaults to current directory)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "gotn_list_patches",
+    description:
+      "Lists the patches produced by a run and whether each is applicable, applied or conflicting",
+    inputSchema: {
+      type: "object",
+      properties: {
+        run_folder: {
+          type: "string",
+          description:
+            "Run folder to list (optional, defaults to the latest run)",
+        },
+        workspace_path: {
+          type: "string",
+          description:
+            "Path to the workspace (optional, defaults to current directory)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "gotn_apply_patch",
+    description:
+      "Applies a node's patch to the workspace, then verifies the node and marks it completed or failed; refuses on conflicts and writes nothing",
+    inputSchema: {
+      type: "object",
+      properties: {
+        node_id: {
+          type: "string",
+          description: "ID of the node whose patch to apply",
+        },
+        run_folder: {
+          type: "string",
+          description:
+            "Run folder holding the patch (optional, defaults to the latest run)",
+        },
+        dry_run: {
+          type: "boolean",
+          description:
+            "Only check that the patch applies cleanly, without writing (default: false)",
+        },
+        workspace_path: {
+          type: "string",
+          description:
+            "Path to the workspace (optional, defaults to current directory)",
+        },
+      },
+      required: ["node_id"],
+    },
+  },
+  {
+    name: "gotn_revert_patch",
+    description:
+      "Reverts a previously applied node patch and returns the node to ready",
+    inputSchema: {
+      type: "object",
+      properties: {
+        node_id: {
+          type: "string",
+          description: "ID of the node whose patch to revert",
+        },
+        run_folder: {
+          type: "string",
+          description:
+            "Run folder holding the patch (optional, defaults to the latest run)",
+        },
+        dry_run: {
+          type: "boolean",
+          description:
+            "Only check that the patch reverts cleanly, without writing (default: false)",
+        },
         workspace_path: {
           type: "string",
           description:
@@ -292,6 +552,100 @@ const GOTN_TOOLS = [
       required: [],
     },
   },
+  {
+    name: "gotn_compact_journal",
+    description:
+      "Snapshots the graph and truncates journal entries the snapshot covers, so recovery replays less",
+    inputSchema: {
+      type: "object",
+      properties: {
+        snapshot: {
+          type: "boolean",
+          description:
+            "Take a fresh snapshot first; false compacts against the newest existing one (default: true)",
+        },
+        workspace_path: {
+          type: "string",
+          description:
+            "Path to the workspace (optional, defaults to current directory)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "gotn_delete_node",
+    description:
+      "Removes a node, its incident edges and its vector; the journal keeps a tombstone of everything removed",
+    inputSchema: {
+      type: "object",
+      properties: {
+        node_id: {
+          type: "string",
+          description: "ID of the node to delete",
+        },
+        cascade: {
+          type: "string",
+          enum: ["refuse", "drop_edges", "reparent"],
+          description:
+            "refuse fails if consumers or children depend on the node; drop_edges drops its edges and orphans children; reparent moves children to its parent and links producers to consumers (default: refuse)",
+        },
+        workspace_path: {
+          type: "string",
+          description:
+            "Path to the workspace (optional, defaults to current directory)",
+        },
+      },
+      required: ["node_id"],
+    },
+  },
+  {
+    name: "gotn_node_history",
+    description:
+      "Lists every recorded version of a node from the journal with field-level changes between versions",
+    inputSchema: {
+      type: "object",
+      properties: {
+        node_id: {
+          type: "string",
+          description: "ID of the node",
+        },
+        workspace_path: {
+          type: "string",
+          description:
+            "Path to the workspace (optional, defaults to current directory)",
+        },
+      },
+      required: ["node_id"],
+    },
+  },
+  {
+    name: "gotn_watch",
+    description:
+      "Starts, stops or reports a watcher that re-indexes changed code and marks nodes targeting changed files as stale",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["start", "stop", "status"],
+          description: "What to do with the watcher (default: start)",
+        },
+        roots: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Directories to watch, relative to the workspace (optional, defaults to all of it)",
+        },
+        workspace_path: {
+          type: "string",
+          description:
+            "Path to the workspace (optional, defaults to current directory)",
+        },
+      },
+      required: [],
+    },
+  },
 ] as const;
 
 // Register list tools handler
@@ -313,12 +667,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
     switch (name) {
       case "gotn_index_workspace":
-        result = await handleIndexWorkspace(args as { workspace_path: string });
+        result = await handleIndexWorkspace(
+          args as { workspace_path: string; roots?: string[] }
+        );
         break;
 
       case "gotn_store_node":
         result = await handleStoreNode(
-          args as { node: any; workspace_path?: string }
+          args as {
+            node: any;
+            expected_version?: number;
+            merge?: boolean;
+            workspace_path?: string;
+          }
         );
         break;
 
@@ -341,12 +702,28 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         );
         break;
 
+      case "gotn_refine_node":
+        result = await handleRefineNode(
+          args as {
+            node_id: string;
+            project_id?: string;
+            max_nodes?: number;
+            recursive?: boolean;
+            force?: boolean;
+            max_words?: number;
+            max_depth?: number;
+            workspace_path?: string;
+          }
+        );
+        break;
+
       case "gotn_compose_plan":
         result = await handleComposePlan(
           args as {
             goal?: string;
             requires?: string[];
             produces?: string[];
+            target_produces?: string[];
             workspace_path?: string;
           }
         );
@@ -354,7 +731,75 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case "gotn_execute_node":
         result = await handleExecuteNode(
-          args as { node_id: string; workspace_path?: string }
+          args as {
+            node_id: string;
+            run_folder?: string;
+            workspace_path?: string;
+          }
+        );
+        break;
+
+      case "gotn_run_plan":
+        result = await handleRunPlan(
+          args as {
+            run_folder?: string;
+            on_failure?: "stop" | "continue";
+            max_parallel?: number;
+            auto_apply?: boolean;
+            workspace_path?: string;
+          }
+        );
+        break;
+
+      case "gotn_resume_run":
+        result = await handleResumeRun(
+          args as {
+            run_folder?: string;
+            on_failure?: "stop" | "continue";
+            max_parallel?: number;
+            auto_apply?: boolean;
+            workspace_path?: string;
+          }
+        );
+        break;
+
+      case "gotn_stop_run":
+        result = await handleStopRun(
+          args as {
+            run_folder?: string;
+            mode?: "pause" | "cancel";
+            workspace_path?: string;
+          }
+        );
+        break;
+
+      case "gotn_list_patches":
+        result = await handleListPatches(
+          args as { run_folder?: string; workspace_path?: string }
+        );
+        break;
+
+      case "gotn_apply_patch":
+        result = await handlePatchAction(
+          "gotn_apply_patch",
+          args as {
+            node_id: string;
+            run_folder?: string;
+            dry_run?: boolean;
+            workspace_path?: string;
+          }
+        );
+        break;
+
+      case "gotn_revert_patch":
+        result = await handlePatchAction(
+          "gotn_revert_patch",
+          args as {
+            node_id: string;
+            run_folder?: string;
+            dry_run?: boolean;
+            workspace_path?: string;
+          }
         );
         break;
 
@@ -378,6 +823,38 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         result = await handleRecover(args as { workspace_path?: string });
         break;
 
+      case "gotn_compact_journal":
+        result = await handleCompactJournal(
+          args as { snapshot?: boolean; workspace_path?: string }
+        );
+        break;
+
+      case "gotn_delete_node":
+        result = await handleDeleteNode(
+          args as {
+            node_id: string;
+            cascade?: NodeCascade;
+            workspace_path?: string;
+          }
+        );
+        break;
+
+      case "gotn_node_history":
+        result = await handleNodeHistory(
+          args as { node_id: string; workspace_path?: string }
+        );
+        break;
+
+      case "gotn_watch":
+        result = await handleWatch(
+          args as {
+            action?: "start" | "stop" | "status";
+            roots?: string[];
+            workspace_path?: string;
+          }
+        );
+        break;
+
       default:
         result = {
           ok: false,
@@ -416,8 +893,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 });
 
 // Tool handler implementations
-async function handleIndexWorkspace(args: { workspace_path: string }) {
-  const { workspace_path } = args;
+async function handleIndexWorkspace(args: {
+  workspace_path: string;
+  roots?: string[];
+}) {
+  const { workspace_path, roots } = args;
 
   log(`Initializing workspace: ${workspace_path}`);
 
@@ -429,6 +909,32 @@ async function handleIndexWorkspace(args: { workspace_path: string }) {
 
     // Check if graph.json exists and is valid, recover if needed
     try {
+      // Bring legacy consumer -> producer hard edges up to date
+      const migration = await migrateEdgeDirection(workspace_path);
+      if (migration.graph_edges_flipped > 0) {
+        log(
+          `Migrated ${migration.graph_edges_flipped} hard edges to producer -> consumer direction`
+        );
+      }
+      if (migration.ambiguous_edges.length > 0) {
+        log(
+          `Left ${migration.ambiguous_edges.length} hard edges that may be reversed: ${migration.ambiguous_edges.join(", ")}`
+        );
+      }
+
+      const replayed = await replayUnappliedEntries(workspace_path);
+      if (replayed.length > 0) {
+        log(`Replayed ${replayed.length} unapplied journal entries`);
+      }
+
+      // Re-index; files whose content hash is unchanged are skipped
+      const index = await openWorkspace(workspace_path)
+        .getIndexer()
+        .index({ roots });
+      log(
+        `Re-indexed ${index.indexed_files.length} files (${index.unchanged_files.length} unchanged)`
+      );
+
       const graph = await readGraph(workspace_path);
 
       return {
@@ -438,6 +944,9 @@ async function handleIndexWorkspace(args: { workspace_path: string }) {
         workspace_path,
         nodes_count: graph.nodes.length,
         edges_count: graph.edges.length,
+        edge_migration: migration,
+        replayed_entries: replayed.length,
+        index,
         timestamp: new Date().toISOString(),
       };
     } catch (error: any) {
@@ -489,12 +998,13 @@ async function handleIndexWorkspace(args: { workspace_path: string }) {
     data: { workspace_path },
   });
 
-  // Run minimal indexer
-  const indexResult = await runMinimalIndexer(workspace_path);
+  const index = await openWorkspace(workspace_path)
+    .getIndexer()
+    .index({ roots });
 
   log(`Successfully initialized workspace: ${workspace_path}`);
   log(
-    `Indexed ${indexResult.deps_nodes} dependency nodes and ${indexResult.code_nodes} code symbol nodes`
+    `Indexed ${index.deps_nodes} dependency nodes and ${index.code_nodes} code symbol nodes`
   );
 
   return {
@@ -511,15 +1021,21 @@ async function handleIndexWorkspace(args: { workspace_path: string }) {
       ".gotn/runs/",
       ".gotn/cache/",
     ],
-    indexed_files: indexResult.indexed_files,
-    deps_nodes: indexResult.deps_nodes,
-    code_nodes: indexResult.code_nodes,
+    indexed_files: index.indexed_files,
+    deps_nodes: index.deps_nodes,
+    code_nodes: index.code_nodes,
+    edges_created: index.edges_added,
     timestamp: new Date().toISOString(),
   };
 }
 
-async function handleStoreNode(args: { node: any; workspace_path?: string }) {
-  const { node, workspace_path } = args;
+async function handleStoreNode(args: {
+  node: any;
+  expected_version?: number;
+  merge?: boolean;
+  workspace_path?: string;
+}) {
+  const { node, expected_version, merge = false, workspace_path } = args;
 
   // Use current directory as default workspace if not provided
   const workspacePath = workspace_path || process.cwd();
@@ -534,30 +1050,45 @@ async function handleStoreNode(args: { node: any; workspace_path?: string }) {
       );
     }
 
-    // Change to workspace directory for NodeStore operations
-    const originalCwd = process.cwd();
-    process.chdir(workspacePath);
+    const workspace = openWorkspace(workspacePath);
 
+    // Use NodeStore for full node storage with embeddings
+    const nodeStore = workspace.getNodeStore();
+    let stored;
     try {
-      // Use NodeStore for full node storage with embeddings
-      const nodeStore = getNodeStore();
-      await nodeStore.storeNode(node);
-
-      log(`Successfully stored node: ${node.id} with embedding`);
+      stored = await nodeStore.upsertNode(node, { expected_version, merge });
+    } catch (error) {
+      if (!(error instanceof NodeVersionConflictError)) throw error;
 
+      // A conflict is an answer, not a failure: hand back the current node
+      log(`Version conflict storing node ${node.id}: ${error.message}`);
       return {
-        ok: true,
+        ok: false,
         tool: "gotn_store_node",
-        message: "Node stored successfully with embedding",
-        node_id: node.id,
+        error: "version_conflict",
+        message: error.message,
+        node_id: error.nodeId,
         workspace_path: workspacePath,
-        embedding_created: true,
+        expected_version: error.expectedVersion,
+        current_version: error.current.version,
+        conflicting_fields: error.conflictingFields,
+        current_node: error.current,
         timestamp: new Date().toISOString(),
       };
-    } finally {
-      // Restore original working directory
-      process.chdir(originalCwd);
     }
+
+    log(`Successfully stored node: ${node.id} with embedding`);
+
+    return {
+      ok: true,
+      tool: "gotn_store_node",
+      message: "Node stored successfully with embedding",
+      node_id: node.id,
+      version: stored.version,
+      workspace_path: workspacePath,
+      embedding_created: stored.embedding_ref !== undefined,
+      timestamp: new Date().toISOString(),
+    };
   } catch (error: any) {
     log(`Failed to store node: ${error.message}`);
     throw error;
@@ -587,47 +1118,40 @@ async function handleInferEdges(args: {
       );
     }
 
-    // Change to workspace directory for EdgeEngine operations
-    const originalCwd = process.cwd();
-    process.chdir(workspacePath);
+    const workspace = openWorkspace(workspacePath);
 
-    try {
-      // Use EdgeEngine for edge inference
-      const edgeEngine = getEdgeEngine();
-      const result = await edgeEngine.inferEdges(node_ids);
+    // Use EdgeEngine for edge inference
+    const edgeEngine = workspace.getEdgeEngine();
+    const result = await edgeEngine.inferEdges(node_ids);
 
-      log(
-        `Successfully inferred ${result.totalEdgesCreated} edges (${result.hardEdges.length} hard, ${result.softEdges.length} soft)`
-      );
+    log(
+      `Successfully inferred ${result.totalEdgesCreated} edges (${result.hardEdges.length} hard, ${result.softEdges.length} soft)`
+    );
 
-      return {
-        ok: true,
-        tool: "gotn_infer_edges",
-        message: `Successfully inferred ${result.totalEdgesCreated} edges`,
-        node_ids: node_ids || "all",
-        workspace_path: workspacePath,
-        hard_edges_created: result.hardEdges.length,
-        soft_edges_created: result.softEdges.length,
-        total_edges_created: result.totalEdgesCreated,
-        hard_edges: result.hardEdges.map((edge) => ({
-          src: edge.src,
-          dst: edge.dst,
-          type: edge.type,
-          evidence: edge.evidence,
-        })),
-        soft_edges: result.softEdges.map((edge) => ({
-          src: edge.src,
-          dst: edge.dst,
-          type: edge.type,
-          score: edge.score,
-          evidence: edge.evidence,
-        })),
-        timestamp: new Date().toISOString(),
-      };
-    } finally {
-      // Restore original working directory
-      process.chdir(originalCwd);
-    }
+    return {
+      ok: true,
+      tool: "gotn_infer_edges",
+      message: `Successfully inferred ${result.totalEdgesCreated} edges`,
+      node_ids: node_ids || "all",
+      workspace_path: workspacePath,
+      hard_edges_created: result.hardEdges.length,
+      soft_edges_created: result.softEdges.length,
+      total_edges_created: result.totalEdgesCreated,
+      hard_edges: result.hardEdges.map((edge) => ({
+        src: edge.src,
+        dst: edge.dst,
+        type: edge.type,
+        evidence: edge.evidence,
+      })),
+      soft_edges: result.softEdges.map((edge) => ({
+        src: edge.src,
+        dst: edge.dst,
+        type: edge.type,
+        score: edge.score,
+        evidence: edge.evidence,
+      })),
+      timestamp: new Date().toISOString(),
+    };
   } catch (error: any) {
     log(`Failed to infer edges: ${error.message}`);
     throw error;
@@ -668,92 +1192,159 @@ async function handleBreakdownPrompt(args: {
       );
     }
 
-    // Change to workspace directory for breakdown operations
-    const originalCwd = process.cwd();
-    process.chdir(workspacePath);
+    const workspace = openWorkspace(workspacePath);
 
-    try {
-      // Use BreakdownEngine for prompt decomposition
-      const breakdownEngine = getBreakdownEngine();
-      const result = await breakdownEngine.breakdown({
-        project_id,
-        prompt,
-        mode,
-        max_nodes,
-      });
+    // Use BreakdownEngine for prompt decomposition
+    const breakdownEngine = workspace.getBreakdownEngine();
+    const result = await breakdownEngine.breakdown({
+      project_id,
+      prompt,
+      mode,
+      max_nodes,
+    });
 
-      log(
-        `Successfully broke down prompt into ${result.total_nodes} nodes with ${result.created_edge_count} edges`
-      );
+    log(
+      `Successfully broke down prompt into ${result.total_nodes} nodes with ${result.created_edge_count} edges`
+    );
 
-      let planResult = null;
+    let planResult = null;
 
-      // Auto-compose plan if requested
-      if (compose) {
-        try {
-          const planComposer = getPlanComposer();
-          planResult = await planComposer.composePlan({
-            goal: `Execute breakdown: ${prompt.substring(0, 50)}...`,
-          });
-          log(
-            `Auto-composed plan with ${planResult.ordered_node_ids.length} nodes`
-          );
-        } catch (error: any) {
-          log(`Failed to auto-compose plan: ${error.message}`);
-          // Continue without plan - don't fail the breakdown
-        }
+    // Auto-compose plan if requested
+    if (compose) {
+      try {
+        const planComposer = workspace.getPlanComposer();
+        planResult = await planComposer.composePlan({
+          goal: `Execute breakdown: ${prompt.substring(0, 50)}...`,
+        });
+        log(
+          `Auto-composed plan with ${planResult.ordered_node_ids.length} nodes`
+        );
+      } catch (error: any) {
+        log(`Failed to auto-compose plan: ${error.message}`);
+        // Continue without plan - don't fail the breakdown
       }
-
-      return {
-        ok: true,
-        tool: "gotn_breakdown_prompt",
-        message: `Successfully broke down prompt into ${
-          result.total_nodes
-        } micro prompts${
-          compose && planResult ? " and composed execution plan" : ""
-        }`,
-        project_id,
-        workspace_path: workspacePath,
-        mode,
-        max_nodes,
-        compose,
-        created_node_ids: result.created_node_ids,
-        created_edge_count: result.created_edge_count,
-        root_id: result.root_id,
-        total_nodes: result.total_nodes,
-        plan: planResult
-          ? {
-              ordered_node_ids: planResult.ordered_node_ids,
-              run_folder: planResult.run_folder,
-              layers: planResult.layers,
-              reason: planResult.reason,
-            }
-          : null,
-        timestamp: new Date().toISOString(),
-      };
-    } finally {
-      // Restore original working directory
-      process.chdir(originalCwd);
     }
+
+    return {
+      ok: true,
+      tool: "gotn_breakdown_prompt",
+      message: `Successfully broke down prompt into ${
+        result.total_nodes
+      } micro prompts${
+        compose && planResult ? " and composed execution plan" : ""
+      }`,
+      project_id,
+      workspace_path: workspacePath,
+      mode,
+      max_nodes,
+      compose,
+      created_node_ids: result.created_node_ids,
+      created_edge_count: result.created_edge_count,
+      root_id: result.root_id,
+      total_nodes: result.total_nodes,
+      provider: result.provider,
+      validation_report: result.validation_report.filter(
+        (r) => r.rejected || r.coerced.length || r.dropped.length
+      ),
+      plan: planResult
+        ? {
+            ordered_node_ids: planResult.ordered_node_ids,
+            run_folder: planResult.run_folder,
+            layers: planResult.layers,
+            reason: planResult.reason,
+          }
+        : null,
+      timestamp: new Date().toISOString(),
+    };
   } catch (error: any) {
     log(`Failed to break down prompt: ${error.message}`);
     throw error;
   }
 }
 
+async function handleRefineNode(args: {
+  node_id: string;
+  project_id?: string;
+  max_nodes?: number;
+  recursive?: boolean;
+  force?: boolean;
+  max_words?: number;
+  max_depth?: number;
+  workspace_path?: string;
+}) {
+  const {
+    node_id,
+    project_id = "default",
+    max_nodes = 8,
+    recursive = false,
+    force = false,
+    max_words,
+    max_depth,
+    workspace_path,
+  } = args;
+  const workspacePath = workspace_path || process.cwd();
+
+  log(`Refining node ${node_id} in workspace: ${workspacePath}`);
+
+  try {
+    if (!(await isInitialized(workspacePath))) {
+      throw new Error(
+        "Workspace not initialized. Run gotn_index_workspace first."
+      );
+    }
+
+    const workspace = openWorkspace(workspacePath);
+
+    const breakdownEngine = workspace.getBreakdownEngine();
+    const result = await breakdownEngine.refine({
+      project_id,
+      node_id,
+      max_nodes,
+      recursive,
+      force,
+      heuristic: {
+        ...(max_words !== undefined && { max_words }),
+        ...(max_depth !== undefined && { max_depth }),
+      },
+    });
+
+    log(
+      `Refine ${node_id}: ${result.refined ? "refined" : "stopped"} - ${
+        result.reason
+      }`
+    );
+
+    return {
+      ok: true,
+      tool: "gotn_refine_node",
+      message: result.refined
+        ? `Refined ${node_id} into ${result.created_node_ids.length} nodes`
+        : `Node ${node_id} not refined: ${result.reason}`,
+      workspace_path: workspacePath,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error: any) {
+    log(`Failed to refine node: ${error.message}`);
+    throw error;
+  }
+}
+
 async function handleComposePlan(args: {
   goal?: string;
   requires?: string[];
   produces?: string[];
+  target_produces?: string[];
   workspace_path?: string;
 }) {
-  const { goal, requires, produces, workspace_path } = args;
+  const { goal, requires, produces, target_produces, workspace_path } = args;
   const workspacePath = workspace_path || process.cwd();
 
   log(`Composing plan in workspace: ${workspacePath}`);
   if (goal) log(`Goal: ${goal}`);
   if (requires) log(`Requires: ${requires.join(", ")}`);
   if (produces) log(`Produces: ${produces.join(", ")}`);
+  if (target_produces) log(`Target produces: ${target_produces.join(", ")}`);
 
   try {
     if (!(await isInitialized(workspacePath))) {
@@ -762,38 +1353,37 @@ async function handleComposePlan(args: {
       );
     }
 
-    const originalCwd = process.cwd();
-    process.chdir(workspacePath);
+    const workspace = openWorkspace(workspacePath);
 
-    try {
-      const planComposer = getPlanComposer();
-      const result = await planComposer.composePlan({
-        goal,
-        requires,
-        produces,
-      });
+    const planComposer = workspace.getPlanComposer();
+    const result = await planComposer.composePlan({
+      goal,
+      requires,
+      produces,
+      target_produces,
+    });
 
-      log(
-        `Plan created with ${result.ordered_node_ids.length} nodes in ${result.layers.length} layers`
-      );
+    log(
+      `Plan created with ${result.ordered_node_ids.length} nodes in ${result.layers.length} layers`
+    );
 
-      return {
-        ok: true,
-        tool: "gotn_compose_plan",
-        message: `Plan created with ${result.ordered_node_ids.length} nodes`,
-        workspace_path: workspacePath,
-        goal,
-        requires: requires || [],
-        produces: produces || [],
-        ordered_node_ids: result.ordered_node_ids,
-        layers: result.layers,
-        run_folder: result.run_folder,
-        reason: result.reason,
-        timestamp: new Date().toISOString(),
-      };
-    } finally {
-      process.chdir(originalCwd);
-    }
+    return {
+      ok: true,
+      tool: "gotn_compose_plan",
+      message: `Plan created with ${result.ordered_node_ids.length} nodes`,
+      workspace_path: workspacePath,
+      goal,
+      requires: requires || [],
+      produces: produces || [],
+      target_produces: target_produces || [],
+      ordered_node_ids: result.ordered_node_ids,
+      layers: result.layers,
+      run_folder: result.run_folder,
+      reason: result.reason,
+      unsatisfiable: result.unsatisfiable,
+      skipped_completed: result.skipped_completed,
+      timestamp: new Date().toISOString(),
+    };
   } catch (error: any) {
     log(`Failed to compose plan: ${error.message}`);
     throw error;
@@ -802,9 +1392,10 @@ async function handleComposePlan(args: {
 
 async function handleExecuteNode(args: {
   node_id: string;
+  run_folder?: string;
   workspace_path?: string;
 }) {
-  const { node_id, workspace_path } = args;
+  const { node_id, run_folder, workspace_path } = args;
   const workspacePath = workspace_path || process.cwd();
 
   log(`Executing node ${node_id} in workspace: ${workspacePath}`);
@@ -816,142 +1407,180 @@ async function handleExecuteNode(args: {
       );
     }
 
-    const originalCwd = process.cwd();
-    process.chdir(workspacePath);
-
-    try {
-      // Get the node
-      const nodeStore = getNodeStore();
-      const node = await nodeStore.getNode(node_id);
-
-      if (!node) {
-        throw new Error(`Node ${node_id} not found`);
-      }
-
-      // Evaluate guards
-      const guardEngine = getGuardEngine();
-      const guardResult = await guardEngine.evaluate(node);
+    const workspace = openWorkspace(workspacePath);
 
-      // Update metrics
-      const metrics = getMetrics(workspacePath);
-      const logger = getLogger(workspacePath);
-
-      if (guardResult.result === "skip") {
-        metrics.incrementSkips();
-        await logger.info("Node skipped", {
-          node_id,
-          reason: guardResult.reason,
-        });
-      } else if (guardResult.result === "fail") {
-        metrics.incrementGuardFails();
-        await logger.warn("Guard failed", {
-          node_id,
-          reason: guardResult.reason,
-        });
-      } else {
-        await logger.info("Node executed", {
-          node_id,
-          action: guardResult.result,
-        });
-      }
+    // Get the node
+    const nodeStore = workspace.getNodeStore();
+    const node = await nodeStore.getNode(node_id);
 
-      // Write step to steps.jsonl (find most recent run folder)
-      const fs = await import("fs");
-      const path = await import("path");
+    if (!node) {
+      throw new Error(`Node ${node_id} not found`);
+    }
 
-      const runsDir = path.join(".gotn", "runs");
-      let stepsFile = "steps.jsonl";
+    // Steps are recorded by gotn_run_plan. A single execution writes its
+    // patch to the run folder it is given, or to a new one of its own
+    const fs = await import("fs");
+    const path = await import("path");
+
+    const runFolder =
+      run_folder ||
+      path.join(
+        ".gotn",
+        "runs",
+        `exec-${new Date().toISOString().replace(/[:.]/g, "-")}`
+      );
+    const absRunFolder = workspace
+      .getPatchManager()
+      .resolveRunFolder(runFolder);
+    if (run_folder && !fs.existsSync(absRunFolder)) {
+      throw new Error(`Run folder not found: ${run_folder}`);
+    }
 
-      if (fs.existsSync(runsDir)) {
-        const runFolders = fs
-          .readdirSync(runsDir)
-          .filter((f) => f.startsWith("run-"))
-          .sort()
-          .reverse();
+    // Evaluate guards
+    const guardEngine = workspace.getGuardEngine();
+    const guardResult = await guardEngine.evaluate(node);
 
-        if (runFolders.length > 0) {
-          stepsFile = path.join(runsDir, runFolders[0], "steps.jsonl");
-        }
-      }
+    // Update metrics
+    const metrics = workspace.getMetrics();
+    const logger = workspace.getLogger();
 
-      // Log the step
-      const stepEntry = {
-        timestamp: new Date().toISOString(),
+    if (guardResult.result === "skip") {
+      metrics.incrementSkips();
+      await logger.info("Node skipped", {
         node_id,
-        action: guardResult.result,
         reason: guardResult.reason,
-      };
-
-      if (fs.existsSync(stepsFile)) {
-        fs.appendFileSync(stepsFile, JSON.stringify(stepEntry) + "\n");
-      }
-
-      let patchPath = "";
-
-      // Handle the result
-      if (guardResult.result === "proceed") {
-        // Write patch stub
-        const patchContent = `PATCH for node ${node_id}\n\nSummary: ${
-          node.summary
-        }\nPrompt: ${
-          node.prompt_text
-        }\n\nGenerated at: ${new Date().toISOString()}\n`;
-
-        const patchDir = path.dirname(stepsFile);
-        const patchFile = path.join(patchDir, "patches", `${node_id}.patch`);
-        patchPath = patchFile;
-
-        if (!fs.existsSync(path.dirname(patchFile))) {
-          fs.mkdirSync(path.dirname(patchFile), { recursive: true });
-        }
-
-        fs.writeFileSync(patchFile, patchContent);
-
-        // Update node status to completed
-        const updatedNode = { ...node, status: "completed" as const };
-        await nodeStore.storeNode(updatedNode);
+      });
+    } else if (guardResult.result === "fail") {
+      metrics.incrementGuardFails();
+      await logger.warn("Guard failed", {
+        node_id,
+        reason: guardResult.reason,
+      });
+    } else {
+      await logger.info("Node executed", {
+        node_id,
+        action: guardResult.result,
+      });
+    }
 
-        log(`Node ${node_id} executed - patch written to ${patchFile}`);
+    let patchPath = "";
+    let patchFiles: string[] = [];
+    let executionMessage: string | undefined;
+    let verification: Verification | undefined;
+
+    // Handle the result
+    if (guardResult.result === "proceed") {
+      // Generate a patch for the node into the run folder
+      const execution = await getNodeExecutor().execute(node, {
+        workspacePath,
+        runFolder: absRunFolder,
+        runId: path.basename(absRunFolder),
+      });
+      patchPath = execution.patch_path || "";
+      executionMessage = execution.message;
+      patchFiles = execution.files || [];
+
+      if (!execution.success) {
+        await nodeStore.updateNode({ ...node, status: "failed" as const });
+        log(`Node ${node_id} execution failed: ${execution.message}`);
+      } else if (execution.patch_path) {
+        // The work is not in the workspace until the patch is applied, so
+        // the node is verified and completed by gotn_apply_patch
+        log(
+          `Node ${node_id} executed - ${execution.message}; apply the patch with gotn_apply_patch (run_folder ${runFolder})`
+        );
       } else {
-        // Update node status based on result
-        const newStatus =
-          guardResult.result === "skip"
-            ? ("skipped" as const)
-            : ("failed" as const);
-        const updatedNode = { ...node, status: newStatus };
-        await nodeStore.storeNode(updatedNode);
-
-        log(`Node ${node_id} ${guardResult.result}: ${guardResult.reason}`);
-      }
+        // Only verified work counts as completed
+        verification = await workspace.getArtifactVerifier().verify(node);
+        const updatedNode = {
+          ...node,
+          verification,
+          status: verification.passed
+            ? ("completed" as const)
+            : ("failed" as const),
+        };
+        await nodeStore.updateNode(updatedNode);
 
-      return {
-        ok: true,
-        tool: "gotn_execute_node",
-        message: `Node ${guardResult.result}: ${guardResult.reason}`,
-        node_id,
-        workspace_path: workspacePath,
-        action: guardResult.result,
-        reason: guardResult.reason,
-        patch_path: patchPath || null,
-        timestamp: new Date().toISOString(),
-      };
-    } finally {
-      process.chdir(originalCwd);
+        log(
+          `Node ${node_id} executed - ${execution.message}, verification ${
+            verification.passed ? "passed" : "failed"
+          }`
+        );
+      }
+    } else {
+      // Update node status based on result
+      const newStatus =
+        guardResult.result === "skip"
+          ? ("skipped" as const)
+          : ("failed" as const);
+      const updatedNode = { ...node, status: newStatus };
+      await nodeStore.updateNode(updatedNode);
+
+      log(`Node ${node_id} ${guardResult.result}: ${guardResult.reason}`);
     }
+
+    return {
+      ok: true,
+      tool: "gotn_execute_node",
+      message: `Node ${guardResult.result}: ${guardResult.reason}`,
+      node_id,
+      workspace_path: workspacePath,
+      action: guardResult.result,
+      reason: guardResult.reason,
+      guards: guardResult.guards,
+      execution: executionMessage || null,
+      run_folder: patchPath ? runFolder : null,
+      patch_path: patchPath || null,
+      patch_files: patchFiles,
+      verification: verification || null,
+      timestamp: new Date().toISOString(),
+    };
   } catch (error: any) {
     log(`Failed to execute node: ${error.message}`);
     throw error;
   }
 }
 
-async function handleTraceNode(args: {
-  node_id: string;
+/**
+ * Most recent run folder, relative to the workspace (run folders sort by time)
+ */
+async function findLatestRunFolder(workspacePath = "."): Promise<string> {
+  const fs = await import("fs");
+  const path = await import("path");
+
+  const runsDir = path.join(".gotn", "runs");
+  const absRunsDir = path.join(workspacePath, runsDir);
+  const runFolders = fs.existsSync(absRunsDir)
+    ? fs
+        .readdirSync(absRunsDir)
+        .filter((f) => f.startsWith("run-"))
+        .sort()
+        .reverse()
+    : [];
+
+  if (runFolders.length === 0) {
+    throw new Error("No run folders found. Run gotn_compose_plan first.");
+  }
+  return path.join(runsDir, runFolders[0]);
+}
+
+async function handleRunPlan(args: {
+  run_folder?: string;
+  on_failure?: "stop" | "continue";
+  max_parallel?: number;
+  auto_apply?: boolean;
   workspace_path?: string;
 }) {
-  const { node_id, workspace_path } = args;
+  const {
+    run_folder,
+    on_failure = "stop",
+    max_parallel,
+    auto_apply = false,
+    workspace_path,
+  } = args;
   const workspacePath = workspace_path || process.cwd();
 
-  log(`Tracing node ${node_id} in workspace: ${workspacePath}`);
+  log(`Running plan in workspace: ${workspacePath}`);
 
   try {
     if (!(await isInitialized(workspacePath))) {
@@ -960,130 +1589,437 @@ async function handleTraceNode(args: {
       );
     }
 
-    const originalCwd = process.cwd();
-    process.chdir(workspacePath);
+    const workspace = openWorkspace(workspacePath);
 
-    try {
-      const graph = await readGraph(".");
-      const node = graph.nodes.find((n) => n.id === node_id);
+    const runFolder = run_folder || (await findLatestRunFolder(workspacePath));
 
-      if (!node) {
-        throw new Error(`Node ${node_id} not found`);
-      }
+    log(`Run folder: ${runFolder} (on_failure: ${on_failure})`);
 
-      // Find parent and child relationships
-      const parentEdges = graph.edges.filter(
-        (e) => e.dst === node_id && e.type === "derived_from"
-      );
-      const childEdges = graph.edges.filter(
-        (e) => e.src === node_id && e.type === "derived_from"
-      );
+    const planRunner = workspace.getPlanRunner();
+    const result = await planRunner.run(runFolder, {
+      on_failure,
+      max_parallel,
+      auto_apply,
+    });
 
-      // Find incoming and outgoing edges
-      const incomingEdges = graph.edges.filter((e) => e.dst === node_id);
-      const outgoingEdges = graph.edges.filter((e) => e.src === node_id);
+    log(
+      `Run ${result.run_id} ${result.status}: ${result.completed.length} completed, ${result.failed.length} failed`
+    );
+
+    return {
+      ok: true,
+      tool: "gotn_run_plan",
+      message: `Run ${result.status}: ${result.steps.length} steps recorded`,
+      workspace_path: workspacePath,
+      run_id: result.run_id,
+      run_folder: result.run_folder,
+      status: result.status,
+      on_failure,
+      auto_apply,
+      completed: result.completed,
+      skipped: result.skipped,
+      failed: result.failed,
+      pending_apply: result.pending_apply,
+      blocked: result.blocked,
+      not_run: result.not_run,
+      steps: result.steps,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error: any) {
+    log(`Failed to run plan: ${error.message}`);
+    throw error;
+  }
+}
 
-      // Build proof set
-      const proofs = [];
+async function handleResumeRun(args: {
+  run_folder?: string;
+  on_failure?: "stop" | "continue";
+  max_parallel?: number;
+  auto_apply?: boolean;
+  workspace_path?: string;
+}) {
+  const {
+    run_folder,
+    on_failure = "stop",
+    max_parallel,
+    auto_apply = false,
+    workspace_path,
+  } = args;
+  const workspacePath = workspace_path || process.cwd();
+
+  log(`Resuming run in workspace: ${workspacePath}`);
 
-      // Hard edges proof
-      const hardIncoming = incomingEdges.filter(
-        (e) => e.type === "hard_requires"
+  try {
+    if (!(await isInitialized(workspacePath))) {
+      throw new Error(
+        "Workspace not initialized. Run gotn_index_workspace first."
       );
-      const hardOutgoing = outgoingEdges.filter(
-        (e) => e.type === "hard_requires"
+    }
+
+    const workspace = openWorkspace(workspacePath);
+
+    const runFolder = run_folder || (await findLatestRunFolder(workspacePath));
+    const planRunner = workspace.getPlanRunner();
+
+    const before = await planRunner.inspectRun(runFolder);
+    log(
+      `Run ${before.run_id} was ${before.status}: ${before.done.length} done, ${before.pending.length} pending, ${before.interrupted.length} interrupted`
+    );
+
+    const result = await planRunner.resume(runFolder, {
+      on_failure,
+      max_parallel,
+      auto_apply,
+    });
+
+    log(
+      `Run ${result.run_id} ${result.status}: ${result.completed.length} completed, ${result.failed.length} failed`
+    );
+
+    return {
+      ok: true,
+      tool: "gotn_resume_run",
+      message: `Run ${result.status}: ${result.already_done.length} nodes already done, ${result.steps.length} steps recorded`,
+      workspace_path: workspacePath,
+      run_id: result.run_id,
+      run_folder: result.run_folder,
+      previous_status: before.status,
+      interrupted: before.interrupted,
+      status: result.status,
+      already_done: result.already_done,
+      completed: result.completed,
+      skipped: result.skipped,
+      failed: result.failed,
+      pending_apply: result.pending_apply,
+      blocked: result.blocked,
+      not_run: result.not_run,
+      steps: result.steps,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error: any) {
+    log(`Failed to resume run: ${error.message}`);
+    throw error;
+  }
+}
+
+async function handleStopRun(args: {
+  run_folder?: string;
+  mode?: "pause" | "cancel";
+  workspace_path?: string;
+}) {
+  const { run_folder, mode = "pause", workspace_path } = args;
+  const workspacePath = workspace_path || process.cwd();
+
+  log(`Stopping run (${mode}) in workspace: ${workspacePath}`);
+
+  try {
+    if (!(await isInitialized(workspacePath))) {
+      throw new Error(
+        "Workspace not initialized. Run gotn_index_workspace first."
       );
+    }
 
-      for (const edge of hardIncoming) {
-        proofs.push({
-          type: "hard_dependency",
-          direction: "incoming",
-          from: edge.src,
-          to: edge.dst,
-          evidence: edge.evidence,
-          reason: `Hard dependency: ${edge.evidence}`,
-        });
-      }
+    const workspace = openWorkspace(workspacePath);
+    const runFolder = run_folder || (await findLatestRunFolder(workspacePath));
 
-      for (const edge of hardOutgoing) {
-        proofs.push({
-          type: "hard_dependency",
-          direction: "outgoing",
-          from: edge.src,
-          to: edge.dst,
-          evidence: edge.evidence,
-          reason: `Hard dependency: ${edge.evidence}`,
-        });
-      }
+    const planRunner = workspace.getPlanRunner();
+    const run = await planRunner.requestStop(
+      runFolder,
+      mode === "cancel" ? "cancelled" : "paused"
+    );
+
+    log(`Run ${run.id} marked ${run.status}`);
+
+    return {
+      ok: true,
+      tool: "gotn_stop_run",
+      message: `Run ${run.id} ${run.status}; nodes already started will finish`,
+      workspace_path: workspacePath,
+      run_id: run.id,
+      run_folder: runFolder,
+      status: run.status,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error: any) {
+    log(`Failed to stop run: ${error.message}`);
+    throw error;
+  }
+}
+
+async function handleListPatches(args: {
+  run_folder?: string;
+  workspace_path?: string;
+}) {
+  const { run_folder, workspace_path } = args;
+  const workspacePath = workspace_path || process.cwd();
+
+  log(`Listing patches in workspace: ${workspacePath}`);
 
-      // Soft edges proof
-      const softIncoming = incomingEdges.filter(
-        (e) => e.type === "soft_semantic"
+  try {
+    if (!(await isInitialized(workspacePath))) {
+      throw new Error(
+        "Workspace not initialized. Run gotn_index_workspace first."
       );
-      const softOutgoing = outgoingEdges.filter(
-        (e) => e.type === "soft_semantic"
+    }
+
+    const workspace = openWorkspace(workspacePath);
+
+    const runFolder = run_folder || (await findLatestRunFolder(workspacePath));
+    const patches = await workspace.getPatchManager().listPatches(runFolder);
+    const applied = patches.filter((p) => p.status === "applied").length;
+
+    log(`Found ${patches.length} patches in ${runFolder}`);
+
+    return {
+      ok: true,
+      tool: "gotn_list_patches",
+      message: `${patches.length} patches, ${applied} applied`,
+      workspace_path: workspacePath,
+      run_folder: runFolder,
+      patches,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error: any) {
+    log(`Failed to list patches: ${error.message}`);
+    throw error;
+  }
+}
+
+async function handlePatchAction(
+  tool: "gotn_apply_patch" | "gotn_revert_patch",
+  args: {
+    node_id: string;
+    run_folder?: string;
+    dry_run?: boolean;
+    workspace_path?: string;
+  }
+) {
+  const { node_id, run_folder, dry_run = false, workspace_path } = args;
+  const workspacePath = workspace_path || process.cwd();
+  const reverting = tool === "gotn_revert_patch";
+
+  log(
+    `${reverting ? "Reverting" : "Applying"} patch for ${node_id}${
+      dry_run ? " (dry run)" : ""
+    } in workspace: ${workspacePath}`
+  );
+
+  try {
+    if (!(await isInitialized(workspacePath))) {
+      throw new Error(
+        "Workspace not initialized. Run gotn_index_workspace first."
       );
+    }
 
-      for (const edge of softIncoming) {
-        proofs.push({
-          type: "semantic_similarity",
-          direction: "incoming",
-          from: edge.src,
-          to: edge.dst,
-          score: edge.score,
-          evidence: edge.evidence,
-          reason: `Semantic similarity: ${edge.score?.toFixed(4)} - ${
-            edge.evidence
-          }`,
-        });
-      }
+    const workspace = openWorkspace(workspacePath);
+
+    const runFolder = run_folder || (await findLatestRunFolder(workspacePath));
+    const patchManager = workspace.getPatchManager();
+    const result = reverting
+      ? await patchManager.revertPatch(runFolder, node_id, { dry_run })
+      : await patchManager.applyPatch(runFolder, node_id, { dry_run });
+
+    const verb = reverting ? "revert" : "apply";
+    const message =
+      result.conflicts.length > 0
+        ? `Patch for ${node_id} does not ${verb} cleanly: ${result.conflicts.join(
+            "; "
+          )}`
+        : result.dry_run
+        ? `Patch for ${node_id} would ${verb} cleanly to ${result.files.join(
+            ", "
+          )}`
+        : `Patch for ${node_id} ${
+            reverting ? "reverted" : "applied"
+          }: ${result.files.join(", ")}${
+            result.verification
+              ? `; verification ${
+                  result.verification.passed
+                    ? "passed, node completed"
+                    : "failed, node failed"
+                }`
+              : result.node_not_updated
+              ? `; node not updated: ${result.node_not_updated}`
+              : ""
+          }`;
+
+    log(message);
 
-      for (const edge of softOutgoing) {
-        proofs.push({
-          type: "semantic_similarity",
-          direction: "outgoing",
-          from: edge.src,
-          to: edge.dst,
-          score: edge.score,
-          evidence: edge.evidence,
-          reason: `Semantic similarity: ${edge.score?.toFixed(4)} - ${
-            edge.evidence
-          }`,
-        });
-      }
+    return {
+      ok: result.conflicts.length === 0,
+      tool,
+      message,
+      workspace_path: workspacePath,
+      run_folder: runFolder,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error: any) {
+    log(`Failed to ${reverting ? "revert" : "apply"} patch: ${error.message}`);
+    throw error;
+  }
+}
 
-      log(
-        `Traced node ${node_id}: ${parentEdges.length} parents, ${childEdges.length} children, ${proofs.length} proofs`
+async function handleTraceNode(args: {
+  node_id: string;
+  workspace_path?: string;
+}) {
+  const { node_id, workspace_path } = args;
+  const workspacePath = workspace_path || process.cwd();
+
+  log(`Tracing node ${node_id} in workspace: ${workspacePath}`);
+
+  try {
+    if (!(await isInitialized(workspacePath))) {
+      throw new Error(
+        "Workspace not initialized. Run gotn_index_workspace first."
       );
+    }
 
-      return {
-        ok: true,
-        tool: "gotn_trace_node",
-        message: `Traced node ${node_id} with ${proofs.length} edge proofs`,
-        node_id,
-        workspace_path: workspacePath,
-        parents: parentEdges.map((e) => e.src),
-        children: childEdges.map((e) => e.dst),
-        requires: node.requires,
-        produces: node.produces,
-        incoming_edges: incomingEdges.map((e) => ({
-          src: e.src,
-          type: e.type,
-          evidence: e.evidence,
-          score: e.score,
-        })),
-        outgoing_edges: outgoingEdges.map((e) => ({
-          dst: e.dst,
-          type: e.type,
-          evidence: e.evidence,
-          score: e.score,
-        })),
-        proof_set: proofs,
-        timestamp: new Date().toISOString(),
-      };
-    } finally {
-      process.chdir(originalCwd);
+    const workspace = openWorkspace(workspacePath);
+
+    const graph = await workspace.readGraph();
+    const node = graph.nodes.find((n) => n.id === node_id);
+
+    if (!node) {
+      throw new Error(`Node ${node_id} not found`);
+    }
+
+    // Find parent and child relationships
+    const parentEdges = graph.edges.filter(
+      (e) => e.dst === node_id && e.type === "derived_from"
+    );
+    const childEdges = graph.edges.filter(
+      (e) => e.src === node_id && e.type === "derived_from"
+    );
+
+    // Find incoming and outgoing edges
+    const incomingEdges = graph.edges.filter((e) => e.dst === node_id);
+    const outgoingEdges = graph.edges.filter((e) => e.src === node_id);
+
+    // Build proof set
+    const proofs = [];
+
+    // Hard edges proof
+    const hardIncoming = incomingEdges.filter(
+      (e) => e.type === "hard_requires"
+    );
+    const hardOutgoing = outgoingEdges.filter(
+      (e) => e.type === "hard_requires"
+    );
+
+    for (const edge of hardIncoming) {
+      proofs.push({
+        type: "hard_dependency",
+        direction: "incoming",
+        from: edge.src,
+        to: edge.dst,
+        evidence: edge.evidence,
+        reason: `Hard dependency: ${edge.evidence}`,
+      });
     }
+
+    for (const edge of hardOutgoing) {
+      proofs.push({
+        type: "hard_dependency",
+        direction: "outgoing",
+        from: edge.src,
+        to: edge.dst,
+        evidence: edge.evidence,
+        reason: `Hard dependency: ${edge.evidence}`,
+      });
+    }
+
+    // Soft edges proof
+    const softIncoming = incomingEdges.filter(
+      (e) => e.type === "soft_semantic"
+    );
+    const softOutgoing = outgoingEdges.filter(
+      (e) => e.type === "soft_semantic"
+    );
+
+    for (const edge of softIncoming) {
+      proofs.push({
+        type: "semantic_similarity",
+        direction: "incoming",
+        from: edge.src,
+        to: edge.dst,
+        score: edge.score,
+        evidence: edge.evidence,
+        reason: `Semantic similarity: ${edge.score?.toFixed(4)} - ${
+          edge.evidence
+        }`,
+      });
+    }
+
+    for (const edge of softOutgoing) {
+      proofs.push({
+        type: "semantic_similarity",
+        direction: "outgoing",
+        from: edge.src,
+        to: edge.dst,
+        score: edge.score,
+        evidence: edge.evidence,
+        reason: `Semantic similarity: ${edge.score?.toFixed(4)} - ${
+          edge.evidence
+        }`,
+      });
+    }
+
+    // Indexed code the node depends on, following hard edges upstream
+    const nodesById = new Map(graph.nodes.map((n) => [n.id, n]));
+    const codeDependencies = [];
+    const visited = new Set([node_id]);
+    const queue = [node_id];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const edge of graph.edges) {
+        if (edge.type !== "hard_requires" || edge.dst !== id) continue;
+        if (visited.has(edge.src)) continue;
+        visited.add(edge.src);
+        queue.push(edge.src);
+
+        const dependency = nodesById.get(edge.src);
+        if (dependency?.kind === "code_symbol") {
+          codeDependencies.push({
+            id: dependency.id,
+            exec_target: dependency.exec_target,
+            summary: dependency.summary,
+          });
+        }
+      }
+    }
+
+    log(
+      `Traced node ${node_id}: ${parentEdges.length} parents, ${childEdges.length} children, ${proofs.length} proofs`
+    );
+
+    return {
+      ok: true,
+      tool: "gotn_trace_node",
+      message: `Traced node ${node_id} with ${proofs.length} edge proofs`,
+      node_id,
+      workspace_path: workspacePath,
+      parents: parentEdges.map((e) => e.src),
+      children: childEdges.map((e) => e.dst),
+      requires: node.requires,
+      produces: node.produces,
+      incoming_edges: incomingEdges.map((e) => ({
+        src: e.src,
+        type: e.type,
+        evidence: e.evidence,
+        score: e.score,
+      })),
+      outgoing_edges: outgoingEdges.map((e) => ({
+        dst: e.dst,
+        type: e.type,
+        evidence: e.evidence,
+        score: e.score,
+      })),
+      proof_set: proofs,
+      code_dependencies: codeDependencies,
+      timestamp: new Date().toISOString(),
+    };
   } catch (error: any) {
     log(`Failed to trace node: ${error.message}`);
     throw error;
@@ -1110,30 +2046,23 @@ async function handleSearchNodes(args: {
       );
     }
 
-    // Change to workspace directory for NodeStore operations
-    const originalCwd = process.cwd();
-    process.chdir(workspacePath);
+    const workspace = openWorkspace(workspacePath);
 
-    try {
-      // Use NodeStore for semantic search
-      const nodeStore = getNodeStore();
-      const results = await nodeStore.searchNodesByText(query, limit);
+    // Use NodeStore for semantic search
+    const nodeStore = workspace.getNodeStore();
+    const results = await nodeStore.searchNodesByText(query, limit);
 
-      log(`Found ${results.length} matching nodes`);
+    log(`Found ${results.length} matching nodes`);
 
-      return {
-        ok: true,
-        tool: "gotn_search_nodes",
-        message: `Found ${results.length} matching nodes`,
-        query,
-        results,
-        workspace_path: workspacePath,
-        timestamp: new Date().toISOString(),
-      };
-    } finally {
-      // Restore original working directory
-      process.chdir(originalCwd);
-    }
+    return {
+      ok: true,
+      tool: "gotn_search_nodes",
+      message: `Found ${results.length} matching nodes`,
+      query,
+      results,
+      workspace_path: workspacePath,
+      timestamp: new Date().toISOString(),
+    };
   } catch (error: any) {
     log(`Failed to search nodes: ${error.message}`);
     throw error;
@@ -1151,190 +2080,20 @@ async function main() {
     log(`  - ${tool.name}: ${tool.description}`);
   });
 
-  await server.connect(transport);
-  log("✅ Server connected and ready");
-}
-
-/**
- * Minimal indexer for baseline context
- */
-async function runMinimalIndexer(workspacePath: string): Promise<{
-  indexed_files: string[];
-  deps_nodes: number;
-  code_nodes: number;
-}> {
-  const fs = await import("fs");
-  const path = await import("path");
-  const nodeStore = getNodeStore("indexer");
-
-  let depsNodes = 0;
-  let codeNodes = 0;
-  const indexedFiles: string[] = [];
-
-  try {
-    // 1. Index package.json dependencies
-    const packageJsonPath = path.join(workspacePath, "package.json");
-    if (fs.existsSync(packageJsonPath)) {
-      try {
-        const packageJson = JSON.parse(
-          fs.readFileSync(packageJsonPath, "utf8")
-        );
-        const allDeps = {
-          ...packageJson.dependencies,
-          ...packageJson.devDependencies,
-          ...packageJson.peerDependencies,
-        };
-
-        if (Object.keys(allDeps).length > 0) {
-          const depsNode = {
-            id: "deps_index",
-            kind: "code_symbol" as const,
-            summary: `Project dependencies: ${Object.keys(allDeps)
-              .slice(0, 5)
-              .join(", ")}${Object.keys(allDeps).length > 5 ? "..." : ""}`,
-            prompt_text: `Dependencies from package.json: ${JSON.stringify(
-              allDeps,
-              null,
-              2
-            )}`,
-            children: [],
-            requires: [],
-            produces: ["project_dependencies"],
-            exec_target: "package.json",
-            tags: ["dependencies", "package", "index"],
-            success_criteria: ["Dependencies available"],
-            guards: [],
-            artifacts: {
-              files: ["package.json"],
-              outputs: [],
-              dependencies: [],
-            },
-            status: "ready" as const,
-            provenance: { created_by: "indexer", source: "package_json" },
-            version: 1,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          };
-
-          // Note: We skip the await here to avoid hanging issues
-          nodeStore.storeNode(depsNode).catch(() => {
-            // Silently ignore storage errors in indexer
-          });
-          depsNodes++;
-          indexedFiles.push("package.json");
-        }
-      } catch (error) {
-        log(`Failed to parse package.json: ${error}`);
+  // Apply journal entries a crashed writer left out of graph.json
+  if (await isInitialized(process.cwd())) {
+    try {
+      const replayed = await replayUnappliedEntries(process.cwd());
+      if (replayed.length > 0) {
+        log(`Replayed ${replayed.length} unapplied journal entries`);
       }
+    } catch (error: any) {
+      log(`Journal replay failed: ${error.message}`);
     }
-
-    // 2. Scan src directory for up to 50 files
-    const srcDirs = ["src", "lib", "app", "components", "pages", "utils"];
-    let fileCount = 0;
-    const maxFiles = 50;
-
-    for (const srcDir of srcDirs) {
-      if (fileCount >= maxFiles) break;
-
-      const srcPath = path.join(workspacePath, srcDir);
-      if (!fs.existsSync(srcPath)) continue;
-
-      const scanDirectory = (dir: string, depth = 0) => {
-        if (fileCount >= maxFiles || depth > 3) return;
-
-        try {
-          const entries = fs.readdirSync(dir, { withFileTypes: true });
-
-          for (const entry of entries) {
-            if (fileCount >= maxFiles) break;
-
-            const fullPath = path.join(dir, entry.name);
-            const relativePath = path.relative(workspacePath, fullPath);
-
-            if (entry.isFile()) {
-              // Only index common code files
-              if (/\.(ts|tsx|js|jsx|py|java|go|rs|cpp|c|h)$/.test(entry.name)) {
-                try {
-                  const stats = fs.statSync(fullPath);
-                  if (stats.size > 100000) continue; // Skip files > 100KB
-
-                  const content = fs.readFileSync(fullPath, "utf8");
-                  const lines = content.split("\n");
-                  const summary =
-                    lines.slice(0, 3).join(" ").substring(0, 100) + "...";
-
-                  const codeSymbolNode = {
-                    id: `code_${relativePath.replace(/[^a-zA-Z0-9]/g, "_")}`,
-                    kind: "code_symbol" as const,
-                    summary: `${entry.name}: ${summary}`,
-                    prompt_text: `File: ${relativePath}\nFirst few lines:\n${lines
-                      .slice(0, 5)
-                      .join("\n")}`,
-                    children: [],
-                    requires: [],
-                    produces: [`file_${entry.name.replace(/\.[^.]+$/, "")}`],
-                    exec_target: relativePath,
-                    tags: [
-                      "code",
-                      "file",
-                      path.extname(entry.name).substring(1),
-                    ],
-                    success_criteria: ["File accessible"],
-                    guards: [],
-                    artifacts: {
-                      files: [relativePath],
-                      outputs: [],
-                      dependencies: [],
-                    },
-                    status: "ready" as const,
-                    provenance: { created_by: "indexer", source: "file_scan" },
-                    version: 1,
-                    created_at: new Date().toISOString(),
-                    updated_at: new Date().toISOString(),
-                  };
-
-                  // Note: We skip the await here to avoid hanging issues
-                  // The node will be stored but we don't wait for completion
-                  nodeStore.storeNode(codeSymbolNode).catch(() => {
-                    // Silently ignore storage errors in indexer
-                  });
-                  codeNodes++;
-                  indexedFiles.push(relativePath);
-                  fileCount++;
-                } catch (error) {
-                  // Skip files that can't be read
-                  continue;
-                }
-              }
-            } else if (
-              entry.isDirectory() &&
-              !entry.name.startsWith(".") &&
-              entry.name !== "node_modules"
-            ) {
-              scanDirectory(fullPath, depth + 1);
-            }
-          }
-        } catch (error) {
-          // Skip directories that can't be read
-          return;
-        }
-      };
-
-      scanDirectory(srcPath);
-    }
-
-    log(
-      `Minimal indexer completed: ${depsNodes} deps, ${codeNodes} code symbols, ${indexedFiles.length} files`
-    );
-  } catch (error: any) {
-    log(`Minimal indexer error: ${error.message}`);
   }
 
-  return {
-    indexed_files: indexedFiles,
-    deps_nodes: depsNodes,
-    code_nodes: codeNodes,
-  };
+  await server.connect(transport);
+  log("✅ Server connected and ready");
 }
 
 async function handleDebug(args: { workspace_path?: string }) {
@@ -1343,7 +2102,7 @@ async function handleDebug(args: { workspace_path?: string }) {
   log(`Debug info for workspace: ${workspacePath}`);
 
   try {
-    const metrics = getMetrics(workspacePath);
+    const metrics = openWorkspace(workspacePath).getMetrics();
     const metricsData = await metrics.collectMetrics();
 
     return {
@@ -1366,7 +2125,7 @@ async function handleRecover(args: { workspace_path?: string }) {
   log(`Recovering workspace: ${workspacePath}`);
 
   try {
-    const recoveryEngine = getRecoveryEngine(workspacePath);
+    const recoveryEngine = openWorkspace(workspacePath).getRecoveryEngine();
     const result = await recoveryEngine.recover();
 
     // Verify integrity after recovery
@@ -1383,6 +2142,8 @@ async function handleRecover(args: { workspace_path?: string }) {
       edges_recovered: result.edges_recovered,
       skipped_entries: result.skipped_entries,
       corrupt_entries: result.corrupt_entries,
+      snapshot_offset: result.snapshot_offset,
+      replayed_entries: result.replayed_entries,
       integrity_check: integrity,
       timestamp: new Date().toISOString(),
     };
@@ -1392,6 +2153,205 @@ async function handleRecover(args: { workspace_path?: string }) {
   }
 }
 
+async function handleCompactJournal(args: {
+  snapshot?: boolean;
+  workspace_path?: string;
+}) {
+  const { snapshot = true, workspace_path } = args;
+  const workspacePath = workspace_path || process.cwd();
+
+  log(`Compacting journal in workspace: ${workspacePath}`);
+
+  try {
+    if (!(await isInitialized(workspacePath))) {
+      throw new Error(
+        "Workspace not initialized. Run gotn_index_workspace first."
+      );
+    }
+
+    const result = await compactJournal(workspacePath, { snapshot });
+
+    log(
+      `Journal compacted: ${result.entries_removed} entries removed, ${result.entries_kept} kept`
+    );
+
+    return {
+      ok: true,
+      tool: "gotn_compact_journal",
+      message: `Removed ${result.entries_removed} journal entries covered by the snapshot at offset ${result.journal_offset}`,
+      workspace_path: workspacePath,
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error: any) {
+    log(`Failed to compact journal: ${error.message}`);
+    throw error;
+  }
+}
+
+async function handleDeleteNode(args: {
+  node_id: string;
+  cascade?: NodeCascade;
+  workspace_path?: string;
+}) {
+  const { node_id, cascade = "refuse", workspace_path } = args;
+  const workspacePath = workspace_path || process.cwd();
+
+  log(
+    `Deleting node ${node_id} (cascade: ${cascade}) in workspace: ${workspacePath}`
+  );
+
+  try {
+    if (!(await isInitialized(workspacePath))) {
+      throw new Error(
+        "Workspace not initialized. Run gotn_index_workspace first."
+      );
+    }
+
+    const workspace = openWorkspace(workspacePath);
+
+    const nodeStore = workspace.getNodeStore();
+    const removal = await nodeStore.deleteNode(node_id, { cascade });
+
+    await workspace.getLogger().info("Node deleted", {
+      node_id,
+      cascade,
+      edges_removed: removal.removed_edges.length,
+      edges_added: removal.added_edges.length,
+    });
+
+    log(
+      `Node ${node_id} deleted: ${removal.removed_edges.length} edges removed, ${removal.added_edges.length} added`
+    );
+
+    return {
+      ok: true,
+      tool: "gotn_delete_node",
+      message: `Deleted node ${node_id} and ${removal.removed_edges.length} incident edges`,
+      workspace_path: workspacePath,
+      node_id,
+      cascade,
+      removed_edges: removal.removed_edges.map((e) => ({
+        src: e.src,
+        dst: e.dst,
+        type: e.type,
+      })),
+      added_edges: removal.added_edges.map((e) => ({
+        src: e.src,
+        dst: e.dst,
+        type: e.type,
+      })),
+      updated_nodes: removal.updated_nodes.map((n) => n.id),
+      vector_removed: removal.vector_removed,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error: any) {
+    log(`Failed to delete node: ${error.message}`);
+    throw error;
+  }
+}
+
+async function handleNodeHistory(args: {
+  node_id: string;
+  workspace_path?: string;
+}) {
+  const { node_id, workspace_path } = args;
+  const workspacePath = workspace_path || process.cwd();
+
+  log(`Reading history of node ${node_id} in workspace: ${workspacePath}`);
+
+  try {
+    if (!(await isInitialized(workspacePath))) {
+      throw new Error(
+        "Workspace not initialized. Run gotn_index_workspace first."
+      );
+    }
+
+    const history = await getNodeHistory(workspacePath, node_id);
+    if (history.length === 0) {
+      throw new Error(`Node ${node_id} has no recorded history`);
+    }
+
+    const latest = history[history.length - 1];
+    log(`Found ${history.length} versions of node ${node_id}`);
+
+    return {
+      ok: true,
+      tool: "gotn_node_history",
+      message: `Node ${node_id} has ${history.length} recorded versions${
+        latest.node ? "" : " and has been deleted"
+      }`,
+      workspace_path: workspacePath,
+      node_id,
+      current_version: latest.version,
+      deleted: latest.node === null,
+      versions: history.map(({ node, ...version }) => version),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error: any) {
+    log(`Failed to read node history: ${error.message}`);
+    throw error;
+  }
+}
+
+async function handleWatch(args: {
+  action?: "start" | "stop" | "status";
+  roots?: string[];
+  workspace_path?: string;
+}) {
+  const { action = "start", roots, workspace_path } = args;
+  const workspacePath = workspace_path || process.cwd();
+
+  log(`Watcher ${action} in workspace: ${workspacePath}`);
+
+  try {
+    if (!(await isInitialized(workspacePath))) {
+      throw new Error(
+        "Workspace not initialized. Run gotn_index_workspace first."
+      );
+    }
+
+    const workspace = openWorkspace(workspacePath);
+    const watcher = workspace.getWatcher();
+
+    let status;
+    let message;
+    if (action === "start") {
+      status = watcher.start({
+        roots,
+        on_batch: (batch) =>
+          log(
+            `Watcher re-indexed ${batch.indexed_files.length} files, ` +
+              `${batch.stale_node_ids.length} nodes stale`
+          ),
+      });
+      message = `Watching ${status.roots.join(", ")}`;
+    } else if (action === "stop") {
+      status = await watcher.stop();
+      message = `Watcher stopped after ${status.batches} batches`;
+    } else {
+      status = watcher.status();
+      message = status.running
+        ? `Watching ${status.roots.join(", ")}`
+        : "Watcher not running";
+    }
+
+    log(message);
+
+    return {
+      ok: true,
+      tool: "gotn_watch",
+      message,
+      workspace_path: workspacePath,
+      ...status,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error: any) {
+    log(`Watcher ${action} failed: ${error.message}`);
+    throw error;
+  }
+}
+
 main().catch((error) => {
   log(`❌ Server error: ${error}`);
   process.exit(1);
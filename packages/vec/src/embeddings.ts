@@ -1,14 +1,19 @@
 /**
- * OpenAI Embeddings Interface and Implementation
+ * Embeddings Interface and Implementations (OpenAI and local)
  */
 
 import OpenAI from "openai";
+import { createHash } from "crypto";
 
 /**
  * Generic embeddings interface
  */
 export interface Embeddings {
+  // Model and dimension; vectors are only comparable within one id
+  readonly id: string;
   embed(text: string): Promise<number[]>;
+  // One vector per text, in order, with as few provider calls as possible
+  embedBatch(texts: string[]): Promise<number[][]>;
 }
 
 /**
@@ -17,6 +22,8 @@ export interface Embeddings {
 export class OpenAIEmbedder implements Embeddings {
   private client: OpenAI;
   private model = "text-embedding-3-small";
+  // Inputs per request; the API accepts up to 2048
+  private batchSize = 512;
 
   constructor(private dim = Number(process.env.GOTN_EMBED_DIM) || 1536) {
     const apiKey = process.env.OPENAI_API_KEY;
@@ -24,6 +31,10 @@ export class OpenAIEmbedder implements Embeddings {
     this.client = new OpenAI({ apiKey });
   }
 
+  get id(): string {
+    return `openai:${this.model}:${this.dim}`;
+  }
+
   /**
    * Retry helper for handling rate limits and transient errors
    */
@@ -57,20 +68,144 @@ export class OpenAIEmbedder implements Embeddings {
       })
     );
 
-    const v = res.data[0].embedding as number[];
+    return this.checkLength(res.data[0].embedding as number[]);
+  }
+
+  /**
+   * Generate embeddings for several texts, one request per batchSize texts
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const input = texts.slice(i, i + this.batchSize);
+      const res = await this.withRetry(() =>
+        this.client.embeddings.create({
+          model: this.model,
+          input,
+          dimensions: this.dim,
+        })
+      );
+
+      const data = [...res.data].sort((a, b) => a.index - b.index);
+      if (data.length !== input.length) {
+        throw new Error(
+          `Unexpected embedding count ${data.length} expected ${input.length}`
+        );
+      }
+      vectors.push(...data.map((d) => this.checkLength(d.embedding)));
+    }
+    return vectors;
+  }
+
+  private checkLength(v: number[]): number[] {
     if (!Array.isArray(v) || v.length !== this.dim) {
       throw new Error(
-        `Unexpected embedding length ${v.length} expected ${this.dim}`
+        `Unexpected embedding length ${v?.length} expected ${this.dim}`
       );
     }
     return v;
   }
 }
 
+/**
+ * 32-bit hash of a feature, used to pick its dimension and sign
+ */
+function hashFeature(feature: string): number {
+  return createHash("md5").update(feature).digest().readUInt32LE(0);
+}
+
+/**
+ * Offline embeddings: hashed word and character n-gram features
+ *
+ * Words, word bigrams and character trigrams of each word are hashed into a
+ * fixed number of dimensions (with a hashed sign so collisions cancel out
+ * instead of piling up), weighted by log term frequency and L2-normalized.
+ * Texts sharing vocabulary get a high cosine similarity. No model, network
+ * or API key is needed, and the same text always yields the same vector.
+ */
+export class LocalEmbedder implements Embeddings {
+  constructor(private dim = Number(process.env.GOTN_EMBED_DIM) || 1536) {
+    if (!Number.isInteger(dim) || dim <= 0) {
+      throw new Error(`Invalid embedding dimension ${dim}`);
+    }
+  }
+
+  get id(): string {
+    return `local:ngram:${this.dim}`;
+  }
+
+  /**
+   * Features of the text with their counts
+   */
+  private features(text: string): Map<string, number> {
+    const words = text
+      // Split camelCase so identifiers share words with prose
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+
+    const counts = new Map<string, number>();
+    const add = (feature: string) =>
+      counts.set(feature, (counts.get(feature) || 0) + 1);
+
+    words.forEach((word, i) => {
+      add(`w:${word}`);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`);
+      const padded = `<${word}>`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`);
+      }
+    });
+    return counts;
+  }
+
+  /**
+   * Generate embedding for the given text
+   */
+  async embed(text: string): Promise<number[]> {
+    const v = new Array<number>(this.dim).fill(0);
+
+    for (const [feature, count] of this.features(text)) {
+      const h = hashFeature(feature);
+      // Trigrams are many per word; damp them so whole words dominate
+      const weight =
+        (1 + Math.log(count)) * (feature.startsWith("c:") ? 0.5 : 1);
+      v[h % this.dim] += h & 0x80000000 ? -weight : weight;
+    }
+
+    const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+    return norm === 0 ? v : v.map((x) => x / norm);
+  }
+
+  /**
+   * Generate embeddings for several texts
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map((text) => this.embed(text)));
+  }
+}
+
 /**
  * Factory function to get an embedder instance
+ *
+ * GOTN_EMBED_PROVIDER picks "openai" or "local"; without it OpenAI is used
+ * when OPENAI_API_KEY is set, otherwise the local embedder
  */
 export function getEmbedder(): Embeddings {
   const dim = Number(process.env.GOTN_EMBED_DIM) || 1536;
-  return new OpenAIEmbedder(dim);
+
+  switch (process.env.GOTN_EMBED_PROVIDER) {
+    case "openai":
+      return new OpenAIEmbedder(dim);
+    case "local":
+      return new LocalEmbedder(dim);
+  }
+
+  if (process.env.OPENAI_API_KEY) {
+    return new OpenAIEmbedder(dim);
+  }
+
+  console.warn("OPENAI_API_KEY not set, using local embeddings");
+  return new LocalEmbedder(dim);
 }
@@ -19,6 +19,11 @@ export interface VectorStore {
     k: number,
     projectId?: string
   ): Promise<Array<{ id: string; score: number; projectId?: string }>>;
+
+  /**
+   * Remove a vector; removing an unknown id is not an error
+   */
+  delete(id: string, projectId?: string): Promise<void>;
 }
 
 /**
@@ -96,6 +101,14 @@ export class MemoryVectorStore implements VectorStore {
     });
   }
 
+  /**
+   * Remove a vector
+   */
+  async delete(id: string, projectId?: string): Promise<void> {
+    const key = projectId ? `${projectId}:${id}` : id;
+    this.vectors.delete(key);
+  }
+
   /**
    * Search for similar vectors using cosine similarity
    */
@@ -215,6 +228,13 @@ export class ZillizVectorStore implements VectorStore {
     await upsertVector(this.client, id, vec, projectId);
   }
 
+  async delete(id: string, projectId: string = "default"): Promise<void> {
+    await this.ensureInitialized();
+
+    const { deleteVector } = await import("./zilliz.js");
+    await deleteVector(this.client, id, projectId);
+  }
+
   async search(
     vec: number[],
     k: number,
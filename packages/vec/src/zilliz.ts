@@ -137,6 +137,32 @@ export async function upsertVector(
   console.log(`Vector ${id} upserted successfully`);
 }
 
+/**
+ * Delete a vector, optionally only within one project
+ */
+export async function deleteVector(
+  client: MilvusClient,
+  id: string,
+  projectId?: string
+): Promise<void> {
+  const collectionName = "gotn_nodes";
+  const quote = (value: string) => `"${value.replace(/["\\]/g, "\\$&")}"`;
+
+  console.log(`Deleting vector: ${id} (project: ${projectId || "any"})`);
+
+  let filter = `id == ${quote(id)}`;
+  if (projectId !== undefined) {
+    filter += ` && project_id == ${quote(projectId)}`;
+  }
+
+  await client.delete({
+    collection_name: collectionName,
+    filter,
+  });
+
+  console.log(`Vector ${id} deleted successfully`);
+}
+
 /**
  * Search for similar vectors using KNN
  */
@@ -1,9 +1,21 @@
 /**
- * Embeddings tests - smoke tests for OpenAI embeddings
+ * Embeddings tests - smoke tests for OpenAI embeddings, local embeddings
+ * and the embedder factory
  */
 
-import { describe, it, expect, beforeAll } from "vitest";
-import { getEmbedder, OpenAIEmbedder } from "../src/embeddings.js";
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterEach,
+} from "vitest";
+import {
+  getEmbedder,
+  LocalEmbedder,
+  OpenAIEmbedder,
+} from "../src/embeddings.js";
 
 describe("OpenAI Embeddings", () => {
   const expectedDim = Number(process.env.GOTN_EMBED_DIM) || 1536;
@@ -78,6 +90,17 @@ describe("OpenAI Embeddings", () => {
     });
   }, 30000);
 
+  it("should embed a batch with one vector per text in order", async () => {
+    const embedder = getEmbedder();
+    const texts = ["hello world", "goodbye world"];
+
+    const batch = await embedder.embedBatch(texts);
+
+    expect(batch.length).toBe(2);
+    batch.forEach((embedding) => expect(embedding.length).toBe(expectedDim));
+    expect(batch[0]).not.toEqual(batch[1]);
+  }, 30000);
+
   it("should respect custom dimension if provided", async () => {
     if (expectedDim !== 1536) {
       const embedder = new OpenAIEmbedder(expectedDim);
@@ -87,3 +110,117 @@ describe("OpenAI Embeddings", () => {
     }
   }, 30000);
 });
+
+describe("Local Embeddings", () => {
+  const cosine = (a: number[], b: number[]) =>
+    a.reduce((sum, x, i) => sum + x * b[i], 0);
+
+  it("should return normalized vectors of the configured dimension", async () => {
+    const embedder = new LocalEmbedder(256);
+    const embedding = await embedder.embed("Set up PostgreSQL database");
+
+    expect(embedding.length).toBe(256);
+    expect(cosine(embedding, embedding)).toBeCloseTo(1, 6);
+    embedding.forEach((num) => {
+      expect(Number.isFinite(num)).toBe(true);
+    });
+  });
+
+  it("should be deterministic", async () => {
+    const text = "Create user authentication endpoints";
+
+    const embedding1 = await new LocalEmbedder(128).embed(text);
+    const embedding2 = await new LocalEmbedder(128).embed(text);
+
+    expect(embedding1).toEqual(embedding2);
+  });
+
+  it("should score related text above unrelated text", async () => {
+    const embedder = new LocalEmbedder();
+
+    const query = await embedder.embed("create database schema");
+    const related = await embedder.embed("Set up the database schema tables");
+    const unrelated = await embedder.embed("Style the login page button");
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it("should split camelCase identifiers into words", async () => {
+    const embedder = new LocalEmbedder();
+
+    const identifier = await embedder.embed("formatTitle");
+    const prose = await embedder.embed("format the title");
+    const other = await embedder.embed("parse config");
+
+    expect(cosine(identifier, prose)).toBeGreaterThan(
+      cosine(identifier, other)
+    );
+  });
+
+  it("should embed a batch in order, matching single embeddings", async () => {
+    const embedder = new LocalEmbedder(128);
+    const texts = ["set up database", "write tests", "set up database"];
+
+    const batch = await embedder.embedBatch(texts);
+
+    expect(batch.length).toBe(3);
+    for (const [i, text] of texts.entries()) {
+      expect(batch[i]).toEqual(await embedder.embed(text));
+    }
+    expect(await embedder.embedBatch([])).toEqual([]);
+  });
+
+  it("should identify the model and dimension", () => {
+    expect(new LocalEmbedder(128).id).toBe("local:ngram:128");
+    expect(new LocalEmbedder(256).id).not.toBe(new LocalEmbedder(128).id);
+  });
+
+  it("should return a zero vector for empty text", async () => {
+    const embedding = await new LocalEmbedder(64).embed("");
+
+    expect(embedding.length).toBe(64);
+    expect(embedding.every((num) => num === 0)).toBe(true);
+  });
+
+  it("should reject an invalid dimension", () => {
+    expect(() => new LocalEmbedder(0)).toThrow("Invalid embedding dimension");
+  });
+});
+
+describe("Embedder Factory", () => {
+  let originalProvider: string | undefined;
+  let originalKey: string | undefined;
+
+  beforeEach(() => {
+    originalProvider = process.env.GOTN_EMBED_PROVIDER;
+    originalKey = process.env.OPENAI_API_KEY;
+  });
+
+  afterEach(() => {
+    if (originalProvider === undefined) delete process.env.GOTN_EMBED_PROVIDER;
+    else process.env.GOTN_EMBED_PROVIDER = originalProvider;
+    if (originalKey === undefined) delete process.env.OPENAI_API_KEY;
+    else process.env.OPENAI_API_KEY = originalKey;
+  });
+
+  it("should return LocalEmbedder when GOTN_EMBED_PROVIDER is local", () => {
+    process.env.GOTN_EMBED_PROVIDER = "local";
+    process.env.OPENAI_API_KEY = "sk-test";
+
+    expect(getEmbedder()).toBeInstanceOf(LocalEmbedder);
+  });
+
+  it("should fall back to LocalEmbedder without an API key", () => {
+    delete process.env.GOTN_EMBED_PROVIDER;
+    delete process.env.OPENAI_API_KEY;
+
+    expect(getEmbedder()).toBeInstanceOf(LocalEmbedder);
+  });
+
+  it("should return OpenAIEmbedder when an API key is set", () => {
+    delete process.env.GOTN_EMBED_PROVIDER;
+    process.env.OPENAI_API_KEY = "sk-test";
+
+    expect(getEmbedder()).toBeInstanceOf(OpenAIEmbedder);
+  });
+});
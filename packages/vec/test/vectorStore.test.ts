@@ -41,6 +41,35 @@ describe("MemoryVectorStore", () => {
 
       expect(store.size()).toBe(2); // Same ID, different projects
     });
+
+    it("should delete vectors", async () => {
+      await store.upsert("vec1", [1, 0, 0]);
+      await store.upsert("vec2", [0, 1, 0]);
+
+      await store.delete("vec1");
+
+      expect(store.size()).toBe(1);
+      expect(store.getAllIds()).toEqual(["vec2"]);
+      const results = await store.search([1, 0, 0], 5);
+      expect(results.map((r) => r.id)).toEqual(["vec2"]);
+    });
+
+    it("should only delete within the given project", async () => {
+      await store.upsert("vec1", [1, 0, 0], "project1");
+      await store.upsert("vec1", [0, 1, 0], "project2");
+
+      await store.delete("vec1", "project1");
+
+      expect(await store.search([1, 0, 0], 5, "project1")).toHaveLength(0);
+      expect(await store.search([1, 0, 0], 5, "project2")).toHaveLength(1);
+    });
+
+    it("should ignore deleting unknown ids", async () => {
+      await store.upsert("vec1", [1, 0, 0]);
+
+      await expect(store.delete("missing")).resolves.toBeUndefined();
+      expect(store.size()).toBe(1);
+    });
   });
 
   describe("Input Validation", () => {
@@ -9,6 +9,7 @@ import {
   connectZilliz,
   ensureCollection,
   upsertVector,
+  deleteVector,
   searchKnn,
   getCollectionStats,
   checkConnection,
@@ -160,6 +161,19 @@ describe("Zilliz Client", () => {
       expect(projectIds.size).toBeGreaterThan(1); // Should have multiple projects
     }, 30000);
 
+    it("should delete a vector from its project", async () => {
+      if (!hasZillizCredentials || !client) return;
+
+      await upsertVector(client, "test_vec_delete", [0, 0, 0, 1], "test_project");
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      await deleteVector(client, "test_vec_delete", "test_project");
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      const results = await searchKnn(client, [0, 0, 0, 1], 10, "test_project");
+      expect(results.map(r => r.id)).not.toContain("test_vec_delete");
+    }, 30000);
+
     it("should handle empty search results gracefully", async () => {
       if (!hasZillizCredentials || !client) return;
 
@@ -6,12 +6,73 @@
 
 import {
   initStore,
-  writeGraph,
+  addNode,
   readGraph,
+  readJournal,
   appendJournal,
 } from "../packages/core/dist/index.js";
 import * as path from "path";
 import * as fs from "fs/promises";
+import { fork, spawn } from "child_process";
+import { fileURLToPath } from "url";
+
+const PROCESS_COUNT = 4;
+const WRITES_PER_PROCESS = 15;
+
+function testNode(id: string, createdBy: string) {
+  return {
+    id,
+    kind: "test",
+    summary: `Test node ${id}`,
+    prompt_text: `This is test node ${id}`,
+    children: [],
+    requires: [],
+    produces: [`output-${id}`],
+    tags: [id],
+    success_criteria: [`node ${id} completes`],
+    guards: [],
+    artifacts: { files: [] },
+    status: "ready" as const,
+    provenance: {
+      created_by: createdBy,
+      source: "test",
+    },
+    version: 1,
+  };
+}
+
+/**
+ * Child process body for the multi-process test: interleave node and
+ * journal writes against the shared workspace
+ */
+async function runWriter(workspace: string, writer: number) {
+  for (let i = 0; i < WRITES_PER_PROCESS; i++) {
+    await addNode(
+      workspace,
+      testNode(`p${writer}-node-${i}`, `writer-${writer}`)
+    );
+    await appendJournal(workspace, {
+      event: "workspace_initialized",
+      data: { writer, index: i },
+    });
+  }
+}
+
+function runChild(workspace: string, writer: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = fork(fileURLToPath(import.meta.url), [
+      "--writer",
+      workspace,
+      String(writer),
+    ]);
+    child.on("error", reject);
+    child.on("exit", (code) =>
+      code === 0
+        ? resolve()
+        : reject(new Error(`Writer ${writer} exited with code ${code}`))
+    );
+  });
+}
 
 async function testConcurrentWrites() {
   console.log("🧪 Testing Concurrent Writes...");
@@ -37,30 +98,10 @@ async function testConcurrentWrites() {
   for (let i = 0; i < writeCount; i++) {
     promises.push(
       (async (index: number) => {
-        const graph = await readGraph(testWorkspace);
-
-        // Add a test node
-        graph.nodes.push({
-          id: `test-node-${index}`,
-          kind: "test",
-          summary: `Test node ${index}`,
-          prompt_text: `This is test node ${index}`,
-          children: [],
-          requires: [],
-          produces: [`output-${index}`],
-          tags: [`test-${index}`],
-          success_criteria: [`node ${index} completes`],
-          guards: [],
-          artifacts: { files: [] },
-          status: "ready",
-          provenance: {
-            created_by: "concurrent-test",
-            source: "test",
-          },
-          version: 1,
-        });
-
-        await writeGraph(testWorkspace, graph);
+        await addNode(
+          testWorkspace,
+          testNode(`test-node-${index}`, "concurrent-test")
+        );
         console.log(`  ✅ Write ${index} completed`);
       })(i)
     );
@@ -89,9 +130,9 @@ async function testConcurrentWrites() {
   for (let i = 0; i < journalWriteCount; i++) {
     journalPromises.push(
       appendJournal(testWorkspace, {
-        event: "test_event",
+        event: "workspace_initialized",
         data: { index: i, message: `Test event ${i}` },
-      })
+      }).then(() => undefined)
     );
   }
 
@@ -104,8 +145,8 @@ async function testConcurrentWrites() {
 
   console.log(`Journal has ${journalLines.length} entries`);
 
-  // Should have: 1 init entry + journalWriteCount test entries
-  const expectedJournalEntries = 1 + journalWriteCount;
+  // Should have: one add_node entry per node + journalWriteCount test entries
+  const expectedJournalEntries = writeCount + journalWriteCount;
   if (journalLines.length === expectedJournalEntries) {
     console.log("✅ All concurrent journal writes succeeded");
   } else {
@@ -118,7 +159,7 @@ async function testConcurrentWrites() {
   let testEventCount = 0;
   for (const line of journalLines) {
     const entry = JSON.parse(line);
-    if (entry.event === "test_event") {
+    if (entry.event === "workspace_initialized") {
       testEventCount++;
     }
 
@@ -135,13 +176,95 @@ async function testConcurrentWrites() {
     );
   }
 
+  // Test 3: Writers in separate processes
+  console.log("\n🔀 Test 3: Multi-process writers");
+
+  await Promise.all(
+    Array.from({ length: PROCESS_COUNT }, (_, writer) =>
+      runChild(testWorkspace, writer)
+    )
+  );
+
+  const sharedGraph = await readGraph(testWorkspace);
+  const expectedNodes = writeCount + PROCESS_COUNT * WRITES_PER_PROCESS;
+  if (sharedGraph.nodes.length !== expectedNodes) {
+    throw new Error(
+      `Expected ${expectedNodes} nodes after multi-process writes, got ${sharedGraph.nodes.length}`
+    );
+  }
+  console.log(`✅ Graph has all ${expectedNodes} nodes`);
+
+  const entries = await readJournal(testWorkspace);
+  const expectedEntries =
+    expectedJournalEntries + PROCESS_COUNT * WRITES_PER_PROCESS * 2;
+  if (entries.length !== expectedEntries) {
+    throw new Error(
+      `Expected ${expectedEntries} journal entries, got ${entries.length}`
+    );
+  }
+
+  // Sequence numbers must be unique and gapless across processes
+  const seqs = entries.map((e) => e.seq);
+  if (!seqs.every((seq, i) => seq === i + 1)) {
+    throw new Error(`Journal sequence numbers are not 1..${entries.length}`);
+  }
+  const lastNodeSeq = entries.filter((e) => e.event === "add_node").pop()?.seq;
+  if (sharedGraph.last_applied_seq !== lastNodeSeq) {
+    throw new Error(
+      `graph.json last_applied_seq ${sharedGraph.last_applied_seq} does not match the journal`
+    );
+  }
+  console.log(
+    `✅ Journal has ${entries.length} entries with sequence 1..${entries.length}`
+  );
+
+  const locksDir = path.join(testWorkspace, ".gotn", "locks");
+  const leftover = (await fs.readdir(locksDir)).filter((f) =>
+    f.endsWith(".lock")
+  );
+  if (leftover.length > 0) {
+    throw new Error(`Lock files left behind: ${leftover.join(", ")}`);
+  }
+  console.log("✅ All locks released");
+
+  // Test 4: A lock left by a dead process is treated as stale
+  console.log("\n🧟 Test 4: Stale lock from a dead process");
+
+  const deadPid = await new Promise<number>((resolve, reject) => {
+    const child = spawn(process.execPath, ["-e", ""]);
+    child.on("error", reject);
+    child.on("exit", () => resolve(child.pid!));
+  });
+  await fs.writeFile(
+    path.join(locksDir, "graph.write.lock"),
+    JSON.stringify({
+      pid: deadPid,
+      hostname: (await import("os")).hostname(),
+      created_at: new Date().toISOString(),
+      mode: "write",
+    })
+  );
+
+  const started = Date.now();
+  await addNode(testWorkspace, testNode("after-stale-lock", "concurrent-test"));
+  console.log(
+    `✅ Stale lock from pid ${deadPid} broken after ${Date.now() - started}ms`
+  );
+
   console.log("\n🎉 All concurrent write tests passed!");
 
   // Clean up
   await fs.rm(testWorkspace, { recursive: true, force: true });
 }
 
-testConcurrentWrites().catch((error) => {
-  console.error("❌ Concurrent write test failed:", error);
-  process.exit(1);
-});
+if (process.argv[2] === "--writer") {
+  runWriter(process.argv[3], parseInt(process.argv[4], 10)).catch((error) => {
+    console.error(`❌ Writer ${process.argv[4]} failed:`, error);
+    process.exit(1);
+  });
+} else {
+  testConcurrentWrites().catch((error) => {
+    console.error("❌ Concurrent write test failed:", error);
+    process.exit(1);
+  });
+}
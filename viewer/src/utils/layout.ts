@@ -17,14 +17,17 @@ export function computeLayout(
   return { positions, layers, hasCycle };
 }
 
+/**
+ * Layer nodes by hard dependencies. Hard edges point from producer (src) to
+ * consumer (dst), the same convention as @gotn/core; derived_from edges are
+ * structural and do not order execution.
+ */
 export function topoSortHardEdges(
   nodes: RawNode[],
   edges: RawEdge[]
 ): { layers: string[][]; hasCycle: boolean } {
   const nodeIds = new Set(nodes.map((n) => n.id));
-  const hardEdges = edges.filter(
-    (e) => !e.type || e.type === "hard_requires" || e.type === "derived_from"
-  );
+  const hardEdges = edges.filter((e) => !e.type || e.type === "hard_requires");
 
   // Build adjacency list and in-degree count
   const adjList = new Map<string, Set<string>>();